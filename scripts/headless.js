@@ -0,0 +1,103 @@
+import * as esbuild from "esbuild"
+import * as fs from "fs"
+import * as os from "os"
+import * as path from "path"
+import { fileURLToPath, pathToFileURL } from "url"
+
+// Get dirname in ESM
+const __filename = fileURLToPath(import.meta.url)
+const __dirname = path.dirname(__filename)
+
+const rootDir = path.resolve(__dirname, "..")
+const srcDir = path.join(rootDir, "src")
+let bundleCount = 0
+
+/**
+ * Bundle the Phaser-free game systems for Node and import them
+ * GameSettingsLoader picks a profile from window.location, so it is swapped for the
+ * Remix or dgen1 settings file directly
+ */
+export async function loadGameSystems({ dgen1 = false } = {}) {
+  return loadModules(`
+    export { default as GameSettings } from "./config/GameSettingsLoader"
+    export { GameRandom, SeededRandom } from "./systems/SeededRandom"
+    export { LevelManager } from "./systems/LevelManager"
+    export { EnemySpawningSystem, EnemyType } from "./systems/EnemySpawningSystem"
+    export { LevelDefinitions } from "./systems/LevelDefinition"
+    export { LevelGenerator } from "./systems/LevelGenerator"
+    export { LevelValidator } from "./systems/LevelValidator"
+    export { CollectibleSpawningSystem } from "./systems/CollectibleSpawningSystem"
+    export { ChestLoot } from "./systems/ChestLoot"
+    export { BalanceSimulator } from "./systems/BalanceSimulator"
+    export { Leaderboards } from "./systems/Leaderboard"
+    export { ScoreAttestationManager } from "./systems/ScoreAttestation"
+    export { ScoringSystem } from "./systems/ScoringSystem"
+    export { ReplayManager } from "./systems/ReplaySystem"
+  `, { dgen1 })
+}
+
+/**
+ * Bundle any entry (paths relative to src/) for Node and import it - the tests use this for modules
+ * loadGameSystems doesn't export. Modules that touch Phaser need a global Phaser in place first
+ */
+export async function loadModules(entry, { dgen1 = false } = {}) {
+  const settingsFile = path.join(srcDir, "config", dgen1 ? "GameSettings.dgen1.ts" : "GameSettings.ts")
+  const outfile = path.join(os.tmpdir(), `bizarre-underground-headless-${process.pid}-${bundleCount++}.mjs`)
+
+  await esbuild.build({
+    stdin: { contents: entry, resolveDir: srcDir, loader: "ts" },
+    bundle: true,
+    platform: "node",
+    format: "esm",
+    target: ["node18"],
+    // ScoreAttestation pulls in ethers, whose CommonJS dependencies require Node built-ins - ESM bundles have no require
+    banner: { js: 'import { createRequire } from "module"; const require = createRequire(import.meta.url);' },
+    outfile,
+    logLevel: "warning",
+    plugins: [{
+      name: "headless-game-settings",
+      setup(build) {
+        build.onResolve({ filter: /GameSettingsLoader$/ }, () => ({ path: settingsFile }))
+        // dgen1's wallet layer (Web3Utils and the Reown SDK) is only imported once a wallet is set up, which
+        // never happens in Node - leave that import out of the bundle instead of resolving the SDK
+        build.onResolve({ filter: /\/Web3Utils$/ }, args => args.kind === "dynamic-import" ? { path: args.path, external: true } : undefined)
+      }
+    }]
+  })
+
+  try {
+    return await import(pathToFileURL(outfile).href)
+  } finally {
+    fs.rmSync(outfile, { force: true })
+  }
+}
+
+/**
+ * Read "--name value" / "--flag" command line options
+ */
+export function parseArgs(argv, defaults) {
+  const options = { ...defaults }
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (!arg.startsWith("--")) continue
+    const key = arg.slice(2)
+    const next = argv[i + 1]
+    if (next === undefined || next.startsWith("--")) {
+      options[key] = true
+    } else {
+      options[key] = next
+      i++
+    }
+  }
+  return options
+}
+
+/**
+ * Parse a level range like "1-50" or "7"
+ */
+export function parseLevelRange(range) {
+  const [first, last] = String(range).split("-").map(Number)
+  const levels = []
+  for (let level = first; level <= (last || first); level++) levels.push(level)
+  return levels
+}
@@ -0,0 +1,211 @@
+import * as fs from "fs"
+import * as http from "http"
+import { loadGameSystems, parseArgs } from "./headless.js"
+
+/**
+ * Reference leaderboard server for development - the API HttpLeaderboardProvider talks to
+ * (see src/systems/Leaderboard.ts). Keeps each player's best run per board, in memory or in a JSON file
+ *
+ *   npm run leaderboard-server -- [--port 8787] [--file leaderboard.json] [--require-signatures] [--max-age 15] [--dgen1]
+ *
+ *   POST /boards/:board/scores             { playerId, name, score, level, enemies, gems, attestation? } -> entry with rank
+ *   GET  /boards/:board/top?limit=10       -> entries
+ *   GET  /boards/:board/around/:id?range=2 -> entries
+ *
+ * Boards are "normal", "beast" and "daily-YYYY-MM-DD". Then start the game with ?leaderboard=http://localhost:8787
+ * Scores with a wallet-signed attestation are checked against it and marked verified; --require-signatures
+ * turns away unsigned scores. Attestations finished more than --max-age minutes ago (or in the future) are
+ * stale, and each one is accepted once - by player, seed and finishedAt. --dgen1 loads the dgen1 settings
+ * instead of the Remix ones
+ */
+const options = parseArgs(process.argv.slice(2), {
+  port: 8787,
+  file: false,
+  "require-signatures": false,
+  "max-age": 15,
+  dgen1: false
+})
+
+const { Leaderboards, ScoreAttestationManager } = await loadGameSystems({ dgen1: options.dgen1 })
+
+const BOARD_PATTERN = /^(normal|beast|daily-\d{4}-\d{2}-\d{2})$/
+const MAX_LIMIT = 100
+const MAX_BODY = 64 * 1024 // Room for a signed attestation
+const MAX_AGE_MS = Number(options["max-age"]) * 60 * 1000
+const CLOCK_SKEW_MS = 60 * 1000 // A player's clock running a little fast isn't a future attestation
+
+// board -> playerId -> best entry (without rank)
+const boards = options.file && fs.existsSync(options.file)
+  ? JSON.parse(fs.readFileSync(options.file, "utf8"))
+  : {}
+
+// Attestations already accepted, so the same signed run can't be posted twice - keys expire with the
+// freshness window, and stored entries seed it so a restart doesn't reopen the window for them
+const usedAttestations = new Map() // key -> finishedAt
+
+function attestationKey(summary) {
+  return `${String(summary.player).toLowerCase()}:${summary.seed}:${summary.finishedAt}`
+}
+
+function forgetExpiredAttestations(now) {
+  for (const [key, finishedAt] of usedAttestations) {
+    if (finishedAt < now - MAX_AGE_MS) usedAttestations.delete(key)
+  }
+}
+
+for (const players of Object.values(boards)) {
+  for (const { attestation } of Object.values(players)) {
+    if (attestation?.summary) usedAttestations.set(attestationKey(attestation.summary), attestation.summary.finishedAt)
+  }
+}
+
+/**
+ * Why a verified attestation can't be accepted now - null when it's fresh and hasn't been used
+ */
+function checkFreshness(summary, now) {
+  const finishedAt = summary.finishedAt
+  if (!Number.isFinite(finishedAt)) return "Missing finishedAt"
+  if (finishedAt > now + CLOCK_SKEW_MS) return "Finished in the future"
+  if (finishedAt < now - MAX_AGE_MS) return "Too old"
+
+  forgetExpiredAttestations(now)
+  if (usedAttestations.has(attestationKey(summary))) return "Already submitted"
+  return null
+}
+
+function save() {
+  if (options.file) fs.writeFileSync(options.file, JSON.stringify(boards, null, 2))
+}
+
+// Attestations stay on the server - responses only say whether a score was verified
+function getRanked(board) {
+  return Leaderboards.rank(Object.values(boards[board] || {}).map(({ attestation, ...entry }) => entry))
+}
+
+function clampNumber(value, fallback, max) {
+  if (value === null || value === "") return fallback // Number() would read a missing parameter as 0
+  const number = Math.floor(Number(value))
+  return Number.isFinite(number) && number >= 0 ? Math.min(number, max) : fallback
+}
+
+/**
+ * Check a posted score - returns the cleaned submission or null
+ */
+function readSubmission(body) {
+  const isCount = value => Number.isInteger(value) && value >= 0
+  if (!body || typeof body.playerId !== "string" || body.playerId.length === 0 || body.playerId.length > 64) return null
+  if (![body.score, body.level, body.enemies, body.gems].every(isCount)) return null
+
+  return {
+    attestation: body.attestation,
+    playerId: body.playerId,
+    name: typeof body.name === "string" && body.name.trim() ? body.name.trim().slice(0, 16) : Leaderboards.getDefaultName(body.playerId),
+    score: body.score,
+    level: body.level,
+    enemies: body.enemies,
+    gems: body.gems,
+    ...(Number.isInteger(body.practiceStart) && body.practiceStart > 1 ? { practiceStart: body.practiceStart } : {})
+  }
+}
+
+// The game is served from the Vite dev server, so every response allows cross-origin requests
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type"
+}
+
+function send(res, status, data) {
+  res.writeHead(status, { ...CORS_HEADERS, "Content-Type": "application/json" })
+  res.end(JSON.stringify(data))
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = ""
+    req.on("data", chunk => {
+      body += chunk
+      if (body.length > MAX_BODY) {
+        reject(new Error("Body too large"))
+        req.destroy()
+      }
+    })
+    req.on("end", () => resolve(body))
+    req.on("error", reject)
+  })
+}
+
+async function handle(req, res) {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, CORS_HEADERS)
+    return res.end()
+  }
+
+  const url = new URL(req.url, "http://localhost")
+  const [, root, board, action, playerId] = url.pathname.split("/").map(decodeURIComponent)
+  if (root !== "boards" || !BOARD_PATTERN.test(board || "")) return send(res, 404, { error: "Unknown board" })
+
+  if (req.method === "POST" && action === "scores") {
+    let submission
+    try {
+      submission = readSubmission(JSON.parse(await readBody(req)))
+    } catch (e) {
+      submission = null
+    }
+    if (!submission) return send(res, 400, { error: "Invalid score" })
+
+    // The signed summary must come from the submitting wallet and match the posted score
+    const { attestation, ...score } = submission
+    if (attestation) {
+      const check = ScoreAttestationManager.verify(attestation, {
+        player: score.playerId,
+        board,
+        score: score.score,
+        level: score.level
+      })
+      const reason = check.valid ? checkFreshness(attestation.summary, Date.now()) : check.reason
+      if (reason) {
+        console.warn(`🚫 ${board}: rejected score from ${score.playerId} - ${reason}`)
+        return send(res, 400, { error: `Invalid attestation: ${reason}` })
+      }
+      usedAttestations.set(attestationKey(attestation.summary), attestation.summary.finishedAt)
+    } else if (options["require-signatures"]) {
+      return send(res, 400, { error: "Signed attestation required" })
+    }
+    score.verified = !!attestation
+
+    const timestamp = Date.now()
+    const players = boards[board] = boards[board] || {}
+    const previous = players[score.playerId]
+    if (!previous || score.score > previous.score) {
+      players[score.playerId] = { ...score, attestation, timestamp }
+      save()
+    }
+
+    // A run that didn't beat the player's best still gets the place it would have had
+    const ranked = getRanked(board)
+    const rank = ranked.filter(entry => entry.playerId !== score.playerId && entry.score >= score.score).length + 1
+    console.log(`🏆 ${board}: ${score.name} scored ${score.score} (#${rank})`)
+    return send(res, 200, { ...score, timestamp, rank })
+  }
+
+  if (req.method === "GET" && action === "top") {
+    return send(res, 200, getRanked(board).slice(0, clampNumber(url.searchParams.get("limit"), 10, MAX_LIMIT)))
+  }
+
+  if (req.method === "GET" && action === "around" && playerId) {
+    const range = clampNumber(url.searchParams.get("range"), 2, MAX_LIMIT)
+    return send(res, 200, Leaderboards.sliceAround(getRanked(board), playerId, range))
+  }
+
+  send(res, 404, { error: "Not found" })
+}
+
+http.createServer((req, res) => {
+  handle(req, res).catch(error => {
+    console.warn("⚠️ Request failed:", error.message)
+    if (!res.headersSent) send(res, 500, { error: "Server error" })
+  })
+}).listen(Number(options.port), () => {
+  console.log(`🏆 Leaderboard server on http://localhost:${options.port}${options.file ? ` (saving to ${options.file})` : " (in memory)"}`)
+})
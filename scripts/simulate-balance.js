@@ -0,0 +1,100 @@
+import * as fs from "fs"
+import { loadGameSystems, parseArgs, parseLevelRange } from "./headless.js"
+
+/**
+ * Balance report - runs LevelManager, EnemySpawningSystem and the collectible rules for
+ * many seeds without rendering (see src/systems/BalanceSimulator.ts)
+ *
+ *   npm run simulate-balance -- --seeds 2000 --levels 1-50 [--start-seed 1] [--dgen1] [--floors] [--json report.json]
+ */
+const options = parseArgs(process.argv.slice(2), {
+  seeds: 1000,
+  "start-seed": 1,
+  levels: "1-50",
+  dgen1: false,
+  floors: false,
+  json: false
+})
+
+const { BalanceSimulator, EnemyType } = await loadGameSystems({ dgen1: options.dgen1 })
+
+const levels = parseLevelRange(options.levels)
+const startTime = Date.now()
+const report = BalanceSimulator.run(levels, Number(options.seeds), Number(options["start-seed"]))
+
+// Short column names for the enemy mix
+const ENEMY_COLUMNS = {
+  [EnemyType.CATERPILLAR]: "Cat",
+  [EnemyType.BLUE_CATERPILLAR]: "BCat",
+  [EnemyType.CHOMPER]: "Chmp",
+  [EnemyType.SNAIL]: "Snl",
+  [EnemyType.BEETLE]: "Btl",
+  [EnemyType.JUMPER]: "Jmp",
+  [EnemyType.REX]: "Rex",
+  [EnemyType.STALKER]: "Stk",
+  [EnemyType.BASEBLU]: "BBlu"
+}
+
+const pad = (value, width) => String(value).padStart(width)
+const percent = value => value ? `${Math.round(value * 100)}%` : "-"
+const fixed = (value, digits = 2) => value.toFixed(digits)
+
+console.log(`⚖️  Balance report for levels ${levels[0]}-${levels[levels.length - 1]} over ${report.seeds} seeds (${options.dgen1 ? "dgen1" : "remix"} settings)\n`)
+
+console.log("Enemy mix (share of all enemies spawned)")
+console.log(["  Lvl", ...Object.values(ENEMY_COLUMNS).map(name => pad(name, 5))].join(" "))
+report.levels.forEach(level => {
+  const mix = Object.keys(ENEMY_COLUMNS).map(type => pad(percent(level.enemyMix[type]), 5))
+  console.log([pad(level.levelNumber, 5), ...mix].join(" "))
+})
+
+console.log("\nDifficulty, points and collectibles")
+console.log([
+  "  Lvl", "Flrs", "Spd", "Max", "Enm/fl", "Diff avg", "  min-max", "  Points", " Enemy", " Pickup", " Chest",
+  "Coin/fl", "Gem/fl", "Chst/lvl", "PwrUp/lvl"
+].join(" "))
+report.levels.forEach(level => {
+  const perFloor = level.collectiblesPerFloor
+  const gems = (perFloor.blueCoin || 0) + (perFloor.diamond || 0)
+  const powerUps = [
+    "freeLife", "invincibilityPendant", "crystalBall", "magnet", "shield", "doubleJump", "timeFreeze", "cursedOrb", "cursedTealOrb"
+  ]
+    .reduce((sum, type) => sum + (perFloor[type] || 0), 0) * level.floorCount
+  const difficulty = level.difficultyPerFloor
+  console.log([
+    pad(`${level.levelNumber}${level.authored ? "*" : ""}`, 5),
+    pad(level.floorCount, 4),
+    pad(fixed(level.speedMultiplier), 4),
+    pad(level.maxEnemiesPerFloor, 3),
+    pad(fixed(level.enemiesPerFloor), 6),
+    pad(fixed(difficulty.average), 8),
+    pad(`${fixed(difficulty.min, 1)}-${fixed(difficulty.max, 1)}`, 9),
+    pad(Math.round(level.expectedPoints.total), 8),
+    pad(Math.round(level.expectedPoints.enemies), 6),
+    pad(Math.round(level.expectedPoints.collectibles), 7),
+    pad(Math.round(level.expectedPoints.chests), 6),
+    pad(fixed(perFloor.coin || 0), 7),
+    pad(fixed(gems), 6),
+    pad(fixed((perFloor.treasureChest || 0) * level.floorCount), 8),
+    pad(fixed(powerUps), 9)
+  ].join(" "))
+})
+
+if (options.floors) {
+  console.log("\nAverage difficulty per floor")
+  report.levels.forEach(level => {
+    console.log(`${pad(level.levelNumber, 5)}  ${level.difficultyPerFloor.byFloor.map(value => fixed(value, 1)).join(" ")}`)
+  })
+}
+
+if (report.levels.some(level => level.authored)) {
+  console.log("\n* authored level - counted once from its definition")
+}
+console.log(`\nPoints assume every enemy is defeated once (no combos) and every pickup is collected; chest contents are not included (npm run simulate-chests)`)
+console.log(`📊 Simulated in ${((Date.now() - startTime) / 1000).toFixed(1)}s`)
+
+if (options.json) {
+  const file = options.json === true ? "balance-report.json" : options.json
+  fs.writeFileSync(file, JSON.stringify(report, null, 2))
+  console.log(`💾 Full report written to ${file}`)
+}
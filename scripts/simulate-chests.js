@@ -0,0 +1,87 @@
+import * as fs from "fs"
+import { loadGameSystems, parseArgs } from "./headless.js"
+
+/**
+ * Chest loot report - opens chests against each chapter's loot table (see src/systems/ChestLoot.ts)
+ * and prints how often each tier turned up, how many epics the pity timer forced and the average drop
+ *
+ *   npm run simulate-chests -- --chests 10000 [--chapter storm] [--seed 1] [--verbose 20] [--json chests.json]
+ */
+const options = parseArgs(process.argv.slice(2), {
+  chests: 10000,
+  chapter: "all",
+  seed: 1,
+  verbose: false,
+  json: false
+})
+
+const { ChestLoot } = await loadGameSystems()
+
+const chapters = options.chapter === "all" ? Object.keys(ChestLoot.TABLES) : [options.chapter]
+const unknown = chapters.filter(chapter => !ChestLoot.TABLES[chapter])
+if (unknown.length > 0) {
+  console.error(`❌ Unknown chapter "${unknown.join(", ")}" - expected one of ${Object.keys(ChestLoot.TABLES).join(", ")}`)
+  process.exit(1)
+}
+
+const chests = Number(options.chests)
+const pad = (value, width) => String(value).padStart(width)
+const percent = value => `${(value * 100).toFixed(1)}%`
+const describeDrop = drop => ChestLoot.DROP_ORDER
+  .filter(type => drop[type])
+  .map(type => `${type} x${drop[type]}`)
+  .join(", ") || "nothing"
+
+// Short column names for the items
+const ITEM_COLUMNS = {
+  coin: "Coin",
+  blueCoin: "Blue",
+  diamond: "Diam",
+  freeLife: "Life",
+  invincibilityPendant: "Pend",
+  crystalBall: "Ball",
+  magnet: "Magn",
+  shield: "Shld",
+  doubleJump: "DJmp",
+  timeFreeze: "Frz",
+  cursedOrb: "Curs",
+  cursedTealOrb: "CTeal"
+}
+
+console.log(`🎁 Chest loot report over ${chests} chests per chapter (seed ${options.seed})\n`)
+console.log([
+  "Chapter         ", " Common", "   Rare", "   Epic", "   Pity",
+  ...ChestLoot.DROP_ORDER.map(type => pad(ITEM_COLUMNS[type], 5))
+].join(" "))
+
+const report = {}
+chapters.forEach(chapter => {
+  const result = ChestLoot.simulate(chapter, chests, Number(options.seed))
+  report[chapter] = { tiers: result.tiers, pityEpics: result.pityEpics, items: result.items }
+
+  console.log([
+    chapter.padEnd(16),
+    pad(percent(result.tiers.purple / chests), 7),
+    pad(percent(result.tiers.teal / chests), 7),
+    pad(percent(result.tiers.yellow / chests), 7),
+    pad(result.pityEpics, 7),
+    ...ChestLoot.DROP_ORDER.map(type => pad(((result.items[type] || 0) / chests).toFixed(2), 5))
+  ].join(" "))
+
+  if (options.verbose) {
+    const count = options.verbose === true ? 10 : Number(options.verbose)
+    result.rolls.slice(0, count).forEach((roll, index) => {
+      const picks = roll.picks.map(pick => pick || "-").join(", ") || "none"
+      console.log(`    #${pad(index + 1, 3)} ${roll.tier.padEnd(6)}${roll.pity ? " (pity)" : "       "} picks: ${picks} -> ${describeDrop(roll.drop)}`)
+    })
+  }
+})
+
+console.log(`\nItem columns are the average number dropped per chest; Pity counts epics forced by the pity timer`)
+console.log(`Most any one chest can drop: ${describeDrop(ChestLoot.getMaxDrop())}`)
+
+if (options.json) {
+  const file = options.json === true ? "chest-report.json" : options.json
+  fs.writeFileSync(file, JSON.stringify(report, null, 2))
+  console.log(`💾 Full report written to ${file}`)
+}
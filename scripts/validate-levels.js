@@ -0,0 +1,119 @@
+import { loadGameSystems, parseArgs, parseLevelRange } from "./headless.js"
+
+/**
+ * Level solvability check - generates levels for many seeds without rendering and proves
+ * every door is reachable (see src/systems/LevelValidator.ts)
+ *
+ *   npm run validate-levels -- --seeds 5000 --levels 1-50 [--start-seed 1] [--dgen1] [--verbose]
+ *
+ * Beast Mode (51+) has no door - its first floors and the chunks GameScene adds above them as
+ * the player climbs are checked for a way up instead (--beast-chunks per seed)
+ */
+const options = parseArgs(process.argv.slice(2), {
+  seeds: 1000,
+  "start-seed": 1,
+  levels: "1-50",
+  dgen1: false,
+  verbose: false,
+  "beast-chunks": 10
+})
+
+const { GameSettings, GameRandom, LevelManager, LevelDefinitions, LevelGenerator, LevelValidator } =
+  await loadGameSystems({ dgen1: options.dgen1 })
+
+const seedCount = Number(options.seeds)
+const startSeed = Number(options["start-seed"])
+const levels = parseLevelRange(options.levels)
+const beastChunks = Number(options["beast-chunks"])
+const levelManager = new LevelManager()
+const validatorOptions = {
+  maxJumpTiles: LevelValidator.getMaxJumpTiles(GameSettings.game),
+  spawnX: Math.floor(GameSettings.game.floorWidth / 2)
+}
+
+console.log(`🪜 Validating levels ${levels[0]}-${levels[levels.length - 1]} over ${seedCount} seeds (${options.dgen1 ? "dgen1" : "remix"} settings, max jump ${validatorOptions.maxJumpTiles} tiles)`)
+
+const issueCounts = {}
+const unsolvable = []
+let checked = 0
+let failedBeforeRepair = 0
+let totalRepairs = 0
+const startTime = Date.now()
+
+function check(layout, checkOptions, rng, seed, level) {
+  const before = LevelValidator.validate(layout, checkOptions)
+  const { result, repairs } = LevelValidator.validateAndRepair(layout, checkOptions, rng)
+  checked++
+  totalRepairs += repairs
+
+  if (before.issues.length > 0) {
+    failedBeforeRepair++
+    before.issues.forEach(issue => {
+      const kind = issue.replace(/\d+/g, "#")
+      issueCounts[kind] = (issueCounts[kind] || 0) + 1
+    })
+  }
+
+  if (!result.solvable) {
+    unsolvable.push({ seed, level, issues: result.issues })
+    if (options.verbose) console.log(`❌ seed ${seed} level ${level}:`, result.issues)
+  }
+}
+
+for (let seed = startSeed; seed < startSeed + seedCount; seed++) {
+  GameRandom.setRunSeed(seed)
+
+  for (const level of levels) {
+    const config = levelManager.getLevelConfig(level)
+    if (config.authored) continue
+
+    GameRandom.beginLevel(level, false)
+    const rng = GameRandom.stream("layout")
+    const floorSpacing = GameSettings.game.floorSpacing || GameSettings.game.tileSize * 5
+    const layout = LevelGenerator.generateLayout(rng, {
+      floorWidth: GameSettings.game.floorWidth,
+      numFloors: config.isEndless
+        ? Math.max(20, Math.floor(GameSettings.canvas.height / floorSpacing))
+        : config.floorCount,
+      doorFloor: config.isEndless ? -1 : config.floorCount - 1,
+      isBonusLevel: false,
+      isEndless: config.isEndless
+    })
+    check(layout, validatorOptions, rng, seed, level)
+    if (!config.isEndless) continue
+
+    // Same as GameScene.generateNextFloors - each chunk starts where the last ladder arrives
+    let top = layout.floors[layout.floors.length - 1]
+    let arrivalX = (layout.ladders.get(layout.floors.length - 2) || [])[0]
+    for (let i = 0; i < beastChunks; i++) {
+      const chunk = LevelGenerator.generateChunk(rng, top, true, GameSettings.game.floorWidth, 5)
+      check(chunk, { ...validatorOptions, spawnX: arrivalX ?? validatorOptions.spawnX }, rng, seed, level)
+      top = chunk.floors[chunk.floors.length - 1]
+      arrivalX = (chunk.ladders.get(chunk.floors.length - 2) || [])[0]
+    }
+  }
+}
+
+console.log(`\n📊 ${checked} levels checked in ${((Date.now() - startTime) / 1000).toFixed(1)}s`)
+console.log(`   Needed repair: ${failedBeforeRepair} (${(failedBeforeRepair / Math.max(1, checked) * 100).toFixed(2)}%), ${totalRepairs} fixes applied`)
+Object.entries(issueCounts)
+  .sort((a, b) => b[1] - a[1])
+  .forEach(([kind, count]) => console.log(`   ${String(count).padStart(7)}  ${kind}`))
+
+// Authored levels are checked as-is - they are never repaired at runtime
+const authored = LevelDefinitions.getAll()
+authored.forEach(definition => {
+  const result = LevelValidator.validate(LevelGenerator.fromDefinition(definition, GameSettings.game.floorWidth), validatorOptions)
+  const status = result.issues.length === 0 ? "✅" : "❌"
+  console.log(`${status} Authored level ${definition.levelNumber}${definition.name ? ` "${definition.name}"` : ""}`)
+  result.issues.forEach(issue => console.log(`     ${issue}`))
+  if (!result.solvable) unsolvable.push({ seed: "authored", level: definition.levelNumber, issues: result.issues })
+})
+
+if (unsolvable.length > 0) {
+  console.log(`\n❌ ${unsolvable.length} level(s) still unsolvable - reproduce with ?seed=<seed>:`)
+  unsolvable.slice(0, 20).forEach(entry => console.log(`   seed ${entry.seed} level ${entry.level}: ${entry.issues.join("; ")}`))
+  process.exit(1)
+}
+
+console.log("\n✅ Every door is reachable")
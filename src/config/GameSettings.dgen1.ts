@@ -23,6 +23,11 @@ export const GameSettings = {
     jumpVelocity: -350,
   },
   
+  simulation: {
+    stepRate: 60,         // Gameplay steps per second, independent of the display refresh rate
+    maxStepsPerFrame: 5,  // Drop time after very long frames instead of spiralling
+  },
+  
   scoring: {
     enemyDefeat: 100,
     coinCollect: 50,
@@ -36,12 +41,12 @@ export const GameSettings = {
     gameAreaHeight: 560,  // Main game viewport (720 - 80 - 80)
   },
   
-  // Touch control positions for square layout
+  // Default touch control layout for square layout (centres in canvas pixels)
+  // Players can move, resize and fade these from Menu -> Controls -> TOUCH (see TouchLayout)
   touchControls: {
-    dpadPosition: { x: 100, y: 640 },
-    dpadSize: 60,  // Slightly smaller for square layout
-    jumpPosition: { x: 620, y: 640 },
-    jumpSize: 60,
+    dpad: { x: 120, y: 600 },
+    jump: { x: 620, y: 600 },
+    action: { x: 445, y: 600 },
   },
   
   // Platform-specific features
@@ -51,6 +56,22 @@ export const GameSettings = {
     hasWallet: true,
     autoSave: true,
     saveInterval: 30000, // Auto-save every 30 seconds
+  },
+
+  // Leaderboard server base URL - empty keeps scores on this device
+  leaderboard: {
+    url: '',
+  },
+
+  // Score registry contract for wallet scores - empty contractAddress keeps them on this device
+  // For a local EVM node: ?scoreContract=0x...&rpc=http://127.0.0.1:8545&chainId=31337
+  web3: {
+    scoreRegistry: {
+      contractAddress: '',
+      rpcUrl: 'https://mainnet.base.org',
+      chainId: 8453,     // Base
+      confirmations: 1,
+    }
   }
 }
 
@@ -21,11 +21,33 @@ export const GameSettings = {
     jumpVelocity: -350,
   },
 
+  simulation: {
+    stepRate: 60,         // Gameplay steps per second, independent of the display refresh rate
+    maxStepsPerFrame: 5,  // Drop time after very long frames instead of spiralling
+  },
+
   scoring: {
     enemyDefeat: 100,
     coinCollect: 50,
     floorBonus: 500,
   },
+
+  // Default touch control layout (centres in canvas pixels)
+  // Players can move, resize and fade these from Menu -> Controls -> TOUCH (see TouchLayout)
+  touchControls: {
+    dpad: { x: 115, y: 680 },
+    jump: { x: 385, y: 680 },
+    action: { x: 290, y: 600 },
+  },
+
+  platform: {
+    autoSave: true,
+    saveInterval: 30000, // Save the run in progress every 30 seconds
+  },
+
+  leaderboard: {
+    url: '', // Leaderboard server base URL - empty keeps scores on this device
+  },
 }
 
 export default GameSettings
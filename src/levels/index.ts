@@ -0,0 +1,12 @@
+/**
+ * Authored levels bundled with Bizarre Underground
+ * Each entry replaces the procedural level with the same levelNumber - see systems/LevelDefinition.ts for the format
+ *
+ * To add one, drop a JSON file in this folder and list it below:
+ *   import firstSteps from './level-01-first-steps.json'
+ *   export const BUNDLED_LEVELS = [firstSteps] as LevelDefinition[]
+ */
+
+import { LevelDefinition } from '../systems/LevelDefinition'
+
+export const BUNDLED_LEVELS: LevelDefinition[] = []
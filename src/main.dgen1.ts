@@ -8,6 +8,8 @@ import { LoadingScene } from "./scenes/LoadingScene"
 import { SplashScene } from "./scenes/SplashScene"
 import { InstructionsScene } from "./scenes/InstructionsScene"
 import { GameScene } from "./scenes/GameScene"
+import { DailyChallengeScene } from "./scenes/DailyChallengeScene"
+import { LevelSelectScene } from "./scenes/LevelSelectScene"
 import GameSettings from "./config/GameSettings.dgen1"
 import { detectPlatform } from "./utils/GamePlatform"
 
@@ -15,7 +17,7 @@ import { detectPlatform } from "./utils/GamePlatform"
 const canvas = document.getElementById("gameCanvas") as HTMLCanvasElement
 
 // Build scene list
-const scenes: any[] = [LoadingScene, SplashScene, InstructionsScene, GameScene]
+const scenes: any[] = [LoadingScene, SplashScene, InstructionsScene, GameScene, DailyChallengeScene, LevelSelectScene]
 
 // Game configuration for 720x720
 const config: Phaser.Types.Core.GameConfig = {
@@ -33,6 +35,10 @@ const config: Phaser.Types.Core.GameConfig = {
   canvas: canvas,
   backgroundColor: "#2e2348", // Purple theme background
   scene: scenes,
+  // Controller support (see GamepadControls)
+  input: {
+    gamepad: true,
+  },
   physics: {
     default: "arcade",
     arcade: {
@@ -127,15 +133,7 @@ game.events.once("ready", () => {
   console.log('🦘 Click the Jump button (right bottom) to jump')
   console.log('⌨️ Keyboard also works: Arrow keys + Space/Up to jump')
   
-  // Load saved game state if available
-  if (platform.loadGameState) {
-    platform.loadGameState().then(state => {
-      if (state) {
-        console.log('💾 Found saved game state:', state)
-        game.registry.set('savedState', state)
-      }
-    })
-  }
+  // Saved runs are offered from InstructionsScene (see RunStateManager)
   
   // Load high score
   platform.getHighScore().then(score => {
@@ -180,49 +178,7 @@ game.events.once("ready", () => {
     }
   })
   
-  // Auto-save functionality
-  if (GameSettings.platform.autoSave) {
-    setInterval(() => {
-      const currentScene = game.scene.getScenes(true)[0]
-      if (currentScene && currentScene.scene.key === 'GameScene') {
-        const gameScene = currentScene as any
-        if (gameScene.player && !gameScene.isGameOver) {
-          const state = {
-            level: gameScene.levelManager?.getCurrentLevel() || 1,
-            score: gameScene.score || 0,
-            lives: gameScene.lives || 3,
-            gems: gameScene.totalCoinsCollected || 0
-          }
-          
-          if (platform.saveGameState) {
-            platform.saveGameState(state)
-            console.log('💾 Auto-saved game state')
-          }
-        }
-      }
-    }, GameSettings.platform.saveInterval)
-  }
-})
-
-// Handle page unload - save state
-window.addEventListener('beforeunload', () => {
-  const currentScene = game.scene.getScenes(true)[0]
-  if (currentScene && currentScene.scene.key === 'GameScene') {
-    const gameScene = currentScene as any
-    if (gameScene.player && !gameScene.isGameOver) {
-      const state = {
-        level: gameScene.levelManager?.getCurrentLevel() || 1,
-        score: gameScene.score || 0,
-        lives: gameScene.lives || 3,
-        gems: gameScene.totalCoinsCollected || 0
-      }
-      
-      if (platform.saveGameState) {
-        platform.saveGameState(state)
-        console.log('💾 Saved game state on exit')
-      }
-    }
-  }
+  // Run auto-save is handled by GameScene (GameSettings.platform.autoSave)
 })
 
 // Export for debugging
@@ -2,21 +2,26 @@ import { LoadingScene } from "./scenes/LoadingScene"
 import { SplashScene } from "./scenes/SplashScene"
 import { InstructionsScene } from "./scenes/InstructionsScene"
 import { GameScene } from "./scenes/GameScene"
+import { DailyChallengeScene } from "./scenes/DailyChallengeScene"
+import { LevelSelectScene } from "./scenes/LevelSelectScene"
 import { initializeFarcadeSDK } from "./utils/RemixUtils"
 import GameSettings from "./config/GameSettings"
 
-// Import TestScene conditionally (will be tree-shaken in production if debug is false)
+// Import debug scenes conditionally (will be tree-shaken in production if debug is false)
 import { TestScene } from "./scenes/TestScene"
+import { LevelEditorScene } from "./scenes/LevelEditorScene"
 
 const canvas = document.getElementById("gameCanvas") as HTMLCanvasElement
 
 // Build scene list
-const scenes: any[] = [LoadingScene, SplashScene, InstructionsScene, GameScene]
+const scenes: any[] = [LoadingScene, SplashScene, InstructionsScene, GameScene, DailyChallengeScene, LevelSelectScene]
 
-// Add TestScene only in debug mode
+// Add TestScene and LevelEditorScene only in debug mode
 if (GameSettings.debug) {
   scenes.push(TestScene)
   console.log("🧪 TestScene enabled - Press 'T' in game to access")
+  scenes.push(LevelEditorScene)
+  console.log("📐 LevelEditorScene enabled - Press 'L' in game to access")
 }
 
 // Game configuration
@@ -37,6 +42,10 @@ const config: Phaser.Types.Core.GameConfig = {
   canvas: canvas,
   backgroundColor: "#000000", // Pure black to avoid grey flash
   scene: scenes,
+  // Controller support (see GamepadControls)
+  input: {
+    gamepad: true,
+  },
   physics: {
     default: "arcade",
     arcade: {
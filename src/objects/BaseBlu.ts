@@ -1,4 +1,5 @@
 import GameSettings from '../config/GameSettings'
+import { GameRandom, SeededRandom } from '../systems/SeededRandom'
 
 export class BaseBlu extends Phaser.Physics.Arcade.Sprite {
   private movementSpeed: number // Very slow patrol speed
@@ -8,7 +9,7 @@ export class BaseBlu extends Phaser.Physics.Arcade.Sprite {
   private platformLeft: number = 0
   private platformRight: number = 0
   private isStunned: boolean = false // Whether BaseBlu is stunned (eyes closed, immobile)
-  private stunEndTime: number = 0 // When the stun effect should end
+  private stunTimeRemaining: number = 0 // How long the stun effect has left (ms)
   
   // Eye animation properties
   private eyeSprites: string[] = [
@@ -32,6 +33,11 @@ export class BaseBlu extends Phaser.Physics.Arcade.Sprite {
   private eyeRollSequence: number[] = []
   private eyeRollIndex: number = 0
   
+  // Enemy decisions draw from the level's 'behaviour' stream so replays and fixed steps reproduce them
+  private get rng(): SeededRandom {
+    return GameRandom.stream('behaviour')
+  }
+  
   constructor(scene: Phaser.Scene, x: number, y: number) {
     // Move visual sprite up by 8 pixels and left by 15 pixels (shifted down 2px from previous -10)
     super(scene, x - 15, y - 8, 'baseblue-eyes-center')
@@ -62,16 +68,16 @@ export class BaseBlu extends Phaser.Physics.Arcade.Sprite {
     this.setOffset(20, 19) // Keep top aligned - bottom extends down 8px more
     
     // Set random speed variation (90-110% of base 20)
-    const speedVariation = 0.9 + Math.random() * 0.2
+    const speedVariation = 0.9 + this.rng.next() * 0.2
     this.movementSpeed = 20 * speedVariation
     
     // Random initial direction
-    this.direction = Math.random() < 0.5 ? -1 : 1
+    this.direction = this.rng.next() < 0.5 ? -1 : 1
     // Note: We'll handle movement manually since body.moves = false
     
     // Initialize eye animation timers
-    this.nextBlinkTime = Phaser.Math.Between(2000, 5000)
-    this.nextEyeMovementTime = Phaser.Math.Between(1000, 3000)
+    this.nextBlinkTime = this.rng.between(2000, 5000)
+    this.nextEyeMovementTime = this.rng.between(1000, 3000)
     
     // Set depth
     this.setDepth(15)
@@ -88,11 +94,15 @@ export class BaseBlu extends Phaser.Physics.Arcade.Sprite {
   }
   
   update(time: number, delta: number): void {
-    const body = this.body as Phaser.Physics.Arcade.Body
+    // Time-freeze holds movement and every timer until it runs out
+    if (this.getData('frozen')) return
     
     // Check if stun period has ended
-    if (this.isStunned && time >= this.stunEndTime) {
-      this.endStun()
+    if (this.isStunned) {
+      this.stunTimeRemaining -= delta
+      if (this.stunTimeRemaining <= 0) {
+        this.endStun()
+      }
     }
     
     
@@ -152,7 +162,7 @@ export class BaseBlu extends Phaser.Physics.Arcade.Sprite {
       if (this.blinkTimer >= 150) { // Blink duration
         this.isBlinking = false
         this.blinkTimer = 0
-        this.nextBlinkTime = Phaser.Math.Between(2000, 5000)
+        this.nextBlinkTime = this.rng.between(2000, 5000)
         this.setTexture('baseblue-eyes-center')
       }
     } else if (this.blinkTimer >= this.nextBlinkTime) {
@@ -166,14 +176,14 @@ export class BaseBlu extends Phaser.Physics.Arcade.Sprite {
       this.eyeMovementTimer += delta
       if (this.eyeMovementTimer >= this.nextEyeMovementTime) {
         this.eyeMovementTimer = 0
-        this.nextEyeMovementTime = Phaser.Math.Between(1000, 3000)
+        this.nextEyeMovementTime = this.rng.between(1000, 3000)
         
         // Occasionally do an eye roll sequence
-        if (Math.random() < 0.15) { // 15% chance to roll eyes
+        if (this.rng.next() < 0.15) { // 15% chance to roll eyes
           this.startEyeRoll()
         } else {
           // Random eye movement
-          const randomEye = Phaser.Math.Between(0, 7) // Exclude blinking sprite
+          const randomEye = this.rng.between(0, 7) // Exclude blinking sprite
           this.setTexture(this.eyeSprites[randomEye])
         }
       }
@@ -207,7 +217,7 @@ export class BaseBlu extends Phaser.Physics.Arcade.Sprite {
     if (!this.scene) return
     
     this.isStunned = true
-    this.stunEndTime = this.scene.time.now + 2000 // 2 second stun
+    this.stunTimeRemaining = 2000 // 2 second stun
     // Movement is handled by manual position updates, so no velocity to stop
     this.setTexture('baseblue-eyes-blinking') // Close eyes
   }
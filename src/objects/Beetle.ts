@@ -1,4 +1,5 @@
 import GameSettings from "../config/GameSettings"
+import { GameRandom, SeededRandom } from "../systems/SeededRandom"
 
 export class Beetle extends Phaser.Physics.Arcade.Sprite {
   private moveSpeed: number
@@ -24,6 +25,11 @@ export class Beetle extends Phaser.Physics.Arcade.Sprite {
   private biteDuration: number = 1200 // How long to stop and bite (1.2 seconds)
   private isSquished: boolean = false
   
+  // Enemy decisions draw from the level's 'behaviour' stream so replays and fixed steps reproduce them
+  private get rng(): SeededRandom {
+    return GameRandom.stream('behaviour')
+  }
+  
   constructor(scene: Phaser.Scene, x: number, y: number, platformLeft: number, platformRight: number) {
     // Use beetle sprite or create placeholder if not loaded
     const textureKey = scene.textures.exists('beetle-mouth-closed') ? 'beetle-mouth-closed' : 'beetle'
@@ -99,22 +105,25 @@ export class Beetle extends Phaser.Physics.Arcade.Sprite {
     }
     
     // Set random speed variation (90-110% of base)
-    const speedVariation = 0.9 + Math.random() * 0.2
+    const speedVariation = 0.9 + this.rng.next() * 0.2
     this.moveSpeed = 80 * speedVariation
     
     // Random initial direction
-    this.direction = Math.random() < 0.5 ? -1 : 1
+    this.direction = this.rng.next() < 0.5 ? -1 : 1
     
     // Start moving
     this.setVelocityX(this.moveSpeed * this.direction)
     
     // Set initial random distance before first bite
-    this.nextActionDistance = 100 + Math.random() * 200 // Roll 100-300 pixels before first bite
+    this.nextActionDistance = 100 + this.rng.next() * 200 // Roll 100-300 pixels before first bite
   }
   
   update(time?: number, delta?: number): void {
     if (!delta) return
     
+    // Time-freeze holds movement and every timer until it runs out
+    if (this.getData('frozen')) return
+    
     // Check platform bounds
     if (this.x <= this.platformBounds.left + 10) {
       this.direction = 1
@@ -177,7 +186,7 @@ export class Beetle extends Phaser.Physics.Arcade.Sprite {
     this.isBiting = false
     this.distanceTraveled = 0
     // Set random distance for next bite (50-250 pixels)
-    this.nextActionDistance = 50 + Math.random() * 200
+    this.nextActionDistance = 50 + this.rng.next() * 200
     // Reset to closed mouth
     if (this.scene && this.scene.textures.exists('beetle-mouth-closed')) {
       this.setTexture('beetle-mouth-closed')
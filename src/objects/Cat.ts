@@ -1,4 +1,5 @@
 import GameSettings from "../config/GameSettings"
+import { GameRandom, SeededRandom } from "../systems/SeededRandom"
 
 export enum CatColor {
   BLUE = 'blue',
@@ -66,6 +67,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
   // Individual speed variation to prevent clustering
   private individualSpeedMultiplier: number = 1
   private turnDelayTimer: number = 0
+  private speedBoostTimer: number = 0 // Time left on the burst of speed that frees a stuck enemy
   
   // Red enemy animation system
   private redEnemyAnimationState: 'patrol' | 'bite_starting' | 'bite_opening' | 'bite_wide' | 'bite_closing' = 'patrol'
@@ -73,6 +75,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
   private redBlinkTimer: number = 0
   private redBiteSequenceTimer: number = 0
   private redEyeState: 1 | 2 = 1
+  private redBlinkEndTimer: number = 0
   private nextRedBiteTime: number = 0
   private nextRedBlinkTime: number = 0
   private redBiteFrameIndex: number = 0
@@ -83,6 +86,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
   private greenBlinkTimer: number = 0
   private nextGreenEyeTime: number = 0
   private nextGreenBlinkTime: number = 0
+  private greenBlinkEndTimer: number = 0
   
   // Blue caterpillar animation system
   private blueCaterpillarAnimationState: 'eyesRight' | 'eyesLeft' | 'eyesDown' | 'blinking' = 'eyesDown'
@@ -125,6 +129,11 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
     return this.isStalker
   }
   
+  // Enemy decisions draw from the level's 'behaviour' stream so replays and fixed steps reproduce them
+  private get rng(): SeededRandom {
+    return GameRandom.stream('behaviour')
+  }
+  
   constructor(
     scene: Phaser.Scene, 
     x: number, 
@@ -145,7 +154,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
         catColor = color
       }
     } else {
-      catColor = colors[Math.floor(Math.random() * colors.length)]
+      catColor = GameRandom.stream('behaviour').pick(colors)
     }
     
     // Use proper animation sprites for all enemy types
@@ -507,7 +516,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
   
   private setupBehavior(): void {
     // Add individual speed variation to prevent clustering (85% to 115%)
-    this.individualSpeedMultiplier = 0.85 + Math.random() * 0.3
+    this.individualSpeedMultiplier = 0.85 + this.rng.next() * 0.3
     
     // Get current level from scene if available
     const scene = this.scene as any
@@ -546,22 +555,36 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
       this.direction = this.x < centerX ? -1 : 1  // Move towards edges
     } else if (this.catColor === CatColor.GREEN) {
       // Green enemies: randomize initial direction to prevent clustering
-      this.direction = Math.random() < 0.5 ? -1 : 1
+      this.direction = this.rng.next() < 0.5 ? -1 : 1
       // Also randomize initial bounce timer to prevent synchronized bouncing
-      this.bounceTimer = Math.random() * 1500  // Random start between 0-1.5 seconds
+      this.bounceTimer = this.rng.next() * 1500  // Random start between 0-1.5 seconds
     } else {
       // Random initial direction for other enemies and later levels
-      this.direction = Math.random() < 0.5 ? -1 : 1
+      this.direction = this.rng.next() < 0.5 ? -1 : 1
     }
   }
   
   
+  /**
+   * Advance one fixed simulation step - GameScene.fixedUpdate is the only caller
+   */
   update(time: number, delta: number): void {
     if (this.isSquished) return
     
+    // Time-freeze holds movement and every timer until it runs out
+    if (this.getData('frozen')) return
+    
     // Update collision cooldown for all enemy types
     this.collisionCooldown -= delta
     
+    // Back to normal speed once the unstick burst runs out
+    if (this.speedBoostTimer > 0) {
+      this.speedBoostTimer -= delta
+      if (this.speedBoostTimer <= 0) {
+        this.setVelocityX(this.moveSpeed * this.direction)
+      }
+    }
+    
     // Special handling for stalkers
     if (this.isStalker) {
       this.updateStalker(delta)
@@ -575,7 +598,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
       switch (this.catColor) {
         case CatColor.BLUE:
         case CatColor.PURPLE:  // Purple uses same patrol and animations as blue
-          this.updateBluePatrol()
+          this.updateBluePatrol(delta)
           this.updateBlueEnemyAnimations(delta)
           this.checkIfChomperStuck(delta)  // Check for stuck state
           break
@@ -601,7 +624,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
     }
   }
   
-  private updateBluePatrol(): void {
+  private updateBluePatrol(delta: number): void {
     // PAUSE movement during bite animations for cleaner look
     // Our new safety systems will prevent getting stuck
     if (this.blueEnemyAnimationState === 'bite_partial' || 
@@ -612,7 +635,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
     
     // Handle turn delay timer
     if (this.turnDelayTimer > 0) {
-      this.turnDelayTimer -= Phaser.Math.Clamp(16, 0, 100) // Use fixed delta approximation
+      this.turnDelayTimer -= delta
     }
     
     // Check for edge proximity and turn around if too close
@@ -625,7 +648,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
           this.x = this.platformBounds.left + 20
         }
         // Add small random delay to prevent synchronized turning (50-200ms)
-        this.turnDelayTimer = 50 + Math.random() * 150
+        this.turnDelayTimer = 50 + this.rng.next() * 150
         // Cancel any ongoing bite animation at edges
         if (this.blueEnemyAnimationState === 'bite_partial' || 
             this.blueEnemyAnimationState === 'bite_full') {
@@ -644,7 +667,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
           this.x = this.platformBounds.right - 20
         }
         // Add small random delay to prevent synchronized turning (50-200ms)
-        this.turnDelayTimer = 50 + Math.random() * 150
+        this.turnDelayTimer = 50 + this.rng.next() * 150
         // Cancel any ongoing bite animation at edges
         if (this.blueEnemyAnimationState === 'bite_partial' || 
             this.blueEnemyAnimationState === 'bite_full') {
@@ -683,15 +706,15 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
       // In later levels: Original erratic behavior
       const changeChance = isEarlyLevel ? 0.05 : 0.3  // 5% vs 30% chance to change direction
       
-      if (Math.random() < changeChance) {
-        this.direction = Math.random() < 0.5 ? -1 : 1
+      if (this.rng.next() < changeChance) {
+        this.direction = this.rng.next() < 0.5 ? -1 : 1
       }
       
       // More consistent timing in early levels
       if (isEarlyLevel) {
-        this.randomMoveTimer = 2000 + Math.random() * 1000  // 2-3 seconds (predictable)
+        this.randomMoveTimer = 2000 + this.rng.next() * 1000  // 2-3 seconds (predictable)
       } else {
-        this.randomMoveTimer = 500 + Math.random() * 1000   // 0.5-1.5 seconds (erratic)
+        this.randomMoveTimer = 500 + this.rng.next() * 1000   // 0.5-1.5 seconds (erratic)
       }
     }
     
@@ -709,13 +732,13 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
       if (this.turnDelayTimer <= 0) {
         this.direction = 1
         // Add random delay before next possible turn (100-500ms)
-        this.turnDelayTimer = 100 + Math.random() * 400
+        this.turnDelayTimer = 100 + this.rng.next() * 400
       }
     } else if (this.x >= this.platformBounds.right - edgeBuffer || (velocityBlocked && this.direction === 1)) {
       if (this.turnDelayTimer <= 0) {
         this.direction = -1
         // Add random delay before next possible turn (100-500ms)
-        this.turnDelayTimer = 100 + Math.random() * 400
+        this.turnDelayTimer = 100 + this.rng.next() * 400
       }
     }
     
@@ -734,7 +757,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
     if (this.bounceTimer <= 0 && this.body?.touching.down) {
       this.setVelocityY(-200)
       // Add more randomness to bounce timing to prevent clustering
-      this.bounceTimer = 1000 + Math.random() * 1000  // 1-2 seconds (was 0.8-1.2)
+      this.bounceTimer = 1000 + this.rng.next() * 1000  // 1-2 seconds (was 0.8-1.2)
     }
     
     // Green enemies patrol the full width of their platform
@@ -742,12 +765,12 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
     if (this.x <= this.platformBounds.left + 20) {
       this.direction = 1
       // Add small random speed variation when turning to prevent clustering
-      const variation = 0.9 + Math.random() * 0.2
+      const variation = 0.9 + this.rng.next() * 0.2
       this.setVelocityX(this.moveSpeed * this.direction * variation)
     } else if (this.x >= this.platformBounds.right - 20) {
       this.direction = -1
       // Add small random speed variation when turning to prevent clustering
-      const variation = 0.9 + Math.random() * 0.2
+      const variation = 0.9 + this.rng.next() * 0.2
       this.setVelocityX(this.moveSpeed * this.direction * variation)
     } else {
       // Maintain current velocity while not at edges
@@ -775,7 +798,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
     }
     
     // Reduced random direction changes to prevent erratic movement near edges
-    if (Math.random() < 0.0005) { // 0.05% chance per frame = less frequent direction changes
+    if (this.rng.chance(0.0005)) { // 0.05% chance per step = less frequent direction changes
       // Only reverse if not near edges
       if (this.x > this.platformBounds.left + edgeBuffer && this.x < this.platformBounds.right - edgeBuffer) {
         this.direction *= -1
@@ -943,14 +966,14 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
   
   private initializeYellowEnemyAnimations(): void {
     // Set random initial timers to make enemies feel unique
-    this.nextBlinkTime = Math.random() * 1000 + 1000 // 1-2 seconds
-    this.nextExpressionTime = Math.random() * 3000 + 3000 // 3-6 seconds
+    this.nextBlinkTime = this.rng.next() * 1000 + 1000 // 1-2 seconds
+    this.nextExpressionTime = this.rng.next() * 3000 + 3000 // 3-6 seconds
     this.yellowEnemyAnimationState = 'mouthClosed'
   }
 
   private initializeBlueEnemyAnimations(): void {
     // Set random initial timers to make enemies feel unique
-    this.nextBiteTime = Math.random() * 2000 + 2000 // 2-4 seconds
+    this.nextBiteTime = this.rng.next() * 2000 + 2000 // 2-4 seconds
     this.nextBlinkTime = Number.MAX_SAFE_INTEGER // DISABLED - No blinking for Chompers
     this.blueEnemyAnimationState = 'idle'
   }
@@ -1046,7 +1069,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
       this.blueEnemyAnimationState = 'idle'
       this.biteAnimationTimer = 0
       // Set next bite time with variation
-      this.nextBiteTime = this.biteTimer + Math.random() * 2000 + 2000 // 2-4 seconds
+      this.nextBiteTime = this.biteTimer + this.rng.next() * 2000 + 2000 // 2-4 seconds
       // Explicitly resume movement after bite completes
       this.setVelocityX(this.moveSpeed * this.direction)
     }
@@ -1214,18 +1237,14 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
       this.x = this.platformBounds.right - 51 // Move away from edge
     } else {
       // In middle - pick random direction
-      this.direction = Math.random() < 0.5 ? -1 : 1
+      this.direction = this.rng.next() < 0.5 ? -1 : 1
     }
     
     // Force movement resume with slight speed boost temporarily
     this.setVelocityX(this.moveSpeed * this.direction * 1.2)
     
     // Reset to normal speed after 500ms
-    this.scene.time.delayedCall(500, () => {
-      if (this.active) {
-        this.setVelocityX(this.moveSpeed * this.direction)
-      }
-    })
+    this.speedBoostTimer = 500
     
     // Mark this enemy as potentially problematic
     this.setData('recoveredFromStuck', true)
@@ -1374,8 +1393,8 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
       this.blueCaterpillarAnimationState = 'eyesDown'
       this.blueCaterpillarBlinkTimer = 0
       this.blueCaterpillarEyeTimer = 0
-      this.nextBlueCaterpillarBlinkTime = Math.random() * 1500 + 1500
-      this.nextBlueCaterpillarEyeTime = Math.random() * 2000 + 1000
+      this.nextBlueCaterpillarBlinkTime = this.rng.next() * 1500 + 1500
+      this.nextBlueCaterpillarEyeTime = this.rng.next() * 2000 + 1000
       // Force texture update for blue caterpillar
       if (this.scene && this.scene.textures.exists('blueCaterpillarEyesDown')) {
         this.setTexture('blueCaterpillarEyesDown')
@@ -1408,7 +1427,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
     // Reposition to safe location if needed
     if (this.x <= this.platformBounds.left + 20 || this.x >= this.platformBounds.right - 20) {
       // Move to a random safe position near center
-      const safeX = this.platformBounds.left + 50 + Math.random() * (this.platformBounds.right - this.platformBounds.left - 100)
+      const safeX = this.platformBounds.left + 50 + this.rng.next() * (this.platformBounds.right - this.platformBounds.left - 100)
       this.setX(safeX)
       // console.log(`🐛 Repositioned ${catType} to safe X:${Math.round(safeX)}`)
     }
@@ -1417,11 +1436,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
     this.setVelocityX(this.moveSpeed * this.direction * 1.5)
     
     // Reset to normal speed after 500ms
-    this.scene.time.delayedCall(500, () => {
-      if (this.active) {
-        this.setVelocityX(this.moveSpeed * this.direction)
-      }
-    })
+    this.speedBoostTimer = 500
     
     // Mark as recovered
     this.setData('recoveredFromStuck', true)
@@ -1451,10 +1466,10 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
   
   private initializeRedEnemyAnimations(): void {
     // Set random initial timers to make enemies feel unique
-    this.nextRedBiteTime = Math.random() * 2000 + 3000 // 3-5 seconds for bite
-    this.nextRedBlinkTime = Math.random() * 500 + 1000 // 1-1.5 seconds for blink
+    this.nextRedBiteTime = this.rng.next() * 2000 + 3000 // 3-5 seconds for bite
+    this.nextRedBlinkTime = this.rng.next() * 500 + 1000 // 1-1.5 seconds for blink
     this.redEnemyAnimationState = 'patrol'
-    this.redEyeState = Math.random() < 0.5 ? 1 : 2 // Start with random eye state
+    this.redEyeState = this.rng.next() < 0.5 ? 1 : 2 // Start with random eye state
   }
   
   private updateYellowEnemyAnimations(delta: number): void {
@@ -1470,7 +1485,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
     // Handle expression changes (mouth open/closed)
     if (this.biteTimer >= this.nextExpressionTime) {
       this.yellowEnemyAnimationState = this.yellowEnemyAnimationState === 'mouthClosed' ? 'mouthOpen' : 'mouthClosed'
-      this.nextExpressionTime = this.biteTimer + Math.random() * 3000 + 3000 // 3-6 seconds
+      this.nextExpressionTime = this.biteTimer + this.rng.next() * 3000 + 3000 // 3-6 seconds
     }
     
     // Set appropriate texture based on current state (no blinking)
@@ -1495,6 +1510,14 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
     this.redBlinkTimer += delta
     this.redBiteSequenceTimer += delta
     
+    // End of a blink - back to the open eyes unless a bite has started since
+    if (this.redBlinkEndTimer > 0) {
+      this.redBlinkEndTimer -= delta
+      if (this.redBlinkEndTimer <= 0 && this.redEnemyAnimationState === 'patrol') {
+        this.changeRedEnemyTexture(this.redEyeState === 1 ? 'redEnemyMouthClosedEyes1' : 'redEnemyMouthClosedEyes2')
+      }
+    }
+    
     // Handle current animation state
     switch (this.redEnemyAnimationState) {
       case 'patrol':
@@ -1520,7 +1543,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
   
   private handleRedPatrolState(): void {
     // Cycle between two eye states during patrol
-    const eyeCycleTime = 800 + Math.random() * 400 // 0.8-1.2 seconds
+    const eyeCycleTime = 800 + this.rng.next() * 400 // 0.8-1.2 seconds
     
     if (this.redBiteSequenceTimer >= eyeCycleTime) {
       // Switch eye state
@@ -1580,7 +1603,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
       this.redEnemyAnimationState = 'patrol'
       this.redBiteSequenceTimer = 0
       // Set next bite time with variation
-      this.nextRedBiteTime = this.redBiteTimer + Math.random() * 2000 + 3000 // 3-5 seconds
+      this.nextRedBiteTime = this.redBiteTimer + this.rng.next() * 2000 + 3000 // 3-5 seconds
     }
   }
   
@@ -1599,15 +1622,11 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
         this.changeRedEnemyTexture('redEnemyMouthClosedBlinking')
         
         // Schedule return to normal state
-        this.scene.time.delayedCall(150, () => {
-          if (this.redEnemyAnimationState === 'patrol') {
-            this.changeRedEnemyTexture(this.redEyeState === 1 ? 'redEnemyMouthClosedEyes1' : 'redEnemyMouthClosedEyes2')
-          }
-        })
+        this.redBlinkEndTimer = 150
       }
       
       // Set next blink time
-      this.nextRedBlinkTime = this.redBlinkTimer + Math.random() * 1000 + 1000 // 1-2 seconds
+      this.nextRedBlinkTime = this.redBlinkTimer + this.rng.next() * 1000 + 1000 // 1-2 seconds
     }
   }
   
@@ -1791,26 +1810,26 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
     
     let animationSpeed: number
     if (this.stalkerEyeState === 'blink') {
-      animationSpeed = 100 + Math.random() * 80
+      animationSpeed = 100 + this.rng.next() * 80
     } else {
-      animationSpeed = 1200 + (Math.random() - 0.5) * 800
+      animationSpeed = 1200 + (this.rng.next() - 0.5) * 800
     }
     
     if (this.stalkerEyeAnimationTimer >= animationSpeed) {
-      const randomAction = Math.random()
+      const randomAction = this.rng.next()
       
       // Simple eye state transitions
       if (this.stalkerEyeState === 'blink') {
         // Return to a random eye state
         const states = ['eye1', 'eye2', 'eye3', 'eye4'] as const
-        this.stalkerEyeState = states[Math.floor(Math.random() * 4)]
+        this.stalkerEyeState = states[Math.floor(this.rng.next() * 4)]
       } else {
         // Either blink or change eye position
         if (randomAction < 0.2) {
           this.stalkerEyeState = 'blink'
         } else {
           const states = ['eye1', 'eye2', 'eye3', 'eye4'] as const
-          this.stalkerEyeState = states[Math.floor(Math.random() * 4)]
+          this.stalkerEyeState = states[Math.floor(this.rng.next() * 4)]
         }
       }
       
@@ -1837,12 +1856,22 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
     this.greenEyeTimer += delta
     this.greenBlinkTimer += delta
     
+    // End of a blink - return to a random eye position
+    if (this.greenBlinkEndTimer > 0) {
+      this.greenBlinkEndTimer -= delta
+      if (this.greenBlinkEndTimer <= 0 && this.greenEnemyAnimationState === 'blinking') {
+        const states: Array<'eyeRight' | 'eyeCenter' | 'eyeLeft'> = ['eyeRight', 'eyeCenter', 'eyeLeft']
+        this.greenEnemyAnimationState = this.rng.pick(states)
+        this.updateGreenEnemyTexture()
+      }
+    }
+    
     // Initialize next times if not set
     if (this.nextGreenEyeTime === 0) {
-      this.nextGreenEyeTime = 1000 + Math.random() * 2000 // 1-3 seconds for eye movement
+      this.nextGreenEyeTime = 1000 + this.rng.next() * 2000 // 1-3 seconds for eye movement
     }
     if (this.nextGreenBlinkTime === 0) {
-      this.nextGreenBlinkTime = 3000 + Math.random() * 4000 // 3-7 seconds between blinks
+      this.nextGreenBlinkTime = 3000 + this.rng.next() * 4000 // 3-7 seconds between blinks
     }
     
     // Check for blinking (has priority over eye movement)
@@ -1851,18 +1880,11 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
       this.setTexture('greenEnemyBlink')
       
       // Schedule end of blink (100-150ms)
-      setTimeout(() => {
-        if (this.greenEnemyAnimationState === 'blinking') {
-          // Return to random eye position after blink
-          const states: Array<'eyeRight' | 'eyeCenter' | 'eyeLeft'> = ['eyeRight', 'eyeCenter', 'eyeLeft']
-          this.greenEnemyAnimationState = states[Math.floor(Math.random() * states.length)]
-          this.updateGreenEnemyTexture()
-        }
-      }, 100 + Math.random() * 50)
+      this.greenBlinkEndTimer = 100 + this.rng.next() * 50
       
       // Reset blink timer
       this.greenBlinkTimer = 0
-      this.nextGreenBlinkTime = 3000 + Math.random() * 4000
+      this.nextGreenBlinkTime = 3000 + this.rng.next() * 4000
       return
     }
     
@@ -1873,12 +1895,12 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
       const states: Array<'eyeRight' | 'eyeCenter' | 'eyeLeft'> = ['eyeRight', 'eyeCenter', 'eyeLeft']
       const availableStates = states.filter(s => s !== currentState)
       
-      this.greenEnemyAnimationState = availableStates[Math.floor(Math.random() * availableStates.length)]
+      this.greenEnemyAnimationState = availableStates[Math.floor(this.rng.next() * availableStates.length)]
       this.updateGreenEnemyTexture()
       
       // Reset eye timer
       this.greenEyeTimer = 0
-      this.nextGreenEyeTime = 800 + Math.random() * 1500 // 0.8-2.3 seconds
+      this.nextGreenEyeTime = 800 + this.rng.next() * 1500 // 0.8-2.3 seconds
     }
   }
   
@@ -1921,8 +1943,8 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
   
   private initializeBlueCaterpillarAnimations(): void {
     // Set random initial timers to make enemies feel unique
-    this.nextBlueCaterpillarBlinkTime = Math.random() * 1500 + 1500 // 1.5-3 seconds
-    this.nextBlueCaterpillarEyeTime = Math.random() * 2000 + 1000 // 1-3 seconds
+    this.nextBlueCaterpillarBlinkTime = this.rng.next() * 1500 + 1500 // 1.5-3 seconds
+    this.nextBlueCaterpillarEyeTime = this.rng.next() * 2000 + 1000 // 1-3 seconds
     this.blueCaterpillarAnimationState = 'eyesDown'
   }
   
@@ -1990,7 +2012,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
     if (this.x <= this.platformBounds.left + edgeBuffer) {
       if (this.turnDelayTimer <= 0) {
         this.direction = 1
-        this.turnDelayTimer = 100 + Math.random() * 200  // Reduced delay: 100-300ms instead of 100-500ms
+        this.turnDelayTimer = 100 + this.rng.next() * 200  // Reduced delay: 100-300ms instead of 100-500ms
         // Force position away from edge to prevent getting stuck
         const newX = Math.max(this.platformBounds.left + edgeBuffer + 5, this.x)  // Extra 5px buffer
         this.setX(newX)
@@ -2000,7 +2022,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
     } else if (this.x >= this.platformBounds.right - edgeBuffer) {
       if (this.turnDelayTimer <= 0) {
         this.direction = -1
-        this.turnDelayTimer = 100 + Math.random() * 200  // Reduced delay: 100-300ms instead of 100-500ms
+        this.turnDelayTimer = 100 + this.rng.next() * 200  // Reduced delay: 100-300ms instead of 100-500ms
         // Force position away from edge to prevent getting stuck
         const newX = Math.min(this.platformBounds.right - edgeBuffer - 5, this.x)  // Extra 5px buffer
         this.setX(newX)
@@ -2064,7 +2086,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
         // Return to previous eye state
         this.blueCaterpillarAnimationState = 'eyesDown'
         this.blueCaterpillarBlinkTimer = 0
-        this.nextBlueCaterpillarBlinkTime = Math.random() * 1500 + 1500 // 1.5-3 seconds
+        this.nextBlueCaterpillarBlinkTime = this.rng.next() * 1500 + 1500 // 1.5-3 seconds
       }
     }
     
@@ -2076,7 +2098,7 @@ export class Cat extends Phaser.Physics.Arcade.Sprite {
       const currentIndex = states.indexOf(this.blueCaterpillarAnimationState as any)
       const nextIndex = (currentIndex + 1) % states.length
       this.blueCaterpillarAnimationState = states[nextIndex]
-      this.nextBlueCaterpillarEyeTime = Math.random() * 2000 + 1000 // 1-3 seconds
+      this.nextBlueCaterpillarEyeTime = this.rng.next() * 2000 + 1000 // 1-3 seconds
       this.blueCaterpillarEyeTimer = 0
     }
     
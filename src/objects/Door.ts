@@ -1,3 +1,5 @@
+import { InputGlyphs } from "../ui/InputGlyphs"
+
 export class Door extends Phaser.Physics.Arcade.Sprite {
   private promptText: Phaser.GameObjects.Text | null = null
   private playerNearby: boolean = false
@@ -34,13 +36,17 @@ export class Door extends Phaser.Physics.Arcade.Sprite {
   
   showPrompt(player: Phaser.Physics.Arcade.Sprite): void {
     this.playerNearby = true
+    // Name the button for whichever device the player is using
+    const prompt = `Press ${InputGlyphs.getLabel('enterDoor')} to enter`
     
-    if (!this.promptText) {
+    if (this.promptText) {
+      if (this.promptText.text !== prompt) this.promptText.setText(prompt)
+    } else {
       // Show simple prompt for all levels including first level
       this.promptText = this.scene.add.text(
         this.x,
         this.y - 70,  // Position above door
-        'Press UP to enter',
+        prompt,
         {
           fontSize: '16px',
           color: '#ffff00',  // Yellow text
@@ -92,7 +98,7 @@ export class Door extends Phaser.Physics.Arcade.Sprite {
     const instructionText = this.scene.add.text(
       centerX,
       centerY + 15,
-      'Press UP to enter the door\nand advance to the next level',
+      `Press ${InputGlyphs.getLabel('enterDoor')} to enter the door\nand advance to the next level`,
       {
         fontSize: '12px',
         color: '#ffffff',
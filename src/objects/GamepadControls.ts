@@ -0,0 +1,279 @@
+import { InputGlyphs } from "../ui/InputGlyphs"
+import { InputMap, InputAction } from "../systems/InputMap"
+import { ProfileStore } from "../systems/ProfileStore"
+
+interface GamepadSettings {
+  deadZone: number
+}
+
+/**
+ * Controller input through Phaser's gamepad plugin, exposed the same way as TouchControls
+ * The left stick always moves and climbs; buttons come from InputMap (by default d-pad moves,
+ * A jumps, B/X throw crystal balls, Start opens the menu and Back mutes)
+ * Browsers only report a pad after one of its buttons is pressed, so pads are picked up on 'connected'
+ */
+export class GamepadControls {
+  private scene: Phaser.Scene
+  private enabled: boolean = true
+  private pad: Phaser.Input.Gamepad.Gamepad | null = null
+  private deadZone: number
+  private onPause: (() => void) | null = null
+  private onMute: (() => void) | null = null
+  private onDisconnect: (() => void) | null = null
+  private statusText: Phaser.GameObjects.Text | null = null
+
+  static readonly DEFAULT_DEAD_ZONE = 0.25
+  static readonly MIN_DEAD_ZONE = 0.05
+  static readonly MAX_DEAD_ZONE = 0.6
+
+  public leftPressed: boolean = false
+  public rightPressed: boolean = false
+  public upPressed: boolean = false
+  public downPressed: boolean = false
+  public jumpPressed: boolean = false
+  public actionPressed: boolean = false
+
+  private jumpJustPressed: boolean = false
+  private actionJustPressed: boolean = false
+  private lastJumpState: boolean = false
+  private lastActionState: boolean = false
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene
+    this.deadZone = GamepadControls.loadSettings().deadZone
+
+    const plugin = scene.input.gamepad
+    if (!plugin) {
+      console.warn('🎮 Gamepad plugin not enabled - controller input unavailable')
+      return
+    }
+
+    // A pad that was already in use before a scene restart is still connected
+    this.pad = plugin.getAll().find(pad => pad.connected) || null
+
+    plugin.on('connected', this.handleConnected, this)
+    plugin.on('disconnected', this.handleDisconnected, this)
+    plugin.on('down', this.handleButtonDown, this)
+
+    // Keyboard and touch take the on-screen glyphs back from the controller
+    scene.input.keyboard?.on('keydown', this.handleKeyDown, this)
+    scene.input.on('pointerdown', this.handlePointerDown, this)
+
+    scene.events.once('shutdown', () => this.destroy())
+  }
+
+  /**
+   * Called when a pause button (Start by default) is pressed - GameScene toggles the menu
+   */
+  setPauseHandler(handler: () => void): void {
+    this.onPause = handler
+  }
+  
+  /**
+   * Called when a mute button (Back by default) is pressed
+   */
+  setMuteHandler(handler: () => void): void {
+    this.onMute = handler
+  }
+
+  /**
+   * Called when the active controller is unplugged - GameScene pauses the run
+   */
+  setDisconnectHandler(handler: () => void): void {
+    this.onDisconnect = handler
+  }
+
+  public update(): void {
+    const pad = this.enabled && this.pad?.connected ? this.pad : null
+
+    if (pad) {
+      const stick = pad.leftStick
+      this.leftPressed = this.isActionHeld(pad, 'moveLeft') || stick.x < -this.deadZone
+      this.rightPressed = this.isActionHeld(pad, 'moveRight') || stick.x > this.deadZone
+      this.upPressed = this.isActionHeld(pad, 'climbUp') || stick.y < -this.deadZone
+      this.downPressed = this.isActionHeld(pad, 'climbDown') || stick.y > this.deadZone
+      this.jumpPressed = this.isActionHeld(pad, 'jump')
+      this.actionPressed = this.isActionHeld(pad, 'fire')
+    } else {
+      this.leftPressed = false
+      this.rightPressed = false
+      this.upPressed = false
+      this.downPressed = false
+      this.jumpPressed = false
+      this.actionPressed = false
+    }
+
+    this.jumpJustPressed = this.jumpPressed && !this.lastJumpState
+    this.lastJumpState = this.jumpPressed
+    this.actionJustPressed = this.actionPressed && !this.lastActionState
+    this.lastActionState = this.actionPressed
+
+    if (this.leftPressed || this.rightPressed || this.upPressed || this.downPressed) {
+      InputGlyphs.setActiveDevice('gamepad')
+    }
+  }
+
+  public isJumpPressed(): boolean {
+    return this.jumpPressed
+  }
+
+  public isJumpJustPressed(): boolean {
+    return this.jumpJustPressed
+  }
+
+  public isActionJustPressed(): boolean {
+    return this.actionJustPressed
+  }
+
+  public isConnected(): boolean {
+    return !!this.pad?.connected
+  }
+
+  /**
+   * Name the browser reports for the active pad, or null when none is connected
+   */
+  public getPadName(): string | null {
+    return this.pad?.connected ? this.pad.id : null
+  }
+
+  public getDeadZone(): number {
+    return this.deadZone
+  }
+
+  /**
+   * Change and save the stick dead zone (0-1 of full deflection)
+   */
+  public setDeadZone(deadZone: number): number {
+    const clamped = Phaser.Math.Clamp(deadZone, GamepadControls.MIN_DEAD_ZONE, GamepadControls.MAX_DEAD_ZONE)
+    this.deadZone = Math.round(clamped * 100) / 100
+    GamepadControls.saveSettings({ deadZone: this.deadZone })
+    return this.deadZone
+  }
+
+  // Disable gameplay input (for menu, etc.) - the pause button still works so the menu can be closed
+  public disable(): void {
+    this.enabled = false
+    this.leftPressed = false
+    this.rightPressed = false
+    this.upPressed = false
+    this.downPressed = false
+    this.jumpPressed = false
+    this.actionPressed = false
+    this.jumpJustPressed = false
+    this.actionJustPressed = false
+  }
+
+  public enable(): void {
+    this.enabled = true
+    // Buttons still held from the menu shouldn't count as fresh presses
+    this.lastJumpState = true
+    this.lastActionState = true
+  }
+
+  private isActionHeld(pad: Phaser.Input.Gamepad.Gamepad, action: InputAction): boolean {
+    return InputMap.getButtons(action).some(index => pad.buttons[index]?.pressed || false)
+  }
+
+  private handleConnected(pad: Phaser.Input.Gamepad.Gamepad): void {
+    console.log(`🎮 Controller connected: ${pad.id}`)
+    if (!this.pad?.connected) {
+      this.pad = pad
+      InputGlyphs.setActiveDevice('gamepad')
+      this.showStatus('🎮 Controller connected')
+    }
+  }
+
+  private handleDisconnected(pad: Phaser.Input.Gamepad.Gamepad): void {
+    console.log(`🎮 Controller disconnected: ${pad.id}`)
+    if (pad !== this.pad) return
+
+    // Fall back to another pad if one is still plugged in
+    this.pad = this.scene.input.gamepad?.getAll().find(other => other !== pad && other.connected) || null
+    if (this.pad) return
+
+    if (InputGlyphs.getActiveDevice() === 'gamepad') {
+      InputGlyphs.setActiveDevice('keyboard')
+    }
+    this.showStatus('🎮 Controller disconnected')
+    this.onDisconnect?.()
+  }
+
+  private handleButtonDown(pad: Phaser.Input.Gamepad.Gamepad, button: Phaser.Input.Gamepad.Button): void {
+    // The first pad to press a button becomes the active one
+    if (!this.pad?.connected) {
+      this.pad = pad
+    }
+    if (pad !== this.pad) return
+
+    InputGlyphs.setActiveDevice('gamepad')
+    if (InputMap.getButtons('pause').includes(button.index)) {
+      this.onPause?.()
+    } else if (InputMap.getButtons('mute').includes(button.index)) {
+      this.onMute?.()
+    }
+  }
+
+  private handleKeyDown(): void {
+    InputGlyphs.setActiveDevice('keyboard')
+  }
+
+  private handlePointerDown(pointer: Phaser.Input.Pointer): void {
+    if (pointer.wasTouch) {
+      InputGlyphs.setActiveDevice('touch')
+    }
+  }
+
+  private showStatus(message: string): void {
+    this.statusText?.destroy()
+
+    const camera = this.scene.cameras.main
+    const statusText = this.scene.add.text(camera.width / 2, 90, message, {
+      fontSize: '12px',
+      fontFamily: '"Press Start 2P", system-ui',
+      color: '#FFD700',
+      backgroundColor: '#4a148c',
+      padding: { x: 10, y: 8 }
+    }).setOrigin(0.5).setScrollFactor(0).setDepth(6000)
+    this.statusText = statusText
+
+    this.scene.tweens.add({
+      targets: statusText,
+      alpha: 0,
+      delay: 1500,
+      duration: 500,
+      onComplete: () => {
+        statusText.destroy()
+        if (this.statusText === statusText) this.statusText = null
+      }
+    })
+  }
+
+  private destroy(): void {
+    const plugin = this.scene.input.gamepad
+    plugin?.off('connected', this.handleConnected, this)
+    plugin?.off('disconnected', this.handleDisconnected, this)
+    plugin?.off('down', this.handleButtonDown, this)
+    this.scene.input.keyboard?.off('keydown', this.handleKeyDown, this)
+    this.scene.input.off('pointerdown', this.handlePointerDown, this)
+    this.statusText = null
+  }
+
+  static loadSettings(): GamepadSettings {
+    try {
+      const saved = JSON.parse(ProfileStore.getItem('gamepadSettings') || '{}')
+      const deadZone = typeof saved.deadZone === 'number' ? saved.deadZone : this.DEFAULT_DEAD_ZONE
+      return { deadZone: Phaser.Math.Clamp(deadZone, this.MIN_DEAD_ZONE, this.MAX_DEAD_ZONE) }
+    } catch (e) {
+      console.warn('🎮 Could not load gamepad settings:', e)
+      return { deadZone: this.DEFAULT_DEAD_ZONE }
+    }
+  }
+
+  private static saveSettings(settings: GamepadSettings): void {
+    try {
+      ProfileStore.setItem('gamepadSettings', JSON.stringify(settings))
+    } catch (e) {
+      console.warn('🎮 Could not save gamepad settings:', e)
+    }
+  }
+}
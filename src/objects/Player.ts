@@ -1,13 +1,20 @@
 import GameSettings from "../config/GameSettings"
 import { TouchControls } from "./TouchControls"
+import { GamepadControls } from "./GamepadControls"
+import { PlayerInputFrame } from "../systems/ReplaySystem"
+import { InputMap } from "../systems/InputMap"
+import { PowerUpManager } from "../systems/PowerUpManager"
 
 export class Player extends Phaser.Physics.Arcade.Sprite {
-  private cursors!: Phaser.Types.Input.Keyboard.CursorKeys
   private isClimbing: boolean = false
   private currentLadder: Phaser.GameObjects.GameObject | null = null
   private nearbyLadder: Phaser.GameObjects.GameObject | null = null // Track ladder we're overlapping
   private currentJumpSound: number = 1 // Track which jump sound to play next (1, 2, or 3)
   private touchControls: TouchControls | null = null
+  private gamepadControls: GamepadControls | null = null
+  private powerUps: PowerUpManager | null = null // Timed power-ups, owned by GameScene
+  private frameInput: PlayerInputFrame | null = null // Input supplied by GameScene (recording/playback)
+  private lastInput: PlayerInputFrame | null = null
   private walkAnimationTimer: number = 0
   private climbAnimationTimer: number = 0
   private footstepTimer: number = 0
@@ -29,37 +36,12 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
   private readonly MIN_JUMP_VELOCITY: number = -120 // Small hop for quick taps - allows tiny bounces
   private readonly MAX_JUMP_VELOCITY: number = GameSettings.game.jumpVelocity // Full jump from GameSettings (-350)
   private readonly MAX_JUMP_HOLD_TIME: number = 300 // milliseconds to reach max height - balanced for both controls
+  private airJumpUsed: boolean = false // Double jump power-up: the mid-air jump is spent until landing
+  private readonly AIR_JUMP_VELOCITY: number = GameSettings.game.jumpVelocity * 0.85
   
   // Speed multiplier for power-ups (like invincibility)
   private speedMultiplier: number = 1.0
   
-  // Crystal Ball power-up
-  private crystalBallActive: boolean = false
-  private crystalBallTimer: number = 0
-  private readonly CRYSTAL_BALL_DURATION: number = 20000 // 20 seconds in milliseconds
-  private crystalBallParticles: Phaser.GameObjects.Graphics[] = []
-  private crystalBallParticleTimer?: Phaser.Time.TimerEvent
-  private crystalBallGlow?: Phaser.GameObjects.Graphics
-  private crystalBallWarningPlayed: boolean = false
-  
-  // Cursed Orb power-up (darkness effect)
-  private cursedOrbActive: boolean = false
-  private cursedOrbTimer: number = 0
-  private readonly CURSED_ORB_DURATION: number = 10000 // 10 seconds in milliseconds
-  private cursedOrbParticles: Phaser.GameObjects.Graphics[] = []
-  private cursedOrbParticleTimer?: Phaser.Time.TimerEvent
-  private cursedOrbGlow?: Phaser.GameObjects.Graphics
-  private cursedOrbWarningPlayed: boolean = false
-  
-  // Cursed Teal Orb power-up (control reversal)
-  private cursedTealOrbActive: boolean = false
-  private cursedTealOrbTimer: number = 0
-  private readonly CURSED_TEAL_ORB_DURATION: number = 10000 // 10 seconds in milliseconds
-  private cursedTealOrbParticles: Phaser.GameObjects.Graphics[] = []
-  private cursedTealOrbParticleTimer?: Phaser.Time.TimerEvent
-  private cursedTealOrbGlow?: Phaser.GameObjects.Graphics
-  private cursedTealOrbWarningPlayed: boolean = false
-  
   // Speech/Thought bubble system
   private idleTimer: number = 0
   private readonly IDLE_THRESHOLD: number = 5000 // 5 seconds in milliseconds
@@ -125,18 +107,58 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     
     // Initialize two-layer running system if sprites are available
     this.initializeTwoLayerRunning(scene, x, y)
-    
-    // Create cursor keys for input
-    this.cursors = scene.input.keyboard!.createCursorKeys()
-    
-    // Add spacebar for jumping
-    scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.SPACE)
   }
   
   setTouchControls(touchControls: TouchControls): void {
     this.touchControls = touchControls
   }
   
+  setGamepadControls(gamepadControls: GamepadControls): void {
+    this.gamepadControls = gamepadControls
+  }
+  
+  setPowerUps(powerUps: PowerUpManager): void {
+    this.powerUps = powerUps
+  }
+  
+  /**
+   * Supply this frame's input instead of reading the live devices (used for replay playback)
+   */
+  setFrameInput(input: PlayerInputFrame): void {
+    this.frameInput = input
+  }
+  
+  /**
+   * Read the keyboard (through the InputMap bindings), touch and gamepad controls into a single input frame
+   * Consumes "just pressed" state, so call at most once per frame
+   */
+  readLiveInput(): PlayerInputFrame {
+    const keyboard = this.scene.input.keyboard!
+    
+    // Touch controls use the discrete D-pad
+    const touch = this.touchControls
+    // Gamepad stick is already reduced to directions past the dead zone
+    const pad = this.gamepadControls
+    
+    return {
+      left: InputMap.isDown(keyboard, 'moveLeft') || (touch?.leftPressed || false) || (pad?.leftPressed || false),
+      right: InputMap.isDown(keyboard, 'moveRight') || (touch?.rightPressed || false) || (pad?.rightPressed || false),
+      up: InputMap.isDown(keyboard, 'climbUp') || (touch?.upPressed || false) || (pad?.upPressed || false),
+      down: InputMap.isDown(keyboard, 'climbDown') || (touch?.downPressed || false) || (pad?.downPressed || false),
+      jumpHeld: InputMap.isDown(keyboard, 'jump') || (touch?.isJumpPressed() || false) || (pad?.isJumpPressed() || false),
+      jumpJustPressed: InputMap.isJustDown(keyboard, 'jump') || (touch?.isJumpJustPressed() || false) || (pad?.isJumpJustPressed() || false),
+      // Crystal ball firing (fire keys, action button on mobile, or fire buttons on a gamepad)
+      fireJustPressed: InputMap.isJustDown(keyboard, 'fire') || (touch?.isActionJustPressed() || false) || (pad?.isActionJustPressed() || false)
+    }
+  }
+  
+  /**
+   * Get the input the player acted on during the last update
+   */
+  getLastInput(): PlayerInputFrame | null {
+    return this.lastInput
+  }
+  
   setBubbleTriggerCallback(callback: () => void): void {
     this.onBubbleTrigger = callback
   }
@@ -176,6 +198,13 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     }
   }
   
+  /**
+   * Re-align the running overlay sprites after the player's render position is interpolated
+   */
+  syncRenderPosition(): void {
+    this.updateTwoLayerPosition()
+  }
+  
   private updateTwoLayerPosition(): void {
     // Keep both sprites aligned with the main player sprite
     // Only update if sprites are visible to prevent unnecessary redraws
@@ -360,39 +389,23 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     }
     
     const onGround = this.body.blocked.down
-    const spaceKey = this.scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.SPACE)
-    
-    // Add WASD keys support
-    const wKey = this.scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.W)
-    const aKey = this.scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.A)
-    const sKey = this.scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.S)
-    const dKey = this.scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.D)
     
-    // Add E key for jump and Q/V/M keys for crystal ball firing
-    const eKey = this.scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.E)
-    const qKey = this.scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.Q)
-    const vKey = this.scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.V)
-    const mKey = this.scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.M)
+    // Input comes from GameScene when it's recording or playing back, otherwise straight from the devices
+    const input = this.frameInput || this.readLiveInput()
+    this.frameInput = null
+    this.lastInput = input
     
-    // Get input from keyboard (arrows or WASD) or touch controls (now discrete D-pad)
     // Apply control reversal if cursed teal orb is active
-    const reversalActive = this.cursedTealOrbActive
-    
-    const rawLeftPressed = this.cursors.left.isDown || aKey.isDown || (this.touchControls?.leftPressed || false)
-    const rawRightPressed = this.cursors.right.isDown || dKey.isDown || (this.touchControls?.rightPressed || false)
-    const rawUpPressed = this.cursors.up.isDown || wKey.isDown || (this.touchControls?.upPressed || false)
-    const rawDownPressed = this.cursors.down.isDown || sKey.isDown || (this.touchControls?.downPressed || false)
+    const reversalActive = this.powerUps?.isActive('cursedTealOrb') || false
     
     // Reverse controls if cursed
-    const leftPressed = reversalActive ? rawRightPressed : rawLeftPressed
-    const rightPressed = reversalActive ? rawLeftPressed : rawRightPressed
-    const upPressed = reversalActive ? rawDownPressed : rawUpPressed
-    const downPressed = reversalActive ? rawUpPressed : rawDownPressed
-    const jumpJustPressed = Phaser.Input.Keyboard.JustDown(spaceKey) || Phaser.Input.Keyboard.JustDown(eKey) || (this.touchControls?.isJumpJustPressed() || false)
-    const jumpButtonHeld = spaceKey.isDown || eKey.isDown || (this.touchControls?.jumpPressed || false)
-    
-    // Crystal ball firing (Q, V, or M keys, or action button on mobile)
-    const fireJustPressed = Phaser.Input.Keyboard.JustDown(qKey) || Phaser.Input.Keyboard.JustDown(vKey) || Phaser.Input.Keyboard.JustDown(mKey) || (this.touchControls?.isActionJustPressed() || false)
+    const leftPressed = reversalActive ? input.right : input.left
+    const rightPressed = reversalActive ? input.left : input.right
+    const upPressed = reversalActive ? input.down : input.up
+    const downPressed = reversalActive ? input.up : input.down
+    const jumpJustPressed = input.jumpJustPressed
+    const jumpButtonHeld = input.jumpHeld
+    const fireJustPressed = input.fireJustPressed
     
     // Track if player is moving horizontally
     this.isMoving = (leftPressed || rightPressed) && !this.isClimbing
@@ -454,6 +467,16 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
         const inputType = isTouchInput ? 'TOUCH' : 'KEYBOARD'
         console.log(`[${inputType}] Jump started - Initial velocity: ${initialVelocity}, Target max: ${this.MAX_JUMP_VELOCITY}`)
         this.triggerHapticFeedback() // Haptic feedback for jump start
+      } else if (jumpJustPressed && !onGround && !tryingToClimb && !this.airJumpUsed &&
+                 this.powerUps?.isActive('doubleJump')) {
+        // Double jump - a fixed-height second jump, no hold boost
+        this.airJumpUsed = true
+        this.isAirborne = true
+        this.jumpButtonDown = false
+        this.jumpReleased = true
+        this.setVelocityY(this.AIR_JUMP_VELOCITY)
+        this.playJumpSound()
+        this.triggerHapticFeedback()
       }
       
       // Continue boosting jump while airborne
@@ -509,6 +532,7 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
         this.jumpButtonDown = false
         this.jumpReleased = false
         this.jumpHoldTime = 0
+        this.airJumpUsed = false
         // Player landed, jump complete - landing sound disabled for now
         // this.scene.sound.play('player-land', { volume: 0.4 })
         this.triggerHapticFeedback() // Haptic feedback for landing
@@ -596,18 +620,11 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
       this.fireCrystalBall()
     }
     
-    // Handle bubble system timing
-    this.updateBubbleSystem()
-    
-    // Handle crystal ball power-up timer
-    this.updateCrystalBallTimer(delta)
-    
-    // Handle cursed orb power-up timers
-    this.updateCursedOrbTimer(delta)
-    this.updateCursedTealOrbTimer(delta)
+    // Handle bubble system timing (power-up timers are ticked by GameScene's PowerUpManager)
+    this.updateBubbleSystem(delta)
     
     // Handle smart animation system
-    this.updateSmartAnimations()
+    this.updateSmartAnimations(delta)
     
     // Only update two-layer position when sprites are visible and player is moving
     if (this.runBodySprite && this.runBodySprite.visible && (this.body.velocity.x !== 0 || this.body.velocity.y !== 0)) {
@@ -625,6 +642,7 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     this.jumpButtonDown = false
     this.jumpReleased = false
     this.jumpHoldTime = 0
+    this.airJumpUsed = false
     
     if (this.body instanceof Phaser.Physics.Arcade.Body) {
       this.body.setAllowGravity(false)
@@ -661,12 +679,15 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     // Track that we're near this ladder (for jump prevention)
     this.nearbyLadder = ladder
     
-    // Check if player is pressing up or down near a ladder
-    const wKey = this.scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.W)
-    const sKey = this.scene.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.S)
-    // Use discrete D-pad input for ladder climbing
-    const upPressed = this.cursors.up.isDown || wKey.isDown || (this.touchControls?.upPressed || false)
-    const downPressed = this.cursors.down.isDown || sKey.isDown || (this.touchControls?.downPressed || false)
+    // Check if player is pressing up or down near a ladder (same input the last update acted on)
+    let upPressed = this.lastInput?.up || false
+    let downPressed = this.lastInput?.down || false
+    if (!this.lastInput) {
+      const keyboard = this.scene.input.keyboard!
+      // Use discrete D-pad input for ladder climbing
+      upPressed = InputMap.isDown(keyboard, 'climbUp') || (this.touchControls?.upPressed || false) || (this.gamepadControls?.upPressed || false)
+      downPressed = InputMap.isDown(keyboard, 'climbDown') || (this.touchControls?.downPressed || false) || (this.gamepadControls?.downPressed || false)
+    }
     
     if (upPressed || downPressed) {
       const ladderSprite = ladder as Phaser.GameObjects.Rectangle
@@ -692,9 +713,8 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     this.speedMultiplier = multiplier
   }
   
-  private updateBubbleSystem(): void {
+  private updateBubbleSystem(deltaTime: number): void {
     if (!this.body) return // Guard against early calls
-    const deltaTime = this.scene.game.loop.delta
     const onGround = this.body.blocked.down
     
     // Check if player is truly idle (not moving, not climbing, not jumping, on ground)
@@ -744,9 +764,8 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     }
   }
   
-  private updateSmartAnimations(): void {
+  private updateSmartAnimations(deltaTime: number): void {
     if (!this.body) return // Guard against early calls
-    const deltaTime = this.scene.game.loop.delta
     const onGround = this.body.blocked.down
     
     // Priority 1: Climbing animations (climbing overrides EVERYTHING else)
@@ -1183,69 +1202,10 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     }
   }
   
-  // Crystal Ball power-up methods
-  activateCrystalBall(): void {
-    console.log('🔮 ACTIVATING Crystal Ball power-up for 10 seconds!')
-    this.crystalBallActive = true
-    this.crystalBallTimer = this.CRYSTAL_BALL_DURATION
-    this.crystalBallWarningPlayed = false // Reset warning flag
-    
-    // Start green particle effect around player
-    this.startCrystalBallParticles()
-    
-    // Notify scene to update HUD
-    const gameScene = this.scene as any
-    if (gameScene && gameScene.updateCrystalBallTimer) {
-      console.log('🔮 Updating HUD timer with', this.crystalBallTimer, 'ms')
-      gameScene.updateCrystalBallTimer(this.crystalBallTimer, this.CRYSTAL_BALL_DURATION)
-    } else {
-      console.log('❌ Could not update HUD timer - scene method not found')
-    }
-  }
-  
-  private updateCrystalBallTimer(delta: number): void {
-    if (this.crystalBallActive) {
-      this.crystalBallTimer -= delta
-      
-      // Warning when 2 seconds remaining (sound removed)
-      if (!this.crystalBallWarningPlayed && this.crystalBallTimer <= 2000 && this.crystalBallTimer > 0) {
-        this.crystalBallWarningPlayed = true
-        console.log('⏰ Timer warning for crystal ball')
-      }
-      
-      // Update glow position to follow player
-      if (this.crystalBallGlow) {
-        this.crystalBallGlow.x = this.x
-        this.crystalBallGlow.y = this.y
-      }
-      
-      if (this.crystalBallTimer <= 0) {
-        this.crystalBallActive = false
-        this.crystalBallTimer = 0
-        
-        // Stop particle effect when power-up expires
-        this.stopCrystalBallParticles()
-      }
-      
-      // Update HUD timer
-      const gameScene = this.scene as any
-      if (gameScene && gameScene.updateCrystalBallTimer) {
-        gameScene.updateCrystalBallTimer(this.crystalBallTimer, this.CRYSTAL_BALL_DURATION)
-      }
-    }
-  }
-  
-  getCrystalBallActive(): boolean {
-    return this.crystalBallActive
-  }
-  
-  getCrystalBallTimeRemaining(): number {
-    return this.crystalBallTimer
-  }
-  
   fireCrystalBall(): void {
-    console.log('🔫 Fire button pressed! Active:', this.crystalBallActive, 'Climbing:', this.isClimbing)
-    if (!this.crystalBallActive) {
+    const crystalBallActive = this.powerUps?.isActive('crystalBall') || false
+    console.log('🔫 Fire button pressed! Active:', crystalBallActive, 'Climbing:', this.isClimbing)
+    if (!crystalBallActive) {
       console.log('❌ Cannot fire - Crystal Ball power-up not active')
       return
     }
@@ -1277,428 +1237,6 @@ export class Player extends Phaser.Physics.Arcade.Sprite {
     }
   }
   
-  private startCrystalBallParticles(): void {
-    // Stop any existing particle timer
-    this.stopCrystalBallParticles()
-    
-    // Start particle generation
-    this.crystalBallParticleTimer = this.scene.time.addEvent({
-      delay: 150, // Create particle every 150ms
-      callback: () => this.createCrystalBallParticle(),
-      loop: true
-    })
-  }
-  
-  private createCrystalBallParticle(): void {
-    if (!this.crystalBallActive || !this.scene) return
-    
-    // Create glowing green pixel particle
-    const particle = this.scene.add.graphics()
-    // Add glow effect with multiple layers
-    particle.fillStyle(0x44d0a7, 0.3)
-    particle.fillCircle(0, 0, 4) // Outer glow
-    particle.fillStyle(0x44d0a7, 0.6)
-    particle.fillCircle(0, 0, 2) // Middle glow
-    particle.fillStyle(0x44d0a7, 1)
-    particle.fillRect(-1, -1, 2, 2) // Core pixel
-    
-    // Random position around the player (orbiting effect)
-    const angle = Math.random() * Math.PI * 2
-    const distance = 25 + Math.random() * 15 // 25-40 pixels from player
-    const startX = this.x + Math.cos(angle) * distance
-    const startY = this.y + Math.sin(angle) * distance
-    
-    particle.x = startX
-    particle.y = startY
-    particle.setDepth(19) // Just below player (player is depth 20)
-    
-    this.crystalBallParticles.push(particle)
-    
-    // Animate particle orbiting and fading
-    this.scene.tweens.add({
-      targets: particle,
-      x: this.x + Math.cos(angle + 1) * (distance + 10), // Continue orbit
-      y: startY - 20, // Float upward
-      alpha: 0,
-      duration: 1200,
-      ease: 'Power2.easeOut',
-      onComplete: () => {
-        const index = this.crystalBallParticles.indexOf(particle)
-        if (index > -1) {
-          this.crystalBallParticles.splice(index, 1)
-        }
-        particle.destroy()
-      }
-    })
-  }
-  
-  private stopCrystalBallParticles(): void {
-    // Stop particle generation
-    if (this.crystalBallParticleTimer) {
-      this.crystalBallParticleTimer.destroy()
-      this.crystalBallParticleTimer = undefined
-    }
-    
-    // Clean up existing particles
-    this.crystalBallParticles.forEach(particle => particle.destroy())
-    this.crystalBallParticles = []
-    
-    // Clean up glow effect
-    if (this.crystalBallGlow) {
-      this.crystalBallGlow.destroy()
-      this.crystalBallGlow = undefined
-    }
-  }
-
-  private createPlayerGlow(): void {
-    if (!this.crystalBallGlow || !this.crystalBallActive) return
-    
-    // Clear previous glow
-    this.crystalBallGlow.clear()
-    
-    // Create subtle green glow around player
-    const glowColor = 0x44d0a7
-    
-    // Position glow at player center
-    this.crystalBallGlow.x = this.x
-    this.crystalBallGlow.y = this.y
-    
-    // Multiple layered circles for soft glow effect
-    this.crystalBallGlow.fillStyle(glowColor, 0.1)
-    this.crystalBallGlow.fillCircle(0, 0, 35) // Outer glow
-    this.crystalBallGlow.fillStyle(glowColor, 0.2)
-    this.crystalBallGlow.fillCircle(0, 0, 25) // Middle glow  
-    this.crystalBallGlow.fillStyle(glowColor, 0.3)
-    this.crystalBallGlow.fillCircle(0, 0, 15) // Inner glow
-    
-    // Add pulsing animation
-    this.scene.tweens.add({
-      targets: this.crystalBallGlow,
-      scaleX: 1.2,
-      scaleY: 1.2,
-      alpha: 0.7,
-      duration: 800,
-      yoyo: true,
-      repeat: -1,
-      ease: 'Sine.easeInOut'
-    })
-  }
-
-  // Cursed Orb power-up methods
-  activateCursedOrb(): void {
-    this.cursedOrbActive = true
-    this.cursedOrbTimer = this.CURSED_ORB_DURATION
-    this.cursedOrbWarningPlayed = false // Reset warning flag
-    
-    // Start dark purple particle effect around player
-    this.startCursedOrbParticles()
-    
-    // Notify scene to update HUD and activate darkness
-    const gameScene = this.scene as any
-    if (gameScene && gameScene.updateCursedOrbTimer) {
-      gameScene.updateCursedOrbTimer(this.cursedOrbTimer, this.CURSED_ORB_DURATION)
-    }
-    if (gameScene && gameScene.activateDarknessEffect) {
-      gameScene.activateDarknessEffect()
-    }
-  }
-  
-  activateCursedTealOrb(): void {
-    this.cursedTealOrbActive = true
-    this.cursedTealOrbTimer = this.CURSED_TEAL_ORB_DURATION
-    this.cursedTealOrbWarningPlayed = false // Reset warning flag
-    
-    // Start teal particle effect around player
-    this.startCursedTealOrbParticles()
-    
-    // Notify scene to update HUD
-    const gameScene = this.scene as any
-    if (gameScene && gameScene.updateCursedTealOrbTimer) {
-      gameScene.updateCursedTealOrbTimer(this.cursedTealOrbTimer, this.CURSED_TEAL_ORB_DURATION)
-    }
-  }
-  
-  // Getter methods for cursed power-ups
-  getCursedOrbActive(): boolean {
-    return this.cursedOrbActive
-  }
-  
-  getCursedTealOrbActive(): boolean {
-    return this.cursedTealOrbActive
-  }
-
-  private updateCursedOrbTimer(delta: number): void {
-    if (this.cursedOrbActive) {
-      this.cursedOrbTimer -= delta
-      
-      // Warning when 2 seconds remaining (sound removed)
-      if (!this.cursedOrbWarningPlayed && this.cursedOrbTimer <= 2000 && this.cursedOrbTimer > 0) {
-        this.cursedOrbWarningPlayed = true
-        console.log('⏰ Timer warning for cursed orb')
-      }
-      
-      // Update glow position to follow player
-      if (this.cursedOrbGlow) {
-        this.cursedOrbGlow.x = this.x
-        this.cursedOrbGlow.y = this.y
-      }
-      
-      if (this.cursedOrbTimer <= 0) {
-        this.cursedOrbActive = false
-        this.cursedOrbTimer = 0
-        
-        // Stop particle effect when power-up expires
-        this.stopCursedOrbParticles()
-        
-        // Notify scene to deactivate darkness
-        const gameScene = this.scene as any
-        if (gameScene && gameScene.deactivateDarknessEffect) {
-          gameScene.deactivateDarknessEffect()
-        }
-      }
-      
-      // Update HUD timer
-      const gameScene = this.scene as any
-      if (gameScene && gameScene.updateCursedOrbTimer) {
-        gameScene.updateCursedOrbTimer(this.cursedOrbTimer, this.CURSED_ORB_DURATION)
-      }
-    }
-  }
-  
-  private updateCursedTealOrbTimer(delta: number): void {
-    if (this.cursedTealOrbActive) {
-      this.cursedTealOrbTimer -= delta
-      
-      // Warning when 2 seconds remaining (sound removed)
-      if (!this.cursedTealOrbWarningPlayed && this.cursedTealOrbTimer <= 2000 && this.cursedTealOrbTimer > 0) {
-        this.cursedTealOrbWarningPlayed = true
-        console.log('⏰ Timer warning for cursed teal orb')
-      }
-      
-      // Update glow position to follow player
-      if (this.cursedTealOrbGlow) {
-        this.cursedTealOrbGlow.x = this.x
-        this.cursedTealOrbGlow.y = this.y
-      }
-      
-      if (this.cursedTealOrbTimer <= 0) {
-        this.cursedTealOrbActive = false
-        this.cursedTealOrbTimer = 0
-        
-        // Stop particle effect when power-up expires
-        this.stopCursedTealOrbParticles()
-      }
-      
-      // Update HUD timer
-      const gameScene = this.scene as any
-      if (gameScene && gameScene.updateCursedTealOrbTimer) {
-        gameScene.updateCursedTealOrbTimer(this.cursedTealOrbTimer, this.CURSED_TEAL_ORB_DURATION)
-      }
-    }
-  }
-  
-  // Particle methods for cursed orbs (similar structure to crystal ball)
-  private startCursedOrbParticles(): void {
-    this.stopCursedOrbParticles()
-    
-    // Create glow effect around player
-    this.cursedOrbGlow = this.scene.add.graphics()
-    this.cursedOrbGlow.setDepth(18)
-    this.createCursedOrbPlayerGlow()
-    
-    this.cursedOrbParticleTimer = this.scene.time.addEvent({
-      delay: 200, // Slightly slower than crystal ball
-      callback: () => this.createCursedOrbParticle(),
-      loop: true
-    })
-  }
-  
-  private startCursedTealOrbParticles(): void {
-    this.stopCursedTealOrbParticles()
-    
-    // Create glow effect around player
-    this.cursedTealOrbGlow = this.scene.add.graphics()
-    this.cursedTealOrbGlow.setDepth(18)
-    this.createCursedTealOrbPlayerGlow()
-    
-    this.cursedTealOrbParticleTimer = this.scene.time.addEvent({
-      delay: 180, // Faster than cursed orb
-      callback: () => this.createCursedTealOrbParticle(),
-      loop: true
-    })
-  }
-  
-  private createCursedOrbParticle(): void {
-    if (!this.cursedOrbActive || !this.scene) return
-    
-    const particle = this.scene.add.graphics()
-    // Dark purple glowing particle
-    particle.fillStyle(0x580641, 0.4)
-    particle.fillCircle(0, 0, 3) // Outer glow
-    particle.fillStyle(0x580641, 0.8)
-    particle.fillCircle(0, 0, 1) // Core
-    
-    const angle = Math.random() * Math.PI * 2
-    const distance = 30 + Math.random() * 15
-    const startX = this.x + Math.cos(angle) * distance
-    const startY = this.y + Math.sin(angle) * distance
-    
-    particle.x = startX
-    particle.y = startY
-    particle.setDepth(19)
-    
-    this.cursedOrbParticles.push(particle)
-    
-    // Animate particle floating downward (cursed effect)
-    this.scene.tweens.add({
-      targets: particle,
-      y: startY + 25,
-      alpha: 0,
-      duration: 1500,
-      ease: 'Power2.easeOut',
-      onComplete: () => {
-        const index = this.cursedOrbParticles.indexOf(particle)
-        if (index > -1) {
-          this.cursedOrbParticles.splice(index, 1)
-        }
-        particle.destroy()
-      }
-    })
-  }
-  
-  private createCursedTealOrbParticle(): void {
-    if (!this.cursedTealOrbActive || !this.scene) return
-    
-    const particle = this.scene.add.graphics()
-    // Teal glowing particle
-    particle.fillStyle(0x49a79c, 0.4)
-    particle.fillCircle(0, 0, 3)
-    particle.fillStyle(0x49a79c, 0.8)
-    particle.fillCircle(0, 0, 1)
-    
-    const angle = Math.random() * Math.PI * 2
-    const distance = 25 + Math.random() * 20
-    const startX = this.x + Math.cos(angle) * distance
-    const startY = this.y + Math.sin(angle) * distance
-    
-    particle.x = startX
-    particle.y = startY
-    particle.setDepth(19)
-    
-    this.cursedTealOrbParticles.push(particle)
-    
-    // Animate particle in chaotic spiral (control reversal theme)
-    this.scene.tweens.add({
-      targets: particle,
-      x: startX + Math.sin(angle) * 30, // Spiral motion
-      y: startY - 20,
-      alpha: 0,
-      duration: 1300,
-      ease: 'Power2.easeOut',
-      onComplete: () => {
-        const index = this.cursedTealOrbParticles.indexOf(particle)
-        if (index > -1) {
-          this.cursedTealOrbParticles.splice(index, 1)
-        }
-        particle.destroy()
-      }
-    })
-  }
-  
-  private createCursedOrbPlayerGlow(): void {
-    if (!this.cursedOrbGlow || !this.cursedOrbActive) return
-    
-    this.cursedOrbGlow.clear()
-    const glowColor = 0x580641 // Dark purple
-    
-    this.cursedOrbGlow.x = this.x
-    this.cursedOrbGlow.y = this.y
-    
-    // Dark, ominous glow
-    this.cursedOrbGlow.fillStyle(glowColor, 0.15)
-    this.cursedOrbGlow.fillCircle(0, 0, 40)
-    this.cursedOrbGlow.fillStyle(glowColor, 0.25)
-    this.cursedOrbGlow.fillCircle(0, 0, 25)
-    
-    this.scene.tweens.add({
-      targets: this.cursedOrbGlow,
-      scaleX: 1.3,
-      scaleY: 1.3,
-      alpha: 0.6,
-      duration: 1200,
-      yoyo: true,
-      repeat: -1,
-      ease: 'Sine.easeInOut'
-    })
-  }
-  
-  private createCursedTealOrbPlayerGlow(): void {
-    if (!this.cursedTealOrbGlow || !this.cursedTealOrbActive) return
-    
-    this.cursedTealOrbGlow.clear()
-    const glowColor = 0x49a79c // Teal
-    
-    this.cursedTealOrbGlow.x = this.x
-    this.cursedTealOrbGlow.y = this.y
-    
-    // Chaotic, swirling glow
-    this.cursedTealOrbGlow.fillStyle(glowColor, 0.12)
-    this.cursedTealOrbGlow.fillCircle(0, 0, 38)
-    this.cursedTealOrbGlow.fillStyle(glowColor, 0.22)
-    this.cursedTealOrbGlow.fillCircle(0, 0, 22)
-    
-    this.scene.tweens.add({
-      targets: this.cursedTealOrbGlow,
-      rotation: Math.PI * 2,
-      scaleX: 1.4,
-      scaleY: 1.4,
-      alpha: 0.7,
-      duration: 900, // Faster than cursed orb
-      yoyo: true,
-      repeat: -1,
-      ease: 'Sine.easeInOut'
-    })
-  }
-  
-  private stopCursedOrbParticles(): void {
-    if (this.cursedOrbParticleTimer) {
-      this.cursedOrbParticleTimer.destroy()
-      this.cursedOrbParticleTimer = undefined
-    }
-    
-    this.cursedOrbParticles.forEach(particle => particle.destroy())
-    this.cursedOrbParticles = []
-    
-    if (this.cursedOrbGlow) {
-      this.cursedOrbGlow.destroy()
-      this.cursedOrbGlow = undefined
-    }
-  }
-  
-  private stopCursedTealOrbParticles(): void {
-    if (this.cursedTealOrbParticleTimer) {
-      this.cursedTealOrbParticleTimer.destroy()
-      this.cursedTealOrbParticleTimer = undefined
-    }
-    
-    this.cursedTealOrbParticles.forEach(particle => particle.destroy())
-    this.cursedTealOrbParticles = []
-    
-    if (this.cursedTealOrbGlow) {
-      this.cursedTealOrbGlow.destroy()
-      this.cursedTealOrbGlow = undefined
-    }
-  }
-  
-  // Public methods to stop cursed orb particles (called from GameScene)
-  public stopAllCursedOrbParticles(): void {
-    this.stopCursedOrbParticles()
-  }
-  
-  public stopAllCursedTealOrbParticles(): void {
-    this.stopCursedTealOrbParticles()
-  }
-  
   private playJumpSound(): void {
     // Check if sound effects are enabled (SDK mute is handled by Phaser internally)
     const sfxEnabled = this.scene.registry.get('sfxEnabled') !== false
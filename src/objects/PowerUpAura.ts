@@ -0,0 +1,132 @@
+export interface PowerUpAuraStyle {
+  color: number
+  particleInterval: number               // ms between particles
+  particleRings: Array<[number, number]> // [radius, alpha] circles drawn from the outside in
+  particleCore?: boolean                 // Solid 2px pixel in the middle
+  particleDistance: [number, number]     // Spawn distance from the player: [min, random extra]
+  particleLife: number                   // ms to fade out
+  particleDrift: 'orbit' | 'sink' | 'spiral'
+  glow?: {
+    rings: Array<[number, number]>       // [radius, alpha]
+    scale: number                        // Pulse to this scale and back
+    alpha: number
+    duration: number
+    spin?: boolean
+  }
+}
+
+/**
+ * Particles and glow around the player while a power-up is running
+ * One class for every power-up's look - the style says the colour, how particles drift and whether there's a glow
+ */
+export class PowerUpAura {
+  private scene: Phaser.Scene
+  private target: { x: number, y: number }
+  private style: PowerUpAuraStyle
+  private particles: Phaser.GameObjects.Graphics[] = []
+  private particleTimer: Phaser.Time.TimerEvent | null = null
+  private glow: Phaser.GameObjects.Graphics | null = null
+
+  constructor(scene: Phaser.Scene, target: { x: number, y: number }, style: PowerUpAuraStyle) {
+    this.scene = scene
+    this.target = target
+    this.style = style
+
+    if (style.glow) {
+      this.createGlow(style.glow)
+    }
+
+    this.particleTimer = scene.time.addEvent({
+      delay: style.particleInterval,
+      callback: () => this.createParticle(),
+      loop: true
+    })
+  }
+
+  /**
+   * Keep the glow on the player - called every step while the power-up runs
+   */
+  follow(): void {
+    this.glow?.setPosition(this.target.x, this.target.y)
+  }
+
+  destroy(): void {
+    this.particleTimer?.destroy()
+    this.particleTimer = null
+    this.particles.forEach(particle => particle.destroy())
+    this.particles = []
+    this.glow?.destroy()
+    this.glow = null
+  }
+
+  private createGlow(glow: NonNullable<PowerUpAuraStyle['glow']>): void {
+    const graphics = this.scene.add.graphics()
+    graphics.setDepth(18) // Below particles (19) and the player (20)
+    graphics.setPosition(this.target.x, this.target.y)
+    glow.rings.forEach(([radius, alpha]) => {
+      graphics.fillStyle(this.style.color, alpha)
+      graphics.fillCircle(0, 0, radius)
+    })
+    this.glow = graphics
+
+    this.scene.tweens.add({
+      targets: graphics,
+      scaleX: glow.scale,
+      scaleY: glow.scale,
+      alpha: glow.alpha,
+      ...(glow.spin ? { rotation: Math.PI * 2 } : {}),
+      duration: glow.duration,
+      yoyo: true,
+      repeat: -1,
+      ease: 'Sine.easeInOut'
+    })
+  }
+
+  private createParticle(): void {
+    if (!this.scene) return
+
+    const particle = this.scene.add.graphics()
+    this.style.particleRings.forEach(([radius, alpha]) => {
+      particle.fillStyle(this.style.color, alpha)
+      particle.fillCircle(0, 0, radius)
+    })
+    if (this.style.particleCore) {
+      particle.fillStyle(this.style.color, 1)
+      particle.fillRect(-1, -1, 2, 2)
+    }
+
+    // Random position around the player
+    const angle = Math.random() * Math.PI * 2
+    const [minDistance, extraDistance] = this.style.particleDistance
+    const distance = minDistance + Math.random() * extraDistance
+    const startX = this.target.x + Math.cos(angle) * distance
+    const startY = this.target.y + Math.sin(angle) * distance
+    particle.setPosition(startX, startY)
+    particle.setDepth(19) // Just below player (player is depth 20)
+    this.particles.push(particle)
+
+    // Orbit floats up around the player, sink drifts down, spiral swirls sideways and up
+    const drift = this.style.particleDrift === 'orbit'
+      ? { x: this.target.x + Math.cos(angle + 1) * (distance + 10), y: startY - 20 }
+      : this.style.particleDrift === 'sink'
+        ? { y: startY + 25 }
+        : { x: startX + Math.sin(angle) * 30, y: startY - 20 }
+
+    this.scene.tweens.add({
+      targets: particle,
+      ...drift,
+      alpha: 0,
+      duration: this.style.particleLife,
+      ease: 'Power2.easeOut',
+      onComplete: () => {
+        const index = this.particles.indexOf(particle)
+        if (index > -1) {
+          this.particles.splice(index, 1)
+        }
+        particle.destroy()
+      }
+    })
+  }
+}
+
+export default PowerUpAura
@@ -0,0 +1,274 @@
+export type PowerUpOrbKind = 'magnet' | 'shield' | 'doubleJump' | 'timeFreeze'
+
+interface PowerUpOrbStyle {
+  color: number
+  draw: (graphics: Phaser.GameObjects.Graphics) => void // Icon on a 32x32 canvas
+}
+
+const ORB_STYLES: Record<PowerUpOrbKind, PowerUpOrbStyle> = {
+  magnet: {
+    color: 0xff4d4d,
+    draw: graphics => {
+      // Horseshoe magnet with silver tips
+      graphics.lineStyle(7, 0xe53935, 1)
+      graphics.beginPath()
+      graphics.arc(16, 14, 9, 0, Math.PI, false)
+      graphics.strokePath()
+      graphics.fillStyle(0xe53935, 1)
+      graphics.fillRect(3.5, 6, 7, 8)
+      graphics.fillRect(21.5, 6, 7, 8)
+      graphics.fillStyle(0xe0e0e0, 1)
+      graphics.fillRect(3.5, 2, 7, 5)
+      graphics.fillRect(21.5, 2, 7, 5)
+    }
+  },
+  shield: {
+    color: 0x4da6ff,
+    draw: graphics => {
+      graphics.fillStyle(0x1e88e5, 1)
+      graphics.fillPoints([
+        { x: 16, y: 2 }, { x: 28, y: 7 }, { x: 26, y: 19 }, { x: 16, y: 30 }, { x: 6, y: 19 }, { x: 4, y: 7 }
+      ] as Phaser.Types.Math.Vector2Like[], true)
+      graphics.fillStyle(0x90caf9, 1)
+      graphics.fillPoints([
+        { x: 16, y: 6 }, { x: 24, y: 9 }, { x: 16, y: 25 }
+      ] as Phaser.Types.Math.Vector2Like[], true)
+      graphics.lineStyle(2, 0xffffff, 0.9)
+      graphics.strokePoints([
+        { x: 16, y: 2 }, { x: 28, y: 7 }, { x: 26, y: 19 }, { x: 16, y: 30 }, { x: 6, y: 19 }, { x: 4, y: 7 }
+      ] as Phaser.Types.Math.Vector2Like[], true)
+    }
+  },
+  doubleJump: {
+    color: 0x7cff6b,
+    draw: graphics => {
+      // Two stacked chevrons pointing up
+      graphics.lineStyle(5, 0x43a047, 1)
+      graphics.strokePoints([{ x: 5, y: 15 }, { x: 16, y: 5 }, { x: 27, y: 15 }] as Phaser.Types.Math.Vector2Like[])
+      graphics.lineStyle(5, 0x7cff6b, 1)
+      graphics.strokePoints([{ x: 5, y: 27 }, { x: 16, y: 17 }, { x: 27, y: 27 }] as Phaser.Types.Math.Vector2Like[])
+    }
+  },
+  timeFreeze: {
+    color: 0x9be7ff,
+    draw: graphics => {
+      // Six-armed snowflake
+      graphics.lineStyle(3, 0xb3e5fc, 1)
+      for (let i = 0; i < 6; i++) {
+        const angle = (i / 6) * Math.PI * 2
+        const tipX = 16 + Math.cos(angle) * 13
+        const tipY = 16 + Math.sin(angle) * 13
+        graphics.lineBetween(16, 16, tipX, tipY)
+        graphics.lineBetween(
+          16 + Math.cos(angle) * 8, 16 + Math.sin(angle) * 8,
+          16 + Math.cos(angle + 0.5) * 11, 16 + Math.sin(angle + 0.5) * 11
+        )
+      }
+      graphics.fillStyle(0xffffff, 1)
+      graphics.fillCircle(16, 16, 3)
+    }
+  }
+}
+
+/**
+ * Collectible for the magnet, shield, double jump and time-freeze power-ups
+ * There's no art for these yet, so each kind draws its icon into a texture the first time it's needed;
+ * the HUD timers use the same textures
+ */
+export class PowerUpOrb {
+  public sprite: Phaser.GameObjects.Container
+  public readonly kind: PowerUpOrbKind
+  private scene: Phaser.Scene
+  private collected: boolean = false
+  private glowGraphics: Phaser.GameObjects.Graphics
+  private particleTimer?: Phaser.Time.TimerEvent
+  private particles: Phaser.GameObjects.Graphics[] = []
+
+  static getTextureKey(kind: PowerUpOrbKind): string {
+    return `powerUpOrb-${kind}`
+  }
+
+  static getColor(kind: PowerUpOrbKind): number {
+    return ORB_STYLES[kind].color
+  }
+
+  /**
+   * Draw the icon texture for a kind if it doesn't exist yet
+   */
+  static ensureTexture(scene: Phaser.Scene, kind: PowerUpOrbKind): string {
+    const key = this.getTextureKey(kind)
+    if (!scene.textures.exists(key)) {
+      const graphics = scene.add.graphics()
+      ORB_STYLES[kind].draw(graphics)
+      graphics.generateTexture(key, 32, 32)
+      graphics.destroy()
+    }
+    return key
+  }
+
+  constructor(scene: Phaser.Scene, x: number, y: number, kind: PowerUpOrbKind) {
+    this.scene = scene
+    this.kind = kind
+
+    // Move up by 5 pixels for better positioning
+    const adjustedY = y - 5
+
+    this.sprite = scene.add.container(x, adjustedY)
+
+    this.glowGraphics = scene.add.graphics()
+    this.createGlowEffect()
+    this.sprite.add(this.glowGraphics)
+
+    const icon = scene.add.image(0, 0, PowerUpOrb.ensureTexture(scene, kind))
+    icon.setDisplaySize(20, 20)
+    this.sprite.add(icon)
+
+    this.sprite.setDepth(12)
+
+    this.particleTimer = scene.time.addEvent({
+      delay: 250,
+      callback: () => this.createParticle(),
+      loop: true
+    })
+
+    // Add physics
+    scene.physics.add.existing(this.sprite, true)
+
+    // Set hitbox
+    if (this.sprite.body) {
+      const body = this.sprite.body as Phaser.Physics.Arcade.Body
+      body.setSize(20, 20)
+      body.setOffset(32 - 10, 32 - 10) // Center the hitbox
+    }
+
+    // Pulsing glow
+    scene.tweens.add({
+      targets: this.glowGraphics,
+      alpha: 0.3,
+      scaleX: 1.2,
+      scaleY: 1.2,
+      duration: 1200,
+      yoyo: true,
+      repeat: -1,
+      ease: 'Sine.easeInOut'
+    })
+
+    // Gentle floating motion
+    scene.tweens.add({
+      targets: this.sprite,
+      y: adjustedY - 8,
+      duration: 2000,
+      yoyo: true,
+      repeat: -1,
+      ease: 'Sine.easeInOut'
+    })
+  }
+
+  private createGlowEffect(): void {
+    const glowColor = ORB_STYLES[this.kind].color
+
+    // Layered circles for a soft glow
+    for (let i = 3; i > 0; i--) {
+      this.glowGraphics.fillStyle(glowColor, 0.1 * i)
+      this.glowGraphics.fillCircle(0, 0, 15 + (3 - i) * 5)
+    }
+  }
+
+  private createParticle(): void {
+    if (!this.sprite || !this.sprite.scene || this.collected) return
+
+    const particle = this.scene.add.graphics()
+    particle.fillStyle(ORB_STYLES[this.kind].color, 1)
+    particle.fillRect(0, 0, 2, 2)
+
+    // Random position around the orb
+    const angle = Math.random() * Math.PI * 2
+    const distance = 15 + Math.random() * 10
+    const startY = this.sprite.y + Math.sin(angle) * distance
+    particle.x = this.sprite.x + Math.cos(angle) * distance
+    particle.y = startY
+    particle.setDepth(11)
+
+    this.particles.push(particle)
+
+    // Float upward and fade
+    this.scene.tweens.add({
+      targets: particle,
+      y: startY - 30,
+      alpha: 0,
+      duration: 1500,
+      ease: 'Power2.easeOut',
+      onComplete: () => {
+        const index = this.particles.indexOf(particle)
+        if (index > -1) {
+          this.particles.splice(index, 1)
+        }
+        particle.destroy()
+      }
+    })
+  }
+
+  collect(): void {
+    if (this.collected) return
+    this.collected = true
+
+    if (this.particleTimer) {
+      this.particleTimer.destroy()
+    }
+    this.particles.forEach(particle => particle.destroy())
+    this.particles = []
+
+    // Disable physics
+    if (this.sprite.body) {
+      (this.sprite.body as Phaser.Physics.Arcade.StaticBody).enable = false
+    }
+
+    // Collection burst
+    const color = ORB_STYLES[this.kind].color
+    for (let i = 0; i < 8; i++) {
+      const burstParticle = this.scene.add.graphics()
+      burstParticle.fillStyle(color, 1)
+      burstParticle.fillRect(0, 0, 3, 3)
+
+      const angle = (i / 8) * Math.PI * 2
+      burstParticle.x = this.sprite.x
+      burstParticle.y = this.sprite.y
+      burstParticle.setDepth(13)
+
+      this.scene.tweens.add({
+        targets: burstParticle,
+        x: this.sprite.x + Math.cos(angle) * 40,
+        y: this.sprite.y + Math.sin(angle) * 40,
+        alpha: 0,
+        duration: 400,
+        ease: 'Power2.easeOut',
+        onComplete: () => {
+          burstParticle.destroy()
+        }
+      })
+    }
+
+    this.scene.tweens.add({
+      targets: this.sprite,
+      scaleX: 1.5,
+      scaleY: 1.5,
+      alpha: 0,
+      duration: 200,
+      onComplete: () => {
+        this.sprite.destroy()
+      }
+    })
+  }
+
+  isCollected(): boolean {
+    return this.collected
+  }
+
+  destroy(): void {
+    if (this.particleTimer) {
+      this.particleTimer.destroy()
+    }
+    this.particles.forEach(particle => particle.destroy())
+    this.sprite.destroy()
+  }
+}
@@ -1,3 +1,5 @@
+import { GameRandom, SeededRandom } from "../systems/SeededRandom"
+
 export class Rex extends Phaser.Physics.Arcade.Sprite {
   private baseMoveSpeed: number = 60  // Base speed (slower than green bouncer which is 100)
   private moveSpeed: number = 60  // Actual speed after multiplier
@@ -18,6 +20,11 @@ export class Rex extends Phaser.Physics.Arcade.Sprite {
   // Platform bounds for patrol
   private platformBounds: { left: number; right: number }
   
+  // Enemy decisions draw from the level's 'behaviour' stream so replays and fixed steps reproduce them
+  private get rng(): SeededRandom {
+    return GameRandom.stream('behaviour')
+  }
+  
   constructor(
     scene: Phaser.Scene,
     x: number,
@@ -82,15 +89,18 @@ export class Rex extends Phaser.Physics.Arcade.Sprite {
     }
     
     // Start patrol movement - Rex moves horizontally while bouncing
-    this.direction = Math.random() < 0.5 ? -1 : 1  // Random initial direction
+    this.direction = this.rng.next() < 0.5 ? -1 : 1  // Random initial direction
     this.setVelocityX(this.moveSpeed * this.direction)
     
     // Initialize random timers
-    this.nextBlinkTime = Math.random() * 2000 + 1000  // 1-3 seconds
-    this.bounceTimer = 1000 + Math.random() * 1000  // Start bouncing soon
+    this.nextBlinkTime = this.rng.next() * 2000 + 1000  // 1-3 seconds
+    this.bounceTimer = 1000 + this.rng.next() * 1000  // Start bouncing soon
   }
   
   update(time: number, delta: number): void {
+    // Time-freeze holds movement and every timer until it runs out
+    if (this.getData('frozen')) return
+    
     // Update timers
     this.bounceTimer -= delta  // Count DOWN, not up!
     this.blinkTimer += delta
@@ -111,7 +121,7 @@ export class Rex extends Phaser.Physics.Arcade.Sprite {
       // Handle bouncing - simpler like green bouncer
       if (this.bounceTimer <= 0 && onGround && !this.isSquishing) {
         this.startBounce()
-        this.bounceTimer = 1500 + Math.random() * 1500  // 1.5-3 seconds until next bounce
+        this.bounceTimer = 1500 + this.rng.next() * 1500  // 1.5-3 seconds until next bounce
       }
       
       // Handle blinking (only on ground, not while squishing/stretching)
@@ -179,7 +189,7 @@ export class Rex extends Phaser.Physics.Arcade.Sprite {
         this.isBlinking = false
         this.setTexture('rexEyesOpen')
         this.blinkTimer = 0
-        this.nextBlinkTime = 1000 + Math.random() * 3000  // 1-4 seconds until next blink
+        this.nextBlinkTime = 1000 + this.rng.next() * 3000  // 1-4 seconds until next blink
       }
     } else {
       // Check if it's time to blink
@@ -1,4 +1,7 @@
 import GameSettings from "../config/GameSettings"
+import { InputGlyphs } from "../ui/InputGlyphs"
+import { InputMap } from "../systems/InputMap"
+import { TouchLayoutManager, TouchLayout, TouchControlId } from "../systems/TouchLayout"
 
 export class TouchControls {
   private scene: Phaser.Scene
@@ -22,6 +25,10 @@ export class TouchControls {
   private actionButtonCircle: Phaser.GameObjects.Arc
   private actionButtonText: Phaser.GameObjects.Text
   
+  // Controller button icons shown on the buttons while a gamepad is in use
+  private jumpGlyph!: Phaser.GameObjects.Container
+  private actionGlyph!: Phaser.GameObjects.Container
+  
   // Touchpad states (continuous values)
   public horizontalInput: number = 0 // -1 to 1
   public verticalInput: number = 0   // -1 to 1
@@ -43,16 +50,23 @@ export class TouchControls {
   private jumpPointerId: number = -1
   private actionPointerId: number = -1
   
-  // Touchpad layout
+  // Touchpad layout - positions, sizes and opacity come from the player's TouchLayout
+  private layout: TouchLayout
   private touchpadCenter: { x: number, y: number }
   private touchpadRadius: number = 110  // Increased to 110px radius for 220px visual diameter
   private deadZone: number = 5 // Smaller dead zone for more responsive touch
+  private previewing: boolean = false  // Shown by the layout editor while input is off
+
+  // Sizes at scale 1
+  private static readonly TOUCHPAD_RADIUS = 110
+  private static readonly BUTTON_HITBOX = { width: 175, height: 200 }
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene
-    // Center D-pad on same Y-axis as buttons (Y:600 for 720px canvas)
-    const actualCanvasHeight = this.scene.game.config.height as number
-    this.touchpadCenter = { x: 120, y: actualCanvasHeight - 120 } // Moved right 10px to X:120, Y:600
+    // Saved layout for this screen, or the GameSettings.touchControls default
+    this.layout = TouchLayoutManager.load(this.scene.game.config.width as number, this.scene.game.config.height as number)
+    const dpad = this.layout.controls.dpad
+    this.touchpadCenter = { x: dpad.x, y: dpad.y }
     
     // Detect if on mobile device
     this.detectMobileDevice()
@@ -60,6 +74,7 @@ export class TouchControls {
     this.createTouchpad()
     this.createJumpButton()
     this.createActionButton()
+    this.applyLayout(this.layout)
     this.setupInputHandlers()
     
     // Add debug visualizations if in debug mode or dgen1
@@ -146,15 +161,11 @@ export class TouchControls {
       GameHeight: this.scene.game.config.height
     })
     
-    // Use the actual game config width instead of GameSettings
-    const actualCanvasWidth = this.scene.game.config.width as number
-    const actualCanvasHeight = this.scene.game.config.height as number
+    // Position comes from the touch layout (applyLayout moves it again when the layout changes)
+    const buttonX = this.layout.controls.jump.x
+    const buttonY = this.layout.controls.jump.y
     
-    // Position jump button at specific coordinates (moved down 100px and left 20px)
-    const buttonX = 620  // Moved left 20px from 640 to 620
-    const buttonY = actualCanvasHeight - 120 // Moved down 100px (was -220, now -120)
-    
-    console.log('🎯 Jump Button Position:', { buttonX, buttonY, actualCanvasWidth })
+    console.log('🎯 Jump Button Position:', { buttonX, buttonY, actualCanvasWidth: this.scene.game.config.width })
     
     // Create jump button container
     this.jumpButton = this.scene.add.container(buttonX, buttonY)
@@ -171,15 +182,16 @@ export class TouchControls {
     // const hitboxDebug = this.scene.add.rectangle(0, (hitboxHeight/2) - (680 - 550), 100, hitboxHeight, 0xff0000, 0.3) // Semi-transparent red rectangle
     // hitboxDebug.setStrokeStyle(2, 0xff0000, 0.8) // Red border
     
-    // No text - clean minimal design
-    this.jumpButton.add([this.jumpButtonImage])
+    // No text - clean minimal design (controller glyph only appears while a gamepad is in use)
+    this.jumpGlyph = InputGlyphs.createButtonGlyph(this.scene, 30, -30, InputGlyphs.getPadButton(InputMap.getButtons('jump')[0] ?? 0))
+    this.jumpGlyph.setVisible(false)
+    this.jumpButton.add([this.jumpButtonImage, this.jumpGlyph])
   }
 
   private createActionButton(): void {
-    // Position action button (moved 25px right from 420 to 445)
-    const actualCanvasHeight = this.scene.game.config.height as number
-    const buttonX = 445  // Moved right 25px from 420 to 445
-    const buttonY = actualCanvasHeight - 120 // Same Y as jump button (600 for 720px canvas)
+    // Position comes from the touch layout, like the jump button
+    const buttonX = this.layout.controls.action.x
+    const buttonY = this.layout.controls.action.y
     
     // Create action button container (initially visible for setup)
     this.actionButton = this.scene.add.container(buttonX, buttonY)
@@ -197,7 +209,9 @@ export class TouchControls {
     // const hitboxDebug = this.scene.add.rectangle(0, (hitboxHeight/2) - (680 - 550), 110, hitboxHeight, 0x00ff00, 0.3) // Semi-transparent green rectangle
     // hitboxDebug.setStrokeStyle(2, 0x00ff00, 0.8) // Green border
     
-    this.actionButton.add([this.actionButtonImage])
+    this.actionGlyph = InputGlyphs.createButtonGlyph(this.scene, 30, -30, InputGlyphs.getPadButton(InputMap.getButtons('fire')[0] ?? 2))
+    this.actionGlyph.setVisible(false)
+    this.actionButton.add([this.actionButtonImage, this.actionGlyph])
   }
 
   private setupInputHandlers(): void {
@@ -239,20 +253,10 @@ export class TouchControls {
     const touchX = pointer.x
     const touchY = pointer.y
     
-    // Check if touch is on touchpad area (hitbox is 110px radius = 220px diameter)
-    const touchpadDist = Math.sqrt(
-      Math.pow(touchX - this.touchpadCenter.x, 2) + 
-      Math.pow(touchY - this.touchpadCenter.y, 2)
-    )
-    
-    console.log('🎯 Touchpad check:', {
-      distance: touchpadDist,
-      threshold: 110,
-      center: this.touchpadCenter,
-      touch: { x: touchX, y: touchY }
-    })
+    // Hit areas follow the layout: touchpad is a circle, buttons are 175x200 rectangles (at scale 1)
+    const control = this.getControlAt(touchX, touchY)
     
-    if (touchpadDist <= 110 && this.touchpadPointerId === -1) {
+    if (control === 'dpad' && this.touchpadPointerId === -1) {
       console.log('✅ Touchpad activated')
       this.touchpadPointerId = pointer.id
       // Immediately update position on initial touch for instant response
@@ -263,24 +267,7 @@ export class TouchControls {
       return
     }
     
-    // Check if touch is on jump button area (fixed position with 175x200 hitbox)
-    const jumpButtonX = 620  // Moved left 20px to X:620
-    const jumpButtonLeft = jumpButtonX - 87.5  // 87.5px to the left of center (175px wide)
-    const jumpButtonRight = jumpButtonX + 87.5  // 87.5px to the right of center
-    const actualCanvasHeight = this.scene.game.config.height as number
-    const jumpButtonY = actualCanvasHeight - 120  // Moved down 100px (600 for 720px canvas)
-    const hitboxTop = jumpButtonY - 100  // Hitbox extends 100px above center (200px tall)
-    const hitboxBottom = jumpButtonY + 100  // Hitbox extends 100px below center
-    
-    console.log('🦘 Jump button check:', {
-      touchX,
-      touchY,
-      bounds: { left: jumpButtonLeft, right: jumpButtonRight, top: hitboxTop, bottom: hitboxBottom },
-      inBounds: touchX >= jumpButtonLeft && touchX <= jumpButtonRight && touchY >= hitboxTop && touchY <= hitboxBottom
-    })
-    
-    if (touchX >= jumpButtonLeft && touchX <= jumpButtonRight && 
-        touchY >= hitboxTop && touchY <= hitboxBottom) { // Within the rectangle
+    if (control === 'jump') {
       if (this.jumpPointerId === -1) {
         console.log('✅ Jump button pressed!')
         this.jumpPointerId = pointer.id
@@ -290,27 +277,47 @@ export class TouchControls {
       return
     }
     
-    // Check if touch is on action button area (only if visible) - 175x200 hitbox
-    if (this.actionButton.visible) {
-      const actionButtonX = 445  // Moved right 25px to X:445
-      const actionButtonLeft = actionButtonX - 87.5  // 87.5px to the left of center (175px wide)
-      const actionButtonRight = actionButtonX + 87.5  // 87.5px to the right of center
-      const actualCanvasHeight = this.scene.game.config.height as number
-      const actionButtonY = actualCanvasHeight - 120  // Same Y as jump button (600 for 720px)
-      const hitboxTop = actionButtonY - 100  // Hitbox extends 100px above center (200px tall)
-      const hitboxBottom = actionButtonY + 100  // Hitbox extends 100px below center
-      
-      if (touchX >= actionButtonLeft && touchX <= actionButtonRight && 
-          touchY >= hitboxTop && touchY <= hitboxBottom) { // Within the 200x200 square
-        if (this.actionPointerId === -1) {
-          this.actionPointerId = pointer.id
-          this.actionPressed = true
-          // No visual effects when pressed
-        }
+    if (control === 'action') {
+      if (this.actionPointerId === -1) {
+        this.actionPointerId = pointer.id
+        this.actionPressed = true
+        // No visual effects when pressed
       }
     }
   }
 
+  /**
+   * Which control's hit area a screen point is in - the touchpad wins, then jump, then action
+   * (the action button only while it's shown)
+   */
+  public getControlAt(x: number, y: number): TouchControlId | null {
+    const touchpadDist = Math.sqrt(
+      Math.pow(x - this.touchpadCenter.x, 2) +
+      Math.pow(y - this.touchpadCenter.y, 2)
+    )
+    if (touchpadDist <= this.touchpadRadius) return 'dpad'
+    if (this.isInButtonHitbox('jump', x, y)) return 'jump'
+    if (this.actionButton.visible && this.isInButtonHitbox('action', x, y)) return 'action'
+    return null
+  }
+
+  private isInButtonHitbox(id: 'jump' | 'action', x: number, y: number): boolean {
+    const bounds = this.getButtonHitbox(id)
+    return x >= bounds.left && x <= bounds.right && y >= bounds.top && y <= bounds.bottom
+  }
+
+  private getButtonHitbox(id: 'jump' | 'action'): { left: number, right: number, top: number, bottom: number } {
+    const control = this.layout.controls[id]
+    const halfWidth = TouchControls.BUTTON_HITBOX.width * control.scale / 2
+    const halfHeight = TouchControls.BUTTON_HITBOX.height * control.scale / 2
+    return {
+      left: control.x - halfWidth,
+      right: control.x + halfWidth,
+      top: control.y - halfHeight,
+      bottom: control.y + halfHeight
+    }
+  }
+
   private updateTouchpadFromPosition(touchX: number, touchY: number): void {
     // Calculate relative position from touchpad center
     const relativeX = touchX - this.touchpadCenter.x
@@ -347,8 +354,10 @@ export class TouchControls {
     
     // Update visual indicator position (clamped to touchpad radius)
     const indicatorDistance = Math.min(distance, this.touchpadRadius - 8)
-    const indicatorX = (relativeX / distance) * indicatorDistance
-    const indicatorY = (relativeY / distance) * indicatorDistance
+    // The container is scaled with the layout, so convert back to its local space
+    const dpadScale = this.layout.controls.dpad.scale
+    const indicatorX = (relativeX / distance) * indicatorDistance / dpadScale
+    const indicatorY = (relativeY / distance) * indicatorDistance / dpadScale
     this.touchpadIndicator.setPosition(indicatorX, indicatorY)
     
     // Store current touch position for reference
@@ -417,6 +426,13 @@ export class TouchControls {
     // Update action just pressed state
     this.actionJustPressed = this.actionPressed && !this.lastActionState
     this.lastActionState = this.actionPressed
+    
+    // Swap to controller glyphs while a gamepad is the active device
+    const showGlyphs = InputGlyphs.getActiveDevice() === 'gamepad'
+    if (this.jumpGlyph.visible !== showGlyphs) {
+      this.jumpGlyph.setVisible(showGlyphs)
+      this.actionGlyph.setVisible(showGlyphs)
+    }
   }
 
   public getHorizontal(): number {
@@ -459,12 +475,52 @@ export class TouchControls {
     this.actionButton.setVisible(show)
   }
   
+  /**
+   * Current layout (a copy - change it through applyLayout)
+   */
+  public getLayout(): TouchLayout {
+    return {
+      version: this.layout.version,
+      leftHanded: this.layout.leftHanded,
+      controls: {
+        dpad: { ...this.layout.controls.dpad },
+        jump: { ...this.layout.controls.jump },
+        action: { ...this.layout.controls.action }
+      }
+    }
+  }
+
+  /**
+   * Move, resize and fade the controls - the hit areas follow. Doesn't save; see TouchLayoutManager.save
+   */
+  public applyLayout(layout: TouchLayout): void {
+    this.layout = layout
+    const { dpad, jump, action } = layout.controls
+
+    this.touchpadCenter = { x: dpad.x, y: dpad.y }
+    this.touchpadRadius = TouchControls.TOUCHPAD_RADIUS * dpad.scale
+    this.touchpadContainer.setPosition(dpad.x, dpad.y).setScale(dpad.scale).setAlpha(dpad.opacity)
+    this.jumpButton.setPosition(jump.x, jump.y).setScale(jump.scale).setAlpha(jump.opacity)
+    this.actionButton.setPosition(action.x, action.y).setScale(action.scale).setAlpha(action.opacity)
+  }
+
+  /**
+   * Show the controls without taking input, so the layout editor can work on them over the menu
+   */
+  public setLayoutPreview(preview: boolean): void {
+    this.previewing = preview
+    const visible = preview || this.enabled
+    this.touchpadContainer.setVisible(visible)
+    this.jumpButton.setVisible(visible)
+    this.actionButton.setVisible(visible)
+  }
+
   // Disable touch controls (for menu, etc.)
   public disable(): void {
     this.enabled = false
-    this.touchpadContainer.setVisible(false)
-    this.jumpButton.setVisible(false)
-    this.actionButton.setVisible(false)
+    this.touchpadContainer.setVisible(this.previewing)
+    this.jumpButton.setVisible(this.previewing)
+    this.actionButton.setVisible(this.previewing)
     // Reset all states
     this.horizontalInput = 0
     this.verticalInput = 0
@@ -496,32 +552,25 @@ export class TouchControls {
     debugGraphics.setDepth(1001) // Above touch controls
     debugGraphics.setScrollFactor(0)
     
-    // Draw touchpad hitbox (circular, 110px radius)
+    // Draw touchpad hitbox (circular, 110px radius at scale 1)
     debugGraphics.lineStyle(2, 0x00ff00, 0.8) // Green for touchpad
-    debugGraphics.strokeCircle(this.touchpadCenter.x, this.touchpadCenter.y, 110)
+    debugGraphics.strokeCircle(this.touchpadCenter.x, this.touchpadCenter.y, this.touchpadRadius)
     
-    // Draw jump button hitbox (fixed position with 175x200 hitbox)
-    const jumpButtonX = 620  // Moved left 20px to X:620
-    const jumpButtonLeft = jumpButtonX - 87.5  // 175px wide hitbox
-    const jumpButtonRight = jumpButtonX + 87.5
-    const actualCanvasHeight = this.scene.game.config.height as number
-    const jumpButtonY = actualCanvasHeight - 120  // Moved down 100px (600 for 720px canvas)
-    const hitboxTop = jumpButtonY - 100  // 200px tall hitbox
-    const hitboxBottom = jumpButtonY + 100
+    // Draw jump button hitbox (175x200 at scale 1)
+    const jumpBounds = this.getButtonHitbox('jump')
+    const jumpButtonX = this.layout.controls.jump.x
+    const hitboxTop = jumpBounds.top
     
     debugGraphics.lineStyle(2, 0xff0000, 0.8) // Red for jump
-    debugGraphics.strokeRect(jumpButtonLeft, hitboxTop, 175, 200) // 175x200 hitbox
+    debugGraphics.strokeRect(jumpBounds.left, jumpBounds.top, jumpBounds.right - jumpBounds.left, jumpBounds.bottom - jumpBounds.top)
     
-    // Draw action button hitbox (175x200 aligned with jump button)
-    const actionButtonX = 445  // Moved right 25px to X:445
-    const actionButtonLeft = actionButtonX - 87.5  // 175px wide hitbox
-    const actionButtonRight = actionButtonX + 87.5
-    const actionButtonY = actualCanvasHeight - 120  // Same Y as jump button
-    const actionHitboxTop = actionButtonY - 100  // 200px tall hitbox
-    const actionHitboxBottom = actionButtonY + 100
+    // Draw action button hitbox (175x200 at scale 1)
+    const actionBounds = this.getButtonHitbox('action')
+    const actionButtonX = this.layout.controls.action.x
+    const actionHitboxTop = actionBounds.top
     
     debugGraphics.lineStyle(2, 0x0000ff, 0.8) // Blue for action
-    debugGraphics.strokeRect(actionButtonLeft, actionHitboxTop, 175, 200) // 175x200 hitbox
+    debugGraphics.strokeRect(actionBounds.left, actionBounds.top, actionBounds.right - actionBounds.left, actionBounds.bottom - actionBounds.top)
     
     // Add labels
     const textStyle = { fontSize: '12px', color: '#ffffff', fontFamily: 'Arial' }
@@ -582,10 +631,11 @@ export class TouchControls {
     // Highlight key X positions for touch controls with thick cyan lines
     gridGraphics.lineStyle(3, 0x00ffff, 0.8) // Thick cyan for key positions
     
-    // Touchpad center X (moved right 10px)
-    gridGraphics.moveTo(120, 0)
-    gridGraphics.lineTo(120, canvasHeight)
-    this.scene.add.text(120, 60, 'TOUCHPAD\nX:120', {
+    // Touchpad center X
+    const touchpadX = this.touchpadCenter.x
+    gridGraphics.moveTo(touchpadX, 0)
+    gridGraphics.lineTo(touchpadX, canvasHeight)
+    this.scene.add.text(touchpadX, 60, `TOUCHPAD\nX:${touchpadX}`, {
       fontSize: '12px',
       color: '#00ffff',
       fontFamily: 'Arial',
@@ -594,8 +644,8 @@ export class TouchControls {
       align: 'center'
     }).setOrigin(0.5).setDepth(1003).setScrollFactor(0)
     
-    // Jump button X (fixed position)
-    const jumpX = 620  // Moved left 20px to X:620
+    // Jump button X
+    const jumpX = this.layout.controls.jump.x
     gridGraphics.moveTo(jumpX, 0)
     gridGraphics.lineTo(jumpX, canvasHeight)
     this.scene.add.text(jumpX, 60, `JUMP\nX:${jumpX}`, {
@@ -607,8 +657,8 @@ export class TouchControls {
       align: 'center'
     }).setOrigin(0.5).setDepth(1003).setScrollFactor(0)
     
-    // Action button X (moved right 25px)
-    const actionX = 445  // Moved right 25px to X:445
+    // Action button X
+    const actionX = this.layout.controls.action.x
     gridGraphics.moveTo(actionX, 0)
     gridGraphics.lineTo(actionX, canvasHeight)
     this.scene.add.text(actionX, 90, `ACTION\nX:${actionX}`, {
@@ -1,6 +1,8 @@
 import GameSettings from "../config/GameSettings"
+import { GameRandom, SeededRandom } from "../systems/SeededRandom"
+import { ChestLoot, ChapterLootTable, ChestTier, LootRoll } from "../systems/ChestLoot"
 
-export type ChestTier = 'purple' | 'teal' | 'yellow'
+export type { ChestTier }
 
 export class TreasureChest {
   public sprite: Phaser.GameObjects.Sprite
@@ -9,12 +11,22 @@ export class TreasureChest {
   private glowEffect: Phaser.GameObjects.Arc | null = null
   private debugHitbox: Phaser.GameObjects.Graphics | null = null
   private chestTier: ChestTier
+  private forcedEpic: boolean // Made epic by the pity timer
+  private lootTable: ChapterLootTable
+  private rng: SeededRandom // Per-chest RNG so contents don't depend on opening order
   
-  constructor(scene: Phaser.Scene, x: number, y: number) {
+  /**
+   * lootTable is the chapter's (ChestLoot.getTable), chestsSinceEpic feeds the epic pity timer
+   */
+  constructor(scene: Phaser.Scene, x: number, y: number, lootTable: ChapterLootTable, chestsSinceEpic: number = 0) {
     this.scene = scene
+    this.rng = new SeededRandom(Math.floor(GameRandom.stream('chests').next() * 0xFFFFFFFF))
+    this.lootTable = lootTable
     
-    // Randomly select chest tier
-    this.chestTier = this.selectRandomChestTier()
+    // Roll the chest tier from the chapter's odds
+    const { tier, pity } = ChestLoot.rollTier(lootTable, this.rng, chestsSinceEpic)
+    this.chestTier = tier
+    this.forcedEpic = pity
     
     // Get sprite key based on tier
     const spriteKey = this.getSpriteKeyForTier(this.chestTier)
@@ -46,16 +58,22 @@ export class TreasureChest {
   }
   
   
-  private selectRandomChestTier(): ChestTier {
-    const random = Math.random()
-    // Purple: 60% (common), Teal: 30% (rare), Yellow: 10% (epic)
-    if (random < 0.6) {
-      return 'purple'
-    } else if (random < 0.9) {
-      return 'teal'
-    } else {
-      return 'yellow'
+  public getTier(): ChestTier {
+    return this.chestTier
+  }
+  
+  /**
+   * Roll the tier a second time (a gem shop chest reroll) and keep whichever is better
+   */
+  public rerollTier(): ChestTier {
+    const { tier } = ChestLoot.rollTier(this.lootTable, this.rng, 0)
+    if (ChestLoot.TIERS.indexOf(tier) > ChestLoot.TIERS.indexOf(this.chestTier)) {
+      this.chestTier = tier
+      this.sprite.setTexture(this.getSpriteKeyForTier(tier))
+      this.sprite.setDisplaySize(60, 60)
+      this.glowEffect?.setFillStyle(this.getGlowColorForTier(tier))
     }
+    return this.chestTier
   }
   
   private getSpriteKeyForTier(tier: ChestTier): string {
@@ -98,9 +116,12 @@ export class TreasureChest {
     return !this.isOpened
   }
   
-  public open(): { coins: number, blueCoins: number, diamonds: number, freeLifes: number, invincibilityPendants: number, totalPoints: number } { // flashPowerUp removed - commented out for later use
+  /**
+   * Open the chest and roll its contents from the loot table - an already opened chest holds nothing
+   */
+  public open(): LootRoll {
     if (this.isOpened) {
-      return { coins: 0, blueCoins: 0, diamonds: 0, freeLifes: 0, invincibilityPendants: 0, totalPoints: 0 } // flashPowerUp removed
+      return { tier: this.chestTier, pity: this.forcedEpic, drop: {}, picks: [] }
     }
     
     this.isOpened = true
@@ -125,70 +146,10 @@ export class TreasureChest {
       yoyo: true
     })
     
-    // Generate contents based on chest tier and level progression
-    const contents = this.generateRewardsByTier(this.chestTier)
-    
-    // Calculate total points
-    let totalPoints = 2500 // Base chest value
-    totalPoints += contents.coins * 50 // Regular coins (50 points each)
-    totalPoints += contents.blueCoins * 500 // Blue coins (500 points each)
-    totalPoints += contents.diamonds * 1000 // Diamonds (1000 points each)
-    totalPoints += contents.freeLifes * 2000 // Free lives (2000 points each)
-    totalPoints += contents.invincibilityPendants * 300 // Invincibility pendants (300 points each)
-    
     // Create treasure burst effect
     this.createTreasureBurstEffect()
     
-    return { 
-      coins: contents.coins, 
-      blueCoins: contents.blueCoins,
-      diamonds: contents.diamonds,
-      freeLifes: contents.freeLifes,
-      invincibilityPendants: contents.invincibilityPendants,
-      // flashPowerUp: false, // Commented out for later use 
-      totalPoints 
-    }
-  }
-  
-  private generateRewardsByTier(tier: ChestTier): { coins: number, blueCoins: number, diamonds: number, freeLifes: number } {
-    const rewards = { coins: 0, blueCoins: 0, diamonds: 0, freeLifes: 0 }
-    
-    switch (tier) {
-      case 'purple': // Common tier: crystals + small chance of free life
-        rewards.coins = Math.floor(Math.random() * 3) + 2 // 2-4 crystals
-        if (Math.random() < 0.1) { // 10% chance for free life
-          rewards.freeLifes = 1
-        }
-        break
-        
-      case 'teal': // Rare tier: blue gems + crystals + better chance for powerup/free life
-        rewards.blueCoins = Math.floor(Math.random() * 2) + 1 // 1-2 blue gems
-        rewards.coins = Math.floor(Math.random() * 2) + 1 // 1-2 crystals
-        if (Math.random() < 0.25) { // 25% chance for free life or powerup
-          if (Math.random() < 0.7) {
-            rewards.freeLifes = 1
-          } else {
-            // TODO: Add powerup when invincibility pendant system is integrated
-            rewards.freeLifes = 1 // For now, give free life instead
-          }
-        }
-        break
-        
-      case 'yellow': // Epic tier: guaranteed free life or powerup + crystals
-        rewards.coins = Math.floor(Math.random() * 2) + 2 // 2-3 crystals
-        // Guaranteed free life or powerup
-        if (Math.random() < 0.8) {
-          rewards.freeLifes = 1
-        } else {
-          // TODO: Add powerup when invincibility pendant system is integrated
-          rewards.freeLifes = 1 // For now, give free life instead
-        }
-        break
-    }
-    
-    // Chest rewards calculated based on tier
-    
-    return rewards
+    return { tier: this.chestTier, pity: this.forcedEpic, ...ChestLoot.rollContents(this.lootTable, this.chestTier, this.rng) }
   }
   
   private createTreasureBurstEffect(): void {
@@ -0,0 +1,196 @@
+import GameSettings from "../config/GameSettingsLoader"
+import { DailyChallengeManager, DailyChallengeResult } from "../systems/DailyChallengeManager"
+import { LevelManager } from "../systems/LevelManager"
+
+/**
+ * Daily Challenge results screen
+ * Shows the result of the run that just ended (if any) and the history of past dailies
+ */
+export class DailyChallengeScene extends Phaser.Scene {
+  private lastResult: Omit<DailyChallengeResult, 'attempts'> | null = null
+  private isNewBest: boolean = false
+  private readonly MAX_HISTORY_ROWS = 7
+
+  constructor() {
+    super({ key: 'DailyChallengeScene' })
+  }
+
+  init(data?: any): void {
+    this.lastResult = data?.result || null
+    this.isNewBest = data?.isNewBest || false
+  }
+
+  create(): void {
+    const screenWidth = GameSettings.canvas.width
+    const screenHeight = GameSettings.canvas.height
+
+    this.cameras.main.setBackgroundColor('#2e2348')
+
+    // Title
+    this.add.text(screenWidth / 2, 50, 'DAILY CHALLENGE', {
+      fontSize: '20px',
+      fontFamily: '"Press Start 2P", system-ui',
+      color: '#ffd700',
+      stroke: '#4a148c',
+      strokeThickness: 3
+    }).setOrigin(0.5)
+
+    // Today's level list
+    const todayKey = DailyChallengeManager.getDateKey()
+    const todayLevels = LevelManager.getDailyChallengeLevels(DailyChallengeManager.getSeedForDate(todayKey))
+    this.add.text(screenWidth / 2, 85, `${todayKey}  •  Levels ${todayLevels.join(' / ')}`, {
+      fontSize: '10px',
+      fontFamily: '"Press Start 2P", system-ui',
+      color: '#9acf07'
+    }).setOrigin(0.5)
+
+    let y = 130
+    if (this.lastResult) {
+      y = this.createLastRunPanel(this.lastResult, y)
+    }
+
+    this.createHistoryList(y + 10)
+    this.createButtons(screenWidth, screenHeight)
+  }
+
+  private createLastRunPanel(result: Omit<DailyChallengeResult, 'attempts'>, startY: number): number {
+    const screenWidth = GameSettings.canvas.width
+    const panelWidth = Math.min(380, screenWidth - 40)
+    const panelHeight = 120
+
+    const panel = this.add.graphics()
+    panel.fillStyle(0x4a148c, 1.0)
+    panel.lineStyle(2, 0x7b1fa2, 1.0)
+    panel.fillRoundedRect(screenWidth / 2 - panelWidth / 2, startY, panelWidth, panelHeight, 12)
+    panel.strokeRoundedRect(screenWidth / 2 - panelWidth / 2, startY, panelWidth, panelHeight, 12)
+
+    const heading = result.completed ? 'CHALLENGE CLEARED!' : 'RUN OVER'
+    this.add.text(screenWidth / 2, startY + 20, heading, {
+      fontSize: '14px',
+      fontFamily: '"Press Start 2P", system-ui',
+      color: result.completed ? '#00ff00' : '#ff69b4'
+    }).setOrigin(0.5)
+
+    const lines = [
+      `Score: ${result.score}`,
+      `Levels: ${result.levelsCompleted}  Floor: ${result.floor}`,
+      `Time: ${DailyChallengeManager.formatTime(result.timeMs)}`
+    ]
+    lines.forEach((line, index) => {
+      this.add.text(screenWidth / 2, startY + 48 + index * 20, line, {
+        fontSize: '11px',
+        fontFamily: '"Press Start 2P", system-ui',
+        color: '#ffffff'
+      }).setOrigin(0.5)
+    })
+
+    if (this.isNewBest) {
+      const bestText = this.add.text(screenWidth / 2, startY + panelHeight + 14, 'NEW DAILY BEST!', {
+        fontSize: '12px',
+        fontFamily: '"Press Start 2P", system-ui',
+        color: '#ffd700'
+      }).setOrigin(0.5)
+
+      this.tweens.add({
+        targets: bestText,
+        scaleX: 1.15,
+        scaleY: 1.15,
+        duration: 500,
+        yoyo: true,
+        repeat: -1,
+        ease: 'Sine.easeInOut'
+      })
+      return startY + panelHeight + 30
+    }
+
+    return startY + panelHeight + 10
+  }
+
+  private createHistoryList(startY: number): void {
+    const screenWidth = GameSettings.canvas.width
+    const history = DailyChallengeManager.getHistory()
+
+    this.add.text(screenWidth / 2, startY, 'PAST DAILIES', {
+      fontSize: '12px',
+      fontFamily: '"Press Start 2P", system-ui',
+      color: '#ffd700'
+    }).setOrigin(0.5)
+
+    if (history.length === 0) {
+      this.add.text(screenWidth / 2, startY + 40, 'No dailies played yet', {
+        fontSize: '10px',
+        fontFamily: '"Press Start 2P", system-ui',
+        color: '#aaaaaa'
+      }).setOrigin(0.5)
+      return
+    }
+
+    // Column headers
+    const columns = [0.08, 0.42, 0.64, 0.82].map(fraction => screenWidth * fraction)
+    const headerY = startY + 28
+    ;['DATE', 'SCORE', 'LVL', 'TIME'].forEach((label, index) => {
+      this.add.text(columns[index], headerY, label, {
+        fontSize: '9px',
+        fontFamily: '"Press Start 2P", system-ui',
+        color: '#9acf07'
+      })
+    })
+
+    history.slice(0, this.MAX_HISTORY_ROWS).forEach((entry, row) => {
+      const rowY = headerY + 22 + row * 22
+      const color = entry.completed ? '#00ff00' : '#ffffff'
+      const values = [
+        entry.dateKey.slice(5), // MM-DD
+        `${entry.score}`,
+        `${entry.levelsCompleted}`,
+        DailyChallengeManager.formatTime(entry.timeMs)
+      ]
+      values.forEach((value, index) => {
+        this.add.text(columns[index], rowY, value, {
+          fontSize: '9px',
+          fontFamily: '"Press Start 2P", system-ui',
+          color
+        })
+      })
+    })
+  }
+
+  private createButtons(screenWidth: number, screenHeight: number): void {
+    this.createButton(screenWidth / 2 - 90, screenHeight - 50, 'PLAY DAILY', 0x32CD32, () => {
+      DailyChallengeManager.prepareRun(this.game.registry)
+      this.scene.start('GameScene')
+    })
+
+    this.createButton(screenWidth / 2 + 90, screenHeight - 50, 'MAIN MENU', 0x20b2aa, () => {
+      DailyChallengeManager.clearRun(this.game.registry)
+      this.game.registry.set('currentLevel', 1)
+      this.game.registry.remove('playerLives')
+      this.game.registry.remove('runSeed')
+      this.scene.start('InstructionsScene')
+    })
+  }
+
+  private createButton(x: number, y: number, label: string, color: number, onClick: () => void): void {
+    const button = this.add.container(x, y)
+
+    const buttonBg = this.add.graphics()
+    buttonBg.fillStyle(color, 0.9)
+    buttonBg.lineStyle(2, 0xFFD700)
+    buttonBg.fillRoundedRect(-80, -20, 160, 40, 8)
+    buttonBg.strokeRoundedRect(-80, -20, 160, 40, 8)
+    button.add(buttonBg)
+
+    const buttonText = this.add.text(0, 0, label, {
+      fontSize: '11px',
+      fontFamily: '"Press Start 2P", system-ui',
+      color: '#000000'
+    }).setOrigin(0.5)
+    button.add(buttonText)
+
+    button.setSize(160, 40)
+    button.setInteractive()
+    button.on('pointerdown', onClick)
+    button.on('pointerover', () => buttonText.setScale(1.1))
+    button.on('pointerout', () => buttonText.setScale(1.0))
+  }
+}
@@ -14,13 +14,37 @@ import { TreasureChest } from "../objects/TreasureChest"
 import { CrystalBall } from "../objects/CrystalBall"
 import { CrystalBallProjectile } from "../objects/CrystalBallProjectile"
 import { CursedOrb } from "../objects/CursedOrb"
+import { PowerUpOrb, PowerUpOrbKind } from "../objects/PowerUpOrb"
 import { TouchControls } from "../objects/TouchControls"
+import { GamepadControls } from "../objects/GamepadControls"
+import { InputMap } from "../systems/InputMap"
+import { PowerUpManager, PowerUpId } from "../systems/PowerUpManager"
 import { LevelManager } from "../systems/LevelManager"
+import { LevelDefinition, CollectibleType } from "../systems/LevelDefinition"
+import { LevelGenerator, LevelLayout, FloorLayout } from "../systems/LevelGenerator"
+import { LevelValidator, ValidatorOptions } from "../systems/LevelValidator"
 import { EnemySpawningSystem, EnemyType } from "../systems/EnemySpawningSystem"
+import { CollectibleSpawningSystem, SpawnableCollectible } from "../systems/CollectibleSpawningSystem"
+import { ScoringSystem, ScoreEvent } from "../systems/ScoringSystem"
+import { GameRandom, SeededRandom } from "../systems/SeededRandom"
+import { ChestLoot, LootRoll } from "../systems/ChestLoot"
+import { GemShop, ShopItemId } from "../systems/GemShop"
+import { Achievements } from "../systems/Achievements"
+import { RunHistory } from "../systems/RunHistory"
+import { LevelRecords } from "../systems/LevelRecords"
+import { LevelStars, StarCriterion } from "../systems/LevelStars"
+import { DailyChallengeManager } from "../systems/DailyChallengeManager"
+import { FixedTimestep, RenderInterpolator } from "../systems/FixedTimestep"
+import { ReplayManager, ReplaySegment, InputRecorder, InputPlayback, PlayerInputFrame, EMPTY_INPUT } from "../systems/ReplaySystem"
+import { RunState, RunStateManager } from "../systems/RunState"
+import { Leaderboards, LeaderboardBoard, LeaderboardEntry } from "../systems/Leaderboard"
 import { Door } from "../objects/Door"
 import { AssetPool, AssetConfig } from "../systems/AssetPool"
 import { GemShapeGenerator, GemStyle, GemCut } from "../utils/GemShapes"
 import { MenuOverlay } from "../ui/MenuOverlay"
+import { addWalletUI } from "../ui/WalletUI"
+import { GemShopPanel, GemShopOffer } from "../ui/GemShopPanel"
+import { AchievementToasts } from "../ui/AchievementToasts"
 import { BackgroundManager } from "../systems/BackgroundManager"
 import { SharedAssetManager } from "../systems/SharedAssetManager"
 
@@ -40,6 +64,9 @@ export class GameScene extends Phaser.Scene {
   private freeLifes: FreeLife[] = []
   private invincibilityPendants: InvincibilityPendant[] = []
   private treasureChests: TreasureChest[] = []
+  private levelRating: StarCriterion[] | null = null // Set by completeLevel for the level complete screen
+  private levelStartChestsSinceEpic: number = 0 // Epic pity count this level's chests were rolled from
+  private plannedChestsSinceEpic: number = 0 // Pity count as this level's chests are placed - see createTreasureChest
   // private flashPowerUps: FlashPowerUp[] = [] // Commented out for later use
   private crystalBalls: CrystalBall[] = []
   private crystalBallProjectiles: CrystalBallProjectile[] = []
@@ -48,6 +75,7 @@ export class GameScene extends Phaser.Scene {
   private cursedTealOrbs: CursedOrb[] = []
   private levelHasCursedOrb: boolean = false
   private levelHasCursedTealOrb: boolean = false
+  private powerUpOrbs: PowerUpOrb[] = [] // Magnet, shield, double jump and time-freeze pickups
   private isGameOver: boolean = false
   private floorLayouts: { gapStart: number, gapSize: number }[] = []
   private ladderPositions: Map<number, number[]> = new Map() // floor -> ladder x positions
@@ -62,35 +90,29 @@ export class GameScene extends Phaser.Scene {
   private totalBlueGemsCollected: number = 0 // Track big blue gems
   private totalDiamondsCollected: number = 0 // Track diamonds
   private livesEarned: number = 0 // Track how many lives have been earned from gems
+  private gemsSpent: number = 0 // Spent in the gem shop this run - the balance is totalCoinsCollected minus this
   private livesText!: Phaser.GameObjects.Text
   private livesIcon!: Phaser.GameObjects.Image
   private coinCounterText!: Phaser.GameObjects.Text // Display shows crystals, but variable kept for compatibility
   private readonly COINS_PER_EXTRA_LIFE = 150 // Crystals needed for extra life
   private readonly MAX_LIVES = 99
+  private readonly MAGNET_RADIUS = 120 // Gems inside this distance fly to the player
+  private readonly MAGNET_SPEED = 360 // Pixels per second
+  private readonly SHIELD_GRACE_TIME = 1500 // ms of cover after the shield breaks
   private hamburgerMenuButton!: Phaser.GameObjects.Text // Hamburger menu button
   private highestFloorGenerated: number = 5 // Track how many floors we've generated
   public touchControls!: TouchControls
-  private justKilledCat: boolean = false
+  public gamepadControls!: GamepadControls
+  private killGraceUntil: number = 0 // Simulation time until which enemy contact can't hurt - set by a stomp kill
   private comboCount: number = 0
-  private comboTimer: Phaser.Time.TimerEvent | null = null
+  private comboExpiresAt: number = 0 // Simulation time when the current combo runs out
   private comboText!: Phaser.GameObjects.Text
   private visibilityMask: any // Store visibility system components
   private visibilityRadius: number = 160 // 5 tiles * 32 pixels
   // private flashPowerUpActive: boolean = false // Commented out for later use
   // private flashPowerUpTimer: Phaser.Time.TimerEvent | null = null // Commented out for later use
-  private invincibilityActive: boolean = false
-  private invincibilityTimer: Phaser.Time.TimerEvent | null = null
-  private invincibilityTimerImage!: Phaser.GameObjects.Image
-  private invincibilityTimerMask!: Phaser.GameObjects.Graphics
-  private invincibilityTimeRemaining: number = 0
-  private invincibilityTimerSparkleTimer: Phaser.Time.TimerEvent | null = null
-  private invincibilityWarningPlayed: boolean = false
-  private crystalBallTimerImage!: Phaser.GameObjects.Image
-  private crystalBallTimerMask!: Phaser.GameObjects.Graphics
-  private cursedOrbTimerImage!: Phaser.GameObjects.Image
-  private cursedOrbTimerMask!: Phaser.GameObjects.Graphics
-  private cursedTealOrbTimerImage!: Phaser.GameObjects.Image
-  private cursedTealOrbTimerMask!: Phaser.GameObjects.Graphics
+  private powerUps!: PowerUpManager // Every timed power-up and curse - see registerPowerUps
+  private shieldGraceUntil: number = 0 // Simulation time until which a broken shield still protects the player
   private darknessOverlay!: Phaser.GameObjects.Image
   private playerGoldenAura: Phaser.GameObjects.Arc | null = null
   private playerParticleTrail: Phaser.GameObjects.Graphics[] = []
@@ -104,6 +126,24 @@ export class GameScene extends Phaser.Scene {
   private beastModeLoadingText?: Phaser.GameObjects.Text
   private beastModeLoadingTimer?: Phaser.Time.TimerEvent
   
+  // Input replay - every frame's resolved input is recorded, or fed back in during playback
+  private inputRecorder: InputRecorder | null = null
+  private playbackSegment: ReplaySegment | null = null // Segment being watched - its shop purchases are made again
+  private inputPlayback: InputPlayback | null = null
+  private currentInput: PlayerInputFrame = EMPTY_INPUT
+  private replayEndTimer?: Phaser.Time.TimerEvent
+  
+  // Fixed-rate simulation - gameplay steps at GameSettings.simulation.stepRate, rendering is interpolated
+  private simulationClock: FixedTimestep = new FixedTimestep()
+  private renderInterpolator: RenderInterpolator = new RenderInterpolator()
+  private simulationTime: number = 0
+  
+  // Run save - the run in progress is snapshotted so it can be resumed in a later session
+  private resumeState: RunState | null = null // Saved run being picked up by this level
+  private resumedPickups: Set<string> = new Set() // Pickups the resumed run already collected on this level
+  private resumedLevelTimeMs: number = 0 // Time played on this level before the save the run resumed from
+  private levelPickups: Map<string, { isCollected(): boolean }> = new Map()
+  
   // Game statistics tracking
   private gameStats = {
     treasureChestsOpened: 0,
@@ -121,6 +161,7 @@ export class GameScene extends Phaser.Scene {
     highestFloor: 0,
     livesLost: 0
   }
+  private lastDamageCause: string | null = null // What took the last life, for the run history
   
   // Background management
   private currentBackground: string = 'background-treasure-quest-5'
@@ -675,6 +716,9 @@ export class GameScene extends Phaser.Scene {
     console.log('🎮 GameScene.create() started at', performance.now())
     console.log('📊 showLoadingScreen flag:', this.showLoadingScreen)
     
+    // Gameplay and physics step at a fixed rate from update()
+    this.setupFixedTimestep()
+    
     // Show wallet button now that game has started (after splash)
     const platform = this.game.registry.get('platform') || (window as any).platform || (window as any).gamePlatform;
     if (platform && platform.showWalletButton) {
@@ -994,6 +1038,8 @@ export class GameScene extends Phaser.Scene {
     splashImage.alpha = 1 // Start at full opacity - no fade in needed
     console.log(`📐 Image scaled: ${scale.toFixed(2)}x, showing immediately`)
     
+    const completionPanel = this.createChapterCompletionPanel(level)
+    
     // Wait 2 seconds then fade out and continue
     console.log('⏱️ Starting 2 second timer')
     this.time.delayedCall(2000, () => {
@@ -1008,7 +1054,7 @@ export class GameScene extends Phaser.Scene {
       
       // Fade splash image out while fading black in for smooth transition
       this.tweens.add({
-        targets: splashImage,
+        targets: completionPanel ? [splashImage, completionPanel] : splashImage,
         alpha: 0,
         duration: 500, // Slower fade out for splash image
         ease: 'Power2'
@@ -1023,6 +1069,7 @@ export class GameScene extends Phaser.Scene {
         onComplete: () => {
           console.log('🗑️ Destroying splash elements')
           splashImage.destroy()
+          completionPanel?.destroy()
           
           // Keep black screen briefly then fade it out as game starts
           this.tweens.add({
@@ -1041,17 +1088,71 @@ export class GameScene extends Phaser.Scene {
     })
   }
   
+  /**
+   * Star completion for the chapter just finished and the one starting, shown over the chapter splash
+   */
+  private createChapterCompletionPanel(level: number): Phaser.GameObjects.Container | null {
+    const chapters = this.backgroundManager.getChapters()
+    const index = chapters.findIndex(chapter => level >= chapter.levelRange[0] && level <= chapter.levelRange[1])
+    if (index < 0) return null
+    
+    const lines = [chapters[index - 1], chapters[index]]
+      .filter(chapter => chapter && chapter.levelRange[0] <= LevelStars.LAST_RATED_LEVEL)
+      .map(chapter => {
+        const completion = LevelRecords.getChapterCompletion(chapter.levelRange[0], chapter.levelRange[1])
+        return `${chapter.name.toUpperCase()}  ★ ${completion.percent}%`
+      })
+    if (lines.length === 0) return null
+    
+    const width = this.cameras.main.width
+    const height = 24 + lines.length * 20
+    const background = this.add.graphics()
+    background.fillStyle(0x000000, 0.6)
+    background.fillRoundedRect(-width / 2 + 20, -height / 2, width - 40, height, 8)
+    
+    const text = this.add.text(0, 0, lines.join('\n'), {
+      fontSize: '9px',
+      color: '#ffd700',
+      fontFamily: '"Press Start 2P", system-ui',
+      align: 'center',
+      lineSpacing: 10
+    }).setOrigin(0.5)
+    
+    return this.add.container(width / 2, this.cameras.main.height - 60, [background, text])
+      .setDepth(10001)
+      .setScrollFactor(0)
+  }
+  
   private initializeGameState(): void {
     // Initialize level manager if needed
     if (!this.levelManager) {
       this.levelManager = new LevelManager()
     }
     
+    // Daily Challenge runs follow a fixed, date-derived level list
+    const dailyChallengeDate = this.game.registry.get('dailyChallengeDate')
+    if (this.game.registry.get('gameMode') === 'daily' && dailyChallengeDate) {
+      if (!this.levelManager.isDailyChallenge()) {
+        const dailySeed = DailyChallengeManager.getSeedForDate(dailyChallengeDate)
+        this.levelManager.startDailyChallenge(LevelManager.getDailyChallengeLevels(dailySeed))
+        console.log(`📅 Daily Challenge ${dailyChallengeDate} - Levels: ${this.levelManager.getDailyChallengeLevelList().join(', ')}`)
+      }
+    } else if (this.levelManager.isDailyChallenge()) {
+      this.levelManager.endDailyChallenge()
+    }
+    
     // Get current level from registry, default to level 1
     const currentLevelFromRegistry = this.game.registry.get('currentLevel') || 1
     // Sync level manager with registry
     this.levelManager.setCurrentLevel(currentLevelFromRegistry)
     
+    // Continuing a saved run (it may have been saved inside a bonus level)
+    this.resumeState = this.game.registry.get('resumeRunState') || null
+    this.game.registry.remove('resumeRunState')
+    if (this.resumeState) {
+      this.levelManager.setBonusLevel(this.resumeState.isBonusLevel)
+    }
+    
     // Clear any cached level from localStorage
     localStorage.removeItem('treasureQuest_currentLevel')
     
@@ -1089,6 +1190,8 @@ export class GameScene extends Phaser.Scene {
       this.totalBlueGemsCollected = registry.get('totalBlueGems') || 0
       this.totalDiamondsCollected = registry.get('totalDiamonds') || 0
       this.livesEarned = registry.get('livesEarned') || 0
+      this.gemsSpent = registry.get('gemsSpent') || 0
+      registry.set('levelLivesLost', 0) // Lives lost on the level so far, for its star rating
       console.log(`🎮 Level progression - Lives: ${this.lives}, Gems: ${this.totalCoinsCollected}`)
       // Don't clear the progression flag here - it's needed for intro animation
     } else if (registry.has('playerLives') && registry.get('playerLives') > 0) {
@@ -1108,6 +1211,7 @@ export class GameScene extends Phaser.Scene {
       this.totalBlueGemsCollected = registry.get('totalBlueGems') || 0
       this.totalDiamondsCollected = registry.get('totalDiamonds') || 0
       this.livesEarned = registry.get('livesEarned') || 0
+      this.gemsSpent = registry.get('gemsSpent') || 0
       console.log(`🎮 Death restart - Lives: ${this.lives}, Gems: ${this.totalCoinsCollected}`)
     } else {
       // New game - initialize defaults
@@ -1119,6 +1223,8 @@ export class GameScene extends Phaser.Scene {
       this.totalBlueGemsCollected = 0
       this.totalDiamondsCollected = 0
       this.livesEarned = 0
+      this.gemsSpent = 0
+      this.resetGameStats() // The scene instance outlives a run - stats start over with each one
       
       console.log(`🎮 New game started - Lives: ${this.lives}`)
       
@@ -1129,9 +1235,35 @@ export class GameScene extends Phaser.Scene {
       registry.set('totalBlueGems', 0)
       registry.set('totalDiamonds', 0)
       registry.set('livesEarned', 0)
+      registry.set('chestsSinceEpic', 0)
+      registry.set('gemsSpent', 0)
+      registry.set('chestRerolls', 0)
+      registry.remove('shopStartingPowerUp')
       registry.set('accumulatedScore', 0)
       registry.set('currentScore', 0)
       registry.set('accumulatedDiamonds', 0)
+      registry.set('levelLivesLost', 0)
+      
+      // Fresh seed for the new run (or the one from ?seed= when reproducing a report)
+      // Daily Challenge runs share the seed for the day so everyone plays the same levels
+      const urlSeed = GameRandom.getSeedFromUrl()
+      const playback = ReplayManager.getPlayback(registry)
+      if (playback) {
+        registry.set('runSeed', playback.replay.seed)
+      } else if (this.levelManager.isDailyChallenge()) {
+        registry.set('runSeed', DailyChallengeManager.getSeedForDate(registry.get('dailyChallengeDate')))
+      } else {
+        registry.set('runSeed', urlSeed !== null ? urlSeed : SeededRandom.createSeed())
+      }
+      registry.set('runStartTime', Date.now())
+      
+      // Start recording a replay of the new run (not while watching one)
+      // A new run also replaces any saved run
+      registry.remove('resumedRun')
+      if (!playback) {
+        ReplayManager.beginRun(registry)
+        RunStateManager.clear(registry)
+      }
       
       // Clear all chapter splash shown flags for new game
       const chapterLevels = [1, 11, 21, 31, 41, 51]
@@ -1147,6 +1279,23 @@ export class GameScene extends Phaser.Scene {
     
     // Calculate accumulated diamonds (for display)
     this.accumulatedDiamonds = registry.get('accumulatedDiamonds') || 0
+    
+    // The registry carried lives and totals over - the level score and stats come from the save itself
+    this.resumedLevelTimeMs = this.resumeState?.levelProgress?.timeMs || 0
+    if (this.resumeState) {
+      this.score = this.resumeState.score
+      const { enemyKills, ...stats } = this.resumeState.gameStats
+      Object.assign(this.gameStats, stats)
+      Object.assign(this.gameStats.enemyKills, enemyKills)
+      console.log(`💾 Resuming run - Level ${this.resumeState.level}${this.resumeState.isBonusLevel ? ' (bonus)' : ''}, floor ${this.resumeState.floor}, score ${this.accumulatedScore + this.score}`)
+    }
+    
+    // Seed the level generator - the same (seed, level) pair always builds the same level
+    if (!registry.has('runSeed')) {
+      registry.set('runSeed', SeededRandom.createSeed())
+    }
+    GameRandom.setRunSeed(registry.get('runSeed'))
+    console.log(`🎲 Run seed: ${GameRandom.getRunSeed()}`)
   }
 
   private async initializeGameAfterSplash(): Promise<void> {
@@ -1216,34 +1365,36 @@ export class GameScene extends Phaser.Scene {
     // Create spikes group for environmental hazards
     this.spikes = this.physics.add.staticGroup()
     
+    // Enemy groups don't update their children - fixedUpdate steps every enemy once per simulation step
+    
     // Create cats group
     this.cats = this.physics.add.group({
       classType: Cat,
-      runChildUpdate: true
+      runChildUpdate: false
     })
     
     // Create stalker cats group  
     this.stalkerCats = this.physics.add.group({
       classType: Cat,
-      runChildUpdate: true
+      runChildUpdate: false
     })
     
     // Create BaseBlu enemies group
     this.baseBlus = this.physics.add.group({
       classType: BaseBlu,
-      runChildUpdate: true
+      runChildUpdate: false
     })
 
     // Create beetles group
     this.beetles = this.physics.add.group({
       classType: Beetle,
-      runChildUpdate: true
+      runChildUpdate: false
     })
     
     // Create Rex enemies group
     this.rexEnemies = this.physics.add.group({
       classType: Rex,
-      runChildUpdate: true
+      runChildUpdate: false
     })
     
     // Initialize collectibles arrays
@@ -1251,16 +1402,24 @@ export class GameScene extends Phaser.Scene {
     this.blueCoins = []
     this.diamonds = []
     this.treasureChests = []
+    this.levelStartChestsSinceEpic = this.resumeState?.chestsSinceEpic?.levelStart ?? (this.game.registry.get('chestsSinceEpic') || 0)
+    this.plannedChestsSinceEpic = this.levelStartChestsSinceEpic
     // this.flashPowerUps = [] // Commented out for later use
     this.crystalBalls = []
+    this.powerUpOrbs = []
     this.freeLifs = []
     this.invincibilityPendants = []
     this.levelHasCrystalBall = false
+    this.shieldGraceUntil = 0
+    this.levelPickups.clear()
+    this.resumedPickups = new Set(this.resumeState?.collectedPickups || [])
     
     // Create mining theme background - DISABLED (using custom background image instead)
     // this.createMiningThemeBackground()
     
-    // Create the level
+    // Reseed generation streams for this level, then create the level
+    GameRandom.beginLevel(this.levelManager.getCurrentLevel(), this.levelManager.isBonusLevel())
+    this.setupInputReplay()
     this.createTestLevel()
     
     // Create the player (starts off-screen for walk-in animation)
@@ -1289,6 +1448,11 @@ export class GameScene extends Phaser.Scene {
       GameSettings.canvas.height + 100  // Start below screen
     )
     
+    // Timed power-ups - ticked in fixedUpdate, Player asks the manager what's active
+    this.powerUps = new PowerUpManager(this, this.player)
+    this.registerPowerUps()
+    this.player.setPowerUps(this.powerUps)
+    
     // Check if this is a death/retry or a new level
     const gameRegistry = this.game.registry
     const hasStoredLives = gameRegistry.has('playerLives')
@@ -1296,12 +1460,16 @@ export class GameScene extends Phaser.Scene {
     const isPageRefresh = !hasStoredLives || gameRegistry.get('playerLives') === 3 // Fresh start or full lives
     
     // Show animation for: new game (page refresh) OR level progression  
-    const shouldShowAnimation = isPageRefresh || levelProgression
+    // A resumed run drops straight back in where it was saved
+    const shouldShowAnimation = (isPageRefresh || levelProgression) && !this.resumeState
     
     if (!shouldShowAnimation) {
       // Death/retry - skip intro animation, spawn directly
       // Death/retry detected - skipping intro animation (replaced console.log)
       this.player.setPosition(spawnX, spawnY)
+      if (this.resumeState) {
+        this.placePlayerForResume(this.resumeState, spawnY)
+      }
       this.player.body!.enable = true
       this.isLevelStarting = false
       this.changePlayerTexture('playerIdleEye1')
@@ -1711,62 +1879,9 @@ export class GameScene extends Phaser.Scene {
     this.scoreText.setScrollFactor(0)
     this.comboText.setScrollFactor(0)
     
-    // Timer container - all 4 timers centered as a group under score
+    // Power-up timers centered as a group under score (one per registered power-up)
     const timerY = 75 // Shifted up 30px (was 105)
-    const timerSpacing = 45 // Space between timers (reduced for 4 timers)
-    const totalWidth = timerSpacing * 3 // 3 gaps between 4 timers
-    const startX = screenWidth / 2 - totalWidth / 2
-    
-    // Invincibility Timer (pendant) - position 1
-    this.invincibilityTimerImage = this.add.image(startX, timerY, 'invincibility-timer')
-    this.invincibilityTimerImage.setDisplaySize(36, 36)
-    this.invincibilityTimerImage.setDepth(101)
-    this.invincibilityTimerImage.setScrollFactor(0)
-    this.invincibilityTimerImage.setVisible(true) // Always visible in full color
-    
-    // Create circular mask for countdown effect
-    this.invincibilityTimerMask = this.add.graphics()
-    this.invincibilityTimerMask.setDepth(102)
-    this.invincibilityTimerMask.setScrollFactor(0)
-    
-    // Crystal Ball Timer - position 2
-    const crystalTimerTexture = this.textures.exists('crystalBallTimer') ? 'crystalBallTimer' : 'invincibility-timer'
-    this.crystalBallTimerImage = this.add.image(startX + timerSpacing, timerY, crystalTimerTexture)
-    this.crystalBallTimerImage.setDisplaySize(36, 36)
-    this.crystalBallTimerImage.setDepth(101)
-    this.crystalBallTimerImage.setScrollFactor(0)
-    this.crystalBallTimerImage.setVisible(true) // Always visible
-    
-    // Crystal ball timer mask for countdown
-    this.crystalBallTimerMask = this.add.graphics()
-    this.crystalBallTimerMask.setDepth(102)
-    this.crystalBallTimerMask.setScrollFactor(0)
-    
-    // Cursed Orb Timer - position 3
-    const cursedOrbTexture = this.textures.exists('cursedOrbTimer') ? 'cursedOrbTimer' : 'invincibility-timer'
-    this.cursedOrbTimerImage = this.add.image(startX + timerSpacing * 2, timerY, cursedOrbTexture)
-    this.cursedOrbTimerImage.setDisplaySize(36, 36)
-    this.cursedOrbTimerImage.setDepth(101)
-    this.cursedOrbTimerImage.setScrollFactor(0)
-    this.cursedOrbTimerImage.setVisible(true) // Always visible
-    
-    // Cursed orb timer mask for countdown
-    this.cursedOrbTimerMask = this.add.graphics()
-    this.cursedOrbTimerMask.setDepth(102)
-    this.cursedOrbTimerMask.setScrollFactor(0)
-    
-    // Cursed Teal Orb Timer - position 4
-    const cursedTealOrbTexture = this.textures.exists('cursedTealOrbTimer') ? 'cursedTealOrbTimer' : 'invincibility-timer'
-    this.cursedTealOrbTimerImage = this.add.image(startX + timerSpacing * 3, timerY, cursedTealOrbTexture)
-    this.cursedTealOrbTimerImage.setDisplaySize(36, 36)
-    this.cursedTealOrbTimerImage.setDepth(101)
-    this.cursedTealOrbTimerImage.setScrollFactor(0)
-    this.cursedTealOrbTimerImage.setVisible(true) // Always visible
-    
-    // Cursed teal orb timer mask for countdown
-    this.cursedTealOrbTimerMask = this.add.graphics()
-    this.cursedTealOrbTimerMask.setDepth(102)
-    this.cursedTealOrbTimerMask.setScrollFactor(0)
+    this.powerUps.createHud(screenWidth / 2, timerY)
     
     // RIGHT SIDE: Hamburger menu
     this.hamburgerMenuButton = this.add.text(screenWidth - 30, 48, '☰', {  // Shifted up 30px (was 78)
@@ -1797,6 +1912,19 @@ export class GameScene extends Phaser.Scene {
     // Connect touch controls to player
     this.player.setTouchControls(this.touchControls)
     
+    // Controller support - pause/mute buttons work like their keys, unplugging the controller pauses the run
+    this.gamepadControls = new GamepadControls(this)
+    this.player.setGamepadControls(this.gamepadControls)
+    this.gamepadControls.setPauseHandler(() => {
+      if (this.input.keyboard?.enabled && !this.menuOverlay?.isCapturingInput()) this.menuOverlay?.toggle()
+    })
+    this.gamepadControls.setMuteHandler(() => {
+      if (!this.menuOverlay?.isCapturingInput()) this.menuOverlay?.toggleMute()
+    })
+    this.gamepadControls.setDisconnectHandler(() => {
+      if (this.input.keyboard?.enabled && !this.menuOverlay?.getIsOpen()) this.menuOverlay?.open()
+    })
+    
     // Ensure input is enabled (in case it was disabled before restart)
     this.input.keyboard!.enabled = true
     this.touchControls.enable()
@@ -1809,6 +1937,20 @@ export class GameScene extends Phaser.Scene {
         this.scene.start('TestScene')
       })
       
+      // Open the level editor (also returns to it after a play-test)
+      this.input.keyboard!.on('keydown-L', () => {
+        console.log('📐 Switching to LevelEditorScene...')
+        this.scene.start('LevelEditorScene')
+      })
+      
+      // Download the last finished run's replay for a bug report
+      this.input.keyboard!.on('keydown-P', () => {
+        const lastReplay = ReplayManager.getLastReplay()
+        if (lastReplay) {
+          ReplayManager.exportReplay(lastReplay)
+        }
+      })
+      
       // Add debug gridlines for alignment testing
       this.createDebugGridlines()
     }
@@ -1870,13 +2012,16 @@ export class GameScene extends Phaser.Scene {
       this.hamburgerMenuButton.setColor('#9acf07') // Original green
     })
     
-    // Set up ESC key for menu
-    const escKey = this.input.keyboard?.addKey('ESC')
-    if (escKey) {
-      escKey.on('down', () => {
+    // Pause (ESC) and mute keys come from the input map, so rebinding takes effect straight away
+    this.input.keyboard?.on('keydown', (event: KeyboardEvent) => {
+      if (this.menuOverlay.isCapturingInput()) return // The key is being bound, not pressed
+      
+      if (InputMap.matchesKeyCode('pause', event.keyCode)) {
         this.menuOverlay.toggle()
-      })
-    }
+      } else if (InputMap.matchesKeyCode('mute', event.keyCode)) {
+        this.menuOverlay.toggleMute()
+      }
+    })
     
     // Initialize bubble system
     this.initializeBubbleSystem()
@@ -1919,6 +2064,21 @@ export class GameScene extends Phaser.Scene {
     if (this.levelManager?.getCurrentLevel() >= 51) {
       this.showBeastModeLoadingIndicator()
     }
+    
+    // Power-ups from a resumed run carry on with the time they had left
+    if (this.resumeState) {
+      this.restoreRunPowerUps(this.resumeState.powerUps)
+      this.resumeState = null
+    }
+    
+    // Starting power-up bought in the gem shop after the last level
+    const shopPowerUp: PowerUpId | undefined = this.game.registry.get('shopStartingPowerUp')
+    if (shopPowerUp) {
+      this.game.registry.remove('shopStartingPowerUp')
+      this.powerUps.activate(shopPowerUp)
+    }
+    this.setupAchievements()
+    this.setupRunSave()
   }  // End of initializeGameAfterSplash
 
   private startBackgroundMusic(musicEnabled: boolean): void {
@@ -2355,13 +2515,22 @@ export class GameScene extends Phaser.Scene {
   }
   
   private createTestLevel(): void {
+    const rng = GameRandom.stream('layout')
     const tileSize = GameSettings.game.tileSize
     const floorWidth = GameSettings.game.floorWidth
     // Use custom floor spacing for dgen1, or default calculation
     const floorSpacing = (GameSettings.game as any).floorSpacing || (tileSize * 5) // Space between floors
     
+    // Every level is planned from scratch - ladders and doors from the previous level must not leak in
+    this.ladderPositions.clear()
+    this.doorPositions.clear()
+    
     // Get the required floor count for this level
     const levelConfig = this.levelManager.getLevelConfig(this.levelManager.getCurrentLevel())
+    if (levelConfig.authored) {
+      this.createAuthoredLevel(levelConfig.authored)
+      return
+    }
     const requiredFloors = levelConfig.isEndless ? 20 : levelConfig.floorCount
     
     // Generate exactly the required number of floors for discrete levels
@@ -2371,215 +2540,97 @@ export class GameScene extends Phaser.Scene {
       Math.max(requiredFloors, Math.floor(GameSettings.canvas.height / floorSpacing)) :
       requiredFloors
     
-    // Track ladder positions and floor layouts for cat placement
-    const ladderPositions: number[] = []
-    const floorLayouts: { gapStart: number, gapSize: number }[] = []
+    const layout = LevelGenerator.generateLayout(rng, {
+      floorWidth,
+      numFloors,
+      doorFloor: levelConfig.isEndless ? -1 : (levelConfig.floorCount - 1),
+      isBonusLevel: this.levelManager.isBonusLevel(),
+      isEndless: levelConfig.isEndless
+    })
     
-    // First create all platforms with random gaps
-    for (let floor = 0; floor < numFloors; floor++) {
-      const y = GameSettings.canvas.height - tileSize/2 - (floor * floorSpacing)
-      
-      if (floor === 0) {
-        // Ground floor - complete platform
-        
-        for (let x = 0; x < floorWidth; x++) {
-          const platformX = x * tileSize + tileSize/2
-          this.createPlatformTile(platformX, y, x === 0, x === floorWidth - 1)
-        }
-        // Ground floor can have ladders at multiple positions
-        ladderPositions[floor] = -1 // Special marker for ground floor
-        floorLayouts[floor] = { gapStart: -1, gapSize: 0 } // No gap
-      } else {
-        // Upper floors - create platforms with random gaps (except bonus levels)
-        const hasGap = !this.levelManager.isBonusLevel() && Math.random() > 0.3 // 70% chance of having a gap (never for bonus levels)
-        
-        if (hasGap) {
-          // Random gap position (avoiding edges)
-          const gapStart = Math.floor(Math.random() * (floorWidth - 5)) + 2
-          const gapSize = Math.floor(Math.random() * 2) + 2 // Gap of 2-3 tiles
-          
-          // Store gap info for cat placement
-          floorLayouts[floor] = { gapStart, gapSize }
-          
-          // Create platform tiles, skipping the gap
-          for (let x = 0; x < floorWidth; x++) {
-            if (x < gapStart || x >= gapStart + gapSize) {
-              this.createPlatformTile(x * tileSize + tileSize/2, y, x === 0, x === floorWidth - 1)
-            }
-          }
-          
-          // Add spikes to all gaps in initial floor creation too (except in bonus levels)
-          // console.log(`🔱 Initial floor ${floor}: Creating spikes: gapStart=${gapStart}, gapSize=${gapSize}, floorY=${y}`)
-          if (!this.levelManager.isBonusLevel()) {
-            this.createSpikesInGap(gapStart, gapSize, y, tileSize)
-          }
-          
-          // Store safe ladder positions (not in or next to gaps)
-          const leftSafe = gapStart > 3 ? Math.floor(Math.random() * (gapStart - 1)) + 1 : -1
-          const rightSafe = gapStart + gapSize < floorWidth - 2 ? 
-            Math.floor(Math.random() * (floorWidth - gapStart - gapSize - 2)) + gapStart + gapSize + 1 : -1
-          
-          // Better distribution - divide floor into thirds and alternate sections
-          const floorThird = floorWidth / 3
-          const prevPos = floor > 1 ? ladderPositions[floor - 1] : -1
-          
-          let targetSection = Math.floor(Math.random() * 3) // 0=left, 1=middle, 2=right
-          
-          // If previous ladder exists, prefer different section
-          if (prevPos !== -1) {
-            const prevSection = Math.floor(prevPos / floorThird)
-            const otherSections = [0, 1, 2].filter(s => s !== prevSection)
-            targetSection = otherSections[Math.floor(Math.random() * otherSections.length)]
-          }
-          
-          // Find safe positions in target section
-          const sectionStart = Math.floor(targetSection * floorThird)
-          const sectionEnd = Math.floor((targetSection + 1) * floorThird)
-          const sectionSafe = []
-          
-          if (leftSafe !== -1 && leftSafe >= sectionStart && leftSafe < sectionEnd) sectionSafe.push(leftSafe)
-          if (rightSafe !== -1 && rightSafe >= sectionStart && rightSafe < sectionEnd) sectionSafe.push(rightSafe)
-          
-          // Use section position if available, otherwise use any safe position
-          ladderPositions[floor] = sectionSafe.length > 0 ? 
-            sectionSafe[Math.floor(Math.random() * sectionSafe.length)] : 
-            (rightSafe !== -1 ? rightSafe : leftSafe)
-        } else {
-          // No gap - complete floor
-          floorLayouts[floor] = { gapStart: -1, gapSize: 0 }
-          
-          for (let x = 0; x < floorWidth; x++) {
-            this.createPlatformTile(x * tileSize + tileSize/2, y)
-          }
-          // Better distribution for complete floors - use thirds system
-          const floorThird = floorWidth / 3
-          const prevPos = floor > 1 ? ladderPositions[floor - 1] : -1
-          
-          let targetSection = Math.floor(Math.random() * 3)
-          if (prevPos !== -1) {
-            const prevSection = Math.floor(prevPos / floorThird)
-            const otherSections = [0, 1, 2].filter(s => s !== prevSection)
-            targetSection = otherSections[Math.floor(Math.random() * otherSections.length)]
-          }
-          
-          const sectionStart = Math.max(2, Math.floor(targetSection * floorThird))
-          const sectionEnd = Math.min(floorWidth - 2, Math.floor((targetSection + 1) * floorThird))
-          ladderPositions[floor] = Math.floor(Math.random() * (sectionEnd - sectionStart)) + sectionStart
-        }
-      }
+    // Prove the door can be reached before building anything - fix the floors that fail
+    const { result, repairs } = LevelValidator.validateAndRepair(layout, this.getValidatorOptions(), rng)
+    if (repairs > 0) {
+      console.log(`🪜 Level ${this.levelManager.getCurrentLevel()} layout needed ${repairs} repair(s)`)
     }
+    if (!result.solvable) {
+      console.warn('🪜 Level layout is still unsolvable after repair:', result.issues)
+    }
+    
+    this.buildLevelLayout(layout)
+  }
+  
+  /**
+   * Build floors, gaps, spikes and ladders from a hand-authored level definition
+   */
+  private createAuthoredLevel(definition: LevelDefinition): void {
+    const layout = LevelGenerator.fromDefinition(definition, GameSettings.game.floorWidth)
+    
+    // Authored levels are never rewritten - just tell the designer what's wrong
+    const result = LevelValidator.validate(layout, this.getValidatorOptions())
+    if (result.issues.length > 0) {
+      console.warn(`📐 Authored level ${definition.levelNumber} has problems:`, result.issues)
+    }
+    
+    this.buildLevelLayout(layout)
+    console.log(`📐 Built authored level ${definition.levelNumber}${definition.name ? ` "${definition.name}"` : ''} (${definition.floors.length} floors)`)
+  }
+  
+  /**
+   * Create the platform tiles, gap spikes and ladders for a planned layout
+   */
+  private buildLevelLayout(layout: LevelLayout): void {
+    const tileSize = GameSettings.game.tileSize
+    const floorWidth = layout.floorWidth
+    const floorSpacing = (GameSettings.game as any).floorSpacing || (tileSize * 5)
+    
+    layout.floors.forEach((floorLayout, floor) => this.buildFloor(floorLayout, floor, layout.gapSpikes[floor], floorWidth))
     
     // Store floor layouts for cat creation
-    this.floorLayouts = floorLayouts
+    this.floorLayouts = layout.floors
+    this.highestFloorGenerated = layout.floors.length - 1
     
-    // Create ladders ensuring solid ground above and below
-    // Allow ladders TO the door floor, but not FROM or past it
-    const doorFloor = levelConfig.isEndless ? -1 : (levelConfig.floorCount - 1)
+    // Ladders lead from each floor up to the next one
+    layout.ladders.forEach((columns, floor) => this.buildLadders(floor, columns))
+  }
+  
+  /**
+   * Platform tiles for one floor, skipping the gap, with spikes in it unless it's an open gap
+   */
+  private buildFloor(floorLayout: FloorLayout, floor: number, gapSpikes: boolean, floorWidth: number): void {
+    const tileSize = GameSettings.game.tileSize
+    const floorSpacing = (GameSettings.game as any).floorSpacing || (tileSize * 5)
+    const y = GameSettings.canvas.height - tileSize/2 - (floor * floorSpacing)
     
-    for (let floor = 0; floor < numFloors - 1; floor++) {
-      // Skip creating ladder if it would lead PAST the door floor
-      // We WANT ladders leading TO the door floor, just not beyond it
-      if (!levelConfig.isEndless && (floor + 1) > doorFloor) {
-        continue // Don't create ladders leading past the door floor
-      }
-      
-      const bottomY = GameSettings.canvas.height - tileSize - (floor * floorSpacing)
-      const topY = GameSettings.canvas.height - tileSize - ((floor + 1) * floorSpacing)
-      
-      const currentFloor = floorLayouts[floor]
-      const nextFloor = floorLayouts[floor + 1]
-      
-      // Find valid ladder positions that have solid ground on both floors and avoid door conflicts
-      const validPositions: number[] = []
-      
-      for (let x = 1; x < floorWidth - 1; x++) {
-        const hasBottomPlatform = this.hasPlatformAt(currentFloor, x)
-        const hasTopPlatform = this.hasPlatformAt(nextFloor, x)
-        
-        // Check for door conflicts on both floors (ladders need clearance from doors)
-        const hasBottomDoorConflict = this.hasDoorAt(x, floor)
-        const hasTopDoorConflict = this.hasDoorAt(x, floor + 1)
-        
-        if (hasBottomPlatform && hasTopPlatform && !hasBottomDoorConflict && !hasTopDoorConflict) {
-          validPositions.push(x)
-        }
-      }
-      
-      if (validPositions.length > 0) {
-        const laddersPlaced: number[] = []
-        
-        if (floor === 0) {
-          // GROUND FLOOR ONLY: Place 2 ladders with good spacing
-          // Randomize positions for challenge, not predictable zones
-          
-          if (validPositions.length >= 2) {
-            // Place first ladder randomly
-            const firstLadder = validPositions[Math.floor(Math.random() * validPositions.length)]
-            this.createContinuousLadder(firstLadder * tileSize, bottomY, topY)
-            laddersPlaced.push(firstLadder)
-            
-            // Place second ladder with at least 6 tile separation
-            const minSeparation = 6
-            const secondLadderPositions = validPositions.filter(pos => 
-              Math.abs(pos - firstLadder) >= minSeparation
-            )
-            
-            if (secondLadderPositions.length > 0) {
-              // Pick from valid separated positions
-              const secondLadder = secondLadderPositions[Math.floor(Math.random() * secondLadderPositions.length)]
-              this.createContinuousLadder(secondLadder * tileSize, bottomY, topY)
-              laddersPlaced.push(secondLadder)
-            } else {
-              // If no good separation, find the furthest position
-              let maxDistance = 0
-              let bestSecondLadder = -1
-              
-              for (const pos of validPositions) {
-                const distance = Math.abs(pos - firstLadder)
-                if (distance > maxDistance && pos !== firstLadder) {
-                  maxDistance = distance
-                  bestSecondLadder = pos
-                }
-              }
-              
-              if (bestSecondLadder !== -1 && maxDistance >= 3) {
-                this.createContinuousLadder(bestSecondLadder * tileSize, bottomY, topY)
-                laddersPlaced.push(bestSecondLadder)
-              }
-              // If still can't place second ladder, that's ok - at least we have one
-            }
-          } else {
-            // Only one valid position on ground floor - place it
-            const ladder = validPositions[0]
-            this.createContinuousLadder(ladder * tileSize, bottomY, topY)
-            laddersPlaced.push(ladder)
-          }
-          
-        } else {
-          // ALL UPPER FLOORS: Only 1 ladder for challenge
-          // Smart placement to avoid vertical stacking
-          
-          const prevFloorLadders = this.ladderPositions.get(floor - 1) || []
-          
-          // Prefer positions NOT directly above/below previous ladders
-          const antiStackPositions = validPositions.filter(pos => 
-            !prevFloorLadders.some(prevPos => Math.abs(pos - prevPos) < 3)
-          )
-          
-          // Use anti-stack positions if available, otherwise use any valid position
-          const positionsToUse = antiStackPositions.length > 0 ? antiStackPositions : validPositions
-          
-          // Randomize within the valid positions for variety
-          const ladderPos = positionsToUse[Math.floor(Math.random() * positionsToUse.length)]
-          
-          this.createContinuousLadder(ladderPos * tileSize, bottomY, topY)
-          laddersPlaced.push(ladderPos)
-        }
-        
-        // Store ladder positions for reference
-        this.storeLadderPositions(floor, laddersPlaced)
+    for (let x = 0; x < floorWidth; x++) {
+      if (this.hasPlatformAt(floorLayout, x)) {
+        this.createPlatformTile(x * tileSize + tileSize/2, y, x === 0, x === floorWidth - 1)
       }
-      // If no valid positions, skip this connection (emergency fallback)
+    }
+    
+    // Bonus levels and open authored gaps have no spikes
+    if (floorLayout.gapStart !== -1 && gapSpikes) {
+      this.createSpikesInGap(floorLayout.gapStart, floorLayout.gapSize, y, tileSize)
+    }
+  }
+  
+  /**
+   * Ladders from a floor up to the next one
+   */
+  private buildLadders(floor: number, columns: number[]): void {
+    if (columns.length === 0) return
+    const tileSize = GameSettings.game.tileSize
+    const floorSpacing = (GameSettings.game as any).floorSpacing || (tileSize * 5)
+    const bottomY = GameSettings.canvas.height - tileSize - (floor * floorSpacing)
+    const topY = GameSettings.canvas.height - tileSize - ((floor + 1) * floorSpacing)
+    columns.forEach(x => this.createContinuousLadder(x * tileSize, bottomY, topY))
+    this.storeLadderPositions(floor, [...columns])
+  }
+  
+  private getValidatorOptions(): ValidatorOptions {
+    return {
+      maxJumpTiles: LevelValidator.getMaxJumpTiles(GameSettings.game),
+      spawnX: Math.floor(GameSettings.game.floorWidth / 2)
     }
   }
   
@@ -2897,6 +2948,7 @@ export class GameScene extends Phaser.Scene {
   }
 
   private createCeilingSpikes(): void {
+    const rng = GameRandom.stream('layout')
     const tileSize = GameSettings.game.tileSize
     const floorSpacing = (GameSettings.game as any).floorSpacing || (tileSize * 5)
     const levelConfig = this.levelManager.getLevelConfig(this.levelManager.getCurrentLevel())
@@ -2906,6 +2958,17 @@ export class GameScene extends Phaser.Scene {
       return
     }
     
+    // Authored levels list their ceiling spikes explicitly
+    if (levelConfig.authored) {
+      levelConfig.authored.floors.forEach((floorDef, floor) => {
+        const ceilingY = GameSettings.canvas.height - tileSize/2 - ((floor + 1) * floorSpacing) + tileSize
+        ;(floorDef.ceilingSpikes || []).forEach(x => {
+          this.createCeilingSpikeGraphics(x * tileSize + tileSize/2, ceilingY, tileSize)
+        })
+      })
+      return
+    }
+    
     // Only spawn ceiling spikes on level 1 for testing, later only on higher levels
     const minFloorForCeilingSpikes = 1 // Will change to higher number later
     
@@ -2914,7 +2977,7 @@ export class GameScene extends Phaser.Scene {
       const layout = this.floorLayouts[floor]
       
       // 80% chance of ceiling spikes on this floor for better visibility during testing
-      if (Math.random() > 0.8) continue
+      if (rng.next() > 0.8) continue
       
       // Calculate ceiling position (just below the floor above)
       const ceilingY = GameSettings.canvas.height - tileSize/2 - ((floor + 1) * floorSpacing) + tileSize
@@ -2952,16 +3015,16 @@ export class GameScene extends Phaser.Scene {
       }
       
       // Place 1-3 ceiling spike clusters randomly
-      const numSpikeClusters = Math.floor(Math.random() * 3) + 1
+      const numSpikeClusters = Math.floor(rng.next() * 3) + 1
       
       for (let i = 0; i < Math.min(numSpikeClusters, validPositions.length / 3); i++) {
         if (validPositions.length === 0) break
         
-        const randomIndex = Math.floor(Math.random() * validPositions.length)
+        const randomIndex = Math.floor(rng.next() * validPositions.length)
         const spikeX = validPositions[randomIndex]
         
         // Create a cluster of 1-3 tiles of ceiling spikes
-        const clusterSize = Math.floor(Math.random() * 3) + 1
+        const clusterSize = Math.floor(rng.next() * 3) + 1
         
         for (let j = 0; j < clusterSize; j++) {
           const tileX = spikeX + j
@@ -3045,6 +3108,7 @@ export class GameScene extends Phaser.Scene {
   }
 
   private createCats(): void {
+    const rng = GameRandom.stream('enemies')
     // Skip enemy spawning entirely for bonus levels
     if (this.levelManager.isBonusLevel()) {
       return
@@ -3060,6 +3124,10 @@ export class GameScene extends Phaser.Scene {
     // Enemy spawning debug start (replaced console.log)
     
     const levelConfig = this.levelManager.getLevelConfig(this.levelManager.getCurrentLevel())
+    if (levelConfig.authored) {
+      this.createAuthoredEnemies(levelConfig.authored)
+      return
+    }
     
     // Add cats on floors 1 through second-to-last floor (skip ground floor and door floor)
     const doorFloor = levelConfig.isEndless ? 999 : (levelConfig.floorCount - 1)
@@ -3099,7 +3167,7 @@ export class GameScene extends Phaser.Scene {
       const chestPositions: number[] = [] // Will be populated if chests exist on this floor
       
       // Shuffle zones for random distribution
-      const shuffledZones = [...availableZones].sort(() => Math.random() - 0.5)
+      const shuffledZones = [...availableZones].sort(() => rng.next() - 0.5)
       
       // Track BaseBlu spawn positions - alternate between edges
       let baseBluCount = 0
@@ -3122,7 +3190,7 @@ export class GameScene extends Phaser.Scene {
           
           if (totalBaseBluOnFloor === 1) {
             // Single BaseBlu - randomly choose left or right edge
-            const spawnLeft = Math.random() < 0.5
+            const spawnLeft = rng.next() < 0.5
             x = tileSize * (spawnLeft ? 1 : floorWidth - 1)
           } else {
             // Multiple BaseBlu - alternate edges
@@ -3158,14 +3226,14 @@ export class GameScene extends Phaser.Scene {
           }
           
           // Place stalker in zone center
-          x = tileSize * (validZone.center + (Math.random() - 0.5))
+          x = tileSize * (validZone.center + (rng.next() - 0.5))
           // Stalkers patrol full floor
           leftBound = tileSize * 0.5
           rightBound = tileSize * (floorWidth - 0.5)
           
         } else {
           // Regular enemies - use zone placement
-          x = tileSize * (zone.center + (Math.random() - 0.5) * 2)
+          x = tileSize * (zone.center + (rng.next() - 0.5) * 2)
           // ALL enemies patrol full floor width (over gaps/spikes)
           leftBound = tileSize * 0.5
           rightBound = tileSize * (floorWidth - 0.5)
@@ -3243,7 +3311,7 @@ export class GameScene extends Phaser.Scene {
           let color = EnemySpawningSystem.getColorForEnemyType(enemyType)
           
           // Randomly choose between blue and purple for chompers (50/50 mix for variety)
-          if (enemyType === EnemyType.CHOMPER && Math.random() < 0.5) {
+          if (enemyType === EnemyType.CHOMPER && rng.next() < 0.5) {
             color = 'purple'
           }
           
@@ -3273,6 +3341,56 @@ export class GameScene extends Phaser.Scene {
     // Enemy creation complete (replaced console.log)
   }
 
+  /**
+   * Place the enemies listed in a hand-authored level definition
+   */
+  private createAuthoredEnemies(definition: LevelDefinition): void {
+    const tileSize = GameSettings.game.tileSize
+    const floorSpacing = (GameSettings.game as any).floorSpacing || (tileSize * 5)
+    const floorWidth = GameSettings.game.floorWidth
+    const speedMultiplier = EnemySpawningSystem.getSpeedMultiplier(this.levelManager.getCurrentLevel())
+    
+    definition.floors.forEach((floorDef, floor) => {
+      const platformY = GameSettings.canvas.height - tileSize/2 - (floor * floorSpacing)
+      const y = platformY - tileSize/2 - 15 // Standing on top of the floor tiles, same as generated enemies
+      
+      ;(floorDef.enemies || []).forEach(placement => {
+        const enemyType = placement.type
+        const x = placement.x * tileSize + tileSize/2
+        const leftBound = placement.patrol ? placement.patrol.left * tileSize + tileSize/2 : tileSize * 0.5
+        const rightBound = placement.patrol ? placement.patrol.right * tileSize + tileSize/2 : tileSize * (floorWidth - 0.5)
+        let enemy: any
+        
+        if (EnemySpawningSystem.isBaseBluType(enemyType)) {
+          const baseBlu = new BaseBlu(this, x, y)
+          baseBlu.setPlatformBounds(leftBound, rightBound)
+          baseBlu.setInitialDirection(x < tileSize * (floorWidth / 2) ? 1 : -1) // Patrol inward from the nearer edge
+          this.baseBlus.add(baseBlu)
+          enemy = baseBlu
+        } else if (EnemySpawningSystem.isBeetleType(enemyType)) {
+          enemy = new Beetle(this, x, y, leftBound, rightBound)
+          this.beetles.add(enemy)
+        } else if (EnemySpawningSystem.isRexType(enemyType)) {
+          enemy = new Rex(this, x, y, leftBound, rightBound)
+          this.rexEnemies.add(enemy)
+        } else if (EnemySpawningSystem.isStalkerType(enemyType)) {
+          const stalkerCat = new Cat(this, x, y, leftBound, rightBound, 'red', true)
+          stalkerCat.setPlayerReference(this.player)
+          this.stalkerCats.add(stalkerCat)
+          enemy = stalkerCat
+        } else {
+          const color = EnemySpawningSystem.getColorForEnemyType(enemyType)
+          enemy = new Cat(this, x, y, leftBound, rightBound, color as any)
+          this.cats.add(enemy)
+        }
+        
+        if (typeof enemy.setSpeedMultiplier === 'function') {
+          enemy.setSpeedMultiplier(speedMultiplier)
+        }
+      })
+    })
+  }
+
   /**
    * Get zone size based on level for dynamic difficulty
    */
@@ -3306,6 +3424,7 @@ export class GameScene extends Phaser.Scene {
    * Calculate enemy positions based on spawn pattern
    */
   private calculateEnemyPositions(enemyCount: number, pattern: string, floorWidth: number, tileSize: number): Array<{x: number, leftBound: number, rightBound: number}> {
+    const rng = GameRandom.stream('enemies')
     const positions: Array<{x: number, leftBound: number, rightBound: number}> = []
     const margin = 1.5 // Tiles from edge
     const usableWidth = floorWidth - (margin * 2)
@@ -3326,7 +3445,7 @@ export class GameScene extends Phaser.Scene {
           
           // Add small random offset but maintain minimum distance
           const maxOffset = Math.min(0.5, (actualSpacing - minSpacing) / 2)
-          const randomOffset = (Math.random() - 0.5) * maxOffset
+          const randomOffset = (rng.next() - 0.5) * maxOffset
           const x = Math.max(margin, Math.min(floorWidth - margin, basePosition + randomOffset))
           
           // Give each enemy wider patrol zones (minimum 6 tiles)
@@ -3361,7 +3480,7 @@ export class GameScene extends Phaser.Scene {
         
         for (let i = 0; i < enemyCount; i++) {
           const angle = (Math.PI * 2 * i) / enemyCount
-          const radius = Math.random() * clusterRadius
+          const radius = rng.next() * clusterRadius
           const x = Math.max(margin, Math.min(floorWidth - margin, 
             clusterCenter + Math.cos(angle) * radius))
           
@@ -3394,7 +3513,7 @@ export class GameScene extends Phaser.Scene {
         // Distribute enemies on left edge with spacing
         for (let i = 0; i < leftEnemies; i++) {
           const verticalOffset = i * 0.8 // Stagger positions slightly
-          const x = margin + verticalOffset + Math.random() * 1.5
+          const x = margin + verticalOffset + rng.next() * 1.5
           
           // Left edge enemies patrol left half (with wider area)
           let leftBound = 0.5
@@ -3419,7 +3538,7 @@ export class GameScene extends Phaser.Scene {
         // Distribute enemies on right edge with spacing
         for (let i = 0; i < rightEnemies; i++) {
           const verticalOffset = i * 0.8 // Stagger positions slightly
-          const x = floorWidth - margin - verticalOffset - Math.random() * 1.5
+          const x = floorWidth - margin - verticalOffset - rng.next() * 1.5
           
           // Right edge enemies patrol right half (with wider area)
           let leftBound = Math.max(floorWidth / 2 - 1, 0.5) // Start slightly before center
@@ -3455,7 +3574,7 @@ export class GameScene extends Phaser.Scene {
           
           // Try to find a position with proper spacing
           do {
-            x = margin + Math.random() * usableWidth
+            x = margin + rng.next() * usableWidth
             attempts++
             
             // If we can't find a good position, use evenly spaced fallback
@@ -3470,7 +3589,7 @@ export class GameScene extends Phaser.Scene {
           // Wider patrol zones (minimum 6 tiles)
           const minPatrolWidth = 6
           const baseRadius = 3.5
-          const radiusVariation = Math.random() * 2 // 3.5-5.5 tiles radius
+          const radiusVariation = rng.next() * 2 // 3.5-5.5 tiles radius
           const patrolRadius = Math.max(minPatrolWidth / 2, baseRadius + radiusVariation)
           
           // Ensure patrol zones don't overlap with nearby enemies
@@ -3522,6 +3641,7 @@ export class GameScene extends Phaser.Scene {
    * Set smart initial direction for enemy based on position and context
    */
   private setSmartEnemyDirection(enemy: any, x: number, floorWidth: number, enemyIndex: number, totalEnemies: number): void {
+    const rng = GameRandom.stream('enemies')
     // Multiple factors determine initial direction
     const centerX = floorWidth / 2
     const distanceFromCenter = Math.abs(x - centerX)
@@ -3547,10 +3667,10 @@ export class GameScene extends Phaser.Scene {
     }
     
     // Add some true randomness
-    directionChance += (Math.random() - 0.5) * 0.3 // ±15% variation
+    directionChance += (rng.next() - 0.5) * 0.3 // ±15% variation
     directionChance = Math.max(0.1, Math.min(0.9, directionChance)) // Clamp to reasonable range
     
-    if (Math.random() < directionChance) {
+    if (rng.next() < directionChance) {
       if (typeof enemy.reverseDirection === 'function') {
         enemy.reverseDirection()
       }
@@ -3597,6 +3717,7 @@ export class GameScene extends Phaser.Scene {
   }
   
   private createStalkerCats(): void {
+    const rng = GameRandom.stream('enemies')
     // Check if red enemies should spawn based on current level
     const levelConfig = this.levelManager.getLevelConfig(this.levelManager.getCurrentLevel())
     if (!levelConfig.enemyTypes.includes('red')) {
@@ -3623,7 +3744,7 @@ export class GameScene extends Phaser.Scene {
       
       // Determine number of stalker cats (0-1 for now, will scale later)
       const maxStalkerCats = floor < 20 ? 1 : 2
-      const numStalkerCats = Math.random() < 0.6 ? Math.floor(Math.random() * maxStalkerCats) + 1 : 0
+      const numStalkerCats = rng.next() < 0.6 ? Math.floor(rng.next() * maxStalkerCats) + 1 : 0
       
       if (numStalkerCats === 0) continue
       
@@ -3647,7 +3768,7 @@ export class GameScene extends Phaser.Scene {
       
       // Place stalker cats at random valid positions
       for (let i = 0; i < Math.min(numStalkerCats, validPositions.length); i++) {
-        const randomIndex = Math.floor(Math.random() * validPositions.length)
+        const randomIndex = Math.floor(rng.next() * validPositions.length)
         const tileX = validPositions[randomIndex]
         const stalkerCatX = tileX * tileSize + tileSize/2
         
@@ -3715,6 +3836,7 @@ export class GameScene extends Phaser.Scene {
   
   
   private createAllCollectibles(): void {
+    const rng = GameRandom.stream('collectibles')
     const tileSize = GameSettings.game.tileSize
     const floorSpacing = (GameSettings.game as any).floorSpacing || (tileSize * 5)
     
@@ -3728,8 +3850,26 @@ export class GameScene extends Phaser.Scene {
       return
     }
     
+    // Authored levels place every collectible and chest explicitly
+    if (levelConfig.authored) {
+      levelConfig.authored.floors.forEach((floorDef, floor) => {
+        const platformY = GameSettings.canvas.height - tileSize/2 - (floor * floorSpacing)
+        const collectibleY = platformY - tileSize - 8
+        ;(floorDef.collectibles || []).forEach(item => {
+          this.spawnCollectible(item.type, item.x * tileSize + tileSize/2, collectibleY, floor)
+        })
+        ;(floorDef.chests || []).forEach(x => {
+          this.spawnCollectible('treasureChest', x * tileSize + tileSize/2, collectibleY, floor)
+        })
+      })
+      return
+    }
+    
     // Removed level 10 testing - normal collectibles now
     
+    // Where each floor's collectibles went, so the newer power-ups can be placed around them afterwards
+    const floorSlots: Array<{ validPositions: number[], collectibleY: number, usedPositions: Array<{x: number, type: string}> }> = []
+    
     // Place collectibles on each floor based on rarity rules from sprint plan
     for (let floor = 0; floor < this.floorLayouts.length; floor++) {
       const layout = this.floorLayouts[floor]
@@ -3750,86 +3890,43 @@ export class GameScene extends Phaser.Scene {
       
       // Track all used positions and their types for this floor
       const floorUsedPositions: Array<{x: number, type: string}> = []
+      floorSlots[floor] = { validPositions, collectibleY, usedPositions: floorUsedPositions }
       
-      // Regular coins: distribute throughout floors (2-4 per floor)
-      // Skip floor 0 to avoid collectibles in intro animation area
-      if (allowedCollectibles.includes('coin') && floor > 0) {
-        const numCoins = Math.floor(Math.random() * 3) + 2 // 2-4 coins per floor
-        this.placeCollectiblesOfType(validPositions, numCoins, 'coin', collectibleY, floor, floorUsedPositions)
-      }
-      
-      // Blue coins: lower probability (20% chance per floor)
-      if (allowedCollectibles.includes('blueCoin') && floor > 0 && Math.random() < 0.2) {
-        this.placeCollectiblesOfType(validPositions, 1, 'blueCoin', collectibleY, floor, floorUsedPositions)
-      }
-      
-      // Diamonds: much lower probability (8% chance per floor)
-      if (allowedCollectibles.includes('diamond') && floor > 1 && Math.random() < 0.08) {
-        this.placeCollectiblesOfType(validPositions, 1, 'diamond', collectibleY, floor, floorUsedPositions)
-      }
-      
-      // Free lives: very low probability starting after level 3 (3% chance per floor)
-      if (allowedCollectibles.includes('freeLife') && floor > 2 && Math.random() < 0.03) {
-        this.placeCollectiblesOfType(validPositions, 1, 'freeLife', collectibleY, floor, floorUsedPositions)
-      }
-      
-      // Invincibility pendants: Normal spawn rate (3% chance per floor after level 3)
-      // But never spawn on floor 0 (player spawn floor)
-      const pendantRoll = Math.random()
-      const pendantIncluded = allowedCollectibles.includes('invincibilityPendant')
-      const isPlayerSpawnFloor = floor === 0
-      
-      if (pendantIncluded && !isPlayerSpawnFloor && pendantRoll < 0.03) {
-        this.placeCollectiblesOfType(validPositions, 1, 'invincibilityPendant', collectibleY, floor, floorUsedPositions)
-      }
-      
-      // Treasure chests: Level-based spawning (2500 points + contents)
-      if (allowedCollectibles.includes('treasureChest') && floor >= 3) {
-        const currentLevel = this.levelManager.getCurrentLevel()
-        const shouldSpawnChest = this.shouldSpawnChestOnFloor(currentLevel, floor)
-        if (shouldSpawnChest) {
-          this.placeCollectiblesOfType(validPositions, 1, 'treasureChest', collectibleY, floor, floorUsedPositions)
-        }
-      }
-      
-      // Flash power-ups: Only spawn on dark mode levels (levels ending in 9)
-      // Commented out for later use
-      // const currentLevel = this.levelManager.getCurrentLevel()
-      // const isDarkModeLevel = currentLevel % 10 === 9
-      // if (isDarkModeLevel && floor > 2 && Math.random() < 0.25) { // 25% chance per floor on dark mode levels
-      //   this.placeCollectiblesOfType(validPositions, 1, 'flashPowerUp', collectibleY, floor, floorUsedPositions)
-      // }
-      const currentLevel = this.levelManager.getCurrentLevel() // Still needed for other logic
-      
-      // Crystal Ball power-up: One per level starting from level 3
-      if (currentLevel >= 3 && !this.levelHasCrystalBall && floor >= 2 && Math.random() < 0.3) { // 30% chance
-        console.log('🔮 TRYING to spawn Crystal Ball - Level:', currentLevel, 'Floor:', floor, 'HasCrystalBall:', this.levelHasCrystalBall)
-        this.placeCollectiblesOfType(validPositions, 1, 'crystalBall', collectibleY, floor, floorUsedPositions)
-        this.levelHasCrystalBall = true // Mark that this level has its crystal ball
-        console.log('🔮 Crystal Ball spawn attempted, levelHasCrystalBall now:', this.levelHasCrystalBall)
-      }
-      
-      // Cursed Orb power-up: One per level starting from level 11
-      if (currentLevel >= 11 && !this.levelHasCursedOrb && floor >= 2 && Math.random() < 0.2) { // 20% chance
-        this.placeCollectiblesOfType(validPositions, 1, 'cursedOrb', collectibleY, floor, floorUsedPositions)
-        this.levelHasCursedOrb = true // Mark that this level has its cursed orb
-      }
-      
-      // Cursed Teal Orb power-up: One per level starting from level 21
-      if (currentLevel >= 21 && !this.levelHasCursedTealOrb && floor >= 2 && Math.random() < 0.15) { // 15% chance
-        this.placeCollectiblesOfType(validPositions, 1, 'cursedTealOrb', collectibleY, floor, floorUsedPositions)
-        this.levelHasCursedTealOrb = true // Mark that this level has its cursed teal orb
+      // Roll this floor's collectibles and place each one as it comes up
+      const powerUps = {
+        hasCrystalBall: this.levelHasCrystalBall,
+        hasCursedOrb: this.levelHasCursedOrb,
+        hasCursedTealOrb: this.levelHasCursedTealOrb
       }
+      CollectibleSpawningSystem.rollFloor(
+        this.levelManager.getCurrentLevel(), floor, levelConfig.floorCount, allowedCollectibles, rng, powerUps,
+        (type, count) => this.placeCollectiblesOfType(validPositions, count, type, collectibleY, floor, floorUsedPositions)
+      )
+      this.levelHasCrystalBall = powerUps.hasCrystalBall
+      this.levelHasCursedOrb = powerUps.hasCursedOrb
+      this.levelHasCursedTealOrb = powerUps.hasCursedTealOrb
     }
+    
+    // Magnet, shield, double jump and time-freeze come from their own stream once every floor is done
+    const powerUpRng = GameRandom.stream('powerUps')
+    CollectibleSpawningSystem.rollLevelPowerUps(
+      this.levelManager.getCurrentLevel(), levelConfig.floorCount, powerUpRng,
+      (type, floor) => {
+        const slot = floorSlots[floor]
+        if (!slot) return
+        this.placeCollectiblesOfType(slot.validPositions, 1, type, slot.collectibleY, floor, slot.usedPositions, powerUpRng)
+      }
+    )
   }
   
   private placeCollectiblesOfType(
     validPositions: number[], 
     count: number, 
-    type: 'coin' | 'blueCoin' | 'diamond' | 'freeLife' | 'invincibilityPendant' | 'treasureChest' | 'crystalBall' | 'cursedOrb' | 'cursedTealOrb', // 'flashPowerUp' commented out for later use
+    type: SpawnableCollectible, // 'flashPowerUp' commented out for later use
     y: number,
     floor: number,
-    floorUsedPositions: Array<{x: number, type: string}>
+    floorUsedPositions: Array<{x: number, type: string}>,
+    rng: SeededRandom = GameRandom.stream('collectibles')
   ): void {
     const tileSize = GameSettings.game.tileSize
     
@@ -3844,7 +3941,7 @@ export class GameScene extends Phaser.Scene {
       let tileX = -1
       
       while (attempts < 20 && tileX === -1) {
-        const candidateIndex = Math.floor(Math.random() * availablePositions.length)
+        const candidateIndex = Math.floor(rng.next() * availablePositions.length)
         const candidate = availablePositions[candidateIndex]
         
         if (!this.isPositionOccupiedWithVariety(candidate, type, floorUsedPositions)) {
@@ -3863,130 +3960,194 @@ export class GameScene extends Phaser.Scene {
       if (tileX === -1) break // Couldn't find a valid position
       
       const x = tileX * tileSize + tileSize/2
+      this.spawnCollectible(type, x, y, floor)
+    }
+  }
+  
+  /**
+   * Create a collectible and hook up its pickup overlap
+   */
+  private spawnCollectible(
+    type: SpawnableCollectible,
+    x: number,
+    y: number,
+    floor: number
+  ): void {
+    const pickupKey = this.claimPickupKey(type, x, floor)
+    if (!pickupKey) return
+    
+    if (type === 'treasureChest') {
+      // Treasure chests use interaction system, not automatic collection
+      const chest = this.createTreasureChest(x, y)
+      this.levelPickups.set(pickupKey, { isCollected: () => !chest.canInteract() })
+      return
+    }
+    
+    this.levelPickups.set(pickupKey, this.createCollectible(type, x, y))
+  }
+  
+  /**
+   * Create a gem, life, power-up or curse and hook up its pickup overlap - used for level layouts and chest drops
+   */
+  private createCollectible(type: CollectibleType, x: number, y: number): { sprite: Phaser.GameObjects.Container | Phaser.GameObjects.Image, isCollected(): boolean } {
+    switch (type) {
+      case 'coin':
+        const coin = new Coin(this, x, y)
+        this.coins.push(coin)
+        this.physics.add.overlap(
+          this.player,
+          coin.sprite,
+          () => this.handleCoinCollection(coin),
+          undefined,
+          this
+        )
+        return coin
+        
+      case 'blueCoin':
+        const blueCoin = new BlueCoin(this, x, y)
+        this.blueCoins.push(blueCoin)
+        this.physics.add.overlap(
+          this.player,
+          blueCoin.sprite,
+          () => this.handleBlueCoinCollection(blueCoin),
+          undefined,
+          this
+        )
+        return blueCoin
+        
+      case 'diamond':
+        const diamond = new Diamond(this, x, y)
+        this.diamonds.push(diamond)
+        this.physics.add.overlap(
+          this.player,
+          diamond.sprite,
+          () => this.handleDiamondCollection(diamond),
+          undefined,
+          this
+        )
+        return diamond
       
-      switch (type) {
-        case 'coin':
-          const coin = new Coin(this, x, y)
-          this.coins.push(coin)
-          this.physics.add.overlap(
-            this.player,
-            coin.sprite,
-            () => this.handleCoinCollection(coin),
-            undefined,
-            this
-          )
-          break
-          
-        case 'blueCoin':
-          const blueCoin = new BlueCoin(this, x, y)
-          this.blueCoins.push(blueCoin)
-          this.physics.add.overlap(
-            this.player,
-            blueCoin.sprite,
-            () => this.handleBlueCoinCollection(blueCoin),
-            undefined,
-            this
-          )
-          break
-          
-        case 'diamond':
-          const diamond = new Diamond(this, x, y)
-          this.diamonds.push(diamond)
-          this.physics.add.overlap(
-            this.player,
-            diamond.sprite,
-            () => this.handleDiamondCollection(diamond),
-            undefined,
-            this
-          )
-          break
+      case 'freeLife':
+        const freeLife = new FreeLife(this, x, y)
+        this.freeLifes.push(freeLife)
+        this.physics.add.overlap(
+          this.player,
+          freeLife.sprite,
+          () => this.handleFreeLifeCollection(freeLife),
+          undefined,
+          this
+        )
+        return freeLife
+      
+      case 'invincibilityPendant':
+        const pendant = new InvincibilityPendant(this, x, y)
+        this.invincibilityPendants.push(pendant)
+        this.physics.add.overlap(
+          this.player,
+          pendant.sprite,
+          () => {
+            this.handleInvincibilityPendantCollection(pendant)
+          },
+          undefined,
+          this
+        )
+        return pendant
         
-        case 'freeLife':
-          const freeLife = new FreeLife(this, x, y)
-          this.freeLifes.push(freeLife)
-          this.physics.add.overlap(
-            this.player,
-            freeLife.sprite,
-            () => this.handleFreeLifeCollection(freeLife),
-            undefined,
-            this
-          )
-          break
+      // Commented out for later use
+      // case 'flashPowerUp':
+      //   const flashPowerUp = new FlashPowerUp(this, x, y)
+      //   this.flashPowerUps.push(flashPowerUp)
+      //   this.physics.add.overlap(
+      //     this.player,
+      //     flashPowerUp.sprite,
+      //     () => this.handleFlashPowerUpCollection(flashPowerUp),
+      //     undefined,
+      //     this
+      //   )
+      //   break
         
-        case 'invincibilityPendant':
-          const pendant = new InvincibilityPendant(this, x, y)
-          this.invincibilityPendants.push(pendant)
-          this.physics.add.overlap(
-            this.player,
-            pendant.sprite,
-            () => {
-              this.handleInvincibilityPendantCollection(pendant)
-            },
-            undefined,
-            this
-          )
-          break
-          
-        case 'treasureChest':
-          const chest = new TreasureChest(this, x, y)
-          this.treasureChests.push(chest)
-          // Treasure chests use interaction system, not automatic collection
-          break
-          
-        // Commented out for later use
-        // case 'flashPowerUp':
-        //   const flashPowerUp = new FlashPowerUp(this, x, y)
-        //   this.flashPowerUps.push(flashPowerUp)
-        //   this.physics.add.overlap(
-        //     this.player,
-        //     flashPowerUp.sprite,
-        //     () => this.handleFlashPowerUpCollection(flashPowerUp),
-        //     undefined,
-        //     this
-        //   )
-        //   break
-          
-        case 'crystalBall':
-          console.log('🔮 SPAWNING Crystal Ball at', x, y, 'floor:', floor)
-          const crystalBall = new CrystalBall(this, x, y)
-          this.crystalBalls.push(crystalBall)
-          console.log('🔮 Crystal Ball created, total crystal balls:', this.crystalBalls.length)
-          this.physics.add.overlap(
-            this.player,
-            crystalBall.sprite,
-            () => this.handleCrystalBallCollection(crystalBall),
-            undefined,
-            this
-          )
-          break
-          
-        case 'cursedOrb':
-          const cursedOrb = new CursedOrb(this, x, y, 'cursed')
-          this.cursedOrbs.push(cursedOrb)
-          this.physics.add.overlap(
-            this.player,
-            cursedOrb.sprite,
-            () => this.handleCursedOrbCollection(cursedOrb),
-            undefined,
-            this
-          )
-          break
-          
-        case 'cursedTealOrb':
-          const cursedTealOrb = new CursedOrb(this, x, y, 'cursedTeal')
-          this.cursedTealOrbs.push(cursedTealOrb)
-          this.physics.add.overlap(
-            this.player,
-            cursedTealOrb.sprite,
-            () => this.handleCursedTealOrbCollection(cursedTealOrb),
-            undefined,
-            this
-          )
-          break
-      }
+      case 'crystalBall':
+        console.log('🔮 SPAWNING Crystal Ball at', x, y)
+        const crystalBall = new CrystalBall(this, x, y)
+        this.crystalBalls.push(crystalBall)
+        console.log('🔮 Crystal Ball created, total crystal balls:', this.crystalBalls.length)
+        this.physics.add.overlap(
+          this.player,
+          crystalBall.sprite,
+          () => this.handleCrystalBallCollection(crystalBall),
+          undefined,
+          this
+        )
+        return crystalBall
+        
+      case 'cursedOrb':
+        const cursedOrb = new CursedOrb(this, x, y, 'cursed')
+        this.cursedOrbs.push(cursedOrb)
+        this.physics.add.overlap(
+          this.player,
+          cursedOrb.sprite,
+          () => this.handleCursedOrbCollection(cursedOrb),
+          undefined,
+          this
+        )
+        return cursedOrb
+        
+      case 'cursedTealOrb':
+        const cursedTealOrb = new CursedOrb(this, x, y, 'cursedTeal')
+        this.cursedTealOrbs.push(cursedTealOrb)
+        this.physics.add.overlap(
+          this.player,
+          cursedTealOrb.sprite,
+          () => this.handleCursedTealOrbCollection(cursedTealOrb),
+          undefined,
+          this
+        )
+        return cursedTealOrb
+        
+      case 'magnet':
+      case 'shield':
+      case 'doubleJump':
+      case 'timeFreeze':
+        return this.createPowerUpOrb(x, y, type)
     }
   }
   
+  /**
+   * Treasure chest using the chapter's loot table
+   * Each chest counts towards the epic pity timer as it's placed, so a level can't stack up several pity chests
+   */
+  private createTreasureChest(x: number, y: number): TreasureChest {
+    const lootTable = ChestLoot.getTable(this.levelManager.getCurrentLevel(), this.levelManager.isBonusLevel())
+    const chest = new TreasureChest(this, x, y, lootTable, this.plannedChestsSinceEpic)
+    this.plannedChestsSinceEpic = chest.getTier() === 'yellow' ? 0 : this.plannedChestsSinceEpic + 1
+    this.treasureChests.push(chest)
+    return chest
+  }
+  
+  /**
+   * Magnet, shield, double jump or time-freeze pickup, from the level or a chest
+   */
+  private createPowerUpOrb(x: number, y: number, kind: PowerUpOrbKind): PowerUpOrb {
+    const orb = new PowerUpOrb(this, x, y, kind)
+    this.powerUpOrbs.push(orb)
+    this.physics.add.overlap(
+      this.player,
+      orb.sprite,
+      () => this.handlePowerUpOrbCollection(orb),
+      undefined,
+      this
+    )
+    return orb
+  }
+  
+  /**
+   * Key a level pickup for the run save, or null when the resumed run already collected it
+   */
+  private claimPickupKey(type: string, x: number, floor: number): string | null {
+    const key = RunStateManager.getPickupKey(type, x, floor)
+    return this.resumedPickups.has(key) ? null : key
+  }
+  
   private hasLadderAt(x: number, floor: number): boolean {
     // Check if there's a ladder at this position using stored positions
     const ladders = this.ladderPositions.get(floor) || []
@@ -4003,6 +4164,7 @@ export class GameScene extends Phaser.Scene {
   }
 
   private createBonusLevelChests(): void {
+    const rng = GameRandom.stream('collectibles')
     const tileSize = GameSettings.game.tileSize
     const floorSpacing = (GameSettings.game as any).floorSpacing || (tileSize * 5)
     
@@ -4030,15 +4192,15 @@ export class GameScene extends Phaser.Scene {
       if (validPositions.length === 0) continue
       
       // Place the treasure chest at a random valid position
-      const randomIndex = Math.floor(Math.random() * validPositions.length)
+      const randomIndex = Math.floor(rng.next() * validPositions.length)
       const chestX = validPositions[randomIndex] * tileSize + tileSize/2
+      const pickupKey = this.claimPickupKey('treasureChest', chestX, floor)
+      if (!pickupKey) continue
       
-      // Create treasure chest - it will auto-generate contents when opened
-      const treasureChest = new TreasureChest(this, chestX, collectibleY)
-      this.treasureChests.push(treasureChest)
+      // Create treasure chest - it will roll its contents from the bonus loot table when opened
+      const treasureChest = this.createTreasureChest(chestX, collectibleY)
+      this.levelPickups.set(pickupKey, { isCollected: () => !treasureChest.canInteract() })
       
-      // Note: Treasure chests auto-generate their contents when opened based on tier
-      // For bonus levels, all chests will contain good rewards automatically
     }
     
     // Add lots of collectibles throughout the bonus level
@@ -4049,6 +4211,7 @@ export class GameScene extends Phaser.Scene {
   }
   
   private createBonusLevelCollectibles(): void {
+    const rng = GameRandom.stream('collectibles')
     const tileSize = GameSettings.game.tileSize
     const floorSpacing = (GameSettings.game as any).floorSpacing || (tileSize * 5)
     
@@ -4074,7 +4237,7 @@ export class GameScene extends Phaser.Scene {
       if (validPositions.length === 0) continue
       
       // Shuffle positions for random placement
-      const shuffledPositions = [...validPositions].sort(() => Math.random() - 0.5)
+      const shuffledPositions = [...validPositions].sort(() => rng.next() - 0.5)
       
       let positionIndex = 0
       
@@ -4083,12 +4246,13 @@ export class GameScene extends Phaser.Scene {
         // Pick a position away from edges and ladders for better accessibility
         const safePosition = Math.min(Math.floor(shuffledPositions.length / 3), shuffledPositions.length - 1)
         const x = shuffledPositions[safePosition] * tileSize + tileSize/2
+        const pickupKey = this.claimPickupKey('diamond', x, floor)
         
-        const diamond = new Diamond(this, x, collectibleY)
-        this.diamonds.push(diamond)
-        
-        // Add collision detection with a small delay to ensure diamond is fully initialized
-        this.time.delayedCall(100, () => {
+        if (pickupKey) {
+          const diamond = new Diamond(this, x, collectibleY)
+          this.diamonds.push(diamond)
+          this.levelPickups.set(pickupKey, diamond)
+          
           this.physics.add.overlap(
             this.player,
             diamond.sprite,
@@ -4096,7 +4260,7 @@ export class GameScene extends Phaser.Scene {
             undefined,
             this
           )
-        })
+        }
         
         // Remove used position to avoid conflicts
         shuffledPositions.splice(safePosition, 1)
@@ -4107,16 +4271,20 @@ export class GameScene extends Phaser.Scene {
       for (let i = 0; i < 5 && i < shuffledPositions.length; i++) {
         const spacedIndex = Math.min(i * blueCoinSpacing, shuffledPositions.length - 1)
         const x = shuffledPositions[spacedIndex] * tileSize + tileSize/2
-        const blueCoin = new BlueCoin(this, x, collectibleY)
-        this.blueCoins.push(blueCoin)
-        
-        this.physics.add.overlap(
-          this.player,
-          blueCoin.sprite,
-          () => this.handleBlueCoinCollection(blueCoin),
-          undefined,
-          this
-        )
+        const pickupKey = this.claimPickupKey('blueCoin', x, floor)
+        if (pickupKey) {
+          const blueCoin = new BlueCoin(this, x, collectibleY)
+          this.blueCoins.push(blueCoin)
+          this.levelPickups.set(pickupKey, blueCoin)
+          
+          this.physics.add.overlap(
+            this.player,
+            blueCoin.sprite,
+            () => this.handleBlueCoinCollection(blueCoin),
+            undefined,
+            this
+          )
+        }
         
         // Remove used position
         shuffledPositions.splice(spacedIndex, 1)
@@ -4129,16 +4297,20 @@ export class GameScene extends Phaser.Scene {
         // Only place if we have enough spacing from previous crystal
         if (crystalIndex === 0 || i >= crystalIndex + minCrystalSpacing) {
           const x = shuffledPositions[i] * tileSize + tileSize/2
-          const coin = new Coin(this, x, collectibleY)
-          this.coins.push(coin)
-          
-          this.physics.add.overlap(
-            this.player,
-            coin.sprite,
-            () => this.handleCoinCollection(coin),
-            undefined,
-            this
-          )
+          const pickupKey = this.claimPickupKey('coin', x, floor)
+          if (pickupKey) {
+            const coin = new Coin(this, x, collectibleY)
+            this.coins.push(coin)
+            this.levelPickups.set(pickupKey, coin)
+            
+            this.physics.add.overlap(
+              this.player,
+              coin.sprite,
+              () => this.handleCoinCollection(coin),
+              undefined,
+              this
+            )
+          }
           crystalIndex = i
         }
       }
@@ -4167,34 +4339,33 @@ export class GameScene extends Phaser.Scene {
         }
       }
       
-      if (validPositions.length > 0) {
-        // Place free life at position that won't conflict with other items
-        const safePosition = Math.min(2, validPositions.length - 1) // Near left side but not edge
-        const x = validPositions[safePosition] * tileSize + tileSize/2
-        
+      // Place free life at position that won't conflict with other items
+      const safePosition = Math.min(2, validPositions.length - 1) // Near left side but not edge
+      const x = validPositions[safePosition] * tileSize + tileSize/2
+      const pickupKey = this.claimPickupKey('freeLife', x, targetFloor)
+      
+      if (validPositions.length > 0 && pickupKey) {
         const freeLife = new FreeLife(this, x, collectibleY)
         this.freeLifes.push(freeLife)
+        this.levelPickups.set(pickupKey, freeLife)
         // Free life created on bonus level
         
-        // Add collision detection with a small delay to ensure free life is fully initialized
-        this.time.delayedCall(100, () => {
-          this.physics.add.overlap(
-            this.player,
-            freeLife.sprite,
-            () => {
-              // Free life collected on bonus level
-              this.handleFreeLifeCollection(freeLife)
-            },
-            undefined,
-            this
-          )
-          // Free life collision detection added
-        })
+        this.physics.add.overlap(
+          this.player,
+          freeLife.sprite,
+          () => {
+            // Free life collected on bonus level
+            this.handleFreeLifeCollection(freeLife)
+          },
+          undefined,
+          this
+        )
       }
     }
   }
 
   private createLevel10TestingCollectibles(): void {
+    const rng = GameRandom.stream('collectibles')
     const tileSize = GameSettings.game.tileSize
     const floorSpacing = (GameSettings.game as any).floorSpacing || (tileSize * 5)
     
@@ -4227,7 +4398,7 @@ export class GameScene extends Phaser.Scene {
       // Place 2-3 invincibility pendants per floor for testing
       const pendantsToPlace = Math.min(3, validPositions.length)
       for (let i = 0; i < pendantsToPlace; i++) {
-        const randomIndex = Math.floor(Math.random() * validPositions.length)
+        const randomIndex = Math.floor(rng.next() * validPositions.length)
         const x = validPositions.splice(randomIndex, 1)[0] // Remove to avoid duplicates
         const pendantX = x * tileSize + tileSize/2
         
@@ -4248,26 +4419,8 @@ export class GameScene extends Phaser.Scene {
   }
 
   private shouldSpawnChestOnFloor(level: number, floor: number): boolean {
-    // Level-based chest spawning rules:
-    // Levels 1-4: Max 1 chest per level
-    // Levels 5-6: Max 2 chests per level  
-    // Levels 7+: Original rule (1 per 1-3 floors with 35% chance)
-    
-    if (level <= 4) {
-      // Levels 1-4: 1 chest maximum, spawn on middle floors
-      const levelConfig = this.levelManager.getLevelConfig(level)
-      const middleFloor = Math.floor(levelConfig.floorCount / 2)
-      return floor === middleFloor || (floor === middleFloor + 1 && Math.random() < 0.5)
-    } else if (level <= 6) {
-      // Levels 5-6: 2 chests maximum, spread across level
-      const levelConfig = this.levelManager.getLevelConfig(level)
-      const firstChestFloor = Math.floor(levelConfig.floorCount / 3)
-      const secondChestFloor = Math.floor((levelConfig.floorCount * 2) / 3)
-      return floor === firstChestFloor || floor === secondChestFloor
-    } else {
-      // Levels 7+: Original rule
-      return floor % 3 === 0 || Math.random() < 0.35
-    }
+    const levelConfig = this.levelManager.getLevelConfig(level)
+    return CollectibleSpawningSystem.shouldSpawnChestOnFloor(level, floor, levelConfig.floorCount, GameRandom.stream('collectibles'))
   }
 
   private isSafeForTreasureChest(x: number, floor: number): boolean {
@@ -4363,7 +4516,7 @@ export class GameScene extends Phaser.Scene {
     if (coin.isCollected()) return
     
     // Add points
-    this.score += GameSettings.scoring.coinCollect
+    const points = this.awardPoints({ kind: 'collect', subject: 'coin' })
     
     // Play gem collect sound effect
     this.playSoundEffect('gem-collect', 0.5)
@@ -4380,7 +4533,7 @@ export class GameScene extends Phaser.Scene {
     this.updateCoinCounterDisplay()
     
     // Show point popup
-    this.showPointPopup(coin.sprite.x, coin.sprite.y - 20, GameSettings.scoring.coinCollect)
+    this.showPointPopup(coin.sprite.x, coin.sprite.y - 20, points)
     
     // Trigger haptic feedback for collecting coin
     this.triggerFarcadeHapticFeedback()
@@ -4402,8 +4555,7 @@ export class GameScene extends Phaser.Scene {
     // Check if already collected
     if (blueCoin.isCollected()) return
     
-    const points = 500
-    this.score += points
+    const points = this.awardPoints({ kind: 'collect', subject: 'blueCoin' })
     
     // Play blue gem collect sound effect
     this.playSoundEffect('big-blue-gem-collect', 0.5)
@@ -4442,8 +4594,7 @@ export class GameScene extends Phaser.Scene {
     // Check if already collected
     if (diamond.isCollected()) return
     
-    const points = 1000
-    this.score += points
+    const points = this.awardPoints({ kind: 'collect', subject: 'diamond' })
     
     // Play diamond collect sound effect
     this.playSoundEffect('diamond-collect', 0.5)
@@ -4482,8 +4633,7 @@ export class GameScene extends Phaser.Scene {
     // Check if already collected
     if (freeLife.isCollected()) return
     
-    const points = 2000
-    this.score += points
+    const points = this.awardPoints({ kind: 'collect', subject: 'freeLife' })
     
     // Play heart collect sound effect
     this.playSoundEffect('heart-collect', 0.5)
@@ -4530,14 +4680,13 @@ export class GameScene extends Phaser.Scene {
     }
     
     
-    const points = 300
-    this.score += points
+    const points = this.awardPoints({ kind: 'collect', subject: 'invincibilityPendant' })
     
     // Play powerup collect sound effect
     this.playSoundEffect('powerup-collect', 0.5)
     
     // Activate invincibility for 10 seconds
-    this.activateInvincibility()
+    this.powerUps.activate('invincibility')
     
     // Update score display
     this.updateScoreDisplay()
@@ -4586,12 +4735,13 @@ export class GameScene extends Phaser.Scene {
     }
     
     console.log('🔮 COLLECTING Crystal Ball - activating power-up!')
+    this.awardPoints({ kind: 'collect', subject: 'crystalBall' })
     
     // Play powerup collect sound effect
     this.playSoundEffect('powerup-collect', 0.5)
     
     // Activate crystal ball power-up on player
-    this.player.activateCrystalBall()
+    this.powerUps.activate('crystalBall')
     
     // Play collection animation
     crystalBall.collect()
@@ -4625,7 +4775,7 @@ export class GameScene extends Phaser.Scene {
     this.playSoundEffect('cursed-orb-collect', 0.5)
     
     // Activate cursed orb power-up on player
-    this.player.activateCursedOrb()
+    this.powerUps.activate('cursedOrb')
     
     // Play collection animation
     cursedOrb.collect()
@@ -4658,7 +4808,7 @@ export class GameScene extends Phaser.Scene {
     this.playSoundEffect('cursed-orb-collect', 0.5)
     
     // Activate cursed teal orb power-up on player
-    this.player.activateCursedTealOrb()
+    this.powerUps.activate('cursedTealOrb')
     
     // Play collection animation
     cursedTealOrb.collect()
@@ -4675,6 +4825,23 @@ export class GameScene extends Phaser.Scene {
     }
   }
   
+  private handlePowerUpOrbCollection(orb: PowerUpOrb): void {
+    // Don't collect during intro animation
+    if (this.isLevelStarting) return
+    if (orb.isCollected()) return
+    
+    this.playSoundEffect('powerup-collect', 0.5)
+    this.powerUps.activate(orb.kind)
+    orb.collect()
+    
+    const index = this.powerUpOrbs.indexOf(orb)
+    if (index > -1) {
+      this.powerUpOrbs.splice(index, 1)
+    }
+    
+    this.triggerFarcadeHapticFeedback()
+  }
+  
   // Commented out for later use
   // private activateFlashPowerUp(): void {
   //   this.flashPowerUpActive = true
@@ -4847,8 +5014,7 @@ export class GameScene extends Phaser.Scene {
     }
     
     // Award points
-    const basePoints = enemy.getPointValue ? enemy.getPointValue() : 100
-    this.score += basePoints
+    const basePoints = this.awardPoints({ kind: 'kill', subject: this.getEnemyType(enemy), method: 'projectile' })
     this.updateScoreDisplay()
     
     // Create score popup
@@ -4872,211 +5038,223 @@ export class GameScene extends Phaser.Scene {
     }
   }
   
-  updateCrystalBallTimer(timeRemaining: number, maxTime: number): void {
-    // Keep timer always visible (don't hide when expired)
-    this.crystalBallTimerImage.setVisible(true)
-    
-    // TESTING: Log to see if this method is being called
-    console.log('Crystal ball timer update:', timeRemaining, 'ms remaining')
-    
-    if (timeRemaining > 0) {
-      // Calculate progress (0 to 1, where 1 is full time, 0 is expired)
-      const progress = timeRemaining / maxTime
-      
-      // Position overlay at timer image location
-      this.crystalBallTimerMask.x = this.crystalBallTimerImage.x
-      this.crystalBallTimerMask.y = this.crystalBallTimerImage.y
-      
-      // Clear and redraw the overlay
-      this.crystalBallTimerMask.clear()
-      this.crystalBallTimerMask.fillStyle(0x44d0a7, 0.6) // Green overlay
-      this.crystalBallTimerMask.beginPath()
-      this.crystalBallTimerMask.moveTo(0, 0) // Center relative to positioned graphics
-      this.crystalBallTimerMask.arc(0, 0, 18, -Math.PI / 2, -Math.PI / 2 + (2 * Math.PI * (1 - progress)), false)
-      this.crystalBallTimerMask.lineTo(0, 0) // Line back to center
-      this.crystalBallTimerMask.closePath()
-      this.crystalBallTimerMask.fillPath()
-      
-      // Add warning flash when 2 seconds or less remain
-      if (timeRemaining <= 2000) {
-        const flashAlpha = Math.sin(Date.now() / 100) * 0.5 + 0.5 // Oscillate between 0 and 1
-        this.crystalBallTimerImage.setAlpha(0.5 + flashAlpha * 0.5) // Flash between 0.5 and 1.0
-        console.log('Crystal ball timer WARNING - flashing')
-      } else {
-        this.crystalBallTimerImage.setAlpha(1.0)
-      }
-    } else {
-      // Clear mask when inactive
-      this.crystalBallTimerMask.clear()
-      this.crystalBallTimerImage.setAlpha(1.0)
-      console.log('Crystal ball timer - power-up expired, hiding timer')
-    }
-  }
-  
-  updateCursedOrbTimer(timeRemaining: number, maxTime: number): void {
-    if (timeRemaining > 0) {
-      this.cursedOrbTimerImage.setVisible(true)
-      
-      // Calculate progress (0 to 1)
-      const progress = timeRemaining / maxTime
-      
-      // Position overlay at timer image location
-      this.cursedOrbTimerMask.x = this.cursedOrbTimerImage.x
-      this.cursedOrbTimerMask.y = this.cursedOrbTimerImage.y
-      
-      // Clear and redraw the overlay
-      this.cursedOrbTimerMask.clear()
-      this.cursedOrbTimerMask.fillStyle(0x580641, 0.7) // Dark purple overlay
-      this.cursedOrbTimerMask.beginPath()
-      this.cursedOrbTimerMask.moveTo(0, 0) // Center relative to positioned graphics
-      this.cursedOrbTimerMask.arc(0, 0, 18, -Math.PI / 2, -Math.PI / 2 + (2 * Math.PI * (1 - progress)), false)
-      this.cursedOrbTimerMask.lineTo(0, 0) // Line back to center
-      this.cursedOrbTimerMask.closePath()
-      this.cursedOrbTimerMask.fillPath()
-      
-      // Add warning flash when 2 seconds or less remain
-      if (timeRemaining <= 2000) {
-        const flashAlpha = Math.sin(Date.now() / 100) * 0.5 + 0.5 // Oscillate between 0 and 1
-        this.cursedOrbTimerImage.setAlpha(0.5 + flashAlpha * 0.5) // Flash between 0.5 and 1.0
-      } else {
-        this.cursedOrbTimerImage.setAlpha(1.0)
+  /**
+   * Timed power-ups, in HUD order. A new one needs a definition here, a collectible and a pickup handler
+   * that calls this.powerUps.activate - durations live in PowerUpManager.DURATIONS
+   */
+  private registerPowerUps(): void {
+    // Invincibility pendant - faster, walks on spikes, kills enemies on contact for triple points
+    this.powerUps.register({
+      id: 'invincibility',
+      duration: PowerUpManager.DURATIONS.invincibility,
+      stacking: 'refresh',
+      warningTime: 3000,
+      hud: { texture: 'invincibility-timer', color: 0xffd700, alpha: 0.6, sparkleColor: 0xffd700 },
+      onActivate: () => {
+        this.player.setSpeedMultiplier(1.5)
+        this.addPlayerGoldenAura()
+        this.enableSpikeWalking()
+      },
+      onTick: () => {
+        this.playerGoldenAura?.setPosition(this.player.x, this.player.y)
+      },
+      onExpire: () => {
+        this.removePlayerGoldenAura()
+        this.player.setSpeedMultiplier(1.0)
+        this.disableSpikeWalking()
       }
-    } else {
-      // Clear mask when inactive
-      this.cursedOrbTimerMask.clear()
-      this.cursedOrbTimerImage.setAlpha(1.0)
-    }
-  }
-  
-  updateCursedTealOrbTimer(timeRemaining: number, maxTime: number): void {
-    if (timeRemaining > 0) {
-      this.cursedTealOrbTimerImage.setVisible(true)
-      
-      // Calculate progress (0 to 1)
-      const progress = timeRemaining / maxTime
-      
-      // Position overlay at timer image location
-      this.cursedTealOrbTimerMask.x = this.cursedTealOrbTimerImage.x
-      this.cursedTealOrbTimerMask.y = this.cursedTealOrbTimerImage.y
-      
-      // Clear and redraw the overlay
-      this.cursedTealOrbTimerMask.clear()
-      this.cursedTealOrbTimerMask.fillStyle(0x49a79c, 0.7) // Teal overlay
-      this.cursedTealOrbTimerMask.beginPath()
-      this.cursedTealOrbTimerMask.moveTo(0, 0) // Center relative to positioned graphics
-      this.cursedTealOrbTimerMask.arc(0, 0, 18, -Math.PI / 2, -Math.PI / 2 + (2 * Math.PI * (1 - progress)), false)
-      this.cursedTealOrbTimerMask.lineTo(0, 0) // Line back to center
-      this.cursedTealOrbTimerMask.closePath()
-      this.cursedTealOrbTimerMask.fillPath()
-      
-      // Add warning flash when 2 seconds or less remain
-      if (timeRemaining <= 2000) {
-        const flashAlpha = Math.sin(Date.now() / 100) * 0.5 + 0.5 // Oscillate between 0 and 1
-        this.cursedTealOrbTimerImage.setAlpha(0.5 + flashAlpha * 0.5) // Flash between 0.5 and 1.0
-      } else {
-        this.cursedTealOrbTimerImage.setAlpha(1.0)
+    })
+    
+    // Crystal ball - the fire button throws projectiles (Player.fireCrystalBall)
+    this.powerUps.register({
+      id: 'crystalBall',
+      duration: PowerUpManager.DURATIONS.crystalBall,
+      stacking: 'refresh',
+      hud: { texture: 'crystalBallTimer', fallbackTexture: 'invincibility-timer', color: 0x44d0a7, alpha: 0.6 },
+      aura: {
+        color: 0x44d0a7,
+        particleInterval: 150,
+        particleRings: [[4, 0.3], [2, 0.6]],
+        particleCore: true,
+        particleDistance: [25, 15],
+        particleLife: 1200,
+        particleDrift: 'orbit'
       }
-    } else {
-      // Clear mask when inactive
-      this.cursedTealOrbTimerMask.clear()
-      this.cursedTealOrbTimerImage.setAlpha(1.0)
-    }
-  }
-  
-  private activateInvincibility(): void {
-    // If already invincible, reset timer to full 10 seconds
-    if (this.invincibilityTimer) {
-      this.invincibilityTimer.destroy()
-    }
+    })
     
-    this.invincibilityActive = true
-    this.invincibilityTimeRemaining = 10
-    this.invincibilityWarningPlayed = false // Reset warning flag
+    // Cursed orb - darkness closes in around the player
+    this.powerUps.register({
+      id: 'cursedOrb',
+      duration: PowerUpManager.DURATIONS.cursedOrb,
+      stacking: 'refresh',
+      hud: { texture: 'cursedOrbTimer', fallbackTexture: 'invincibility-timer', color: 0x580641, alpha: 0.7 },
+      aura: {
+        color: 0x580641,
+        particleInterval: 200,
+        particleRings: [[3, 0.4], [1, 0.8]],
+        particleDistance: [30, 15],
+        particleLife: 1500,
+        particleDrift: 'sink',
+        glow: { rings: [[40, 0.15], [25, 0.25]], scale: 1.3, alpha: 0.6, duration: 1200 }
+      },
+      onActivate: () => this.activateDarknessEffect(),
+      onExpire: () => this.deactivateDarknessEffect()
+    })
     
-    // Activate speed boost for player during invincibility
-    this.player.setSpeedMultiplier(1.5)
+    // Cursed teal orb - controls are reversed (Player.update)
+    this.powerUps.register({
+      id: 'cursedTealOrb',
+      duration: PowerUpManager.DURATIONS.cursedTealOrb,
+      stacking: 'refresh',
+      hud: { texture: 'cursedTealOrbTimer', fallbackTexture: 'invincibility-timer', color: 0x49a79c, alpha: 0.7 },
+      aura: {
+        color: 0x49a79c,
+        particleInterval: 180,
+        particleRings: [[3, 0.4], [1, 0.8]],
+        particleDistance: [25, 20],
+        particleLife: 1300,
+        particleDrift: 'spiral',
+        glow: { rings: [[38, 0.12], [22, 0.22]], scale: 1.4, alpha: 0.7, duration: 900, spin: true }
+      }
+    })
     
-    // Start countdown timer (loop indefinitely, we'll handle stopping in the callback)
-    this.invincibilityTimer = this.time.addEvent({
-      delay: 100, // Update every 100ms for smooth animation
-      callback: () => this.updateInvincibilityTimer(),
-      loop: true // Loop indefinitely, stop manually when time runs out
+    // Gem magnet - nearby crystals, blue gems and diamonds fly to the player
+    this.powerUps.register({
+      id: 'magnet',
+      duration: PowerUpManager.DURATIONS.magnet,
+      stacking: 'extend',
+      maxDuration: 24000,
+      hud: { texture: PowerUpOrb.ensureTexture(this, 'magnet'), color: PowerUpOrb.getColor('magnet'), alpha: 0.6 },
+      onTick: (_remaining, delta) => this.pullGemsTowardPlayer(delta)
     })
     
-    // Add golden aura to player
-    this.addPlayerGoldenAura()
+    // Shield - absorbs the next hit (handlePlayerDamage), or wears off unused
+    this.powerUps.register({
+      id: 'shield',
+      duration: PowerUpManager.DURATIONS.shield,
+      stacking: 'refresh',
+      warningTime: 5000,
+      hud: { texture: PowerUpOrb.ensureTexture(this, 'shield'), color: PowerUpOrb.getColor('shield'), alpha: 0.6 },
+      aura: {
+        color: PowerUpOrb.getColor('shield'),
+        particleInterval: 250,
+        particleRings: [[2, 0.6]],
+        particleDistance: [28, 6],
+        particleLife: 900,
+        particleDrift: 'orbit',
+        glow: { rings: [[30, 0.12], [26, 0.08]], scale: 1.1, alpha: 0.5, duration: 1000 }
+      }
+    })
     
-    // Start sparkle effect around HUD timer
-    this.startTimerSparkles()
+    // Double jump - one extra jump in mid-air (Player.update)
+    this.powerUps.register({
+      id: 'doubleJump',
+      duration: PowerUpManager.DURATIONS.doubleJump,
+      stacking: 'refresh',
+      hud: { texture: PowerUpOrb.ensureTexture(this, 'doubleJump'), color: PowerUpOrb.getColor('doubleJump'), alpha: 0.6 }
+    })
     
-    // Enable spike walking (disable damage overlap, enable collision)
-    this.enableSpikeWalking()
+    // Time-freeze - every enemy stops where it is (fixedUpdate skips their updates)
+    this.powerUps.register({
+      id: 'timeFreeze',
+      duration: PowerUpManager.DURATIONS.timeFreeze,
+      stacking: 'extend',
+      maxDuration: 8000,
+      warningTime: 1500,
+      hud: { texture: PowerUpOrb.ensureTexture(this, 'timeFreeze'), color: PowerUpOrb.getColor('timeFreeze'), alpha: 0.7 },
+      onActivate: () => this.setEnemiesFrozen(true),
+      onTick: () => this.setEnemiesFrozen(true), // Catches enemies spawned on new endless floors
+      onExpire: () => this.setEnemiesFrozen(false)
+    })
   }
   
-  private updateInvincibilityTimer(): void {
-    this.invincibilityTimeRemaining -= 0.1
-    
-    // Warning when 2 seconds remaining (sound removed)
-    if (!this.invincibilityWarningPlayed && this.invincibilityTimeRemaining <= 2 && this.invincibilityTimeRemaining > 0) {
-      this.invincibilityWarningPlayed = true
-      console.log('⏰ Timer warning for invincibility')
-    }
-    
-    if (this.invincibilityTimeRemaining <= 0) {
-      // End invincibility
-      this.invincibilityActive = false
-      this.invincibilityTimeRemaining = 0
-      
-      // Destroy the timer completely
-      if (this.invincibilityTimer) {
-        this.invincibilityTimer.destroy()
-        this.invincibilityTimer = null
+  /**
+   * Magnet step - move every gem in range toward the player and collect it on arrival
+   */
+  private pullGemsTowardPlayer(delta: number): void {
+    const step = this.MAGNET_SPEED * delta / 1000
+    const pull = (gem: { sprite: Phaser.GameObjects.Container, isCollected(): boolean }, collect: () => void) => {
+      if (gem.isCollected() || !gem.sprite.active) return
+      const distance = Phaser.Math.Distance.Between(gem.sprite.x, gem.sprite.y, this.player.x, this.player.y)
+      if (distance > this.MAGNET_RADIUS) return
+      
+      if (distance <= step + 8) {
+        collect()
+        return
       }
       
-      // Clear mask
-      this.invincibilityTimerMask.clear()
-      
-      // Stop timer sparkles
-      this.stopTimerSparkles()
-      
-      // Remove player aura
-      this.removePlayerGoldenAura()
-      
-      // Reset player speed to normal
-      this.player.setSpeedMultiplier(1.0)
-      
-      // Disable spike walking (restore damage overlap, remove collision)
-      this.disableSpikeWalking()
-    } else {
-      // Update circular mask for countdown effect
-      this.updateInvincibilityMask()
-      
-      // Pulse effect in last 3 seconds
-      if (this.invincibilityTimeRemaining <= 3) {
-        const pulse = Math.sin(this.invincibilityTimeRemaining * 10) * 0.2 + 0.8
-        this.invincibilityTimerImage.setAlpha(pulse)
+      // Stop the float tween so it doesn't drag the gem back to its spot
+      if (!gem.sprite.getData('magnetised')) {
+        gem.sprite.setData('magnetised', true)
+        this.tweens.killTweensOf(gem.sprite)
       }
+      const angle = Phaser.Math.Angle.Between(gem.sprite.x, gem.sprite.y, this.player.x, this.player.y)
+      gem.sprite.setPosition(gem.sprite.x + Math.cos(angle) * step, gem.sprite.y + Math.sin(angle) * step)
     }
+    
+    // Copies - collecting removes gems from these arrays
+    ;[...this.coins].forEach(coin => pull(coin, () => this.handleCoinCollection(coin)))
+    ;[...this.blueCoins].forEach(blueCoin => pull(blueCoin, () => this.handleBlueCoinCollection(blueCoin)))
+    ;[...this.diamonds].forEach(diamond => pull(diamond, () => this.handleDiamondCollection(diamond)))
   }
   
-  private updateInvincibilityMask(): void {
-    // Position overlay at timer image location
-    this.invincibilityTimerMask.x = this.invincibilityTimerImage.x
-    this.invincibilityTimerMask.y = this.invincibilityTimerImage.y
-    
-    // Calculate progress for countdown
-    const progress = this.invincibilityTimeRemaining / 10 // 0 to 1
+  /**
+   * Time-freeze - stop or restart every enemy's body and tint the frozen ones icy blue
+   */
+  private setEnemiesFrozen(frozen: boolean): void {
+    const groups = [this.cats, this.stalkerCats, this.baseBlus, this.beetles, this.rexEnemies]
+    groups.forEach(group => {
+      if (!group || !group.children) return
+      group.children.entries.forEach(child => {
+        const enemy = child as Phaser.Physics.Arcade.Sprite
+        if (!enemy.active || !enemy.body || !!enemy.getData('frozen') === frozen) return
+        
+        // BaseBlu moves itself with its body's moves off - it gets back whatever it had before the freeze
+        const body = enemy.body as Phaser.Physics.Arcade.Body
+        if (frozen) enemy.setData('movesBeforeFreeze', body.moves)
+        body.moves = frozen ? false : enemy.getData('movesBeforeFreeze') ?? true
+        enemy.setData('frozen', frozen)
+        if (frozen) {
+          enemy.setTint(PowerUpOrb.getColor('timeFreeze'))
+          enemy.anims?.pause()
+        } else {
+          enemy.clearTint()
+          enemy.anims?.resume()
+        }
+      })
+    })
+  }
+  
+  /**
+   * A stomp kill keeps the player from being hurt by the same contact for 100ms of simulation time,
+   * so the physics can separate them on any frame rate
+   */
+  private startKillGrace(): void {
+    this.killGraceUntil = this.simulationTime + 100
+  }
+  
+  private isInKillGrace(): boolean {
+    return this.simulationTime < this.killGraceUntil
+  }
+  
+  /**
+   * The shield soaks up a hit - flash the player and start the grace period
+   */
+  private breakShield(): void {
+    this.powerUps.deactivate('shield')
+    this.shieldGraceUntil = this.simulationTime + this.SHIELD_GRACE_TIME
+    this.playSoundEffect('powerup-collect', 0.4)
+    this.triggerFarcadeHapticFeedback()
     
-    // Clear and redraw the overlay
-    this.invincibilityTimerMask.clear()
-    this.invincibilityTimerMask.fillStyle(0xffd700, 0.6) // Golden overlay
-    this.invincibilityTimerMask.beginPath()
-    this.invincibilityTimerMask.moveTo(0, 0) // Center relative to positioned graphics
-    this.invincibilityTimerMask.arc(0, 0, 18, -Math.PI / 2, -Math.PI / 2 + (2 * Math.PI * (1 - progress)), false)
-    this.invincibilityTimerMask.lineTo(0, 0) // Line back to center
-    this.invincibilityTimerMask.closePath()
-    this.invincibilityTimerMask.fillPath()
-    // Note: No mask applied - this draws a visible overlay on top of the timer
+    this.tweens.add({
+      targets: this.player,
+      alpha: 0.3,
+      duration: 100,
+      yoyo: true,
+      repeat: Math.floor(this.SHIELD_GRACE_TIME / 200) - 1,
+      onComplete: () => this.player.setAlpha(1)
+    })
+    console.log('🛡️ Shield absorbed a hit')
   }
   
   private addPlayerGoldenAura(): void {
@@ -5114,74 +5292,6 @@ export class GameScene extends Phaser.Scene {
     this.playerParticleTrail = []
   }
 
-  private startTimerSparkles(): void {
-    // Clear any existing sparkle timer
-    if (this.invincibilityTimerSparkleTimer) {
-      this.invincibilityTimerSparkleTimer.destroy()
-    }
-    
-    // Create sparkle effect timer (similar to pendant sparkles)
-    this.invincibilityTimerSparkleTimer = this.time.addEvent({
-      delay: 300 + Math.random() * 200,
-      callback: () => this.createTimerSparkle(),
-      loop: true
-    })
-  }
-
-  private stopTimerSparkles(): void {
-    if (this.invincibilityTimerSparkleTimer) {
-      this.invincibilityTimerSparkleTimer.destroy()
-      this.invincibilityTimerSparkleTimer = null
-    }
-  }
-
-  private createTimerSparkle(): void {
-    if (!this.invincibilityTimerImage || !this.invincibilityActive) return
-    
-    // Get timer position
-    const timerX = this.invincibilityTimerImage.x
-    const timerY = this.invincibilityTimerImage.y
-    
-    // Random position around timer (within 25px radius)
-    const sparkleX = timerX + (Math.random() - 0.5) * 50
-    const sparkleY = timerY + (Math.random() - 0.5) * 50
-    
-    // Create star-shaped sparkle with golden color (matching pendant)
-    const sparkle = this.add.graphics()
-    sparkle.fillStyle(0xffd700, 0.9) // Golden color
-    sparkle.beginPath()
-    for (let i = 0; i < 8; i++) {
-      const angle = (i / 8) * Math.PI * 2
-      const radius = i % 2 === 0 ? 3 : 1.5
-      const x = Math.cos(angle) * radius
-      const y = Math.sin(angle) * radius
-      if (i === 0) sparkle.moveTo(x, y)
-      else sparkle.lineTo(x, y)
-    }
-    sparkle.closePath()
-    sparkle.fillPath()
-    
-    // Create container for the sparkle
-    const sparkleContainer = this.add.container(sparkleX, sparkleY)
-    sparkleContainer.add(sparkle)
-    sparkleContainer.setDepth(103) // Above HUD timer (101) and mask (102)
-    sparkleContainer.setScrollFactor(0) // Keep with HUD
-    
-    // Animate the sparkle
-    this.tweens.add({
-      targets: sparkleContainer,
-      scaleX: 2,
-      scaleY: 2,
-      alpha: 0,
-      rotation: Math.PI,
-      duration: 600,
-      ease: 'Power2',
-      onComplete: () => {
-        sparkleContainer.destroy()
-      }
-    })
-  }
-  
   private createPlayerParticleTrail(): void {
     // Create floating golden particles around player
     for (let i = 0; i < 8; i++) {
@@ -5200,7 +5310,7 @@ export class GameScene extends Phaser.Scene {
   }
   
   private animateParticle(particle: Phaser.GameObjects.Graphics, index: number): void {
-    if (!this.player || !this.invincibilityActive) {
+    if (!this.player || !this.powerUps.isActive('invincibility')) {
       particle.destroy()
       return
     }
@@ -5215,7 +5325,7 @@ export class GameScene extends Phaser.Scene {
     )
     
     // Continue animation if still invincible
-    if (this.invincibilityActive) {
+    if (this.powerUps.isActive('invincibility')) {
       this.time.delayedCall(50, () => this.animateParticle(particle, index))
     }
   }
@@ -5265,7 +5375,7 @@ export class GameScene extends Phaser.Scene {
     player: Phaser.Types.Physics.Arcade.GameObjectWithBody,
     cat: Phaser.Types.Physics.Arcade.GameObjectWithBody
   ): void {
-    if (this.isGameOver || this.justKilledCat) return
+    if (this.isGameOver || this.isInKillGrace()) return
     
     const playerObj = player as Player
     const catObj = cat as Cat
@@ -5279,14 +5389,9 @@ export class GameScene extends Phaser.Scene {
     
     if (playerFalling && playerAboveCat) {
       // Jump-to-kill!
-      this.justKilledCat = true
+      this.startKillGrace()
       this.handleCatKill(playerObj, catObj)
-      
-      // Reset flag after a short delay to allow for physics processing
-      this.time.delayedCall(100, () => {
-        this.justKilledCat = false
-      })
-    } else if (!this.justKilledCat) {
+    } else if (!this.isInKillGrace()) {
       // Regular collision - damage player (only if we didn't just kill)
       this.handlePlayerDamage(playerObj, catObj)
     }
@@ -5305,9 +5410,9 @@ export class GameScene extends Phaser.Scene {
     const baseBluBody = baseBluObj.body as Phaser.Physics.Arcade.Body
     
     // Check if player is invincible and can kill BaseBlu
-    if (this.invincibilityActive && baseBluObj.canBeKilledByInvinciblePlayer()) {
-      const points = baseBluObj.handleInvinciblePlayerKill()
-      this.score += points
+    if (this.powerUps.isActive('invincibility') && baseBluObj.canBeKilledByInvinciblePlayer()) {
+      baseBluObj.handleInvinciblePlayerKill()
+      const points = this.awardPoints({ kind: 'kill', subject: EnemyType.BASEBLU, method: 'invincible' })
       this.updateScoreDisplay()
       this.showPointPopup(baseBluObj.x, baseBluObj.y - 20, points)
       
@@ -5349,7 +5454,7 @@ export class GameScene extends Phaser.Scene {
     player: Phaser.Types.Physics.Arcade.GameObjectWithBody,
     beetle: Phaser.Types.Physics.Arcade.GameObjectWithBody
   ): void {
-    if (this.isGameOver || this.justKilledCat) return
+    if (this.isGameOver || this.isInKillGrace()) return
     
     const playerObj = player as Player
     const beetleObj = beetle as Beetle
@@ -5372,26 +5477,16 @@ export class GameScene extends Phaser.Scene {
     
     if (playerFalling && playerAboveBeetle) {
       // Jump-to-kill beetle!
-      this.justKilledCat = true
+      this.startKillGrace()
       this.handleBeetleKill(playerObj, beetleObj)
-      
-      // Reset flag after a short delay to allow for physics processing
-      this.time.delayedCall(100, () => {
-        this.justKilledCat = false
-      })
       return
     }
     
     // Side collision - check invincibility
-    if (this.invincibilityActive) {
+    if (this.powerUps.isActive('invincibility')) {
       // With invincibility pendant, destroy the beetle!
-      this.justKilledCat = true
+      this.startKillGrace()
       this.handleBeetleKill(playerObj, beetleObj)
-      
-      // Reset flag after a short delay
-      this.time.delayedCall(100, () => {
-        this.justKilledCat = false
-      })
     } else {
       // Normal collision - damage player
       this.handlePlayerDamage(playerObj, beetleObj)
@@ -5402,7 +5497,7 @@ export class GameScene extends Phaser.Scene {
     player: Phaser.Types.Physics.Arcade.GameObjectWithBody,
     cat: Phaser.Types.Physics.Arcade.GameObjectWithBody
   ): void {
-    if (this.isGameOver || this.justKilledCat) return
+    if (this.isGameOver || this.isInKillGrace()) return
     
     const playerObj = player as Player
     const stalkerCatObj = cat as Cat
@@ -5422,14 +5517,9 @@ export class GameScene extends Phaser.Scene {
     
     if (playerFalling && playerAboveCat) {
       // Jump-to-kill stalker cat (only when chasing)
-      this.justKilledCat = true
+      this.startKillGrace()
       this.handleStalkerCatKill(playerObj, stalkerCatObj)
-      
-      // Reset flag after a short delay to allow for physics processing
-      this.time.delayedCall(100, () => {
-        this.justKilledCat = false
-      })
-    } else if (!this.justKilledCat) {
+    } else if (!this.isInKillGrace()) {
       // Regular collision - damage player (only if we didn't just kill)
       this.handlePlayerDamage(playerObj, stalkerCatObj)
     }
@@ -5442,7 +5532,7 @@ export class GameScene extends Phaser.Scene {
     if (this.isGameOver) return
     
     // During invincibility, player can walk on spikes like enemies - no damage
-    if (this.invincibilityActive) {
+    if (this.powerUps.isActive('invincibility')) {
       return
     }
     
@@ -5515,19 +5605,8 @@ export class GameScene extends Phaser.Scene {
     
     // Don't allow combo while climbing ladders
     if (player.getIsClimbing()) {
-      // Just award base points without combo using cat color
-      let enemyType: EnemyType
-      switch(catColor) {
-        case 'yellow': enemyType = EnemyType.CATERPILLAR; break
-        case 'blue_caterpillar': enemyType = EnemyType.BLUE_CATERPILLAR; break
-        case 'blue': enemyType = EnemyType.CHOMPER; break
-        case 'purple': enemyType = EnemyType.CHOMPER; break  // Purple chomper variant
-        case 'red': enemyType = EnemyType.SNAIL; break  // Note: could be stalker but we'll use snail points for now
-        case 'green': enemyType = EnemyType.JUMPER; break
-        default: enemyType = EnemyType.CHOMPER; break
-      }
-      const basePoints = EnemySpawningSystem.getPointValue(enemyType)
-      this.score += basePoints
+      // Just award base points without combo
+      const basePoints = this.awardPoints({ kind: 'kill', subject: this.getEnemyType(cat), method: 'climbing' })
       this.updateScoreDisplay()
       
       // Make player bounce up (slightly less than normal jump)
@@ -5542,22 +5621,9 @@ export class GameScene extends Phaser.Scene {
       return
     }
     
-    // Calculate points with current combo multiplier (before incrementing)
-    let enemyType: EnemyType
-    switch(catColor) {
-      case 'yellow': enemyType = EnemyType.CATERPILLAR; break
-      case 'blue_caterpillar': enemyType = EnemyType.BLUE_CATERPILLAR; break
-      case 'blue': enemyType = EnemyType.CHOMPER; break
-      case 'red': enemyType = EnemyType.SNAIL; break  // Note: could be stalker but we'll use snail points for now
-      case 'green': enemyType = EnemyType.JUMPER; break
-      default: enemyType = EnemyType.CHOMPER; break
-    }
-    const basePoints = EnemySpawningSystem.getPointValue(enemyType)
+    // Award points with current combo multiplier (before incrementing)
     const comboMultiplier = Math.max(1, this.comboCount) // Current combo count (minimum 1)
-    const points = basePoints * comboMultiplier
-    
-    // Award points
-    this.score += points
+    const points = this.awardPoints({ kind: 'kill', subject: this.getEnemyType(cat), method: 'stomp', combo: comboMultiplier })
     this.updateScoreDisplay()
     
     // Now increment combo for next kill
@@ -5566,15 +5632,8 @@ export class GameScene extends Phaser.Scene {
     // Update combo display
     this.updateComboDisplay()
     
-    // Reset combo timer
-    if (this.comboTimer) {
-      this.comboTimer.destroy()
-    }
-    
-    // Set new combo timer (1 second to maintain combo)
-    this.comboTimer = this.time.delayedCall(1000, () => {
-      this.resetCombo()
-    })
+    // Reset combo timer (1 second of simulation time to maintain combo)
+    this.comboExpiresAt = this.simulationTime + 1000
     
     // Make player bounce up (slightly less than normal jump)
     player.setVelocityY(GameSettings.game.jumpVelocity * 0.7)
@@ -5627,8 +5686,7 @@ export class GameScene extends Phaser.Scene {
     // Don't allow combo while climbing ladders
     if (player.getIsClimbing()) {
       // Just award base points without combo
-      const basePoints = EnemySpawningSystem.getPointValue(EnemyType.BEETLE)
-      this.score += basePoints
+      const basePoints = this.awardPoints({ kind: 'kill', subject: EnemyType.BEETLE, method: 'climbing' })
       this.updateScoreDisplay()
       
       // Make player bounce up (slightly less than normal jump)
@@ -5643,13 +5701,9 @@ export class GameScene extends Phaser.Scene {
       return
     }
     
-    // Calculate points with current combo multiplier (before incrementing)
-    const basePoints = EnemySpawningSystem.getPointValue(EnemyType.BEETLE)
+    // Award points with current combo multiplier (before incrementing)
     const comboMultiplier = Math.max(1, this.comboCount) // Current combo count (minimum 1)
-    const points = basePoints * comboMultiplier
-    
-    // Award points
-    this.score += points
+    const points = this.awardPoints({ kind: 'kill', subject: EnemyType.BEETLE, method: 'stomp', combo: comboMultiplier })
     this.updateScoreDisplay()
     
     // Now increment combo for next kill
@@ -5658,15 +5712,8 @@ export class GameScene extends Phaser.Scene {
     // Update combo display
     this.updateComboDisplay()
     
-    // Reset combo timer
-    if (this.comboTimer) {
-      this.comboTimer.destroy()
-    }
-    
-    // Set new combo timer (1 second to maintain combo)
-    this.comboTimer = this.time.delayedCall(1000, () => {
-      this.resetCombo()
-    })
+    // Reset combo timer (1 second of simulation time to maintain combo)
+    this.comboExpiresAt = this.simulationTime + 1000
     
     // Make player bounce up (slightly less than normal jump)
     player.setVelocityY(GameSettings.game.jumpVelocity * 0.7)
@@ -5689,7 +5736,7 @@ export class GameScene extends Phaser.Scene {
     player: Phaser.Types.Physics.Arcade.GameObjectWithBody,
     rex: Phaser.Types.Physics.Arcade.GameObjectWithBody
   ): void {
-    if (this.isGameOver || this.justKilledCat) return
+    if (this.isGameOver || this.isInKillGrace()) return
     
     const playerObj = player as Player
     const rexObj = rex as Rex
@@ -5705,26 +5752,16 @@ export class GameScene extends Phaser.Scene {
     
     if (playerFalling && playerAboveRex) {
       // Jump-to-kill Rex!
-      this.justKilledCat = true
+      this.startKillGrace()
       this.handleRexKill(playerObj, rexObj)
-      
-      // Reset flag after a short delay to allow for physics processing
-      this.time.delayedCall(100, () => {
-        this.justKilledCat = false
-      })
       return
     }
     
     // Side collision - check invincibility
-    if (this.invincibilityActive) {
+    if (this.powerUps.isActive('invincibility')) {
       // With invincibility pendant, destroy Rex!
-      this.justKilledCat = true
+      this.startKillGrace()
       this.handleRexKill(playerObj, rexObj)
-      
-      // Reset flag after a short delay
-      this.time.delayedCall(100, () => {
-        this.justKilledCat = false
-      })
     } else {
       // Normal collision - damage player
       this.handlePlayerDamage(playerObj, rexObj)
@@ -5738,8 +5775,7 @@ export class GameScene extends Phaser.Scene {
     // Don't allow combo while climbing ladders
     if (player.getIsClimbing()) {
       // Just award base points without combo
-      const basePoints = 500  // Rex is worth 500 points
-      this.score += basePoints
+      const basePoints = this.awardPoints({ kind: 'kill', subject: EnemyType.REX, method: 'climbing' })
       this.updateScoreDisplay()
       
       // Make player bounce up
@@ -5754,13 +5790,9 @@ export class GameScene extends Phaser.Scene {
       return
     }
     
-    // Calculate points with current combo multiplier
-    const basePoints = 500  // Rex is worth 500 points
+    // Award points with current combo multiplier
     const comboMultiplier = Math.max(1, this.comboCount)
-    const points = basePoints * comboMultiplier
-    
-    // Award points
-    this.score += points
+    const points = this.awardPoints({ kind: 'kill', subject: EnemyType.REX, method: 'stomp', combo: comboMultiplier })
     this.updateScoreDisplay()
     
     // Increment combo for next kill
@@ -5777,11 +5809,7 @@ export class GameScene extends Phaser.Scene {
     }
     
     // Reset combo timer
-    if (this.comboTimer) this.comboTimer.destroy()
-    this.comboTimer = this.time.delayedCall(this.COMBO_WINDOW, () => {
-      this.comboCount = 0
-      if (this.comboText) this.comboText.setVisible(false)
-    })
+    this.comboExpiresAt = this.simulationTime + 1000
     
     // Make player bounce up
     player.setVelocityY(GameSettings.game.jumpVelocity * 0.7)
@@ -5804,30 +5832,8 @@ export class GameScene extends Phaser.Scene {
     // Check if enemy is already squished to prevent multiple kills
     if (enemy.isSquished) return
     
-    // Determine base points based on enemy type
-    let basePoints = 200 // Default
-    
-    if (enemy.constructor.name === 'Beetle') {
-      basePoints = 75 // Beetle points
-    } else if (enemy.constructor.name === 'Cat') {
-      const catColor = enemy.getCatColor()
-      let enemyType: EnemyType
-      switch(catColor) {
-        case 'yellow': enemyType = EnemyType.CATERPILLAR; break
-        case 'blue_caterpillar': enemyType = EnemyType.BLUE_CATERPILLAR; break
-        case 'blue': enemyType = EnemyType.CHOMPER; break
-        case 'red': 
-          enemyType = enemy.isStalker ? EnemyType.STALKER : EnemyType.SNAIL
-          break
-        case 'green': enemyType = EnemyType.JUMPER; break
-        default: enemyType = EnemyType.CHOMPER; break
-      }
-      basePoints = EnemySpawningSystem.getPointValue(enemyType)
-    }
-    
     // Award triple points for invincibility kills
-    const triplePoints = basePoints * 3
-    this.score += triplePoints
+    const triplePoints = this.awardPoints({ kind: 'kill', subject: this.getEnemyType(enemy), method: 'invincible' })
     this.updateScoreDisplay()
     
     // Make player bounce slightly (less than normal jump)
@@ -5873,8 +5879,7 @@ export class GameScene extends Phaser.Scene {
     // Don't allow combo while climbing ladders
     if (player.getIsClimbing()) {
       // Just award base points without combo
-      const basePoints = 200
-      this.score += basePoints
+      const basePoints = this.awardPoints({ kind: 'kill', subject: EnemyType.STALKER, method: 'climbing' })
       this.updateScoreDisplay()
       
       // Make player bounce up (slightly less than normal jump)
@@ -5889,13 +5894,9 @@ export class GameScene extends Phaser.Scene {
       return
     }
     
-    // Calculate points with current combo multiplier (before incrementing)
-    const basePoints = 200
+    // Award points with current combo multiplier (before incrementing)
     const comboMultiplier = Math.max(1, this.comboCount) // Current combo count (minimum 1)
-    const points = basePoints * comboMultiplier
-    
-    // Award points
-    this.score += points
+    const points = this.awardPoints({ kind: 'kill', subject: EnemyType.STALKER, method: 'stomp', combo: comboMultiplier })
     this.updateScoreDisplay()
     
     // Now increment combo for next kill
@@ -5904,15 +5905,8 @@ export class GameScene extends Phaser.Scene {
     // Update combo display
     this.updateComboDisplay()
     
-    // Reset combo timer
-    if (this.comboTimer) {
-      this.comboTimer.destroy()
-    }
-    
-    // Set new combo timer (1 second to maintain combo)
-    this.comboTimer = this.time.delayedCall(1000, () => {
-      this.resetCombo()
-    })
+    // Reset combo timer (1 second of simulation time to maintain combo)
+    this.comboExpiresAt = this.simulationTime + 1000
     
     // Make player bounce up (slightly less than normal jump)
     player.setVelocityY(GameSettings.game.jumpVelocity * 0.7)
@@ -5953,11 +5947,8 @@ export class GameScene extends Phaser.Scene {
   
   private resetCombo(): void {
     this.comboCount = 0
-    this.comboText.setVisible(false)
-    if (this.comboTimer) {
-      this.comboTimer.destroy()
-      this.comboTimer = null
-    }
+    if (this.comboText) this.comboText.setVisible(false)
+    this.comboExpiresAt = 0
   }
   
   private createDebugGridlines(): void {
@@ -6253,7 +6244,7 @@ export class GameScene extends Phaser.Scene {
     if (this.isGameOver) return
     
     // Check if player is invincible
-    if (this.invincibilityActive) {
+    if (this.powerUps.isActive('invincibility')) {
       // Player is invincible - kill enemy and award triple points
       if (damageSource && damageSource.squish) {
         this.handleInvincibilityEnemyKill(player, damageSource)
@@ -6261,6 +6252,13 @@ export class GameScene extends Phaser.Scene {
       return
     }
     
+    // A shield takes the hit instead, then covers the player briefly so the same enemy can't hit again straight away
+    if (this.simulationTime < this.shieldGraceUntil) return
+    if (this.powerUps.isActive('shield')) {
+      this.breakShield()
+      return
+    }
+    
     // Play the same damage sound for both spikes and enemies
     this.playSoundEffect('player-dies-enemy', 0.5)
     
@@ -6268,18 +6266,18 @@ export class GameScene extends Phaser.Scene {
     this.resetCombo()
     
     // Shut off crystal ball power-up when player takes damage
-    if (player.getCrystalBallActive && player.getCrystalBallActive()) {
+    if (this.powerUps.isActive('crystalBall')) {
       console.log('🔮 Player died - shutting off Crystal Ball power-up')
-      // Force stop the crystal ball power-up on the player
-      player.stopCrystalBallParticles && player.stopCrystalBallParticles()
-      // Update HUD to hide timer
-      this.updateCrystalBallTimer(0, 20000)
+      this.powerUps.deactivate('crystalBall')
     }
     
     // Lose a life
     const oldLives = this.lives
     this.lives--
     this.gameStats.livesLost++  // Track lives lost for stats
+    this.game.registry.set('levelLivesLost', (this.game.registry.get('levelLivesLost') || 0) + 1)
+    this.lastDamageCause = damageSource ? this.getEnemyType(damageSource) : 'spikes'
+    this.inputRecorder?.setOutcome('died')
     this.game.registry.set('playerLives', this.lives)  // Save to registry
     this.updateLivesDisplay()
     
@@ -6382,9 +6380,7 @@ export class GameScene extends Phaser.Scene {
       this.door.showPrompt(this.player)
       
       // Also check for UP key press here
-      const upPressed = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.UP).isDown ||
-                       this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.W).isDown ||
-                       (this.touchControls?.upPressed || false)
+      const upPressed = this.currentInput.up
       
       if (upPressed && !this.isLevelComplete) {
         this.completeLevel()
@@ -6398,7 +6394,23 @@ export class GameScene extends Phaser.Scene {
     // Don't open chests during intro animation
     if (this.isLevelStarting) return
     
-    const contents = chest.open()
+    // A chest reroll from the gem shop gives the next chest that isn't epic a second tier roll
+    const chestRerolls = this.game.registry.get('chestRerolls') || 0
+    if (chestRerolls > 0 && chest.getTier() !== 'yellow') {
+      this.game.registry.set('chestRerolls', chestRerolls - 1)
+      const tierBefore = chest.getTier()
+      console.log(`💎 Chest reroll: ${tierBefore} -> ${chest.rerollTier()}`)
+    }
+    
+    const loot = chest.open()
+    
+    // Epic pity timer carries across levels for the rest of the run
+    const chestsSinceEpic = this.game.registry.get('chestsSinceEpic') || 0
+    this.game.registry.set('chestsSinceEpic', loot.tier === 'yellow' ? 0 : chestsSinceEpic + 1)
+    
+    if (GameSettings.debug) {
+      this.showChestRollDebug(chest.sprite.x, chest.sprite.y, loot)
+    }
     
     // Play treasure chest open sound effect
     this.playSoundEffect('treasure-chest-open', 0.5)
@@ -6407,17 +6419,17 @@ export class GameScene extends Phaser.Scene {
     this.gameStats.treasureChestsOpened++
     
     // Award base chest points (2500)
-    this.score += 2500
+    const chestPoints = this.awardPoints({ kind: 'chest', subject: 'treasureChest' })
     this.updateScoreDisplay()
     
     // Show point popup for chest
-    this.showPointPopup(chest.sprite.x, chest.sprite.y - 30, 2500)
+    this.showPointPopup(chest.sprite.x, chest.sprite.y - 30, chestPoints)
     
     // Trigger haptic feedback for opening treasure chest
     this.triggerFarcadeHapticFeedback()
     
     // Spawn items on the floor around the chest
-    this.spawnTreasureChestContents(chest.sprite.x, chest.sprite.y, contents)
+    this.spawnTreasureChestContents(chest.sprite.x, chest.sprite.y, loot)
     
     // Make chest fade away after opening
     this.tweens.add({
@@ -6438,160 +6450,71 @@ export class GameScene extends Phaser.Scene {
     // No need to remove interaction since chests open automatically on contact
   }
   
-  private spawnTreasureChestContents(chestX: number, chestY: number, contents: any): void {
-    const spawnPositions = [
-      { x: chestX - 60, y: chestY },
-      { x: chestX + 60, y: chestY },
-      { x: chestX - 45, y: chestY },
-      { x: chestX + 45, y: chestY },
-      { x: chestX - 30, y: chestY },
-      { x: chestX + 30, y: chestY },
-      { x: chestX - 15, y: chestY },
-      { x: chestX + 15, y: chestY },
-      { x: chestX, y: chestY - 30 },
-      { x: chestX, y: chestY + 15 }
-    ]
-    
-    let positionIndex = 0
-    
-    // Spawn coins (5-10 as specified in contents)
-    for (let i = 0; i < contents.coins; i++) {
-      if (positionIndex >= spawnPositions.length) break
-      
-      const pos = spawnPositions[positionIndex++]
-      const coin = new Coin(this, pos.x, pos.y)
-      this.coins.push(coin)
-      
-      // Add physics overlap detection
-      this.physics.add.overlap(
-        this.player,
-        coin.sprite,
-        () => this.handleCoinCollection(coin),
-        undefined,
-        this
-      )
-      
-      // Add bouncy spawn animation
-      this.tweens.add({
-        targets: coin.sprite,
-        scaleX: 1.3,
-        scaleY: 1.3,
-        duration: 300,
-        ease: 'Back.easeOut',
-        yoyo: true
-      })
-    }
-    
-    // Spawn blue coins
-    for (let i = 0; i < contents.blueCoins; i++) {
-      if (positionIndex >= spawnPositions.length) break
-      
-      const pos = spawnPositions[positionIndex++]
-      const blueCoin = new BlueCoin(this, pos.x, pos.y)
-      this.blueCoins.push(blueCoin)
-      
-      // Add physics overlap detection
-      this.physics.add.overlap(
-        this.player,
-        blueCoin.sprite,
-        () => this.handleBlueCoinCollection(blueCoin),
-        undefined,
-        this
-      )
-      
-      // Add bouncy spawn animation
-      this.tweens.add({
-        targets: blueCoin.sprite,
-        scaleX: 1.4,
-        scaleY: 1.4,
-        duration: 400,
-        ease: 'Back.easeOut',
-        yoyo: true
-      })
-    }
-    
-    // Spawn diamonds
-    for (let i = 0; i < contents.diamonds; i++) {
-      if (positionIndex >= spawnPositions.length) break
-      
-      const pos = spawnPositions[positionIndex++]
-      const diamond = new Diamond(this, pos.x, pos.y)
-      this.diamonds.push(diamond)
-      
-      // Add physics overlap detection
-      this.physics.add.overlap(
-        this.player,
-        diamond.sprite,
-        () => this.handleDiamondCollection(diamond),
-        undefined,
-        this
-      )
-      
-      // Add dramatic spawn animation
-      this.tweens.add({
-        targets: diamond.sprite,
-        scaleX: 1.5,
-        scaleY: 1.5,
-        duration: 500,
-        ease: 'Back.easeOut',
-        yoyo: true
-      })
-    }
+  /**
+   * Lay the chest's drop out on the floor either side of it, in ChestLoot.DROP_ORDER so gems end up furthest out
+   * Anything past eight items goes in a second row above the first
+   */
+  private spawnTreasureChestContents(chestX: number, chestY: number, loot: LootRoll): void {
+    const items: CollectibleType[] = []
+    ChestLoot.DROP_ORDER.forEach(type => {
+      for (let i = 0; i < (loot.drop[type] || 0); i++) {
+        items.push(type)
+      }
+    })
     
-    // Spawn free lives
-    for (let i = 0; i < contents.freeLifs; i++) {
-      if (positionIndex >= spawnPositions.length) break
+    const perRow = 8
+    items.forEach((type, index) => {
+      const row = Math.floor(index / perRow)
+      const slotsInRow = Math.min(perRow, items.length - row * perRow)
+      const slot = index % perRow
       
-      const pos = spawnPositions[positionIndex++]
-      const freeLife = new FreeLife(this, pos.x, pos.y)
-      this.freeLifes.push(freeLife)
+      // Outermost slots first, alternating left and right
+      const distance = 15 * (Math.ceil(slotsInRow / 2) - Math.floor(slot / 2))
+      const side = slot % 2 === 0 ? -1 : 1
+      const pickup = this.createCollectible(type, chestX + side * distance, chestY - row * 30)
       
-      // Add physics overlap detection
-      this.physics.add.overlap(
-        this.player,
-        freeLife.sprite,
-        () => this.handleFreeLifeCollection(freeLife),
-        undefined,
-        this
-      )
-      
-      // Add dramatic spawn animation (same as diamond)
+      // Bouncy spawn animation - rarer items get a bigger one
+      const rare = type !== 'coin' && type !== 'blueCoin'
       this.tweens.add({
-        targets: freeLife.sprite,
-        scaleX: 1.5,
-        scaleY: 1.5,
-        duration: 500,
+        targets: pickup.sprite,
+        scaleX: rare ? 1.5 : 1.3,
+        scaleY: rare ? 1.5 : 1.3,
+        duration: rare ? 500 : 300,
         ease: 'Back.easeOut',
         yoyo: true
       })
-    }
+    })
+  }
+  
+  /**
+   * Debug readout of a chest roll - tier, whether the pity timer forced it, and each weighted pick
+   */
+  private showChestRollDebug(x: number, y: number, loot: LootRoll): void {
+    const chapter = ChestLoot.getChapter(this.levelManager.getCurrentLevel(), this.levelManager.isBonusLevel())
+    const drop = ChestLoot.DROP_ORDER
+      .filter(type => loot.drop[type])
+      .map(type => `${type} x${loot.drop[type]}`)
+      .join(', ')
+    const picks = loot.picks.map(pick => pick || '-').join(', ')
+    console.log(`🎁 Chest roll (${chapter}) - ${loot.tier}${loot.pity ? ' (pity)' : ''} | picks: ${picks || 'none'} | drop: ${drop || 'nothing'}`)
+    
+    const text = this.add.text(x, y - 60, `${loot.tier}${loot.pity ? ' PITY' : ''}\n${drop || 'nothing'}`, {
+      fontSize: '10px',
+      fontFamily: 'monospace',
+      color: '#ffff00',
+      backgroundColor: '#000000aa',
+      align: 'center',
+      padding: { x: 4, y: 2 },
+      wordWrap: { width: 200 }
+    }).setOrigin(0.5, 1).setDepth(200)
     
-    // Flash power-up spawning - enabled for dark mode levels
-    // Commented out for later use
-    // if (contents.flashPowerUp && positionIndex < spawnPositions.length) {
-    //   const pos = spawnPositions[positionIndex++]
-    //   const flashPowerUp = new FlashPowerUp(this, pos.x, pos.y)
-    //   this.flashPowerUps.push(flashPowerUp)
-    //   
-    //   // Add physics overlap detection
-    //   this.physics.add.overlap(
-    //     this.player,
-    //     flashPowerUp.sprite,
-    //     () => this.handleFlashPowerUpCollection(flashPowerUp),
-    //     undefined,
-    //     this
-    //   )
-    //   
-    //   // Add electric spawn animation
-    //   this.tweens.add({
-    //     targets: flashPowerUp.sprite,
-    //     scaleX: 1.4,
-    //     scaleY: 1.4,
-    //     duration: 400,
-    //     ease: 'Back.easeOut',
-    //     yoyo: true
-    //   })
-    // }
+    this.tweens.add({
+      targets: text,
+      alpha: 0,
+      delay: 3000,
+      duration: 500,
+      onComplete: () => text.destroy()
+    })
   }
 
   // Helper method to play sound effects with respect to settings
@@ -6622,6 +6545,64 @@ export class GameScene extends Phaser.Scene {
   }
 
   update(time: number, deltaTime: number): void {
+    // Run as many fixed gameplay steps as this frame's time covers, physics included
+    const steps = this.simulationClock.advance(deltaTime)
+    const stepMs = this.simulationClock.stepMs
+    
+    this.renderInterpolator.restore()
+    for (let i = 0; i < steps; i++) {
+      this.renderInterpolator.beginStep(this.getInterpolatedObjects())
+      this.simulationTime += stepMs
+      this.fixedUpdate(this.simulationTime, stepMs)
+      this.physics.world.update(this.simulationTime, stepMs)
+      this.physics.world.postUpdate()
+    }
+    
+    // Draw moving objects between the last two steps
+    this.renderInterpolator.apply(this.simulationClock.getAlpha())
+    if (this.player && this.player.active) {
+      this.player.syncRenderPosition()
+    }
+  }
+  
+  /**
+   * Start stepping the simulation ourselves instead of letting Arcade physics follow the frame rate
+   */
+  private setupFixedTimestep(): void {
+    this.physics.disableUpdate()
+    this.physics.world.setFPS(GameSettings.simulation.stepRate)
+    this.simulationClock.reset()
+    this.renderInterpolator.clear()
+    this.simulationTime = 0
+    this.killGraceUntil = 0
+    
+    // A combo runs on the simulation clock, so it can't carry over into the next level
+    this.comboCount = 0
+    this.comboExpiresAt = 0
+  }
+  
+  /**
+   * Objects whose rendered position is interpolated between steps
+   */
+  private getInterpolatedObjects(): Array<Phaser.GameObjects.GameObject & { x: number, y: number }> {
+    const objects: Array<Phaser.GameObjects.GameObject & { x: number, y: number }> = []
+    if (this.player) objects.push(this.player)
+    
+    const groups = [this.cats, this.stalkerCats, this.baseBlus, this.beetles, this.rexEnemies]
+    groups.forEach(group => {
+      if (group && group.children) {
+        group.children.entries.forEach(child => objects.push(child as Phaser.GameObjects.Sprite))
+      }
+    })
+    
+    this.crystalBallProjectiles.forEach(projectile => objects.push(projectile))
+    return objects
+  }
+  
+  /**
+   * One fixed gameplay step - delta is always the simulation step size
+   */
+  private fixedUpdate(time: number, deltaTime: number): void {
     if (this.isGameOver) return
     
     // Don't update if game hasn't been initialized yet (during splash screen or scene restart)
@@ -6633,8 +6614,12 @@ export class GameScene extends Phaser.Scene {
     // Update dynamic background positioning to handle high floors
     this.updateBackgroundPosition()
     
-    // Update touch controls
+    // Update touch and gamepad controls
     this.touchControls.update()
+    this.gamepadControls.update()
+    
+    // Resolve this frame's input (live devices, or the replay being watched)
+    const playerDelta = this.updateFrameInput(deltaTime)
     
     // Check for treasure chest interaction
     this.updateTreasureChestInteraction()
@@ -6643,23 +6628,30 @@ export class GameScene extends Phaser.Scene {
     this.updateDoorPrompt()
     
     // Update player
-    this.player.update(time, deltaTime)
+    this.player.setFrameInput(this.currentInput)
+    this.player.update(time, playerDelta)
     
     // Update crystal ball projectiles
     this.updateCrystalBallProjectiles(time, deltaTime)
     
-    // Update golden aura position if invincible
-    if (this.playerGoldenAura && this.invincibilityActive) {
-      this.playerGoldenAura.setPosition(this.player.x, this.player.y)
+    // Power-up countdowns run on the simulation clock
+    this.powerUps.update(deltaTime)
+    
+    // Combo window runs on simulation time too
+    if (this.comboCount > 0 && this.comboExpiresAt > 0 && time >= this.comboExpiresAt) {
+      this.resetCombo()
     }
     
     // Update visibility system
     this.updateVisibilitySystem()
     
+    // Enemies stand still while time-freeze runs - their AI picks up where it left off
+    const enemiesFrozen = this.powerUps.isActive('timeFreeze')
+    
     // Update all cats (only if group exists)
-    if (this.cats && this.cats.children) {
+    if (this.cats && this.cats.children && !enemiesFrozen) {
       this.cats.children.entries.forEach(cat => {
-        (cat as Cat).update(this.time.now, this.game.loop.delta)
+        (cat as Cat).update(time, deltaTime)
       })
       
       // Check for Chompers that need replacement (last resort)
@@ -6667,31 +6659,31 @@ export class GameScene extends Phaser.Scene {
     }
     
     // Update all stalker cats and check ladder exits (only if group exists)
-    if (this.stalkerCats && this.stalkerCats.children) {
+    if (this.stalkerCats && this.stalkerCats.children && !enemiesFrozen) {
       this.stalkerCats.children.entries.forEach(stalkerCat => {
         const catObj = stalkerCat as Cat
-        catObj.update(this.time.now, this.game.loop.delta)
+        catObj.update(time, deltaTime)
         
         // Red cats no longer climb ladders
       })
     }
     
     // Update all BaseBlu enemies (only if group exists)
-    if (this.baseBlus && this.baseBlus.children) {
+    if (this.baseBlus && this.baseBlus.children && !enemiesFrozen) {
       this.baseBlus.children.entries.forEach(baseBlu => {
-        (baseBlu as BaseBlu).update(this.time.now, this.game.loop.delta)
+        (baseBlu as BaseBlu).update(time, deltaTime)
       })
     }
 
     // Update all Beetle enemies with time and delta for animation (only if group exists)
-    if (this.beetles && this.beetles.children) {
+    if (this.beetles && this.beetles.children && !enemiesFrozen) {
       this.beetles.children.entries.forEach(beetle => {
         (beetle as Beetle).update(time, deltaTime)
       })
     }
     
     // Update all Rex enemies with time and delta (only if group exists)
-    if (this.rexEnemies && this.rexEnemies.children) {
+    if (this.rexEnemies && this.rexEnemies.children && !enemiesFrozen) {
       this.rexEnemies.children.entries.forEach(rex => {
         (rex as Rex).update(time, deltaTime)
       })
@@ -6727,6 +6719,7 @@ export class GameScene extends Phaser.Scene {
       this.currentFloor = playerFloor
       // Track highest floor for stats
       this.gameStats.highestFloor = Math.max(this.gameStats.highestFloor, playerFloor)
+      this.inputRecorder?.recordFloor(playerFloor)
       // No floor text to update anymore - we show coins instead
     }
     
@@ -6739,87 +6732,41 @@ export class GameScene extends Phaser.Scene {
     }
   }
   
+  /**
+   * Beast Mode keeps going up - plan the next floors above the top one the way the level's first floors were
+   * planned, prove the player can climb them, then build them with their collectibles and enemies
+   */
   private generateNextFloors(): void {
     const tileSize = GameSettings.game.tileSize
     const floorWidth = GameSettings.game.floorWidth
     const floorSpacing = (GameSettings.game as any).floorSpacing || (tileSize * 5)
-    
-    // Check level limits
+    const layoutRng = GameRandom.stream('layout')
+    const collectibleRng = GameRandom.stream('collectibles')
+    const enemyRng = GameRandom.stream('enemies')
     const levelConfig = this.levelManager.getLevelConfig(this.levelManager.getCurrentLevel())
-    const maxFloor = levelConfig.isEndless ? 999 : levelConfig.floorCount
+    const floorsToGenerate = 5
+    const topFloor = this.highestFloorGenerated
     
-    // Generate up to 5 more floors, but stop BEFORE the door floor for discrete levels
-    // Door floor should be the final floor, so don't generate it here - it's generated in createTestLevel
-    let floorsToGenerate
-    if (levelConfig.isEndless) {
-      floorsToGenerate = 5 // Endless mode, keep generating
-    } else {
-      // For discrete levels, stop generating floors BEFORE the door floor
-      // The door is on the last floor (levelConfig.floorCount - 1, but floor counting starts at 0)
-      // So the door is on floor index (floorCount - 1) 
-      floorsToGenerate = Math.min(5, Math.max(0, levelConfig.floorCount - 1 - this.highestFloorGenerated))
+    // The player reaches the top floor by the ladder up to it - the new floors have to be reachable from there
+    const chunk = LevelGenerator.generateChunk(layoutRng, this.floorLayouts[topFloor], !this.levelManager.isBonusLevel(), floorWidth, floorsToGenerate)
+    const options = this.getValidatorOptions()
+    const arrivalX = (this.ladderPositions.get(topFloor - 1) || [])[0]
+    const { result, repairs } = LevelValidator.validateAndRepair(chunk, { ...options, spawnX: arrivalX ?? options.spawnX }, layoutRng)
+    if (repairs > 0) {
+      console.log(`🪜 Floors ${topFloor + 1}-${topFloor + floorsToGenerate} needed ${repairs} repair(s)`)
+    }
+    if (!result.solvable) {
+      console.warn(`🪜 Floors ${topFloor + 1}-${topFloor + floorsToGenerate} are still unsolvable after repair:`, result.issues)
     }
     
-    for (let i = 0; i < floorsToGenerate; i++) {
-      const floor = this.highestFloorGenerated + i + 1
+    for (let i = 1; i <= floorsToGenerate; i++) {
+      const floor = topFloor + i
       const y = GameSettings.canvas.height - tileSize/2 - (floor * floorSpacing)
+      const layout = chunk.floors[i]
       
-      // Create floor with random gap
-      const hasGap = Math.random() > 0.3
-      let layout: { gapStart: number, gapSize: number }
-      
-      // Floor has gap info (replaced console.log)
-      
-      if (hasGap) {
-        const gapStart = Math.floor(Math.random() * (floorWidth - 5)) + 2
-        const gapSize = Math.floor(Math.random() * 2) + 2
-        layout = { gapStart, gapSize }
-        
-        // Create platform tiles with gap
-        for (let x = 0; x < floorWidth; x++) {
-          if (x < gapStart || x >= gapStart + gapSize) {
-            this.createPlatformTile(x * tileSize + tileSize/2, y)
-          }
-        }
-        
-        // Add spikes to all gaps (except in bonus levels)
-        if (!this.levelManager.isBonusLevel()) {
-          this.createSpikesInGap(gapStart, gapSize, y, tileSize)
-        }
-      } else {
-        layout = { gapStart: -1, gapSize: 0 }
-        
-        // Create complete floor
-        for (let x = 0; x < floorWidth; x++) {
-          this.createPlatformTile(x * tileSize + tileSize/2, y)
-        }
-      }
-      
+      this.buildFloor(layout, floor, chunk.gapSpikes[i], floorWidth)
       this.floorLayouts[floor] = layout
-      
-      // Add ladder connecting to previous floor
-      // But don't add ladders leading TO the top floor (where the door is)
-      const isTopFloor = !levelConfig.isEndless && floor >= levelConfig.floorCount - 1
-      
-      if (floor > 0 && this.floorLayouts[floor - 1] && !isTopFloor) {
-        const prevLayout = this.floorLayouts[floor - 1]
-        const validPositions: number[] = []
-        
-        // Find positions with platforms on both floors
-        for (let x = 1; x < floorWidth - 1; x++) {
-          if (this.hasPlatformAt(prevLayout, x) && this.hasPlatformAt(layout, x)) {
-            validPositions.push(x)
-          }
-        }
-        
-        if (validPositions.length > 0) {
-          const ladderX = validPositions[Math.floor(Math.random() * validPositions.length)]
-          const bottomY = -(floor - 1) * floorSpacing + GameSettings.canvas.height - tileSize
-          const topY = -floor * floorSpacing + GameSettings.canvas.height - tileSize
-          this.createContinuousLadder(ladderX * tileSize, bottomY, topY)
-          this.storeLadderPositions(floor - 1, [ladderX]) // Store for the bottom floor
-        }
-      }
+      this.buildLadders(floor - 1, chunk.ladders.get(i - 1) || [])
       
       // Add collectibles on the new floor using the same system as initial creation
       const collectibleY = y - tileSize - 8
@@ -6841,17 +6788,17 @@ export class GameScene extends Phaser.Scene {
         // Regular coins: 2-4 per floor
         // Skip floor 0 to avoid collectibles in intro animation area
         if (allowedCollectibles.includes('coin') && floor > 0) {
-          const numCoins = Math.floor(Math.random() * 3) + 2
+          const numCoins = Math.floor(collectibleRng.next() * 3) + 2
           this.placeCollectiblesOfType(validPositions, numCoins, 'coin', collectibleY, floor, floorUsedPositions)
         }
         
         // Blue coins: lower probability (20% chance per floor)
-        if (allowedCollectibles.includes('blueCoin') && floor > 0 && Math.random() < 0.2) {
+        if (allowedCollectibles.includes('blueCoin') && floor > 0 && collectibleRng.next() < 0.2) {
           this.placeCollectiblesOfType(validPositions, 1, 'blueCoin', collectibleY, floor, floorUsedPositions)
         }
         
         // Diamonds: much lower probability (8% chance per floor)
-        if (allowedCollectibles.includes('diamond') && floor > 1 && Math.random() < 0.08) {
+        if (allowedCollectibles.includes('diamond') && floor > 1 && collectibleRng.next() < 0.08) {
           this.placeCollectiblesOfType(validPositions, 1, 'diamond', collectibleY, floor, floorUsedPositions)
         }
         
@@ -6884,8 +6831,8 @@ export class GameScene extends Phaser.Scene {
       if (allowedEnemies.includes('red')) availableColors.push('red') // ADD RED SUPPORT
       
       // Add regular cat on some floors (if any colors are available) - NEVER on floor 0 or 1
-      if (availableColors.length > 0 && floor > 1 && Math.random() > 0.5) {
-        const randomColor = availableColors[Math.floor(Math.random() * availableColors.length)]
+      if (availableColors.length > 0 && floor > 1 && enemyRng.next() > 0.5) {
+        const randomColor = availableColors[Math.floor(enemyRng.next() * availableColors.length)]
         // Spawning enemy on floor (replaced console.log)
         
         if (layout.gapStart === -1) {
@@ -7472,7 +7419,10 @@ export class GameScene extends Phaser.Scene {
       const topFloorY = GameSettings.canvas.height - tileSize/2 - (topFloor * floorSpacing)
       
       // Enhanced door placement with ladder and collectible conflict avoidance
-      const doorX = this.findSafeDoorPosition(topFloor)
+      // Authored levels give the door's leftmost column (the door is 3 tiles wide)
+      const doorX = levelConfig.authored
+        ? (levelConfig.authored.door.x + 1.5) * tileSize
+        : this.findSafeDoorPosition(topFloor)
       
       // Place door on top floor - door is 100 pixels tall, position so bottom sits on platform surface
       // topFloorY is platform center, platform is 32px tall, so platform top is topFloorY - 16
@@ -7500,56 +7450,15 @@ export class GameScene extends Phaser.Scene {
   
   private findSafeDoorPosition(floor: number): number {
     const tileSize = GameSettings.game.tileSize
-    const floorWidth = GameSettings.game.floorWidth
-    const doorFloorLayout = this.floorLayouts[floor]
-    const doorWidth = 3 // Door takes up about 3 tiles width
-    
-    // Get ladder positions on this floor to avoid conflicts
-    const ladderPositions = this.ladderPositions.get(floor) || []
-    
-    // Find safe positions (not over gaps, not conflicting with ladders)
-    const safePositions: number[] = []
-    
-    for (let x = 2; x < floorWidth - 2 - doorWidth; x++) {
-      let isSafe = true
-      
-      // Check if this position and surrounding area are over solid ground
-      for (let dx = 0; dx < doorWidth; dx++) {
-        if (!this.hasPlatformAt(doorFloorLayout, x + dx)) {
-          isSafe = false
-          break
-        }
-      }
-      
-      // Check for ladder conflicts (door needs clearance from ladders)
-      if (isSafe) {
-        for (const ladderX of ladderPositions) {
-          if (Math.abs(x - ladderX) < 4) { // Need at least 4 tiles clearance from ladders
-            isSafe = false
-            break
-          }
-        }
-      }
-      
-      if (isSafe) {
-        safePositions.push(x)
-      }
+    const layout: LevelLayout = {
+      floorWidth: GameSettings.game.floorWidth,
+      floors: this.floorLayouts,
+      gapSpikes: [],
+      ladders: this.ladderPositions,
+      doorFloor: floor
     }
-    
-    // Choose position - prefer center, but avoid conflicts
-    let doorTileX: number
-    if (safePositions.length > 0) {
-      // Find position closest to center
-      const centerTile = Math.floor(floorWidth / 2)
-      doorTileX = safePositions.reduce((closest, pos) => 
-        Math.abs(pos - centerTile) < Math.abs(closest - centerTile) ? pos : closest
-      )
-    } else {
-      // Fallback - use center and hope for the best
-      doorTileX = Math.floor(floorWidth / 2) - Math.floor(doorWidth / 2)
-    }
-    
-    return (doorTileX + doorWidth/2) * tileSize // Return center X position of door
+    const doorTileX = LevelGenerator.findSafeDoorPosition(layout, floor)
+    return (doorTileX + LevelGenerator.DOOR_WIDTH/2) * tileSize // Return center X position of door
   }
   
   private storeDoorPosition(floor: number, tileX: number): void {
@@ -7580,9 +7489,7 @@ export class GameScene extends Phaser.Scene {
       doorObj.showPrompt(playerObj)
       
       // Check for UP key press to activate door
-      const upPressed = this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.UP).isDown ||
-                       this.input.keyboard!.addKey(Phaser.Input.Keyboard.KeyCodes.W).isDown ||
-                       (this.touchControls?.upPressed || false)
+      const upPressed = this.currentInput.up
       
       if (upPressed && !this.isLevelComplete) {
         this.completeLevel()
@@ -7597,6 +7504,22 @@ export class GameScene extends Phaser.Scene {
     if (this.isLevelComplete) return
     
     this.isLevelComplete = true
+    this.inputRecorder?.setOutcome('completed')
+    
+    // Star rating, and the best score and rating per level for the level select
+    const level = this.levelManager.getCurrentLevel()
+    this.levelRating = LevelStars.isRated(level, this.levelManager.isBonusLevel()) ? LevelStars.rate({
+      level,
+      floorCount: this.levelManager.getLevelConfig(level).floorCount,
+      livesLost: this.game.registry.get('levelLivesLost') || 0,
+      chests: this.countLevelChests(),
+      chestsLeft: this.treasureChests.filter(chest => chest.canInteract()).length,
+      timeMs: this.getLevelTime(),
+      score: this.score
+    }) : null
+    if (!this.inputPlayback && !this.levelManager.isBonusLevel()) {
+      LevelRecords.recordCompletion(level, this.score, this.levelRating ? LevelStars.countStars(this.levelRating) : 0)
+    }
     
     // Play door open sound effect
     this.playSoundEffect('door-open', 0.5)
@@ -7608,6 +7531,57 @@ export class GameScene extends Phaser.Scene {
     this.showLevelCompleteScreen()
   }
   
+  /**
+   * Star rating on the level complete screen - empty stars first, then each one earned pops in
+   * with the criterion under it lit up
+   */
+  private showLevelStars(criteria: StarCriterion[]): void {
+    const centerX = GameSettings.canvas.width / 2
+    const centerY = GameSettings.canvas.height / 2
+    const spacing = 110
+    
+    criteria.forEach((criterion, index) => {
+      const x = centerX + (index - 1) * spacing
+      const empty = this.add.text(x, centerY - 52, '☆', {
+        fontSize: '24px',
+        color: '#666666',
+        fontFamily: 'system-ui'
+      }).setOrigin(0.5).setDepth(301).setScrollFactor(0)
+      
+      const label = this.add.text(x, centerY + 72, criterion.label, {
+        fontSize: '7px',
+        color: '#777777',
+        fontFamily: '"Press Start 2P", system-ui'
+      }).setOrigin(0.5).setDepth(301).setScrollFactor(0)
+      
+      if (!criterion.met) return
+      
+      const star = this.add.text(x, centerY - 52, '★', {
+        fontSize: '24px',
+        color: '#ffd700',
+        fontFamily: 'system-ui',
+        stroke: '#4a148c',
+        strokeThickness: 2
+      }).setOrigin(0.5).setDepth(302).setScrollFactor(0).setScale(0)
+      
+      // Earned stars land one after another
+      const earnedBefore = criteria.slice(0, index).filter(previous => previous.met).length
+      this.tweens.add({
+        targets: star,
+        scale: 1,
+        angle: { from: -180, to: 0 },
+        delay: 400 + earnedBefore * 350,
+        duration: 350,
+        ease: 'Back.easeOut',
+        onStart: () => {
+          empty.setVisible(false)
+          label.setColor('#9acf07')
+          this.playSoundEffect('gem-collect', 0.4)
+        }
+      })
+    })
+  }
+  
   private showLevelCompleteScreen(): void {
     const levelNum = this.levelManager.getCurrentLevel()
     
@@ -7729,9 +7703,17 @@ export class GameScene extends Phaser.Scene {
       }
     ).setOrigin(0.5).setDepth(301).setScrollFactor(0)
     
+    if (this.levelRating) {
+      this.showLevelStars(this.levelRating)
+    }
+    
+    // Gem shop, unless the run ends here or this is a replay (which makes the recorded purchases itself)
+    const hasShop = !this.levelManager.isFinalDailyChallengeLevel() && !this.inputPlayback
+    const continueX = hasShop ? GameSettings.canvas.width / 2 - 80 : GameSettings.canvas.width / 2
+    
     // Continue button (changed to teal)
     const continueBtn = this.add.rectangle(
-      GameSettings.canvas.width / 2,
+      continueX,
       GameSettings.canvas.height / 2 + 100,  // Adjusted position for new layout
       150,
       40,
@@ -7741,7 +7723,7 @@ export class GameScene extends Phaser.Scene {
     continueBtn.setStrokeStyle(2, 0x188a82)  // Darker teal border
     
     const continueText = this.add.text(
-      GameSettings.canvas.width / 2,
+      continueX,
       GameSettings.canvas.height / 2 + 100,  // Adjusted position for new layout
       'CONTINUE',
       {
@@ -7761,6 +7743,49 @@ export class GameScene extends Phaser.Scene {
       }
     ).setOrigin(0.5).setDepth(302).setScrollFactor(0)
     
+    if (hasShop) {
+      const shopBtn = this.add.rectangle(
+        GameSettings.canvas.width / 2 + 80,
+        GameSettings.canvas.height / 2 + 100,
+        150,
+        40,
+        0x9932cc  // Purple
+      ).setDepth(301).setScrollFactor(0)
+      shopBtn.setInteractive({ useHandCursor: true })
+      shopBtn.setStrokeStyle(2, 0x6a1b9a)  // Darker purple border
+      
+      this.add.text(
+        GameSettings.canvas.width / 2 + 80,
+        GameSettings.canvas.height / 2 + 100,
+        'SHOP',
+        {
+          fontSize: '16px',
+          color: '#ffd700',
+          fontFamily: '"Press Start 2P", system-ui',
+          fontStyle: 'bold',
+          stroke: '#4a148c',
+          strokeThickness: 1,
+          shadow: {
+            offsetX: 2,
+            offsetY: 2,
+            color: '#000000',
+            blur: 3,
+            fill: true
+          }
+        }
+      ).setOrigin(0.5).setDepth(302).setScrollFactor(0)
+      
+      shopBtn.on('pointerdown', () => this.openGemShop())
+    }
+    
+    // Replays make the recorded shop purchases, then continue on their own
+    if (this.inputPlayback) {
+      this.time.delayedCall(1500, () => {
+        this.playbackSegment?.purchases?.forEach(item => this.buyShopItem(item))
+        continueBtn.emit('pointerdown')
+      })
+    }
+    
     // Continue button handler
     continueBtn.on('pointerdown', () => {
       // Play continue button sound
@@ -7784,6 +7809,12 @@ export class GameScene extends Phaser.Scene {
       registry.set('accumulatedBlueGems', this.totalBlueGemsCollected)
       registry.set('accumulatedDiamonds', this.totalDiamondsCollected)
       
+      // Clearing the last Daily Challenge level ends the run
+      if (this.levelManager.isFinalDailyChallengeLevel()) {
+        this.finishDailyChallenge(true, newAccumulatedScore)
+        return
+      }
+      
       // Check if we're about to enter a bonus level BEFORE advancing
       const wasInBonus = this.levelManager.isBonusLevel()
       const currentLevelBeforeAdvance = this.levelManager.getCurrentLevel()
@@ -7836,6 +7867,87 @@ export class GameScene extends Phaser.Scene {
     })
   }
 
+  private openGemShop(): void {
+    new GemShopPanel(this, {
+      title: 'GEM SHOP',
+      getBalance: () => this.getGemBalance(),
+      getOffers: () => this.getShopOffers(),
+      onBuy: item => this.buyShopItem(item)
+    })
+  }
+  
+  private getGemBalance(): number {
+    return GemShop.getBalance(this.totalCoinsCollected, this.gemsSpent)
+  }
+  
+  /**
+   * What the shop sells after this level, at this chapter's prices
+   */
+  private getShopOffers(): GemShopOffer[] {
+    const registry = this.game.registry
+    const level = this.levelManager.getCurrentLevel()
+    const prices = GemShop.getPrices(level, this.levelManager.isBonusLevel())
+    const powerUp = GemShop.getStartingPowerUpOffer(level + 1)
+    const chestRerolls = registry.get('chestRerolls') || 0
+    
+    return [
+      {
+        id: 'extraLife',
+        name: 'Extra Life',
+        description: 'One more life, right away',
+        price: prices.extraLife,
+        unavailable: this.lives >= this.MAX_LIVES ? 'Lives are full' : undefined
+      },
+      {
+        id: 'startingPowerUp',
+        name: `${GemShop.POWER_UP_NAMES[powerUp]} Start`,
+        description: `Begin the next level with ${GemShop.POWER_UP_NAMES[powerUp]} running`,
+        price: prices.startingPowerUp,
+        unavailable: registry.get('shopStartingPowerUp') ? 'Already bought for the next level' : undefined
+      },
+      {
+        id: 'chestReroll',
+        name: 'Chest Reroll',
+        description: `Next common or rare chest rolls its tier again (${chestRerolls} held)`,
+        price: prices.chestReroll,
+        unavailable: chestRerolls >= GemShop.MAX_CHEST_REROLLS ? `Holding the most rerolls (${GemShop.MAX_CHEST_REROLLS})` : undefined
+      }
+    ]
+  }
+  
+  /**
+   * Spend gems on a shop item - false if it can't be bought right now or costs more than the balance
+   */
+  private buyShopItem(item: ShopItemId): boolean {
+    const offer = this.getShopOffers().find(shopOffer => shopOffer.id === item)
+    if (!offer || offer.unavailable || this.getGemBalance() < offer.price) {
+      console.warn(`💎 Can't buy ${item} - ${offer?.unavailable || 'not enough gems'}`)
+      return false
+    }
+    
+    const registry = this.game.registry
+    switch (item) {
+      case 'extraLife':
+        this.lives++
+        registry.set('playerLives', this.lives)
+        this.updateLivesDisplay()
+        this.playSoundEffect('heart-collect', 0.5)
+        break
+      case 'startingPowerUp':
+        registry.set('shopStartingPowerUp', GemShop.getStartingPowerUpOffer(this.levelManager.getCurrentLevel() + 1))
+        break
+      case 'chestReroll':
+        registry.set('chestRerolls', (registry.get('chestRerolls') || 0) + 1)
+        break
+    }
+    
+    this.gemsSpent += offer.price
+    registry.set('gemsSpent', this.gemsSpent)
+    this.inputRecorder?.recordPurchase(item)
+    console.log(`💎 Bought ${item} for ${offer.price} gems (${this.getGemBalance()} left)`)
+    return true
+  }
+  
   private showChapterTransition(nextLevel: number, onComplete: () => void): void {
     const chapterName = this.backgroundManager.getChapterName(nextLevel)
     
@@ -8226,6 +8338,7 @@ export class GameScene extends Phaser.Scene {
     // STOP ALL GAMEPLAY - Pause physics and disable controls
     this.physics.pause() // Freezes all physics bodies and stops all movement
     this.touchControls.disable() // Disable touch controls
+    this.gamepadControls.disable() // Disable gamepad controls
     this.input.keyboard!.enabled = false // Disable keyboard input
     
     // Create semi-transparent overlay
@@ -8340,6 +8453,11 @@ export class GameScene extends Phaser.Scene {
       }
     ).setOrigin(0.5).setDepth(202).setScrollFactor(0)
     
+    // Replays continue on their own
+    if (this.inputPlayback) {
+      this.time.delayedCall(1500, () => continueBtn.emit('pointerdown'))
+    }
+    
     // Continue button handler - restart current level
     continueBtn.on('pointerdown', () => {
       // Play continue button sound
@@ -8368,12 +8486,22 @@ export class GameScene extends Phaser.Scene {
     // STOP ALL GAMEPLAY - Pause physics and disable controls
     this.physics.pause() // Freezes all physics bodies and stops all movement
     this.touchControls.disable() // Disable touch controls
+    this.gamepadControls.disable() // Disable gamepad controls
     this.input.keyboard!.enabled = false // Disable keyboard input
     
     // Store final score for later SDK notification
     const finalScore = this.accumulatedScore + this.score
     // SDK game over will now be triggered when START OVER is clicked
     
+    // Keep the replay of this run, or wrap up if we were watching one
+    if (this.inputPlayback) {
+      this.time.delayedCall(2500, () => this.endReplayPlayback())
+    } else {
+      this.saveRunReplay(finalScore)
+      RunStateManager.clear(this.game.registry) // Nothing left to resume
+      this.recordRunHistory(finalScore, this.lastDamageCause)
+    }
+    
     // Create semi-transparent overlay
     const overlay = this.add.rectangle(
       GameSettings.canvas.width / 2,
@@ -8633,9 +8761,62 @@ export class GameScene extends Phaser.Scene {
       }
     ).setOrigin(0.5).setDepth(201).setScrollFactor(0)
     
+    // Post the run (a replay was already posted when it was played)
+    const board = Leaderboards.getBoardForRun(
+      this.levelManager.getCurrentLevel(),
+      this.levelManager.isDailyChallenge() ? this.game.registry.get('dailyChallengeDate') : null
+    )
+    const submitted = this.inputPlayback ? Promise.resolve(null) : this.submitFinishedRun(board, finalScore, true)
+    
+    // Rankings share the space below the score with the stats - RANKS swaps between them
+    const statsTexts = [
+      perfHeader, floorsText, levelText, gemsText, chestsText, combatHeader, caterpillarText,
+      rollzText, chomperText, snailText, bouncerText, stalkerText, rexText, bluText, totalText
+    ]
+    const leaderboardView = this.createLeaderboardView(popupX, popupY - 125, board, submitted)
+    
+    const ranksButton = this.add.rectangle(
+      popupX - 85,
+      popupY + 195,
+      150,
+      40,
+      0x7b1fa2  // Purple to match the popup border
+    ).setDepth(201).setScrollFactor(0)
+    ranksButton.setInteractive({ useHandCursor: true })
+    ranksButton.setStrokeStyle(2, 0x4a148c)
+    
+    const ranksText = this.add.text(
+      popupX - 85,
+      popupY + 195,
+      'RANKS',
+      {
+        fontSize: '14px',
+        color: '#ffd700',  // Gold like the section headers
+        fontFamily: '"Press Start 2P", system-ui',
+        fontStyle: 'bold',
+        stroke: '#4a148c',
+        strokeThickness: 1
+      }
+    ).setOrigin(0.5).setDepth(202).setScrollFactor(0)
+    
+    ranksButton.on('pointerdown', () => {
+      const showRanks = !leaderboardView.visible
+      leaderboardView.setVisible(showRanks)
+      statsTexts.forEach(text => text.setVisible(!showRanks))
+      ranksText.setText(showRanks ? 'STATS' : 'RANKS')
+    })
+    ranksButton.on('pointerover', () => {
+      ranksButton.setFillStyle(0x9c27b0)
+      ranksText.setScale(1.1)
+    })
+    ranksButton.on('pointerout', () => {
+      ranksButton.setFillStyle(0x7b1fa2)
+      ranksText.setScale(1.0)
+    })
+    
     // Restart button (full game restart, changed to teal)
     const restartButton = this.add.rectangle(
-      popupX,
+      popupX + 85,
       popupY + 195,
       150,
       40,
@@ -8645,7 +8826,7 @@ export class GameScene extends Phaser.Scene {
     restartButton.setStrokeStyle(2, 0x188a82)  // Darker teal border
     
     const restartText = this.add.text(
-      popupX,
+      popupX + 85,
       popupY + 195,
       'CONTINUE',
       {
@@ -8669,6 +8850,17 @@ export class GameScene extends Phaser.Scene {
     restartButton.on('pointerdown', () => {
       console.log('🔄 Continue button clicked!')
       
+      if (this.inputPlayback) {
+        this.endReplayPlayback()
+        return
+      }
+      
+      // Daily Challenge runs go to their own results screen (no SDK/platform high score)
+      if (this.levelManager.isDailyChallenge()) {
+        this.finishDailyChallenge(false, finalScore)
+        return
+      }
+      
       // Check if this is a dgen1 build (no SDK)
       const isDgen1 = GameSettings.buildType === 'dgen1'
       console.log('🎮 Build type check:', { buildType: GameSettings.buildType, isDgen1 })
@@ -8702,6 +8894,16 @@ export class GameScene extends Phaser.Scene {
     
     // Keyboard support
     this.input.keyboard!.on('keydown-R', () => {
+      if (this.inputPlayback) {
+        this.endReplayPlayback()
+        return
+      }
+      
+      if (this.levelManager.isDailyChallenge()) {
+        this.finishDailyChallenge(false, finalScore)
+        return
+      }
+      
       // Check if this is a dgen1 build (no SDK)
       const isDgen1 = GameSettings.buildType === 'dgen1'
       
@@ -8718,6 +8920,153 @@ export class GameScene extends Phaser.Scene {
     })
   }
 
+  /**
+   * Record a finished run - signed by the wallet when one is connected, posted to the leaderboard,
+   * then sent to the score registry (dgen1 only). Resolves to the run's leaderboard place
+   * showWalletStatus adds the wallet button so signing and transaction progress are visible
+   */
+  private async submitFinishedRun(
+    board: LeaderboardBoard,
+    finalScore: number,
+    showWalletStatus: boolean
+  ): Promise<LeaderboardEntry | null> {
+    const registry = this.game.registry
+    const platform = RunStateManager.getPlatform(registry)
+    const hasWallet = !!platform.getWalletAddress?.()
+    if (hasWallet && showWalletStatus) {
+      addWalletUI(this)
+    }
+    
+    // Read everything now - the run is reset while the wallet prompt is open
+    const playerId = this.getLeaderboardPlayerId()
+    const runScore = {
+      score: finalScore,
+      level: this.levelManager.getCurrentLevel(),
+      enemies: this.gameStats.totalEnemiesDefeated,
+      gems: this.totalGemsCollected + this.totalBlueGemsCollected + this.totalDiamondsCollected
+    }
+    const summary = {
+      board: Leaderboards.getBoardKey(board),
+      score: finalScore,
+      level: runScore.level,
+      floor: this.currentFloor,
+      seed: GameRandom.getRunSeed(),
+      durationMs: Date.now() - (registry.get('runStartTime') || Date.now()),
+      finishedAt: Date.now(),
+      gameStats: {
+        treasureChestsOpened: this.gameStats.treasureChestsOpened,
+        totalEnemiesDefeated: this.gameStats.totalEnemiesDefeated,
+        highestFloor: this.gameStats.highestFloor,
+        livesLost: this.gameStats.livesLost,
+        enemyKills: { ...this.gameStats.enemyKills }
+      }
+    }
+    
+    const attestation = hasWallet && platform.signRunSummary ? await platform.signRunSummary(summary) : null
+    const entry = await Leaderboards.getProvider().submit(board, {
+      ...runScore,
+      playerId,
+      name: Leaderboards.getDefaultName(playerId),
+      attestation: attestation || undefined,
+      practiceStart: registry.get('gameMode') === 'practice' ? registry.get('practiceStartLevel') : undefined
+    })
+    
+    if (hasWallet && platform.saveScoreOnChain) {
+      platform.saveScoreOnChain(runScore)
+    }
+    return entry
+  }
+
+  /**
+   * Add the finished run to the run history behind the menu's stats page
+   */
+  private recordRunHistory(finalScore: number, causeOfDeath: string | null): void {
+    const registry = this.game.registry
+    RunHistory.record({
+      date: Date.now(),
+      mode: this.levelManager.isDailyChallenge() ? 'daily' : registry.get('gameMode') === 'practice' ? 'practice' : 'normal',
+      score: finalScore,
+      level: this.levelManager.getCurrentLevel(),
+      floor: this.gameStats.highestFloor,
+      kills: { ...this.gameStats.enemyKills },
+      enemiesDefeated: this.gameStats.totalEnemiesDefeated,
+      gems: this.totalGemsCollected + this.totalBlueGemsCollected + this.totalDiamondsCollected,
+      chests: this.gameStats.treasureChestsOpened,
+      livesLost: this.gameStats.livesLost,
+      durationMs: Date.now() - (registry.get('runStartTime') || Date.now()),
+      causeOfDeath
+    })
+  }
+
+  private getLeaderboardPlayerId(): string {
+    const platform = RunStateManager.getPlatform(this.game.registry)
+    return Leaderboards.getPlayerId(platform.getWalletAddress?.())
+  }
+
+  /**
+   * Leaderboard page for the game over popup - the top five, then the player's own neighbourhood
+   * Hidden until RANKS is pressed; fills in once the submitted run has been ranked
+   */
+  private createLeaderboardView(
+    x: number,
+    top: number,
+    board: LeaderboardBoard,
+    submitted: Promise<LeaderboardEntry | null>
+  ): Phaser.GameObjects.Container {
+    const view = this.add.container(0, 0).setDepth(201).setScrollFactor(0).setVisible(false)
+    const headerStyle = {
+      fontSize: '12px',
+      color: '#ffd700',  // Gold like the stats headers
+      fontFamily: '"Press Start 2P", system-ui',
+      fontStyle: 'bold'
+    }
+    const rowStyle = {
+      fontSize: '9px',
+      color: '#9acf07',  // Green
+      fontFamily: '"Press Start 2P", system-ui'
+    }
+    
+    const title = this.add.text(x, top, `🏆 ${Leaderboards.getBoardTitle(board)}`, headerStyle).setOrigin(0.5)
+    const status = this.add.text(x, top + 22, 'Loading...', rowStyle).setOrigin(0.5)
+    view.add([title, status])
+    
+    const playerId = this.getLeaderboardPlayerId()
+    const addRows = (entries: LeaderboardEntry[], rowTop: number) => {
+      entries.forEach((entry, index) => {
+        // P marks practice runs that started past level 1
+        const row = `${`#${entry.rank}`.padEnd(5)}${entry.name.slice(0, 12).padEnd(13)}${entry.practiceStart ? 'P' : ' '}${String(entry.score).padStart(8)}`
+        const text = this.add.text(x, rowTop + index * 16, row, rowStyle).setOrigin(0.5)
+        if (entry.playerId === playerId) text.setColor('#ff69b4') // Pink for the player's own runs
+        view.add(text)
+      })
+    }
+    
+    submitted.then(async entry => {
+      const provider = Leaderboards.getProvider()
+      const [topEntries, aroundEntries] = await Promise.all([
+        provider.getTop(board, 5),
+        provider.getAroundPlayer(board, playerId, 2)
+      ])
+      if (!view.active) return // Scene restarted while loading
+      
+      if (topEntries.length === 0) {
+        status.setText('No scores yet')
+        return
+      }
+      const best = aroundEntries.find(around => around.playerId === playerId)
+      status.setText(entry ? `Your rank: #${entry.rank}` : best ? `Best rank: #${best.rank}` : 'Score not posted')
+      addRows(topEntries, top + 45)
+      
+      // Players already in the top five don't need their neighbourhood repeated
+      if (best && best.rank > topEntries.length) {
+        view.add(this.add.text(x, top + 140, 'AROUND YOU', headerStyle).setOrigin(0.5))
+        addRows(aroundEntries, top + 162)
+      }
+    })
+    
+    return view
+  }
+
   private changePlayerTexture(textureKey: string): void {
     if (this.textures.exists(textureKey)) {
       this.player.setTexture(textureKey)
@@ -8931,6 +9280,44 @@ export class GameScene extends Phaser.Scene {
     this.backgroundSprite.setY(desiredY)
   }
 
+  private resetGameStats(): void {
+    this.gameStats.treasureChestsOpened = 0
+    Object.keys(this.gameStats.enemyKills).forEach(enemy => {
+      this.gameStats.enemyKills[enemy as keyof typeof this.gameStats.enemyKills] = 0
+    })
+    this.gameStats.totalEnemiesDefeated = 0
+    this.gameStats.highestFloor = 0
+    this.gameStats.livesLost = 0
+  }
+  
+  /**
+   * Score an event and note it in the replay being recorded, so a server can check the run adds up
+   */
+  private awardPoints(event: ScoreEvent): number {
+    const points = ScoringSystem.getPoints(event)
+    this.score += points
+    this.inputRecorder?.recordScore(event, points, this.currentFloor)
+    if (!this.inputPlayback) {
+      Achievements.recordScoreEvent(event)
+    }
+    return points
+  }
+  
+  // Helper method to get the spawn type of an enemy object for scoring
+  private getEnemyType(enemy: any): EnemyType {
+    if (enemy instanceof Beetle) return EnemyType.BEETLE
+    if (enemy instanceof Rex) return EnemyType.REX
+    if (enemy instanceof BaseBlu) return EnemyType.BASEBLU
+    
+    switch (enemy.getCatColor ? enemy.getCatColor() : null) {
+      case 'yellow': return EnemyType.CATERPILLAR
+      case 'blue_caterpillar': return EnemyType.BLUE_CATERPILLAR
+      case 'red': return enemy.getIsStalker?.() ? EnemyType.STALKER : EnemyType.SNAIL
+      case 'green': return EnemyType.JUMPER
+      default: return EnemyType.CHOMPER // Blue and purple chompers
+    }
+  }
+
   // Helper method to get enemy type name for stats tracking
   private getEnemyTypeName(enemy: any): string {
     if (enemy.constructor.name === 'Cat') {
@@ -9020,15 +9407,346 @@ export class GameScene extends Phaser.Scene {
     this.game.registry.set('isDeathRetry', false)
     this.game.registry.set('isLevelProgression', false)
     this.game.registry.set('currentLevel', 1)  // Always start at level 1
+    this.game.registry.set('gameMode', 'normal') // A practice run restarts as a full run
+    this.game.registry.remove('practiceStartLevel')
     this.game.registry.set('playerLives', 3) // Use correct key
     this.game.registry.set('totalCoins', 0) // Use correct key
     this.game.registry.set('livesEarned', 0) // Reset lives earned counter
+    this.game.registry.set('chestsSinceEpic', 0)
+    this.game.registry.set('gemsSpent', 0)
+    this.game.registry.set('chestRerolls', 0)
+    this.game.registry.remove('shopStartingPowerUp')
     this.game.registry.set('accumulatedScore', 0)
+    this.game.registry.remove('runSeed') // New run gets a new seed
     
     // Restart the scene
     this.scene.restart()
   }
 
+  /**
+   * End a Daily Challenge run - record the result and show the daily results screen
+   * Kept apart from the normal high score / furthest level tracking
+   */
+  private finishDailyChallenge(completed: boolean, finalScore: number): void {
+    const registry = this.game.registry
+    
+    // Watching a replay of a daily run - don't record it again
+    if (this.inputPlayback) {
+      this.endReplayPlayback()
+      return
+    }
+    this.saveRunReplay(finalScore)
+    RunStateManager.clear(registry)
+    
+    const dailyIndex = this.levelManager.getDailyChallengeIndex()
+    const runStartTime = registry.get('runStartTime') || Date.now()
+    
+    const result = {
+      dateKey: registry.get('dailyChallengeDate') || DailyChallengeManager.getDateKey(),
+      score: finalScore,
+      floor: this.gameStats.highestFloor,
+      levelsCompleted: completed ? dailyIndex + 1 : dailyIndex,
+      timeMs: Date.now() - runStartTime,
+      completed
+    }
+    const isNewBest = DailyChallengeManager.recordResult(result)
+    if (completed) {
+      // Lost runs were posted and recorded from the game over screen
+      this.recordRunHistory(finalScore, null)
+      this.submitFinishedRun(Leaderboards.getBoardForRun(this.levelManager.getCurrentLevel(), result.dateKey), finalScore, false)
+    }
+    console.log(`📅 Daily Challenge ${completed ? 'cleared' : 'over'} - Score: ${finalScore}, New best: ${isNewBest}`)
+    
+    // Reset run state so the next start is a clean run
+    DailyChallengeManager.clearRun(registry)
+    this.levelManager.endDailyChallenge()
+    registry.set('levelProgression', false)
+    registry.set('isDeathRetry', false)
+    registry.set('isReplay', false)
+    registry.set('currentLevel', 1)
+    registry.set('accumulatedScore', 0)
+    registry.remove('playerLives')
+    registry.remove('runSeed')
+    registry.remove('runStartTime')
+    
+    this.scene.start('DailyChallengeScene', { result, isNewBest })
+  }
+
+  /**
+   * Start recording this level attempt, or load the matching segment when watching a replay
+   */
+  private setupInputReplay(): void {
+    const registry = this.game.registry
+    this.inputRecorder = null
+    this.inputPlayback = null
+    this.playbackSegment = null
+    this.currentInput = EMPTY_INPUT
+    this.replayEndTimer = undefined
+    
+    const playback = ReplayManager.getPlayback(registry)
+    if (playback) {
+      const segment = playback.replay.segments[playback.segmentIndex]
+      if (!segment || segment.level !== this.levelManager.getCurrentLevel()) {
+        console.warn(`🎬 Replay desync - expected level ${segment?.level}, got ${this.levelManager.getCurrentLevel()}`)
+        this.time.delayedCall(100, () => this.endReplayPlayback())
+        return
+      }
+      
+      playback.segmentIndex++
+      this.inputPlayback = new InputPlayback(segment.frames)
+      this.playbackSegment = segment
+      console.log(`🎬 Playing back level ${segment.level} (segment ${playback.segmentIndex}/${playback.replay.segments.length})`)
+      
+      this.add.text(GameSettings.canvas.width / 2, 90, 'REPLAY', {
+        fontSize: '14px',
+        fontFamily: '"Press Start 2P", system-ui',
+        color: '#ff69b4',
+        stroke: '#4a148c',
+        strokeThickness: 3
+      }).setOrigin(0.5).setScrollFactor(0).setDepth(250)
+      return
+    }
+    
+    // A resumed run isn't recorded - its replay would be missing everything played before the save
+    if (registry.get('resumedRun')) return
+    
+    if (!registry.has('runReplay')) {
+      ReplayManager.beginRun(registry)
+    }
+    this.inputRecorder = new InputRecorder(this.levelManager.getCurrentLevel(), this.levelManager.isBonusLevel())
+    this.events.once('shutdown', () => this.flushReplaySegment())
+  }
+  
+  /**
+   * Resolve this frame's input and return the step size the player should use
+   */
+  private updateFrameInput(deltaTime: number): number {
+    if (!this.inputPlayback) {
+      this.currentInput = this.player.readLiveInput()
+      this.inputRecorder?.record(this.currentInput, deltaTime)
+      return deltaTime
+    }
+    
+    const frame = this.inputPlayback.next()
+    if (!frame) {
+      // Recording ended here - the level should already be transitioning, otherwise we've desynced
+      this.currentInput = EMPTY_INPUT
+      if (!this.replayEndTimer) {
+        this.replayEndTimer = this.time.delayedCall(3000, () => {
+          console.warn('🎬 Replay ran out of input - ending playback')
+          this.endReplayPlayback()
+        })
+      }
+      return deltaTime
+    }
+    
+    this.currentInput = frame.input
+    return frame.delta
+  }
+  
+  /**
+   * Add the current level attempt to the run's replay
+   */
+  private flushReplaySegment(): void {
+    if (!this.inputRecorder || this.inputRecorder.getFrameCount() === 0) return
+    
+    ReplayManager.appendSegment(this.game.registry, this.inputRecorder.getSegment())
+    this.inputRecorder = null
+  }
+  
+  /**
+   * Store the finished run's replay (last run, and best run if it beats it)
+   */
+  private saveRunReplay(finalScore: number): void {
+    this.flushReplaySegment()
+    ReplayManager.finishRun(this.game.registry, finalScore)
+  }
+  
+  /**
+   * Stop watching a replay and go back to the title flow
+   */
+  private endReplayPlayback(): void {
+    if (!ReplayManager.getPlayback(this.game.registry)) return
+    console.log('🎬 Replay finished')
+    ReplayManager.stopPlayback(this.game.registry)
+    this.scene.start('InstructionsScene')
+  }
+
+  /**
+   * Save the run every few seconds, and whenever the page is hidden or closed
+   * Mobile browsers can kill a hidden tab without an unload event, so visibilitychange is the reliable hook
+   */
+  private setupRunSave(): void {
+    if (this.inputPlayback || !GameSettings.platform.autoSave) return
+    
+    this.time.addEvent({
+      delay: GameSettings.platform.saveInterval,
+      loop: true,
+      callback: () => this.saveRunState()
+    })
+    
+    const saveWhenHidden = () => {
+      if (document.visibilityState === 'hidden') this.saveRunState()
+    }
+    const saveOnPageHide = () => this.saveRunState()
+    document.addEventListener('visibilitychange', saveWhenHidden)
+    window.addEventListener('pagehide', saveOnPageHide)
+    this.events.once('shutdown', () => {
+      document.removeEventListener('visibilitychange', saveWhenHidden)
+      window.removeEventListener('pagehide', saveOnPageHide)
+    })
+    
+    // Save right away so a new level replaces the previous level's save
+    this.saveRunState()
+  }
+  
+  /**
+   * Announce unlocks while this level is played, and count the level as reached
+   * Replays, Daily Challenges and bonus levels don't count towards the level achievements
+   */
+  private setupAchievements(): void {
+    if (this.inputPlayback) return
+    
+    const toasts = new AchievementToasts(this)
+    const stopListening = Achievements.onUnlock(achievement => {
+      toasts.show(achievement)
+      RunStateManager.getPlatform(this.game.registry).unlockAchievement?.(achievement)
+    })
+    this.events.once('shutdown', stopListening)
+    
+    // Practice runs skip ahead, so they can't claim the level achievements
+    if (this.levelManager.isBonusLevel() || this.levelManager.isDailyChallenge()) return
+    if (this.game.registry.get('gameMode') === 'practice') return
+    
+    const level = this.levelManager.getCurrentLevel()
+    Achievements.reach('highestLevel', level)
+    if (this.gameStats.livesLost === 0) {
+      Achievements.reach('flawlessLevel', level)
+    }
+  }
+  
+  private saveRunState(): void {
+    if (!this.player || this.isGameOver || this.isLevelComplete || this.inputPlayback) return
+    RunStateManager.save(this.game.registry, this.captureRunState())
+  }
+  
+  /**
+   * Time played on this attempt at the level - the simulation clock starts over when a saved run is resumed
+   */
+  private getLevelTime(): number {
+    return this.resumedLevelTimeMs + this.simulationTime
+  }
+  
+  /**
+   * Treasure chests the level placed, counting the ones opened before the save a resumed run picked up from
+   */
+  private countLevelChests(): number {
+    const openedBeforeSave = Array.from(this.resumedPickups).filter(key => key.startsWith('treasureChest@')).length
+    return this.treasureChests.length + openedBeforeSave
+  }
+  
+  /**
+   * Snapshot the run in progress - enemies aren't saved, they respawn from the seed when the level is rebuilt
+   */
+  private captureRunState(): RunState {
+    const registry = this.game.registry
+    const collected = Array.from(this.levelPickups.entries())
+      .filter(([, pickup]) => pickup.isCollected())
+      .map(([key]) => key)
+    
+    return {
+      version: RunStateManager.VERSION,
+      savedAt: Date.now(),
+      seed: GameRandom.getRunSeed(),
+      gameMode: registry.get('gameMode') || 'normal',
+      dailyChallengeDate: registry.get('dailyChallengeDate'),
+      practiceStartLevel: registry.get('practiceStartLevel'),
+      runStartTime: registry.get('runStartTime') || Date.now(),
+      level: this.levelManager.getCurrentLevel(),
+      isBonusLevel: this.levelManager.isBonusLevel(),
+      floor: this.currentFloor,
+      playerTileX: Math.floor(this.player.x / GameSettings.game.tileSize),
+      score: this.score,
+      accumulatedScore: this.accumulatedScore,
+      lives: this.lives,
+      livesEarned: this.livesEarned,
+      chestsSinceEpic: {
+        levelStart: this.levelStartChestsSinceEpic,
+        current: this.game.registry.get('chestsSinceEpic') || 0
+      },
+      shop: {
+        gemsSpent: this.gemsSpent,
+        chestRerolls: this.game.registry.get('chestRerolls') || 0
+      },
+      levelProgress: {
+        timeMs: this.getLevelTime(),
+        livesLost: registry.get('levelLivesLost') || 0
+      },
+      gems: {
+        totalCoins: this.totalCoinsCollected,
+        totalGems: this.totalGemsCollected,
+        totalBlueGems: this.totalBlueGemsCollected,
+        totalDiamonds: this.totalDiamondsCollected,
+        accumulatedDiamonds: registry.get('accumulatedDiamonds') || 0
+      },
+      powerUps: this.powerUps.getRemainingTimes(),
+      collectedPickups: [...Array.from(this.resumedPickups), ...collected],
+      gameStats: {
+        ...this.gameStats,
+        enemyKills: { ...this.gameStats.enemyKills }
+      },
+      layout: {
+        floorWidth: GameSettings.game.floorWidth,
+        floors: this.floorLayouts.map(floor => ({ ...floor })),
+        ladders: Array.from(this.ladderPositions.entries())
+      }
+    }
+  }
+  
+  /**
+   * Stand the player on the floor the run was saved on, on the solid tile nearest where they were
+   */
+  private placePlayerForResume(state: RunState, spawnY: number): void {
+    // Endless floors only exist once the player climbs to them, so Beast Mode resumes from the ground floor
+    const levelConfig = this.levelManager.getLevelConfig(this.levelManager.getCurrentLevel())
+    if (levelConfig.isEndless) return
+    
+    // A save from before a level generator change would put the player somewhere else entirely
+    const sameLayout = state.layout.floorWidth === GameSettings.game.floorWidth &&
+      JSON.stringify(state.layout.floors) === JSON.stringify(this.floorLayouts) &&
+      JSON.stringify(state.layout.ladders) === JSON.stringify(Array.from(this.ladderPositions.entries()))
+    if (!sameLayout) {
+      console.warn('💾 Saved level layout no longer matches - restarting the level')
+      this.resumedPickups.clear()
+      this.resumedLevelTimeMs = 0
+      return
+    }
+    
+    const tileSize = GameSettings.game.tileSize
+    const floorSpacing = (GameSettings.game as any).floorSpacing || (tileSize * 5)
+    const floor = Math.min(state.floor, this.floorLayouts.length - 1)
+    const floorLayout = this.floorLayouts[floor]
+    
+    let tileX = -1
+    for (let x = 1; x < GameSettings.game.floorWidth - 1; x++) {
+      if (this.hasPlatformAt(floorLayout, x) && (tileX === -1 || Math.abs(x - state.playerTileX) < Math.abs(tileX - state.playerTileX))) {
+        tileX = x
+      }
+    }
+    if (tileX === -1) return
+    
+    this.player.setPosition(tileX * tileSize + tileSize/2, spawnY - floor * floorSpacing)
+    this.currentFloor = floor
+  }
+  
+  private restoreRunPowerUps(powerUps: RunState['powerUps']): void {
+    Object.entries(powerUps).forEach(([id, remaining]) => {
+      if (remaining > 0 && this.powerUps.getDefinition(id as PowerUpId)) {
+        this.powerUps.activate(id as PowerUpId, remaining)
+      }
+    })
+  }
+
   /**
    * Check for stuck Chompers and replace them with Snails as a last resort
    * This is a nuclear option to ensure gameplay continues
@@ -1,6 +1,11 @@
 import GameSettings from "../config/GameSettingsLoader"
 import { SharedAssetManager } from "../systems/SharedAssetManager"
 import { LoadingScreenGenerator } from "../systems/LoadingScreenGenerator"
+import { ReplayManager } from "../systems/ReplaySystem"
+import { RunStateManager } from "../systems/RunState"
+import { LevelManager } from "../systems/LevelManager"
+import { InputGlyphs } from "../ui/InputGlyphs"
+import { PowerUpOrb } from "../objects/PowerUpOrb"
 
 interface InstructionItem {
   sprite: string
@@ -98,6 +103,10 @@ export class InstructionsScene extends Phaser.Scene {
     this.createScrollableContainer()
     this.createInstructionCategories()
     this.createSkipButton()
+    this.createDailyButton()
+    this.createLevelSelectButton()
+    this.createWatchReplayButton()
+    this.createResumeButton()
     this.createScrollIndicator()
     this.setupScrolling()
     
@@ -176,16 +185,25 @@ export class InstructionsScene extends Phaser.Scene {
   private createInstructionCategories(): void {
     let currentY = 120 // Start below title
     
+    // Controls read for a controller when that's what the player is holding
+    const onGamepad = InputGlyphs.getActiveDevice() === 'gamepad'
+    const controlItems: InstructionItem[] = onGamepad ? [
+      { sprite: 'playerIdleEye1', title: 'Move', description: 'Use the left stick or D-pad to move left and right', spriteSize: { width: 38, height: 58 }},
+      { sprite: 'playerJumpRightFoot', title: 'Jump', description: 'Press A to jump', spriteSize: { width: 38, height: 58 }},
+      { sprite: 'playerClimbInstructions', title: 'Climb', description: 'Push the stick UP/DOWN to climb ladders', spriteSize: { width: 38, height: 58 }},
+      { sprite: 'playerThrow', title: 'Throw', description: 'Press B or X to throw crystal balls. START opens the menu', spriteSize: { width: 38, height: 58 }}
+    ] : [
+      { sprite: 'playerIdleEye1', title: 'Move', description: 'Use the pink crystal D-pad to move left and right', spriteSize: { width: 38, height: 58 }},
+      { sprite: 'playerJumpRightFoot', title: 'Jump', description: 'Tap the pink crystal button to jump', spriteSize: { width: 38, height: 58 }},
+      { sprite: 'playerClimbInstructions', title: 'Climb', description: 'Use the D-pad UP/DOWN to climb ladders', spriteSize: { width: 38, height: 58 }},
+      { sprite: 'playerThrow', title: 'Throw', description: 'Tap the yellow crystal button to throw crystal balls', spriteSize: { width: 38, height: 58 }}
+    ]
+    
     // Define instruction categories with expanded content
     const categories = [
       {
         title: 'MOVEMENT & CONTROLS',
-        items: [
-          { sprite: 'playerIdleEye1', title: 'Move', description: 'Use the pink crystal D-pad to move left and right', spriteSize: { width: 38, height: 58 }},
-          { sprite: 'playerJumpRightFoot', title: 'Jump', description: 'Tap the pink crystal button to jump', spriteSize: { width: 38, height: 58 }},
-          { sprite: 'playerClimbInstructions', title: 'Climb', description: 'Use the D-pad UP/DOWN to climb ladders', spriteSize: { width: 38, height: 58 }},
-          { sprite: 'playerThrow', title: 'Throw', description: 'Tap the yellow crystal button to throw crystal balls', spriteSize: { width: 38, height: 58 }}
-        ]
+        items: controlItems
       },
       {
         title: 'COLLECTIBLES',
@@ -202,6 +220,10 @@ export class InstructionsScene extends Phaser.Scene {
         items: [
           { sprite: 'pendant', title: 'Pendant', description: 'Power-up: Invincibility for 10 seconds', spriteSize: { width: 40, height: 40 }},
           { sprite: 'crystalBallCollectible', title: 'Crystal Ball', description: 'Power-up: Throw crystal balls for 20 seconds', spriteSize: { width: 40, height: 40 }},
+          { sprite: PowerUpOrb.ensureTexture(this, 'magnet'), title: 'Magnet', description: 'Power-up: Nearby gems fly to you for 12 seconds', spriteSize: { width: 36, height: 36 }},
+          { sprite: PowerUpOrb.ensureTexture(this, 'shield'), title: 'Shield', description: 'Power-up: Absorbs the next hit (lasts 30 seconds)', spriteSize: { width: 36, height: 36 }},
+          { sprite: PowerUpOrb.ensureTexture(this, 'doubleJump'), title: 'Double Jump', description: 'Power-up: Jump again in mid-air for 15 seconds', spriteSize: { width: 36, height: 36 }},
+          { sprite: PowerUpOrb.ensureTexture(this, 'timeFreeze'), title: 'Time Freeze', description: 'Power-up: Every enemy freezes for 5 seconds', spriteSize: { width: 36, height: 36 }},
           { sprite: 'cursedOrbCollectible', title: 'Cursed Orb', description: 'Curse: Darkness effect for 10 seconds', spriteSize: { width: 40, height: 40 }},
           { sprite: 'tealOrbCollectible', title: 'Teal Orb', description: 'Curse: Controls reversed for 10 seconds', spriteSize: { width: 40, height: 40 }}
         ]
@@ -405,6 +427,95 @@ export class InstructionsScene extends Phaser.Scene {
     })
   }
 
+  private createDailyButton(): void {
+    // Only offered from the title flow, not when opened from the in-game menu
+    if (this.fromMenu) return
+    
+    this.createFooterButton(80, 'DAILY', 0x20b2aa, () => {
+      console.log('📅 InstructionsScene: Daily Challenge requested')
+      this.scene.start('DailyChallengeScene')
+    })
+  }
+  
+  /**
+   * Level select, once there's more than level 1 to choose from (sits above the DAILY button)
+   */
+  private createLevelSelectButton(): void {
+    if (this.fromMenu || new LevelManager().getFurthestLevel() <= 1) return
+    
+    this.createFooterButton(80, 'LEVELS', 0x9370db, () => {
+      console.log('🗺️ InstructionsScene: Level select requested')
+      this.scene.start('LevelSelectScene')
+    }, GameSettings.canvas.height - 100)
+  }
+  
+  private createWatchReplayButton(): void {
+    if (this.fromMenu) return
+    
+    const bestReplay = ReplayManager.getBestReplay()
+    if (!bestReplay) return
+    
+    this.createFooterButton(GameSettings.canvas.width / 2, 'WATCH BEST', 0xff69b4, () => {
+      console.log(`🎬 InstructionsScene: Watching best run (${bestReplay.finalScore} points)`)
+      ReplayManager.startPlayback(this.game.registry, bestReplay)
+      this.transitionToGame()
+    })
+    
+    // Debug: load a replay file attached to a bug report
+    if (GameSettings.debug) {
+      this.input.keyboard?.on('keydown-L', async () => {
+        const replay = await ReplayManager.promptImport()
+        if (replay) {
+          ReplayManager.startPlayback(this.game.registry, replay)
+          this.transitionToGame()
+        }
+      })
+    }
+  }
+  
+  /**
+   * Offer to pick up a run that was closed mid-level (sits above the footer row)
+   */
+  private async createResumeButton(): Promise<void> {
+    if (this.fromMenu) return
+    
+    const state = await RunStateManager.load(this.game.registry)
+    if (!state || !this.scene.isActive()) return
+    
+    this.createFooterButton(GameSettings.canvas.width / 2, 'RESUME', 0x9acf07, () => {
+      console.log(`💾 InstructionsScene: Resuming run on level ${state.level}, floor ${state.floor}`)
+      RunStateManager.prepareResume(this.game.registry, state)
+      this.transitionToGame()
+    }, GameSettings.canvas.height - 100)
+  }
+  
+  private createFooterButton(x: number, label: string, color: number, onClick: () => void, y: number = GameSettings.canvas.height - 50): void {
+    const button = this.add.container(x, y)
+    button.setDepth(101)
+    
+    const buttonBg = this.add.graphics()
+    buttonBg.fillStyle(color, 0.9)
+    buttonBg.lineStyle(2, 0xFFD700) // Gold border
+    buttonBg.fillRoundedRect(-60, -20, 120, 40, 8)
+    buttonBg.strokeRoundedRect(-60, -20, 120, 40, 8)
+    button.add(buttonBg)
+    
+    const buttonText = this.add.text(0, 0, label, {
+      fontSize: label.length > 8 ? '10px' : '12px',
+      fontFamily: '"Press Start 2P", system-ui',
+      color: '#000000',
+      fontStyle: 'bold'
+    })
+    buttonText.setOrigin(0.5, 0.5)
+    button.add(buttonText)
+    
+    button.setSize(120, 40)
+    button.setInteractive()
+    button.on('pointerdown', onClick)
+    button.on('pointerover', () => buttonText.setScale(1.1))
+    button.on('pointerout', () => buttonText.setScale(1.0))
+  }
+
   private createScrollIndicator(): void {
     const screenHeight = GameSettings.canvas.height
     
@@ -0,0 +1,769 @@
+import GameSettings from "../config/GameSettingsLoader"
+import { EnemyType } from "../systems/EnemySpawningSystem"
+import {
+  LevelDefinitions,
+  LevelDefinition,
+  FloorDefinition,
+  CollectibleType,
+  COLLECTIBLE_TYPES,
+  LEVEL_DEFINITION_VERSION
+} from "../systems/LevelDefinition"
+
+type EditorTool = 'platform' | 'gap' | 'spikes' | 'ceiling' | 'ladder' | 'door' | 'enemy' | 'item' | 'erase'
+type ItemType = CollectibleType | 'treasureChest'
+
+interface EditorButton {
+  button: Phaser.GameObjects.Rectangle
+  text: Phaser.GameObjects.Text
+}
+
+const TOOLS: Array<{ tool: EditorTool, label: string }> = [
+  { tool: 'platform', label: 'FLOOR' },
+  { tool: 'gap', label: 'GAP' },
+  { tool: 'spikes', label: 'SPIKES' },
+  { tool: 'ceiling', label: 'CEIL SPK' },
+  { tool: 'ladder', label: 'LADDER' },
+  { tool: 'door', label: 'DOOR' },
+  { tool: 'enemy', label: 'ENEMY' },
+  { tool: 'item', label: 'ITEM' },
+  { tool: 'erase', label: 'ERASE' }
+]
+
+const ENEMY_TYPES: EnemyType[] = Object.values(EnemyType)
+const ITEM_TYPES: ItemType[] = [...COLLECTIBLE_TYPES, 'treasureChest']
+
+// Grid markers - short label and colour for every placeable thing
+const ENEMY_STYLE: { [type: string]: { label: string, color: number } } = {
+  [EnemyType.BASEBLU]: { label: 'BB', color: 0x1e3a8a },
+  [EnemyType.BEETLE]: { label: 'BT', color: 0xdc2626 },
+  [EnemyType.CATERPILLAR]: { label: 'CP', color: 0xeab308 },
+  [EnemyType.BLUE_CATERPILLAR]: { label: 'BC', color: 0x60a5fa },
+  [EnemyType.CHOMPER]: { label: 'CH', color: 0x3b82f6 },
+  [EnemyType.SNAIL]: { label: 'SN', color: 0xef4444 },
+  [EnemyType.JUMPER]: { label: 'JP', color: 0x22c55e },
+  [EnemyType.STALKER]: { label: 'ST', color: 0x991b1b },
+  [EnemyType.REX]: { label: 'RX', color: 0xa855f7 }
+}
+
+const ITEM_STYLE: { [type: string]: { label: string, color: number } } = {
+  coin: { label: 'c', color: 0xffd700 },
+  blueCoin: { label: 'b', color: 0x4169e1 },
+  diamond: { label: 'd', color: 0x00ffff },
+  freeLife: { label: '+', color: 0xff69b4 },
+  invincibilityPendant: { label: 'I', color: 0xffa500 },
+  crystalBall: { label: 'o', color: 0x9370db },
+  cursedOrb: { label: 'x', color: 0x800080 },
+  cursedTealOrb: { label: 'X', color: 0x008080 },
+  magnet: { label: 'M', color: 0xff4d4d },
+  shield: { label: 'S', color: 0x4da6ff },
+  doubleJump: { label: 'J', color: 0x7cff6b },
+  timeFreeze: { label: 'F', color: 0x9be7ff },
+  treasureChest: { label: 'T', color: 0x8b4513 }
+}
+
+/**
+ * Level Editor (debug builds only - press 'L' in game)
+ * Paint floors and gaps, place spikes, ladders, the door, enemies and collectibles on the floor grid,
+ * play-test the layout in GameScene with one key and import/export level definition files
+ */
+export class LevelEditorScene extends Phaser.Scene {
+  private static readonly DRAFT_KEY = 'treasureQuest_levelEditorDraft'
+  private static readonly ROW_HEIGHT = 44
+  private static readonly TOP_BAR_HEIGHT = 70
+  private static readonly PANEL_HEIGHT = 200
+  private static readonly MAX_FLOORS = 30
+  private static readonly DOOR_WIDTH = 3
+
+  private level!: LevelDefinition
+  private tool: EditorTool = 'platform'
+  private enemyType: EnemyType = EnemyType.CHOMPER
+  private itemType: ItemType = 'coin'
+  private scrollOffset: number = 0
+
+  // Play-testing temporarily registers the edited level over whatever was registered for that level number
+  private isPlaytesting: boolean = false
+  private replacedDefinition: LevelDefinition | null = null
+
+  // Grid geometry
+  private cellWidth: number = 16
+  private gridLeft: number = 0
+
+  // UI elements
+  private gridContainer!: Phaser.GameObjects.Container
+  private headerText!: Phaser.GameObjects.Text
+  private enemyText!: Phaser.GameObjects.Text
+  private itemText!: Phaser.GameObjects.Text
+  private statusText!: Phaser.GameObjects.Text
+  private toolButtons: Map<EditorTool, EditorButton> = new Map()
+
+  constructor() {
+    super({ key: "LevelEditorScene" })
+  }
+
+  create(): void {
+    this.cameras.main.setBackgroundColor(0x2a1a3e)
+
+    if (this.isPlaytesting) {
+      this.endPlaytest()
+    }
+
+    this.level = this.game.registry.get('editorLevel') || this.loadDraft() || this.createBlankLevel(1)
+
+    const floorWidth = GameSettings.game.floorWidth
+    this.cellWidth = Math.floor((this.cameras.main.width - 40) / floorWidth)
+    this.gridLeft = Math.floor((this.cameras.main.width - this.cellWidth * floorWidth) / 2) + 8
+
+    this.gridContainer = this.add.container(0, 0)
+    this.scrollOffset = this.getMaxScroll() // Start with the ground floor in view
+
+    this.createTopBar()
+    this.createToolPanel()
+    this.setupInput()
+    this.onLevelChanged()
+  }
+
+  // ---------------------------------------------------------------------------
+  // Level data
+  // ---------------------------------------------------------------------------
+
+  private createBlankLevel(levelNumber: number): LevelDefinition {
+    const floorWidth = GameSettings.game.floorWidth
+    const floorCount = 6
+    const floors: FloorDefinition[] = []
+    for (let floor = 0; floor < floorCount; floor++) {
+      // Alternate ladders between the left and right side so the blank level is playable
+      floors.push(floor < floorCount - 1 ? { ladders: [floor % 2 === 0 ? 3 : floorWidth - 4] } : {})
+    }
+    return {
+      version: LEVEL_DEFINITION_VERSION,
+      levelNumber,
+      floors,
+      door: { x: Math.floor(floorWidth / 2) - 1 }
+    }
+  }
+
+  private loadDraft(): LevelDefinition | null {
+    const stored = localStorage.getItem(LevelEditorScene.DRAFT_KEY)
+    if (!stored) return null
+    try {
+      return JSON.parse(stored) as LevelDefinition
+    } catch (e) {
+      console.warn('📐 Could not load level editor draft:', e)
+      return null
+    }
+  }
+
+  /**
+   * Drop empty lists so exported files only contain what was placed
+   */
+  private normalizeLevel(): void {
+    this.level.floors.forEach(floorDef => {
+      const lists: Array<keyof FloorDefinition> = ['ladders', 'ceilingSpikes', 'enemies', 'collectibles', 'chests']
+      lists.forEach(key => {
+        const list = floorDef[key] as any[] | undefined
+        if (list && list.length === 0) delete floorDef[key]
+      })
+      ;(['ladders', 'ceilingSpikes', 'chests'] as const).forEach(key => {
+        floorDef[key]?.sort((a, b) => a - b)
+      })
+    })
+  }
+
+  private onLevelChanged(): void {
+    this.normalizeLevel()
+    this.game.registry.set('editorLevel', this.level)
+    try {
+      localStorage.setItem(LevelEditorScene.DRAFT_KEY, JSON.stringify(this.level))
+    } catch (e) {
+      console.warn('📐 Could not save level editor draft:', e)
+    }
+
+    this.headerText.setText(
+      `LEVEL ${this.level.levelNumber}  FLOORS ${this.level.floors.length}${this.level.name ? `  "${this.level.name}"` : ''}`
+    )
+    this.updateStatus()
+    this.redrawGrid()
+  }
+
+  private updateStatus(message?: string): void {
+    const errors = LevelDefinitions.validate(this.level)
+    const lines: string[] = []
+    if (message) lines.push(message)
+    if (errors.length === 0) {
+      lines.push('✓ Valid - P: play-test  X: export  O: import')
+    } else {
+      lines.push(`✗ ${errors.length} problem${errors.length > 1 ? 's' : ''}: ${errors.slice(0, 2).join(' / ')}`)
+    }
+    this.statusText.setText(lines.join('\n'))
+    this.statusText.setColor(errors.length === 0 ? '#00ff00' : '#ff6666')
+  }
+
+  // ---------------------------------------------------------------------------
+  // Editing
+  // ---------------------------------------------------------------------------
+
+  private applyTool(floor: number, x: number): void {
+    const floorDef = this.level.floors[floor]
+    const isTopFloor = floor === this.level.floors.length - 1
+    let message: string | undefined
+
+    switch (this.tool) {
+      case 'platform':
+        this.fillGapTile(floorDef, x)
+        break
+
+      case 'gap':
+        if (floor === 0) {
+          message = 'The ground floor cannot have a gap'
+        } else {
+          this.addGapTile(floorDef, x)
+        }
+        break
+
+      case 'spikes':
+        if (floorDef.gap && this.isInGap(floorDef, x)) {
+          if (floorDef.gap.spikes === false) {
+            delete floorDef.gap.spikes
+          } else {
+            floorDef.gap.spikes = false
+          }
+        } else {
+          message = 'Spikes fill a gap - click inside one to toggle them'
+        }
+        break
+
+      case 'ceiling':
+        if (isTopFloor) {
+          message = 'The door floor has no ceiling'
+        } else {
+          floorDef.ceilingSpikes = this.toggleColumn(floorDef.ceilingSpikes, x)
+        }
+        break
+
+      case 'ladder':
+        if (isTopFloor) {
+          message = 'Ladders cannot lead past the door floor'
+        } else {
+          floorDef.ladders = this.toggleColumn(floorDef.ladders, x)
+        }
+        break
+
+      case 'door':
+        this.level.door.x = Math.max(0, Math.min(x, GameSettings.game.floorWidth - LevelEditorScene.DOOR_WIDTH))
+        break
+
+      case 'enemy': {
+        const existing = (floorDef.enemies || []).find(enemy => enemy.x === x)
+        floorDef.enemies = (floorDef.enemies || []).filter(enemy => enemy.x !== x)
+        if (!existing || existing.type !== this.enemyType) {
+          floorDef.enemies.push({ type: this.enemyType, x })
+        }
+        break
+      }
+
+      case 'item': {
+        const existing = this.getItemAt(floorDef, x)
+        floorDef.collectibles = (floorDef.collectibles || []).filter(item => item.x !== x)
+        floorDef.chests = (floorDef.chests || []).filter(chestX => chestX !== x)
+        if (existing !== this.itemType) {
+          if (this.itemType === 'treasureChest') {
+            floorDef.chests.push(x)
+          } else {
+            floorDef.collectibles.push({ type: this.itemType, x })
+          }
+        }
+        break
+      }
+
+      case 'erase':
+        floorDef.ladders = (floorDef.ladders || []).filter(col => col !== x)
+        floorDef.ceilingSpikes = (floorDef.ceilingSpikes || []).filter(col => col !== x)
+        floorDef.enemies = (floorDef.enemies || []).filter(enemy => enemy.x !== x)
+        floorDef.collectibles = (floorDef.collectibles || []).filter(item => item.x !== x)
+        floorDef.chests = (floorDef.chests || []).filter(col => col !== x)
+        break
+    }
+
+    this.onLevelChanged()
+    if (message) this.updateStatus(message)
+  }
+
+  private isInGap(floorDef: FloorDefinition, x: number): boolean {
+    const gap = floorDef.gap
+    return !!gap && x >= gap.start && x < gap.start + gap.size
+  }
+
+  /**
+   * Grow the floor's gap to include a tile - GameScene supports one gap per floor, so a
+   * tile that isn't next to the current gap starts a new one
+   */
+  private addGapTile(floorDef: FloorDefinition, x: number): void {
+    const gap = floorDef.gap
+    if (!gap) {
+      floorDef.gap = { start: x, size: 1 }
+    } else if (this.isInGap(floorDef, x)) {
+      return
+    } else if (x === gap.start - 1) {
+      gap.start--
+      gap.size++
+    } else if (x === gap.start + gap.size) {
+      gap.size++
+    } else {
+      floorDef.gap = { start: x, size: 1, spikes: gap.spikes }
+    }
+  }
+
+  /**
+   * Put a platform tile back into the gap, keeping the larger part of a split gap
+   */
+  private fillGapTile(floorDef: FloorDefinition, x: number): void {
+    const gap = floorDef.gap
+    if (!gap || !this.isInGap(floorDef, x)) return
+
+    const end = gap.start + gap.size - 1
+    if (gap.size === 1) {
+      delete floorDef.gap
+    } else if (x === gap.start) {
+      gap.start++
+      gap.size--
+    } else if (x === end) {
+      gap.size--
+    } else if (x - gap.start >= end - x) {
+      gap.size = x - gap.start
+    } else {
+      gap.size = end - x
+      gap.start = x + 1
+    }
+  }
+
+  private toggleColumn(columns: number[] | undefined, x: number): number[] {
+    const list = columns || []
+    return list.includes(x) ? list.filter(col => col !== x) : [...list, x]
+  }
+
+  private getItemAt(floorDef: FloorDefinition, x: number): ItemType | null {
+    if ((floorDef.chests || []).includes(x)) return 'treasureChest'
+    const item = (floorDef.collectibles || []).find(collectible => collectible.x === x)
+    return item ? item.type : null
+  }
+
+  private changeFloorCount(delta: number): void {
+    const floors = this.level.floors
+    if (delta > 0 && floors.length < LevelEditorScene.MAX_FLOORS) {
+      floors.push({})
+    } else if (delta < 0 && floors.length > 2) {
+      floors.pop()
+      // The new top floor holds the door - nothing can lead above it
+      const topFloor = floors[floors.length - 1]
+      delete topFloor.ladders
+      delete topFloor.ceilingSpikes
+    }
+    this.scrollOffset = Math.min(this.scrollOffset, this.getMaxScroll())
+    this.onLevelChanged()
+  }
+
+  private changeLevelNumber(delta: number): void {
+    this.level.levelNumber = Math.max(1, Math.min(50, this.level.levelNumber + delta))
+    this.onLevelChanged()
+  }
+
+  private cycleEnemyType(delta: number): void {
+    const index = ENEMY_TYPES.indexOf(this.enemyType)
+    this.enemyType = ENEMY_TYPES[(index + delta + ENEMY_TYPES.length) % ENEMY_TYPES.length]
+    this.enemyText.setText(`ENEMY: ${this.enemyType}`)
+    this.selectTool('enemy')
+  }
+
+  private cycleItemType(delta: number): void {
+    const index = ITEM_TYPES.indexOf(this.itemType)
+    this.itemType = ITEM_TYPES[(index + delta + ITEM_TYPES.length) % ITEM_TYPES.length]
+    this.itemText.setText(`ITEM: ${this.itemType}`)
+    this.selectTool('item')
+  }
+
+  private selectTool(tool: EditorTool): void {
+    this.tool = tool
+    this.toolButtons.forEach((entry, key) => {
+      entry.button.setFillStyle(key === tool ? 0x00aa00 : 0x333333)
+    })
+  }
+
+  // ---------------------------------------------------------------------------
+  // Play-test, import and export
+  // ---------------------------------------------------------------------------
+
+  private startPlaytest(): void {
+    const errors = LevelDefinitions.validate(this.level)
+    if (errors.length > 0) {
+      this.updateStatus('Fix the problems below before play-testing')
+      return
+    }
+
+    const registry = this.game.registry
+    const levelNumber = this.level.levelNumber
+    this.replacedDefinition = LevelDefinitions.get(levelNumber)
+    LevelDefinitions.register(JSON.parse(JSON.stringify(this.level)))
+    this.isPlaytesting = true
+
+    // Fresh practice run starting on the edited level
+    registry.set('gameMode', 'practice')
+    registry.set('practiceStartLevel', levelNumber)
+    registry.remove('dailyChallengeDate')
+    registry.remove('replayPlayback')
+    registry.set('currentLevel', levelNumber)
+    registry.set('isReplay', false)
+    registry.set('isDeathRetry', false)
+    registry.set('levelProgression', false)
+    registry.remove('playerLives')
+    registry.remove('runSeed')
+    registry.remove('runStartTime')
+
+    console.log(`📐 Play-testing level ${levelNumber} - press 'L' in game to return to the editor`)
+    this.scene.start('GameScene')
+  }
+
+  /**
+   * Put back whatever level definition the play-test replaced
+   */
+  private endPlaytest(): void {
+    const played: LevelDefinition | undefined = this.game.registry.get('editorLevel')
+    if (this.replacedDefinition) {
+      LevelDefinitions.register(this.replacedDefinition)
+    } else if (played) {
+      LevelDefinitions.unregister(played.levelNumber)
+    }
+    this.replacedDefinition = null
+    this.isPlaytesting = false
+  }
+
+  private exportLevel(): void {
+    this.normalizeLevel()
+    LevelDefinitions.exportLevel(this.level)
+    this.updateStatus(`Exported level ${this.level.levelNumber}`)
+  }
+
+  private async importLevel(): Promise<void> {
+    const imported = await LevelDefinitions.promptImport()
+    if (!imported) {
+      this.updateStatus('Could not import that file - see the console for details')
+      return
+    }
+    this.level = imported
+    this.scrollOffset = this.getMaxScroll()
+    this.onLevelChanged()
+    this.updateStatus(`Imported level ${imported.levelNumber}`)
+  }
+
+  private newLevel(): void {
+    if (!window.confirm('Start a new level? The current draft will be discarded.')) return
+    this.level = this.createBlankLevel(this.level.levelNumber)
+    this.scrollOffset = this.getMaxScroll()
+    this.onLevelChanged()
+  }
+
+  private exitEditor(): void {
+    this.scene.start('GameScene')
+  }
+
+  // ---------------------------------------------------------------------------
+  // Grid rendering
+  // ---------------------------------------------------------------------------
+
+  private getGridViewHeight(): number {
+    return this.cameras.main.height - LevelEditorScene.TOP_BAR_HEIGHT - LevelEditorScene.PANEL_HEIGHT
+  }
+
+  private getMaxScroll(): number {
+    const contentHeight = this.level.floors.length * LevelEditorScene.ROW_HEIGHT + 20
+    return Math.max(0, contentHeight - this.getGridViewHeight())
+  }
+
+  private getRowTop(floor: number): number {
+    const row = this.level.floors.length - 1 - floor
+    return LevelEditorScene.TOP_BAR_HEIGHT + 10 + row * LevelEditorScene.ROW_HEIGHT - this.scrollOffset
+  }
+
+  private scrollGrid(delta: number): void {
+    this.scrollOffset = Math.max(0, Math.min(this.getMaxScroll(), this.scrollOffset + delta))
+    this.redrawGrid()
+  }
+
+  private redrawGrid(): void {
+    this.gridContainer.removeAll(true)
+
+    const graphics = this.add.graphics()
+    this.gridContainer.add(graphics)
+
+    const floorWidth = GameSettings.game.floorWidth
+    const rowHeight = LevelEditorScene.ROW_HEIGHT
+    const cell = this.cellWidth
+    const topFloor = this.level.floors.length - 1
+
+    this.level.floors.forEach((floorDef, floor) => {
+      const top = this.getRowTop(floor)
+      if (top > this.cameras.main.height || top + rowHeight < 0) return
+
+      const platformY = top + rowHeight - 8
+
+      // Row background and floor number
+      graphics.fillStyle(floor % 2 === 0 ? 0x33224d : 0x2e2348, 1)
+      graphics.fillRect(this.gridLeft, top, cell * floorWidth, rowHeight)
+      this.addGridLabel(this.gridLeft - 4, top + rowHeight / 2, `${floor}`, '#9acf07').setOrigin(1, 0.5)
+
+      // Platform tiles, gaps and gap spikes
+      for (let x = 0; x < floorWidth; x++) {
+        const tileX = this.gridLeft + x * cell
+        if (!this.isInGap(floorDef, x)) {
+          graphics.fillStyle(0x8b5a2b, 1)
+          graphics.fillRect(tileX, platformY, cell - 1, 8)
+        } else if (floorDef.gap?.spikes !== false) {
+          graphics.fillStyle(0xff69b4, 1)
+          graphics.fillTriangle(tileX + 1, platformY + 8, tileX + cell / 2, platformY, tileX + cell - 2, platformY + 8)
+        }
+      }
+
+      // Ceiling spikes hang from the floor above
+      graphics.fillStyle(0xffd700, 1)
+      ;(floorDef.ceilingSpikes || []).forEach(x => {
+        const tileX = this.gridLeft + x * cell
+        graphics.fillTriangle(tileX + 1, top, tileX + cell / 2, top + 8, tileX + cell - 2, top)
+      })
+
+      // Ladders run from this floor's platform up to the next floor's platform
+      graphics.lineStyle(2, 0xdaa520, 1)
+      ;(floorDef.ladders || []).forEach(x => {
+        const left = this.gridLeft + x * cell + 3
+        const right = this.gridLeft + (x + 1) * cell - 4
+        graphics.lineBetween(left, platformY, left, top - 8)
+        graphics.lineBetween(right, platformY, right, top - 8)
+        for (let rungY = platformY - 6; rungY > top - 8; rungY -= 8) {
+          graphics.lineBetween(left, rungY, right, rungY)
+        }
+      })
+
+      // Door on the top floor
+      if (floor === topFloor) {
+        const doorLeft = this.gridLeft + this.level.door.x * cell
+        const doorWidth = LevelEditorScene.DOOR_WIDTH * cell - 1
+        graphics.fillStyle(0x8b4513, 1)
+        graphics.fillRect(doorLeft, top + 6, doorWidth, rowHeight - 14)
+        graphics.lineStyle(2, 0xffd700, 1)
+        graphics.strokeRect(doorLeft, top + 6, doorWidth, rowHeight - 14)
+        this.addGridLabel(doorLeft + doorWidth / 2, top + rowHeight / 2 - 1, 'DOOR', '#ffd700').setOrigin(0.5)
+      }
+
+      // Enemies stand on the platform, with their patrol bounds drawn underneath
+      ;(floorDef.enemies || []).forEach(enemy => {
+        const style = ENEMY_STYLE[enemy.type] || { label: '??', color: 0xffffff }
+        const centerX = this.gridLeft + enemy.x * cell + cell / 2
+        if (enemy.patrol) {
+          graphics.lineStyle(1, style.color, 1)
+          graphics.lineBetween(
+            this.gridLeft + enemy.patrol.left * cell + cell / 2, platformY - 2,
+            this.gridLeft + enemy.patrol.right * cell + cell / 2, platformY - 2
+          )
+        }
+        graphics.fillStyle(style.color, 1)
+        graphics.fillCircle(centerX, platformY - cell / 2 - 1, cell / 2 - 1)
+        this.addGridLabel(centerX, platformY - cell / 2 - 1, style.label, '#ffffff').setOrigin(0.5)
+      })
+
+      // Collectibles and chests float above
+      const items: Array<{ type: string, x: number }> = [
+        ...(floorDef.collectibles || []),
+        ...(floorDef.chests || []).map(x => ({ type: 'treasureChest', x }))
+      ]
+      items.forEach(item => {
+        const style = ITEM_STYLE[item.type] || { label: '?', color: 0xffffff }
+        const centerX = this.gridLeft + item.x * cell + cell / 2
+        const centerY = top + 14
+        graphics.fillStyle(style.color, 1)
+        if (item.type === 'treasureChest') {
+          graphics.fillRect(centerX - cell / 2 + 1, centerY - 5, cell - 2, 10)
+        } else {
+          graphics.fillTriangle(centerX - 5, centerY, centerX, centerY - 6, centerX + 5, centerY)
+          graphics.fillTriangle(centerX - 5, centerY, centerX, centerY + 6, centerX + 5, centerY)
+        }
+        this.addGridLabel(centerX, centerY, style.label, '#000000').setOrigin(0.5)
+      })
+    })
+  }
+
+  private addGridLabel(x: number, y: number, label: string, color: string): Phaser.GameObjects.Text {
+    const text = this.add.text(x, y, label, {
+      fontSize: '8px',
+      color,
+      fontFamily: 'monospace',
+      fontStyle: 'bold'
+    })
+    this.gridContainer.add(text)
+    return text
+  }
+
+  // ---------------------------------------------------------------------------
+  // UI
+  // ---------------------------------------------------------------------------
+
+  private createTopBar(): void {
+    const width = this.cameras.main.width
+    const barHeight = LevelEditorScene.TOP_BAR_HEIGHT
+
+    const bg = this.add.rectangle(width / 2, barHeight / 2, width, barHeight, 0x000000, 0.9)
+    bg.setStrokeStyle(2, 0x00ff00)
+    bg.setDepth(1000)
+
+    this.add.text(width / 2, 16, '📐 LEVEL EDITOR 📐', {
+      fontSize: '16px',
+      color: '#00ff00',
+      fontFamily: 'monospace',
+      fontStyle: 'bold'
+    }).setOrigin(0.5).setDepth(1001)
+
+    this.headerText = this.add.text(width / 2, 38, '', {
+      fontSize: '11px',
+      color: '#ffffff',
+      fontFamily: 'monospace'
+    }).setOrigin(0.5).setDepth(1001)
+
+    // Level number and floor count steppers
+    const stepperY = 56
+    this.createButton(width / 2 - 150, stepperY, 44, 'LVL-', () => this.changeLevelNumber(-1))
+    this.createButton(width / 2 - 100, stepperY, 44, 'LVL+', () => this.changeLevelNumber(1))
+    this.createButton(width / 2 + 100, stepperY, 44, 'FLR-', () => this.changeFloorCount(-1))
+    this.createButton(width / 2 + 150, stepperY, 44, 'FLR+', () => this.changeFloorCount(1))
+  }
+
+  private createToolPanel(): void {
+    const width = this.cameras.main.width
+    const height = this.cameras.main.height
+    const panelTop = height - LevelEditorScene.PANEL_HEIGHT
+
+    const bg = this.add.rectangle(width / 2, panelTop + LevelEditorScene.PANEL_HEIGHT / 2, width, LevelEditorScene.PANEL_HEIGHT, 0x000000, 0.9)
+    bg.setStrokeStyle(2, 0x00ff00)
+    bg.setDepth(1000)
+
+    // Tools - two rows, numbered for the 1-9 shortcuts
+    const perRow = 5
+    const buttonWidth = Math.floor((width - 20) / perRow) - 4
+    TOOLS.forEach((entry, index) => {
+      const column = index % perRow
+      const row = Math.floor(index / perRow)
+      const x = 10 + column * (buttonWidth + 4) + buttonWidth / 2
+      const y = panelTop + 20 + row * 30
+      this.toolButtons.set(entry.tool, this.createButton(x, y, buttonWidth, `${index + 1} ${entry.label}`, () => this.selectTool(entry.tool)))
+    })
+
+    // Enemy and item selectors
+    const selectorY = panelTop + 82
+    this.createButton(22, selectorY, 28, '<', () => this.cycleEnemyType(-1))
+    this.enemyText = this.add.text(width * 0.25, selectorY, `ENEMY: ${this.enemyType}`, {
+      fontSize: '10px',
+      color: '#ffffff',
+      fontFamily: 'monospace'
+    }).setOrigin(0.5).setDepth(1001)
+    this.createButton(width / 2 - 22, selectorY, 28, '>', () => this.cycleEnemyType(1))
+
+    this.createButton(width / 2 + 22, selectorY, 28, '<', () => this.cycleItemType(-1))
+    this.itemText = this.add.text(width * 0.75, selectorY, `ITEM: ${this.itemType}`, {
+      fontSize: '10px',
+      color: '#ffffff',
+      fontFamily: 'monospace'
+    }).setOrigin(0.5).setDepth(1001)
+    this.createButton(width - 22, selectorY, 28, '>', () => this.cycleItemType(1))
+
+    // Actions
+    const actions: Array<{ label: string, onClick: () => void }> = [
+      { label: 'P PLAY', onClick: () => this.startPlaytest() },
+      { label: 'O IMPORT', onClick: () => this.importLevel() },
+      { label: 'X EXPORT', onClick: () => this.exportLevel() },
+      { label: 'N NEW', onClick: () => this.newLevel() },
+      { label: 'ESC EXIT', onClick: () => this.exitEditor() }
+    ]
+    actions.forEach((action, index) => {
+      const x = 10 + index * (buttonWidth + 4) + buttonWidth / 2
+      this.createButton(x, panelTop + 116, buttonWidth, action.label, action.onClick)
+    })
+
+    this.statusText = this.add.text(10, panelTop + 136, '', {
+      fontSize: '9px',
+      color: '#00ff00',
+      fontFamily: 'monospace',
+      wordWrap: { width: width - 20 }
+    }).setDepth(1001)
+
+    this.selectTool(this.tool)
+  }
+
+  private createButton(x: number, y: number, width: number, label: string, onClick: () => void): EditorButton {
+    const button = this.add.rectangle(x, y, width, 24, 0x333333)
+    button.setStrokeStyle(1, 0x00ff00)
+    button.setInteractive({ useHandCursor: true })
+    button.setDepth(1001)
+
+    const text = this.add.text(x, y, label, {
+      fontSize: '10px',
+      color: '#ffffff',
+      fontFamily: 'monospace',
+      fontStyle: 'bold'
+    }).setOrigin(0.5).setDepth(1002)
+
+    button.on('pointerdown', (pointer: Phaser.Input.Pointer, localX: number, localY: number, event: Phaser.Types.Input.EventData) => {
+      event.stopPropagation()
+      onClick()
+    })
+    button.on('pointerover', () => text.setColor('#ffff00'))
+    button.on('pointerout', () => text.setColor('#ffffff'))
+
+    return { button, text }
+  }
+
+  private setupInput(): void {
+    // Painting - click or drag across the grid
+    let lastPainted = ''
+    const paint = (pointer: Phaser.Input.Pointer) => {
+      const gridTop = LevelEditorScene.TOP_BAR_HEIGHT
+      const gridBottom = this.cameras.main.height - LevelEditorScene.PANEL_HEIGHT
+      if (pointer.y < gridTop || pointer.y > gridBottom) return
+
+      const row = Math.floor((pointer.y - gridTop - 10 + this.scrollOffset) / LevelEditorScene.ROW_HEIGHT)
+      const floor = this.level.floors.length - 1 - row
+      const x = Math.floor((pointer.x - this.gridLeft) / this.cellWidth)
+      if (floor < 0 || floor >= this.level.floors.length || x < 0 || x >= GameSettings.game.floorWidth) return
+
+      // Dragging only paints tiles - toggling tools would flicker on every pointer move
+      const cellKey = `${floor},${x}`
+      if (cellKey === lastPainted) return
+      lastPainted = cellKey
+      this.applyTool(floor, x)
+    }
+
+    this.input.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+      lastPainted = ''
+      paint(pointer)
+    })
+    this.input.on('pointermove', (pointer: Phaser.Input.Pointer) => {
+      if (pointer.isDown && (this.tool === 'platform' || this.tool === 'gap')) {
+        paint(pointer)
+      }
+    })
+    this.input.on('wheel', (_pointer: Phaser.Input.Pointer, _objects: any[], _dx: number, dy: number) => {
+      this.scrollGrid(dy * 0.5)
+    })
+
+    const keyboard = this.input.keyboard
+    if (!keyboard) return
+
+    keyboard.on('keydown-UP', () => this.scrollGrid(-LevelEditorScene.ROW_HEIGHT))
+    keyboard.on('keydown-DOWN', () => this.scrollGrid(LevelEditorScene.ROW_HEIGHT))
+    keyboard.on('keydown-P', () => this.startPlaytest())
+    keyboard.on('keydown-X', () => this.exportLevel())
+    keyboard.on('keydown-O', () => this.importLevel())
+    keyboard.on('keydown-N', () => this.newLevel())
+    keyboard.on('keydown-ESC', () => this.exitEditor())
+
+    const numberKeys = ['ONE', 'TWO', 'THREE', 'FOUR', 'FIVE', 'SIX', 'SEVEN', 'EIGHT', 'NINE']
+    numberKeys.forEach((key, index) => {
+      keyboard.on(`keydown-${key}`, () => this.selectTool(TOOLS[index].tool))
+    })
+  }
+}
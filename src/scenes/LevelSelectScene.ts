@@ -0,0 +1,227 @@
+import GameSettings from "../config/GameSettingsLoader"
+import { LevelManager } from "../systems/LevelManager"
+import { LevelRecords, LevelRecord } from "../systems/LevelRecords"
+import { LevelStars } from "../systems/LevelStars"
+import { BackgroundManager } from "../systems/BackgroundManager"
+
+/**
+ * Level select - start from any level already reached, a chapter at a time
+ * Starting past level 1 is a practice run: it plays like a normal run but is marked on the leaderboard
+ * and doesn't count towards the chapter bests or the level achievements
+ */
+export class LevelSelectScene extends Phaser.Scene {
+  private chapters: Array<{ id: string, name: string, levelRange: [number, number] }> = []
+  private chapterIndex: number = 0
+  private furthestLevel: number = 1
+  private page: Phaser.GameObjects.Container | null = null
+  private readonly LEVELS_PER_CHAPTER = 10 // Beast Mode is endless - only its first ten levels are offered
+
+  constructor() {
+    super({ key: 'LevelSelectScene' })
+  }
+
+  create(): void {
+    const screenWidth = GameSettings.canvas.width
+
+    this.cameras.main.setBackgroundColor('#2e2348')
+
+    this.chapters = new BackgroundManager(this).getChapters()
+    this.furthestLevel = new LevelManager().getFurthestLevel()
+    const furthestChapter = this.chapters.findIndex(chapter =>
+      this.furthestLevel >= chapter.levelRange[0] && this.furthestLevel <= chapter.levelRange[1]
+    )
+    this.chapterIndex = Math.max(0, furthestChapter)
+
+    this.add.text(screenWidth / 2, 50, 'LEVEL SELECT', {
+      fontSize: '20px',
+      fontFamily: '"Press Start 2P", system-ui',
+      color: '#ffd700',
+      stroke: '#4a148c',
+      strokeThickness: 3
+    }).setOrigin(0.5)
+
+    this.add.text(screenWidth / 2, 85, `Furthest level reached: ${this.furthestLevel}`, {
+      fontSize: '10px',
+      fontFamily: '"Press Start 2P", system-ui',
+      color: '#9acf07'
+    }).setOrigin(0.5)
+
+    this.createChapterPage()
+    this.createButtons()
+  }
+
+  private createChapterPage(): void {
+    this.page?.destroy()
+    this.page = this.add.container(0, 0)
+
+    const screenWidth = GameSettings.canvas.width
+    const chapter = this.chapters[this.chapterIndex]
+    const firstLevel = chapter.levelRange[0]
+    const levels = Array.from({ length: this.LEVELS_PER_CHAPTER }, (_, index) => firstLevel + index)
+    const reached = levels.filter(level => level <= this.furthestLevel).length
+
+    // Chapter header with arrows to the neighbouring chapters
+    const name = this.add.text(screenWidth / 2, 140, chapter.name.toUpperCase(), {
+      fontSize: '11px',
+      fontFamily: '"Press Start 2P", system-ui',
+      color: '#ffffff',
+      align: 'center',
+      wordWrap: { width: screenWidth - 120 }
+    }).setOrigin(0.5)
+    const range = Number.isFinite(chapter.levelRange[1]) ? `${firstLevel}-${chapter.levelRange[1]}` : `${firstLevel}+`
+    const progress = this.add.text(screenWidth / 2, 168, `Levels ${range}  •  ${reached}/${levels.length} reached`, {
+      fontSize: '8px',
+      fontFamily: '"Press Start 2P", system-ui',
+      color: '#aaaaaa'
+    }).setOrigin(0.5)
+    this.page.add([name, progress])
+
+    // Beast Mode levels aren't rated, so it has no completion to show
+    if (firstLevel <= LevelStars.LAST_RATED_LEVEL) {
+      const completion = LevelRecords.getChapterCompletion(firstLevel, chapter.levelRange[1])
+      const completionText = this.add.text(screenWidth / 2, 186, `★ ${completion.stars}/${completion.maxStars}  •  ${completion.percent}% complete`, {
+        fontSize: '8px',
+        fontFamily: '"Press Start 2P", system-ui',
+        color: completion.percent === 100 ? '#ffd700' : '#9acf07'
+      }).setOrigin(0.5)
+      this.page.add(completionText)
+    }
+
+    if (this.chapterIndex > 0) {
+      this.createArrow(40, 150, '◀', () => this.changeChapter(-1))
+    }
+    if (this.chapterIndex < this.chapters.length - 1) {
+      this.createArrow(screenWidth - 40, 150, '▶', () => this.changeChapter(1))
+    }
+
+    // Five levels to a row
+    const records = LevelRecords.getAll()
+    const tileWidth = Math.min(76, (screenWidth - 40) / 5 - 6)
+    levels.forEach((level, index) => {
+      const x = screenWidth / 2 + ((index % 5) - 2) * (tileWidth + 6)
+      const y = 240 + Math.floor(index / 5) * 100
+      this.createLevelTile(x, y, tileWidth, level, level <= this.furthestLevel, records[level])
+    })
+
+    const note = this.add.text(screenWidth / 2, 410, 'Starting past level 1 is a practice run\nmarked P on the leaderboard', {
+      fontSize: '8px',
+      fontFamily: '"Press Start 2P", system-ui',
+      color: '#aaaaaa',
+      align: 'center',
+      lineSpacing: 6
+    }).setOrigin(0.5)
+    this.page.add(note)
+  }
+
+  private createLevelTile(x: number, y: number, width: number, level: number, unlocked: boolean, record?: LevelRecord): void {
+    const tile = this.add.container(x, y)
+    const height = 86
+
+    const background = this.add.graphics()
+    background.fillStyle(unlocked ? 0x4a148c : 0x2a1a3c, 1)
+    background.lineStyle(2, unlocked ? 0x7b1fa2 : 0x3a2a4c, 1)
+    background.fillRoundedRect(-width / 2, -height / 2, width, height, 8)
+    background.strokeRoundedRect(-width / 2, -height / 2, width, height, 8)
+
+    const number = this.add.text(0, -20, unlocked ? `${level}` : '🔒', {
+      fontSize: '16px',
+      fontFamily: '"Press Start 2P", system-ui',
+      color: unlocked ? '#ffd700' : '#666666'
+    }).setOrigin(0.5)
+
+    const score = this.add.text(0, 8, unlocked ? (record ? `${record.score}` : '-') : `${level}`, {
+      fontSize: '8px',
+      fontFamily: '"Press Start 2P", system-ui',
+      color: unlocked ? '#9acf07' : '#555555'
+    }).setOrigin(0.5)
+
+    tile.add([background, number, score])
+
+    if (unlocked && LevelStars.isRated(level, false)) {
+      const earned = record?.stars || 0
+      const stars = this.add.text(0, 28, '★'.repeat(earned) + '☆'.repeat(LevelStars.MAX_STARS - earned), {
+        fontSize: '12px',
+        fontFamily: 'system-ui',
+        color: earned > 0 ? '#ffd700' : '#777777'
+      }).setOrigin(0.5)
+      tile.add(stars)
+    }
+    this.page?.add(tile)
+
+    if (!unlocked) return
+    tile.setSize(width, height)
+    tile.setInteractive({ useHandCursor: true })
+    tile.on('pointerdown', () => this.startFromLevel(level))
+    tile.on('pointerover', () => number.setScale(1.15))
+    tile.on('pointerout', () => number.setScale(1.0))
+  }
+
+  private createArrow(x: number, y: number, label: string, onClick: () => void): void {
+    const arrow = this.add.text(x, y, label, {
+      fontSize: '20px',
+      fontFamily: 'system-ui',
+      color: '#ffd700'
+    }).setOrigin(0.5).setInteractive({ useHandCursor: true })
+    arrow.on('pointerdown', onClick)
+    this.page?.add(arrow)
+  }
+
+  private changeChapter(step: number): void {
+    this.chapterIndex = Phaser.Math.Clamp(this.chapterIndex + step, 0, this.chapters.length - 1)
+    this.createChapterPage()
+  }
+
+  /**
+   * Start a fresh run on the level - level 1 is an ordinary full run
+   */
+  private startFromLevel(level: number): void {
+    const registry = this.game.registry
+    console.log(`🗺️ Starting ${level > 1 ? 'practice run' : 'run'} from level ${level}`)
+
+    registry.set('gameMode', level > 1 ? 'practice' : 'normal')
+    if (level > 1) {
+      registry.set('practiceStartLevel', level)
+    } else {
+      registry.remove('practiceStartLevel')
+    }
+    registry.remove('dailyChallengeDate')
+    registry.set('currentLevel', level)
+
+    // Clear anything that would make GameScene treat this as a continue
+    registry.set('isReplay', false)
+    registry.set('isDeathRetry', false)
+    registry.set('levelProgression', false)
+    registry.remove('playerLives')
+    registry.remove('runSeed')
+    registry.remove('runStartTime')
+
+    this.scene.start('GameScene')
+  }
+
+  private createButtons(): void {
+    const screenWidth = GameSettings.canvas.width
+    const screenHeight = GameSettings.canvas.height
+
+    const button = this.add.container(screenWidth / 2, screenHeight - 50)
+
+    const buttonBg = this.add.graphics()
+    buttonBg.fillStyle(0x20b2aa, 0.9)
+    buttonBg.lineStyle(2, 0xFFD700)
+    buttonBg.fillRoundedRect(-80, -20, 160, 40, 8)
+    buttonBg.strokeRoundedRect(-80, -20, 160, 40, 8)
+    button.add(buttonBg)
+
+    const buttonText = this.add.text(0, 0, 'MAIN MENU', {
+      fontSize: '11px',
+      fontFamily: '"Press Start 2P", system-ui',
+      color: '#000000'
+    }).setOrigin(0.5)
+    button.add(buttonText)
+
+    button.setSize(160, 40)
+    button.setInteractive()
+    button.on('pointerdown', () => this.scene.start('InstructionsScene'))
+    button.on('pointerover', () => buttonText.setScale(1.1))
+    button.on('pointerout', () => buttonText.setScale(1.0))
+  }
+}
@@ -5,6 +5,7 @@ import { BaseBlu } from "../objects/BaseBlu"
 import { Beetle } from "../objects/Beetle"
 import { Rex } from "../objects/Rex"
 import { EnemyType } from "../systems/EnemySpawningSystem"
+import { InputMap } from "../systems/InputMap"
 
 interface ControlButton {
   button: Phaser.GameObjects.Rectangle
@@ -871,38 +872,48 @@ export class TestScene extends Phaser.Scene {
   }
   
   private setupKeyboardShortcuts(): void {
-    // ESC to exit
-    this.input.keyboard?.on('keydown-ESC', () => {
-      this.exitTestScene()
+    // Test shortcuts give way to keys the player has bound to a game action
+    const shortcut = (key: string, handler: () => void) => {
+      this.input.keyboard?.on(`keydown-${key}`, (event: KeyboardEvent) => {
+        if (InputMap.getActionForKeyCode(event.keyCode)) return
+        handler()
+      })
+    }
+    
+    // Pause key (ESC unless rebound) to exit
+    this.input.keyboard?.on('keydown', (event: KeyboardEvent) => {
+      if (InputMap.matchesKeyCode('pause', event.keyCode)) {
+        this.exitTestScene()
+      }
     })
     
     // Number keys for speed control
-    this.input.keyboard?.on('keydown-ONE', () => {
+    shortcut('ONE', () => {
       this.speedMultiplier = 0.5
       this.physics.world.timeScale = 0.5
       this.speedText.setText('Speed: 0.5x')
     })
     
-    this.input.keyboard?.on('keydown-TWO', () => {
+    shortcut('TWO', () => {
       this.speedMultiplier = 1
       this.physics.world.timeScale = 1
       this.speedText.setText('Speed: 1x')
     })
     
-    this.input.keyboard?.on('keydown-THREE', () => {
+    shortcut('THREE', () => {
       this.speedMultiplier = 2
       this.physics.world.timeScale = 2
       this.speedText.setText('Speed: 2x')
     })
     
-    this.input.keyboard?.on('keydown-FOUR', () => {
+    shortcut('FOUR', () => {
       this.speedMultiplier = 4
       this.physics.world.timeScale = 4
       this.speedText.setText('Speed: 4x')
     })
     
     // I for invincibility
-    this.input.keyboard?.on('keydown-I', () => {
+    shortcut('I', () => {
       this.isInvincible = !this.isInvincible
       this.invincibleText.setText(`Invincible: ${this.isInvincible ? 'ON' : 'OFF'}`)
       if (this.isInvincible) {
@@ -913,12 +924,12 @@ export class TestScene extends Phaser.Scene {
     })
     
     // C to clear all
-    this.input.keyboard?.on('keydown-C', () => {
+    shortcut('C', () => {
       this.clearAllEnemies()
     })
     
     // H for hitboxes
-    this.input.keyboard?.on('keydown-H', () => {
+    shortcut('H', () => {
       this.showHitboxes = !this.showHitboxes
       this.physics.world.drawDebug = this.showHitboxes
       
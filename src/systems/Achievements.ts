@@ -0,0 +1,210 @@
+/**
+ * Achievements for Bizarre Underground
+ * Declarative achievement definitions over lifetime counters that persist across runs
+ * GameScene feeds it score events and level starts; each unlock is announced to listeners (toasts, the GamePlatform)
+ * Saved in the player's profile (ProfileStore 'achievements')
+ */
+
+import { EnemyType } from './EnemySpawningSystem'
+import type { ScoreEvent } from './ScoringSystem'
+import { ProfileStore } from './ProfileStore'
+
+// Counted stats add up over every run, best stats keep the highest value reached
+export type AchievementCountStat =
+  | 'enemiesDefeated' | `kills.${EnemyType}` | 'projectileKills' | 'invincibleKills'
+  | 'chestsOpened' | 'gemsCollected' | 'diamondsCollected'
+export type AchievementBestStat =
+  | 'bestCombo'      // Highest stomp combo multiplier
+  | 'highestLevel'   // Furthest level reached in a normal run
+  | 'flawlessLevel'  // Furthest level reached in a normal run without losing a life
+export type AchievementStat = AchievementCountStat | AchievementBestStat
+
+export interface AchievementDefinition {
+  id: string
+  name: string
+  description: string
+  stat: AchievementStat
+  target: number
+}
+
+export interface AchievementProgress {
+  definition: AchievementDefinition
+  value: number
+  unlockedAt: number | null
+}
+
+interface StoredAchievements {
+  version: number
+  counters: Partial<Record<AchievementStat, number>>
+  unlocked: Record<string, number> // Achievement id -> unlock time
+}
+
+export type AchievementListener = (achievement: AchievementDefinition) => void
+
+export class Achievements {
+  static readonly VERSION = 1
+
+  static readonly DEFINITIONS: AchievementDefinition[] = [
+    { id: 'first_squish', name: 'First Squish', description: 'Defeat your first enemy', stat: 'enemiesDefeated', target: 1 },
+    { id: 'exterminator', name: 'Exterminator', description: 'Defeat 1,000 enemies', stat: 'enemiesDefeated', target: 1000 },
+    { id: 'bug_squasher', name: 'Bug Squasher', description: 'Defeat 100 caterpillars', stat: `kills.${EnemyType.CATERPILLAR}`, target: 100 },
+    { id: 'chomp_champ', name: 'Chomp Champ', description: 'Defeat 50 chompers', stat: `kills.${EnemyType.CHOMPER}`, target: 50 },
+    { id: 'stalker_stalker', name: 'Stalker Stalker', description: 'Defeat 25 stalkers', stat: `kills.${EnemyType.STALKER}`, target: 25 },
+    { id: 'rex_wrangler', name: 'Rex Wrangler', description: 'Stomp 10 Rex', stat: `kills.${EnemyType.REX}`, target: 10 },
+    { id: 'blu_breaker', name: 'Blu Breaker', description: 'Knock out 5 BaseBlus', stat: `kills.${EnemyType.BASEBLU}`, target: 5 },
+    { id: 'combo_starter', name: 'Combo Starter', description: 'Reach a 4x stomp combo', stat: 'bestCombo', target: 4 },
+    { id: 'combo_master', name: 'Combo Master', description: 'Reach an 8x stomp combo', stat: 'bestCombo', target: 8 },
+    { id: 'crystal_sniper', name: 'Crystal Sniper', description: 'Defeat 50 enemies with crystal ball shots', stat: 'projectileKills', target: 50 },
+    { id: 'unstoppable', name: 'Unstoppable', description: 'Defeat 100 enemies while invincible', stat: 'invincibleKills', target: 100 },
+    { id: 'treasure_hunter', name: 'Treasure Hunter', description: 'Open 10 treasure chests', stat: 'chestsOpened', target: 10 },
+    { id: 'hoarder', name: 'Hoarder', description: 'Open 100 treasure chests', stat: 'chestsOpened', target: 100 },
+    { id: 'gem_collector', name: 'Gem Collector', description: 'Collect 1,000 gems', stat: 'gemsCollected', target: 1000 },
+    { id: 'diamond_hands', name: 'Diamond Hands', description: 'Collect 50 diamonds', stat: 'diamondsCollected', target: 50 },
+    { id: 'cavern_cleared', name: 'Cavern Cleared', description: 'Reach level 11', stat: 'highestLevel', target: 11 },
+    { id: 'storm_chaser', name: 'Storm Chaser', description: 'Reach level 31', stat: 'highestLevel', target: 31 },
+    { id: 'beast_unleashed', name: 'Beast Unleashed', description: 'Reach Beast Mode', stat: 'highestLevel', target: 51 },
+    { id: 'untouchable', name: 'Untouchable', description: 'Reach level 10 without losing a life', stat: 'flawlessLevel', target: 10 },
+    { id: 'flawless_descent', name: 'Flawless Descent', description: 'Reach level 30 without losing a life', stat: 'flawlessLevel', target: 30 }
+  ]
+
+  private static state: StoredAchievements | null = null
+  private static listeners: AchievementListener[] = []
+
+  /**
+   * Listen for unlocks - returns a function that stops listening
+   */
+  static onUnlock(listener: AchievementListener): () => void {
+    this.listeners.push(listener)
+    return () => {
+      this.listeners = this.listeners.filter(other => other !== listener)
+    }
+  }
+
+  /**
+   * Add to a counted stat
+   */
+  static increment(stat: AchievementCountStat, amount: number = 1): void {
+    const counters = this.getState().counters
+    counters[stat] = (counters[stat] || 0) + amount
+    this.checkUnlocks(stat)
+  }
+
+  /**
+   * Raise a best stat if the value beats it
+   */
+  static reach(stat: AchievementBestStat, value: number): void {
+    const counters = this.getState().counters
+    if (value <= (counters[stat] || 0)) return
+    counters[stat] = value
+    this.checkUnlocks(stat)
+  }
+
+  /**
+   * Turn a scored event into stat updates - kills by enemy and method, chests, gems and combos
+   */
+  static recordScoreEvent(event: ScoreEvent): void {
+    switch (event.kind) {
+      case 'kill':
+        this.increment('enemiesDefeated')
+        if (Object.values(EnemyType).includes(event.subject as EnemyType)) {
+          this.increment(`kills.${event.subject as EnemyType}`)
+        }
+        if (event.method === 'projectile') this.increment('projectileKills')
+        if (event.method === 'invincible') this.increment('invincibleKills')
+        if (event.combo) this.reach('bestCombo', event.combo)
+        break
+      case 'chest':
+        this.increment('chestsOpened')
+        break
+      case 'collect':
+        if (event.subject === 'coin' || event.subject === 'blueCoin' || event.subject === 'diamond') {
+          this.increment('gemsCollected')
+        }
+        if (event.subject === 'diamond') this.increment('diamondsCollected')
+        break
+    }
+  }
+
+  static getCounter(stat: AchievementStat): number {
+    return this.getState().counters[stat] || 0
+  }
+
+  static isUnlocked(id: string): boolean {
+    return id in this.getState().unlocked
+  }
+
+  /**
+   * Every achievement with its progress, in definition order
+   */
+  static getProgress(): AchievementProgress[] {
+    const state = this.getState()
+    return this.DEFINITIONS.map(definition => ({
+      definition,
+      value: Math.min(state.counters[definition.stat] || 0, definition.target),
+      unlockedAt: state.unlocked[definition.id] ?? null
+    }))
+  }
+
+  static getUnlockedCount(): number {
+    return this.DEFINITIONS.filter(definition => this.isUnlocked(definition.id)).length
+  }
+
+  private static checkUnlocks(stat: AchievementStat): void {
+    const state = this.getState()
+    const value = state.counters[stat] || 0
+    const unlocked = this.DEFINITIONS.filter(definition =>
+      definition.stat === stat && value >= definition.target && !(definition.id in state.unlocked)
+    )
+
+    unlocked.forEach(definition => {
+      state.unlocked[definition.id] = Date.now()
+      console.log(`🏆 Achievement unlocked: ${definition.name}`)
+    })
+    this.save()
+
+    unlocked.forEach(definition => {
+      this.listeners.forEach(listener => {
+        try {
+          listener(definition)
+        } catch (e) {
+          console.warn('🏆 Achievement listener failed:', e)
+        }
+      })
+    })
+  }
+
+  private static getState(): StoredAchievements {
+    if (!this.state) {
+      this.state = this.load()
+    }
+    return this.state
+  }
+
+  private static load(): StoredAchievements {
+    const empty: StoredAchievements = { version: this.VERSION, counters: {}, unlocked: {} }
+    try {
+      const saved = ProfileStore.getItem('achievements')
+      if (!saved) return empty
+
+      const stored = JSON.parse(saved) as StoredAchievements
+      if (stored.version !== this.VERSION || typeof stored.counters !== 'object' || typeof stored.unlocked !== 'object') {
+        console.warn(`🏆 Unknown achievements version ${stored.version}, starting over`)
+        return empty
+      }
+      return { version: this.VERSION, counters: stored.counters || {}, unlocked: stored.unlocked || {} }
+    } catch (e) {
+      console.warn('🏆 Could not load achievements:', e)
+      return empty
+    }
+  }
+
+  private static save(): void {
+    try {
+      ProfileStore.setItem('achievements', JSON.stringify(this.getState()))
+    } catch (e) {
+      console.warn('🏆 Could not save achievements:', e)
+    }
+  }
+}
+
+export default Achievements
@@ -557,6 +557,16 @@ export class BackgroundManager {
     return this.getChapterForLevel(nextLevel) !== this.currentChapter
   }
 
+  /**
+   * Every chapter in level order, without the bonus levels
+   */
+  public getChapters(): Array<{ id: string } & ChapterConfig> {
+    return Array.from(this.chapters.entries())
+      .filter(([id]) => id !== 'bonus')
+      .map(([id, config]) => ({ id, ...config }))
+      .sort((a, b) => a.levelRange[0] - b.levelRange[0])
+  }
+  
   public getChapterName(level: number, isBonus: boolean = false): string {
     const chapter = this.getChapterForLevel(level, isBonus)
     const chapterConfig = this.chapters.get(chapter)
@@ -0,0 +1,172 @@
+/**
+ * Balance Simulator for Bizarre Underground
+ * Runs the level, enemy and collectible spawn rules over many seeds without Phaser so the
+ * six-tier difficulty curve can be tuned from a report instead of by playing through
+ * Driven from Node by scripts/simulate-balance.js
+ */
+
+import { GameRandom } from './SeededRandom'
+import { LevelManager } from './LevelManager'
+import { EnemySpawningSystem, EnemyType, SpawnWeights } from './EnemySpawningSystem'
+import { CollectibleSpawningSystem, LevelPowerUpState, SpawnableCollectible } from './CollectibleSpawningSystem'
+import { LevelDefinition } from './LevelDefinition'
+
+export interface LevelBalanceReport {
+  levelNumber: number
+  authored: boolean               // Authored levels are the same for every seed
+  floorCount: number
+  enemyFloors: number             // Floors that get enemies (ground and door floors never do)
+  maxEnemiesPerFloor: number
+  speedMultiplier: number
+  spawnWeights: SpawnWeights
+  enemyMix: Record<string, number>         // EnemyType -> share of all enemies spawned (0-1)
+  enemiesPerFloor: number                  // Average over enemy floors
+  difficultyPerFloor: {                    // Sum of enemy difficulty scores x speed multiplier
+    average: number
+    min: number
+    max: number
+    byFloor: number[]                      // Average for each floor index (0 on floors without enemies)
+  }
+  collectiblesPerFloor: Record<string, number> // Collectible type -> average count per floor
+  expectedPoints: {                        // Every enemy defeated once and every pickup collected
+    enemies: number                        // Base points, before combo multipliers
+    collectibles: number
+    chests: number                         // Chest opening bonus only - contents are rolled on open
+    total: number
+  }
+}
+
+export interface BalanceReport {
+  seeds: number
+  startSeed: number
+  levels: LevelBalanceReport[]
+}
+
+export class BalanceSimulator {
+  /**
+   * Simulate every level in the list over seeds startSeed .. startSeed + seeds - 1
+   */
+  static run(levels: number[], seeds: number, startSeed: number = 1): BalanceReport {
+    const levelManager = new LevelManager()
+    return {
+      seeds,
+      startSeed,
+      levels: levels.map(level => this.simulateLevel(levelManager, level, seeds, startSeed))
+    }
+  }
+
+  /**
+   * Spawn one level's enemies and collectibles for each seed and average the results
+   */
+  static simulateLevel(levelManager: LevelManager, levelNumber: number, seeds: number, startSeed: number = 1): LevelBalanceReport {
+    const config = levelManager.getLevelConfig(levelNumber)
+    const floorCount = config.isEndless ? levelManager.calculateFloorCount(levelManager.getMaxProgressionLevel()) : config.floorCount
+    const speedMultiplier = EnemySpawningSystem.getSpeedMultiplier(levelNumber)
+    const runs = config.authored ? 1 : seeds
+
+    const enemyCounts: Record<string, number> = {}
+    const collectibleCounts: Record<string, number> = {}
+    const difficultyByFloor: number[] = new Array(floorCount).fill(0)
+    const points = { enemies: 0, collectibles: 0, chests: 0 }
+
+    const addEnemy = (type: EnemyType, floor: number) => {
+      const definition = EnemySpawningSystem.getEnemyDefinition(type)
+      enemyCounts[type] = (enemyCounts[type] || 0) + 1
+      difficultyByFloor[floor] += definition.difficultyScore * speedMultiplier
+      points.enemies += definition.pointValue
+    }
+    const addCollectible = (type: SpawnableCollectible, count: number) => {
+      collectibleCounts[type] = (collectibleCounts[type] || 0) + count
+      const value = CollectibleSpawningSystem.POINT_VALUES[type] * count
+      if (type === 'treasureChest') points.chests += value
+      else points.collectibles += value
+    }
+
+    for (let seed = startSeed; seed < startSeed + runs; seed++) {
+      if (config.authored) {
+        this.countAuthoredLevel(config.authored, addEnemy, addCollectible)
+        continue
+      }
+
+      GameRandom.setRunSeed(seed)
+      GameRandom.beginLevel(levelNumber, false)
+
+      // Same floors GameScene.createCats fills: floor 2 up to the floor below the door
+      const enemyRng = GameRandom.stream('enemies')
+      for (let floor = 2; floor <= floorCount - 2; floor++) {
+        EnemySpawningSystem.selectEnemiesForFloor(levelNumber, floor, enemyRng).forEach(type => addEnemy(type, floor))
+      }
+
+      const collectibleRng = GameRandom.stream('collectibles')
+      const powerUps: LevelPowerUpState = { hasCrystalBall: false, hasCursedOrb: false, hasCursedTealOrb: false }
+      for (let floor = 0; floor < floorCount; floor++) {
+        CollectibleSpawningSystem.rollFloor(
+          levelNumber, floor, floorCount, config.collectibleTypes, collectibleRng, powerUps, addCollectible
+        )
+      }
+      CollectibleSpawningSystem.rollLevelPowerUps(
+        levelNumber, floorCount, GameRandom.stream('powerUps'), type => addCollectible(type, 1)
+      )
+    }
+
+    const enemyFloors = config.authored
+      ? config.authored.floors.filter(floor => (floor.enemies || []).length > 0).length
+      : Math.max(0, floorCount - 3)
+    const totalEnemies = Object.values(enemyCounts).reduce((sum, count) => sum + count, 0)
+    const averagePerFloor = difficultyByFloor.map(total => total / runs)
+    const difficultyFloors = averagePerFloor.filter(value => value > 0)
+
+    const enemyMix: Record<string, number> = {}
+    Object.entries(enemyCounts).forEach(([type, count]) => {
+      enemyMix[type] = count / Math.max(1, totalEnemies)
+    })
+    const collectiblesPerFloor: Record<string, number> = {}
+    Object.entries(collectibleCounts).forEach(([type, count]) => {
+      collectiblesPerFloor[type] = count / (runs * floorCount)
+    })
+
+    const expectedPoints = {
+      enemies: points.enemies / runs,
+      collectibles: points.collectibles / runs,
+      chests: points.chests / runs,
+      total: (points.enemies + points.collectibles + points.chests) / runs
+    }
+
+    return {
+      levelNumber,
+      authored: !!config.authored,
+      floorCount,
+      enemyFloors,
+      maxEnemiesPerFloor: EnemySpawningSystem.getMaxEnemiesPerFloor(levelNumber),
+      speedMultiplier,
+      spawnWeights: config.enemySpawnWeights,
+      enemyMix,
+      enemiesPerFloor: totalEnemies / Math.max(1, runs * enemyFloors),
+      difficultyPerFloor: {
+        average: difficultyFloors.reduce((sum, value) => sum + value, 0) / Math.max(1, difficultyFloors.length),
+        min: difficultyFloors.length > 0 ? Math.min(...difficultyFloors) : 0,
+        max: difficultyFloors.length > 0 ? Math.max(...difficultyFloors) : 0,
+        byFloor: averagePerFloor
+      },
+      collectiblesPerFloor,
+      expectedPoints
+    }
+  }
+
+  /**
+   * Authored levels list their enemies and collectibles explicitly
+   */
+  private static countAuthoredLevel(
+    definition: LevelDefinition,
+    addEnemy: (type: EnemyType, floor: number) => void,
+    addCollectible: (type: SpawnableCollectible, count: number) => void
+  ): void {
+    definition.floors.forEach((floorDef, floor) => {
+      ;(floorDef.enemies || []).forEach(enemy => addEnemy(enemy.type, floor))
+      ;(floorDef.collectibles || []).forEach(item => addCollectible(item.type, 1))
+      ;(floorDef.chests || []).forEach(() => addCollectible('treasureChest', 1))
+    })
+  }
+}
+
+export default BalanceSimulator
@@ -0,0 +1,377 @@
+/**
+ * Chest Loot for Bizarre Underground
+ * What treasure chests hold, as data: for each chapter, how often each chest tier turns up and what each tier
+ * drops - guaranteed items plus weighted rolls over gems, lives, power-ups and curses
+ * Epic chests have a pity timer: after enough chests without one, the next chest is forced epic
+ * TreasureChest rolls from these tables and GameScene spawns the drop
+ */
+
+import { SeededRandom } from './SeededRandom'
+import { CollectibleType } from './LevelDefinition'
+
+export type ChestTier = 'purple' | 'teal' | 'yellow' // Common, rare, epic
+
+// BackgroundManager's chapter ids - Beast Mode uses the Galactic table
+export type LootChapter = 'crystal_cavern' | 'volcanic_crystal' | 'steampunk' | 'storm' | 'galactic' | 'bonus'
+
+export interface LootEntry {
+  item: CollectibleType | null  // null - the roll comes up empty
+  weight: number
+  count?: [number, number]      // Inclusive range (default 1)
+}
+
+export interface TierLootTable {
+  guaranteed: Array<{ item: CollectibleType, count: [number, number] }>
+  rolls: number                 // Weighted picks from entries
+  entries: LootEntry[]
+}
+
+export interface ChapterLootTable {
+  tierWeights: Record<ChestTier, number>
+  epicPity: number              // Chests without an epic before the next one is forced epic (0 - never)
+  tiers: Record<ChestTier, TierLootTable>
+}
+
+export type LootDrop = Partial<Record<CollectibleType, number>>
+
+export interface LootRoll {
+  tier: ChestTier
+  pity: boolean                        // Forced epic by the pity timer
+  drop: LootDrop
+  picks: Array<CollectibleType | null> // What each weighted roll landed on, for the debug view
+}
+
+export class ChestLoot {
+  static readonly TIERS: ChestTier[] = ['purple', 'teal', 'yellow']
+
+  // Order chest contents are laid out in, from the chest outwards
+  static readonly DROP_ORDER: CollectibleType[] = [
+    'coin', 'blueCoin', 'diamond', 'freeLife', 'invincibilityPendant', 'crystalBall',
+    'magnet', 'shield', 'doubleJump', 'timeFreeze', 'cursedOrb', 'cursedTealOrb'
+  ]
+
+  private static readonly CHAPTER_LEVELS: Array<{ chapter: LootChapter, fromLevel: number }> = [
+    { chapter: 'galactic', fromLevel: 41 },
+    { chapter: 'storm', fromLevel: 31 },
+    { chapter: 'steampunk', fromLevel: 21 },
+    { chapter: 'volcanic_crystal', fromLevel: 11 },
+    { chapter: 'crystal_cavern', fromLevel: 1 }
+  ]
+
+  static readonly TABLES: Record<LootChapter, ChapterLootTable> = {
+    // Levels 1-10 - the original chest odds, with no pity timer
+    crystal_cavern: {
+      tierWeights: { purple: 60, teal: 30, yellow: 10 },
+      epicPity: 0,
+      tiers: {
+        purple: {
+          guaranteed: [{ item: 'coin', count: [2, 4] }],
+          rolls: 1,
+          entries: [{ item: null, weight: 90 }, { item: 'freeLife', weight: 10 }]
+        },
+        teal: {
+          guaranteed: [{ item: 'blueCoin', count: [1, 2] }, { item: 'coin', count: [1, 2] }],
+          rolls: 1,
+          // 25% for a bonus - a free life 70% of the time, otherwise any of the four power-ups
+          entries: [
+            { item: null, weight: 600 }, { item: 'freeLife', weight: 140 },
+            { item: 'magnet', weight: 15 }, { item: 'shield', weight: 15 }, { item: 'doubleJump', weight: 15 }, { item: 'timeFreeze', weight: 15 }
+          ]
+        },
+        yellow: {
+          guaranteed: [{ item: 'coin', count: [2, 3] }],
+          rolls: 1,
+          entries: [
+            { item: 'freeLife', weight: 80 },
+            { item: 'magnet', weight: 5 }, { item: 'shield', weight: 5 }, { item: 'doubleJump', weight: 5 }, { item: 'timeFreeze', weight: 5 }
+          ]
+        }
+      }
+    },
+
+    // Levels 11-20 - diamonds start turning up, common chests can be cursed
+    volcanic_crystal: {
+      tierWeights: { purple: 55, teal: 32, yellow: 13 },
+      epicPity: 7,
+      tiers: {
+        purple: {
+          guaranteed: [{ item: 'coin', count: [2, 4] }],
+          rolls: 1,
+          entries: [
+            { item: null, weight: 80 }, { item: 'freeLife', weight: 10 }, { item: 'blueCoin', weight: 6 },
+            { item: 'cursedOrb', weight: 4 }
+          ]
+        },
+        teal: {
+          guaranteed: [{ item: 'blueCoin', count: [1, 2] }, { item: 'coin', count: [2, 3] }],
+          rolls: 1,
+          entries: [
+            { item: null, weight: 60 }, { item: 'freeLife', weight: 18 }, { item: 'diamond', weight: 8 },
+            { item: 'magnet', weight: 5 }, { item: 'shield', weight: 5 }, { item: 'doubleJump', weight: 4 }
+          ]
+        },
+        yellow: {
+          guaranteed: [{ item: 'coin', count: [2, 4] }, { item: 'diamond', count: [1, 1] }],
+          rolls: 1,
+          entries: [
+            { item: 'freeLife', weight: 70 },
+            { item: 'shield', weight: 10 }, { item: 'timeFreeze', weight: 10 }, { item: 'crystalBall', weight: 10 }
+          ]
+        }
+      }
+    },
+
+    // Levels 21-30 - rare chests roll twice, both curses in common chests
+    steampunk: {
+      tierWeights: { purple: 50, teal: 35, yellow: 15 },
+      epicPity: 6,
+      tiers: {
+        purple: {
+          guaranteed: [{ item: 'coin', count: [3, 4] }],
+          rolls: 1,
+          entries: [
+            { item: null, weight: 72 }, { item: 'freeLife', weight: 10 }, { item: 'blueCoin', weight: 8 },
+            { item: 'cursedOrb', weight: 5 }, { item: 'cursedTealOrb', weight: 5 }
+          ]
+        },
+        teal: {
+          guaranteed: [{ item: 'blueCoin', count: [1, 2] }, { item: 'coin', count: [2, 3] }],
+          rolls: 2,
+          entries: [
+            { item: null, weight: 55 }, { item: 'freeLife', weight: 15 }, { item: 'diamond', weight: 10 },
+            { item: 'magnet', weight: 6 }, { item: 'shield', weight: 7 }, { item: 'doubleJump', weight: 7 }
+          ]
+        },
+        yellow: {
+          guaranteed: [{ item: 'coin', count: [3, 4] }, { item: 'diamond', count: [1, 1] }],
+          rolls: 1,
+          entries: [
+            { item: 'freeLife', weight: 60 },
+            { item: 'shield', weight: 12 }, { item: 'timeFreeze', weight: 14 }, { item: 'crystalBall', weight: 14 }
+          ]
+        }
+      }
+    },
+
+    // Levels 31-40 - epic chests roll twice and can hold a pendant
+    storm: {
+      tierWeights: { purple: 48, teal: 36, yellow: 16 },
+      epicPity: 6,
+      tiers: {
+        purple: {
+          guaranteed: [{ item: 'coin', count: [3, 4] }],
+          rolls: 1,
+          entries: [
+            { item: null, weight: 65 }, { item: 'freeLife', weight: 10 }, { item: 'blueCoin', weight: 10 },
+            { item: 'cursedOrb', weight: 7 }, { item: 'cursedTealOrb', weight: 8 }
+          ]
+        },
+        teal: {
+          guaranteed: [{ item: 'blueCoin', count: [2, 2] }, { item: 'coin', count: [2, 3] }],
+          rolls: 2,
+          entries: [
+            { item: null, weight: 50 }, { item: 'freeLife', weight: 15 }, { item: 'diamond', weight: 12 },
+            { item: 'magnet', weight: 6 }, { item: 'shield', weight: 9 }, { item: 'doubleJump', weight: 8 }
+          ]
+        },
+        yellow: {
+          guaranteed: [{ item: 'coin', count: [3, 4] }, { item: 'diamond', count: [1, 2] }],
+          rolls: 2,
+          entries: [
+            { item: 'freeLife', weight: 45 }, { item: 'invincibilityPendant', weight: 10 },
+            { item: 'shield', weight: 15 }, { item: 'timeFreeze', weight: 20 }, { item: 'crystalBall', weight: 10 }
+          ]
+        }
+      }
+    },
+
+    // Levels 41+ (and Beast Mode) - the richest chests and the nastiest common ones
+    galactic: {
+      tierWeights: { purple: 45, teal: 37, yellow: 18 },
+      epicPity: 5,
+      tiers: {
+        purple: {
+          guaranteed: [{ item: 'coin', count: [3, 4] }],
+          rolls: 1,
+          entries: [
+            { item: null, weight: 60 }, { item: 'freeLife', weight: 10 }, { item: 'blueCoin', weight: 12 },
+            { item: 'cursedOrb', weight: 9 }, { item: 'cursedTealOrb', weight: 9 }
+          ]
+        },
+        teal: {
+          guaranteed: [{ item: 'blueCoin', count: [2, 2] }, { item: 'coin', count: [2, 4] }],
+          rolls: 2,
+          entries: [
+            { item: null, weight: 45 }, { item: 'freeLife', weight: 15 }, { item: 'diamond', weight: 15 },
+            { item: 'magnet', weight: 6 }, { item: 'shield', weight: 10 }, { item: 'doubleJump', weight: 9 }
+          ]
+        },
+        yellow: {
+          guaranteed: [{ item: 'coin', count: [3, 4] }, { item: 'diamond', count: [1, 2] }],
+          rolls: 2,
+          entries: [
+            { item: 'freeLife', weight: 40 }, { item: 'invincibilityPendant', weight: 15 },
+            { item: 'shield', weight: 15 }, { item: 'timeFreeze', weight: 20 }, { item: 'crystalBall', weight: 10 }
+          ]
+        }
+      }
+    },
+
+    // Bonus levels - only rare and epic chests, never a curse
+    bonus: {
+      tierWeights: { purple: 0, teal: 50, yellow: 50 },
+      epicPity: 0,
+      tiers: {
+        purple: {
+          guaranteed: [{ item: 'coin', count: [3, 4] }],
+          rolls: 1,
+          entries: [{ item: null, weight: 80 }, { item: 'blueCoin', weight: 20 }]
+        },
+        teal: {
+          guaranteed: [{ item: 'blueCoin', count: [2, 2] }, { item: 'coin', count: [3, 4] }],
+          rolls: 2,
+          entries: [
+            { item: 'diamond', weight: 40 }, { item: 'freeLife', weight: 30 },
+            { item: 'magnet', weight: 15 }, { item: 'doubleJump', weight: 15 }
+          ]
+        },
+        yellow: {
+          guaranteed: [{ item: 'coin', count: [3, 4] }, { item: 'diamond', count: [1, 2] }, { item: 'freeLife', count: [1, 1] }],
+          rolls: 1,
+          entries: [
+            { item: 'invincibilityPendant', weight: 30 }, { item: 'magnet', weight: 25 },
+            { item: 'shield', weight: 25 }, { item: 'crystalBall', weight: 20 }
+          ]
+        }
+      }
+    }
+  }
+
+  static getChapter(level: number, isBonusLevel: boolean = false): LootChapter {
+    if (isBonusLevel) return 'bonus'
+    return this.CHAPTER_LEVELS.find(({ fromLevel }) => level >= fromLevel)?.chapter || 'crystal_cavern'
+  }
+
+  static getTable(level: number, isBonusLevel: boolean = false): ChapterLootTable {
+    return this.TABLES[this.getChapter(level, isBonusLevel)]
+  }
+
+  /**
+   * Pick a chest's tier - always one draw, so the pity timer never shifts the chest's later rolls
+   */
+  static rollTier(table: ChapterLootTable, rng: SeededRandom, chestsSinceEpic: number): { tier: ChestTier, pity: boolean } {
+    const tier = this.pickWeighted(this.TIERS.map(tier => ({ value: tier, weight: table.tierWeights[tier] })), rng) || 'purple'
+    if (tier !== 'yellow' && table.epicPity > 0 && chestsSinceEpic >= table.epicPity) {
+      return { tier: 'yellow', pity: true }
+    }
+    return { tier, pity: false }
+  }
+
+  /**
+   * Roll what a chest of this tier drops: the guaranteed items, then each weighted roll
+   */
+  static rollContents(table: ChapterLootTable, tier: ChestTier, rng: SeededRandom): { drop: LootDrop, picks: Array<CollectibleType | null> } {
+    const tierTable = table.tiers[tier]
+    const drop: LootDrop = {}
+    const add = (item: CollectibleType, count: number) => {
+      if (count > 0) drop[item] = (drop[item] || 0) + count
+    }
+
+    tierTable.guaranteed.forEach(({ item, count }) => add(item, this.rollCount(count, rng)))
+
+    const picks: Array<CollectibleType | null> = []
+    for (let i = 0; i < tierTable.rolls; i++) {
+      const entry = this.pickWeighted(tierTable.entries.map(entry => ({ value: entry, weight: entry.weight })), rng)
+      picks.push(entry?.item || null)
+      if (entry?.item) {
+        add(entry.item, this.rollCount(entry.count || [1, 1], rng))
+      }
+    }
+    return { drop, picks }
+  }
+
+  /**
+   * Tier and contents in one go - what a chest does when it's opened
+   */
+  static roll(table: ChapterLootTable, rng: SeededRandom, chestsSinceEpic: number): LootRoll {
+    const { tier, pity } = this.rollTier(table, rng, chestsSinceEpic)
+    return { tier, pity, ...this.rollContents(table, tier, rng) }
+  }
+
+  /**
+   * The most of each item any single chest can drop, across every chapter and tier
+   */
+  static getMaxDrop(): LootDrop {
+    const max: LootDrop = {}
+    Object.values(this.TABLES).forEach(table => {
+      this.TIERS.forEach(tier => {
+        const tierTable = table.tiers[tier]
+        const most: LootDrop = {}
+        tierTable.guaranteed.forEach(({ item, count }) => {
+          most[item] = (most[item] || 0) + count[1]
+        })
+        tierTable.entries.forEach(({ item, count }) => {
+          if (!item) return
+          most[item] = (most[item] || 0) + (count ? count[1] : 1) * tierTable.rolls
+        })
+        Object.entries(most).forEach(([item, count]) => {
+          const key = item as CollectibleType
+          max[key] = Math.max(max[key] || 0, count || 0)
+        })
+      })
+    })
+    return max
+  }
+
+  /**
+   * Open a run of chests the way a level would and count what came out - the debug roll view
+   * (scripts/simulate-chests.js) prints this per chapter
+   */
+  static simulate(chapter: LootChapter, chests: number, seed: number = 1): {
+    tiers: Record<ChestTier, number>
+    pityEpics: number
+    items: LootDrop
+    rolls: LootRoll[]
+  } {
+    const table = this.TABLES[chapter]
+    const rng = new SeededRandom(SeededRandom.hashSeed(seed, 'chest-loot', chapter))
+    const tiers: Record<ChestTier, number> = { purple: 0, teal: 0, yellow: 0 }
+    const items: LootDrop = {}
+    const rolls: LootRoll[] = []
+    let pityEpics = 0
+    let chestsSinceEpic = 0
+
+    for (let i = 0; i < chests; i++) {
+      // Each chest has its own stream in the game - see TreasureChest
+      const chestRng = new SeededRandom(Math.floor(rng.next() * 0xFFFFFFFF))
+      const result = this.roll(table, chestRng, chestsSinceEpic)
+      rolls.push(result)
+      tiers[result.tier]++
+      if (result.pity) pityEpics++
+      chestsSinceEpic = result.tier === 'yellow' ? 0 : chestsSinceEpic + 1
+      Object.entries(result.drop).forEach(([item, count]) => {
+        const key = item as CollectibleType
+        items[key] = (items[key] || 0) + (count || 0)
+      })
+    }
+    return { tiers, pityEpics, items, rolls }
+  }
+
+  private static rollCount([min, max]: [number, number], rng: SeededRandom): number {
+    return min === max ? min : min + Math.floor(rng.next() * (max - min + 1))
+  }
+
+  private static pickWeighted<T>(options: Array<{ value: T, weight: number }>, rng: SeededRandom): T | null {
+    const total = options.reduce((sum, option) => sum + Math.max(0, option.weight), 0)
+    if (total <= 0) return null
+
+    let roll = rng.next() * total
+    for (const option of options) {
+      roll -= Math.max(0, option.weight)
+      if (roll < 0) return option.value
+    }
+    return options.filter(option => option.weight > 0).pop()!.value // Float rounding at the very top
+  }
+}
+
+export default ChestLoot
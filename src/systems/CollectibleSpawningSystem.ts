@@ -0,0 +1,159 @@
+/**
+ * Collectible Spawning System for Bizarre Underground
+ * Per-floor rarity rules for coins, gems, lives, power-ups and treasure chests
+ * GameScene places the results on the floor; the balance simulator only counts them
+ */
+
+import GameSettings from '../config/GameSettingsLoader'
+import { SeededRandom } from './SeededRandom'
+import { CollectibleType } from './LevelDefinition'
+
+export type SpawnableCollectible = CollectibleType | 'treasureChest'
+
+/**
+ * One-per-level power-ups already placed on earlier floors
+ */
+export interface LevelPowerUpState {
+  hasCrystalBall: boolean
+  hasCursedOrb: boolean
+  hasCursedTealOrb: boolean
+}
+
+export class CollectibleSpawningSystem {
+  // Points awarded on pickup (power-ups score nothing themselves, chest contents are extra)
+  static readonly POINT_VALUES: Record<SpawnableCollectible, number> = {
+    coin: GameSettings.scoring.coinCollect,
+    blueCoin: 500,
+    diamond: 1000,
+    freeLife: 2000,
+    invincibilityPendant: 300,
+    treasureChest: 2500,
+    crystalBall: 0,
+    cursedOrb: 0,
+    cursedTealOrb: 0,
+    magnet: 0,
+    shield: 0,
+    doubleJump: 0,
+    timeFreeze: 0
+  }
+
+  // Power-ups added after the original three roll once per level from their own random stream
+  static readonly LEVEL_POWER_UPS: Array<{ type: SpawnableCollectible, fromLevel: number, chance: number }> = [
+    { type: 'magnet', fromLevel: 5, chance: 0.35 },
+    { type: 'doubleJump', fromLevel: 7, chance: 0.3 },
+    { type: 'shield', fromLevel: 9, chance: 0.25 },
+    { type: 'timeFreeze', fromLevel: 15, chance: 0.2 }
+  ]
+
+  /**
+   * Roll which collectibles a procedural floor gets, calling place() for each in spawn order
+   * Draws from the rng in exactly the order GameScene always has, so seeds keep their layouts
+   */
+  static rollFloor(
+    levelNumber: number,
+    floor: number,
+    floorCount: number,
+    allowedCollectibles: string[],
+    rng: SeededRandom,
+    powerUps: LevelPowerUpState,
+    place: (type: SpawnableCollectible, count: number) => void
+  ): void {
+    // Regular coins: distribute throughout floors (2-4 per floor)
+    // Skip floor 0 to avoid collectibles in intro animation area
+    if (allowedCollectibles.includes('coin') && floor > 0) {
+      const numCoins = Math.floor(rng.next() * 3) + 2 // 2-4 coins per floor
+      place('coin', numCoins)
+    }
+
+    // Blue coins: lower probability (20% chance per floor)
+    if (allowedCollectibles.includes('blueCoin') && floor > 0 && rng.next() < 0.2) {
+      place('blueCoin', 1)
+    }
+
+    // Diamonds: much lower probability (8% chance per floor)
+    if (allowedCollectibles.includes('diamond') && floor > 1 && rng.next() < 0.08) {
+      place('diamond', 1)
+    }
+
+    // Free lives: very low probability starting after level 3 (3% chance per floor)
+    if (allowedCollectibles.includes('freeLife') && floor > 2 && rng.next() < 0.03) {
+      place('freeLife', 1)
+    }
+
+    // Invincibility pendants: Normal spawn rate (3% chance per floor after level 3)
+    // But never spawn on floor 0 (player spawn floor)
+    const pendantRoll = rng.next()
+    if (allowedCollectibles.includes('invincibilityPendant') && floor !== 0 && pendantRoll < 0.03) {
+      place('invincibilityPendant', 1)
+    }
+
+    // Treasure chests: Level-based spawning (2500 points + contents)
+    if (allowedCollectibles.includes('treasureChest') && floor >= 3 &&
+        this.shouldSpawnChestOnFloor(levelNumber, floor, floorCount, rng)) {
+      place('treasureChest', 1)
+    }
+
+    // Crystal Ball power-up: One per level starting from level 3
+    if (levelNumber >= 3 && !powerUps.hasCrystalBall && floor >= 2 && rng.next() < 0.3) { // 30% chance
+      place('crystalBall', 1)
+      powerUps.hasCrystalBall = true
+    }
+
+    // Cursed Orb power-up: One per level starting from level 11
+    if (levelNumber >= 11 && !powerUps.hasCursedOrb && floor >= 2 && rng.next() < 0.2) { // 20% chance
+      place('cursedOrb', 1)
+      powerUps.hasCursedOrb = true
+    }
+
+    // Cursed Teal Orb power-up: One per level starting from level 21
+    if (levelNumber >= 21 && !powerUps.hasCursedTealOrb && floor >= 2 && rng.next() < 0.15) { // 15% chance
+      place('cursedTealOrb', 1)
+      powerUps.hasCursedTealOrb = true
+    }
+  }
+
+  /**
+   * Roll the newer power-ups for a whole procedural level, calling place() with the floor each one goes on
+   * Uses the 'powerUps' stream and runs after every floor is placed, so adding them didn't move anything on older seeds
+   */
+  static rollLevelPowerUps(
+    levelNumber: number,
+    floorCount: number,
+    rng: SeededRandom,
+    place: (type: SpawnableCollectible, floor: number) => void
+  ): void {
+    // Any floor from 2 up, same as the original power-ups
+    const floors = floorCount - 2
+    if (floors <= 0) return
+
+    this.LEVEL_POWER_UPS.forEach(({ type, fromLevel, chance }) => {
+      if (levelNumber >= fromLevel && rng.next() < chance) {
+        place(type, 2 + Math.floor(rng.next() * floors))
+      }
+    })
+  }
+
+  /**
+   * Level-based chest spawning rules:
+   * Levels 1-4: Max 1 chest per level
+   * Levels 5-6: Max 2 chests per level
+   * Levels 7+: Original rule (1 per 1-3 floors with 35% chance)
+   */
+  static shouldSpawnChestOnFloor(level: number, floor: number, floorCount: number, rng: SeededRandom): boolean {
+    if (level <= 4) {
+      // Levels 1-4: 1 chest maximum, spawn on middle floors
+      const middleFloor = Math.floor(floorCount / 2)
+      return floor === middleFloor || (floor === middleFloor + 1 && rng.next() < 0.5)
+    } else if (level <= 6) {
+      // Levels 5-6: 2 chests maximum, spread across level
+      const firstChestFloor = Math.floor(floorCount / 3)
+      const secondChestFloor = Math.floor((floorCount * 2) / 3)
+      return floor === firstChestFloor || floor === secondChestFloor
+    } else {
+      // Levels 7+: Original rule
+      return floor % 3 === 0 || rng.next() < 0.35
+    }
+  }
+}
+
+export default CollectibleSpawningSystem
@@ -0,0 +1,135 @@
+/**
+ * Daily Challenge Manager for Bizarre Underground
+ * Derives a shared seed from the calendar date and keeps each day's best result
+ * Results are stored separately from normal progress (treasureQuest_furthestLevel, bz_highScore)
+ */
+
+import { SeededRandom } from './SeededRandom'
+import { LevelManager } from './LevelManager'
+import { ProfileStore } from './ProfileStore'
+
+export interface DailyChallengeResult {
+  dateKey: string          // YYYY-MM-DD (UTC)
+  score: number
+  floor: number            // Highest floor reached in the level where the run ended
+  levelsCompleted: number  // How many of the daily levels were cleared
+  timeMs: number           // Run duration
+  completed: boolean       // Cleared every daily level
+  attempts: number
+}
+
+export class DailyChallengeManager {
+  private static readonly MAX_HISTORY_DAYS = 60
+
+  /**
+   * Get the UTC date key for a day so every player shares the same challenge
+   */
+  static getDateKey(date: Date = new Date()): string {
+    return date.toISOString().slice(0, 10)
+  }
+
+  /**
+   * Get the run seed for a given day
+   */
+  static getSeedForDate(dateKey: string): number {
+    return SeededRandom.hashSeed('daily', dateKey)
+  }
+
+  /**
+   * Load all stored daily results keyed by date
+   */
+  static loadResults(): { [dateKey: string]: DailyChallengeResult } {
+    try {
+      return JSON.parse(ProfileStore.getItem('dailyChallenge') || '{}')
+    } catch (e) {
+      console.warn('Could not load daily challenge results:', e)
+      return {}
+    }
+  }
+
+  /**
+   * Get the stored best result for a day
+   */
+  static getResult(dateKey: string): DailyChallengeResult | null {
+    return this.loadResults()[dateKey] || null
+  }
+
+  /**
+   * Record a finished daily run - keeps the best score for the day
+   * Returns true if this run is a new best for the day
+   */
+  static recordResult(result: Omit<DailyChallengeResult, 'attempts'>): boolean {
+    const results = this.loadResults()
+    const previous = results[result.dateKey]
+    const attempts = (previous?.attempts || 0) + 1
+    const isNewBest = !previous || result.score > previous.score ||
+      (result.score === previous.score && result.timeMs < previous.timeMs)
+
+    results[result.dateKey] = isNewBest
+      ? { ...result, attempts }
+      : { ...previous, attempts }
+
+    // Trim history to the most recent days
+    const keys = Object.keys(results).sort().reverse()
+    keys.slice(this.MAX_HISTORY_DAYS).forEach(key => delete results[key])
+
+    try {
+      ProfileStore.setItem('dailyChallenge', JSON.stringify(results))
+    } catch (e) {
+      console.warn('Could not save daily challenge result:', e)
+    }
+
+    return isNewBest
+  }
+
+  /**
+   * Get past daily results, newest first
+   */
+  static getHistory(): DailyChallengeResult[] {
+    const results = this.loadResults()
+    return Object.keys(results)
+      .sort()
+      .reverse()
+      .map(key => results[key])
+  }
+
+  /**
+   * Set up the game registry so the next GameScene start is a fresh Daily Challenge run
+   */
+  static prepareRun(registry: Phaser.Data.DataManager, dateKey: string = this.getDateKey()): void {
+    const levels = LevelManager.getDailyChallengeLevels(this.getSeedForDate(dateKey))
+    
+    registry.set('gameMode', 'daily')
+    registry.set('dailyChallengeDate', dateKey)
+    registry.remove('practiceStartLevel')
+    registry.set('currentLevel', levels[0])
+    
+    // Clear anything that would make GameScene treat this as a continue
+    registry.set('isReplay', false)
+    registry.set('isDeathRetry', false)
+    registry.set('levelProgression', false)
+    registry.remove('playerLives')
+    registry.remove('runSeed')
+    registry.remove('runStartTime')
+  }
+  
+  /**
+   * Switch the registry back to normal play
+   */
+  static clearRun(registry: Phaser.Data.DataManager): void {
+    registry.set('gameMode', 'normal')
+    registry.remove('dailyChallengeDate')
+  }
+
+  /**
+   * Format a run duration as M:SS
+   */
+  static formatTime(timeMs: number): string {
+    const totalSeconds = Math.floor(timeMs / 1000)
+    const minutes = Math.floor(totalSeconds / 60)
+    const seconds = totalSeconds % 60
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`
+  }
+}
+
+export default DailyChallengeManager
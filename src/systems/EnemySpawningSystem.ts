@@ -3,6 +3,8 @@
  * Handles weighted enemy spawning based on difficulty scoring
  */
 
+import { GameRandom, SeededRandom } from './SeededRandom'
+
 export enum EnemyType {
   BASEBLU = 'baseblu',         // Blue blocker - very slow, immovable obstacle
   BEETLE = 'beetle',           // Red beetle - simple patrol
@@ -321,8 +323,9 @@ export class EnemySpawningSystem {
 
   /**
    * Select enemies to spawn for a floor
+   * Draws from the seeded 'enemies' stream unless another RNG is supplied
    */
-  static selectEnemiesForFloor(levelNumber: number, floorNumber: number): EnemyType[] {
+  static selectEnemiesForFloor(levelNumber: number, floorNumber: number, rng: SeededRandom = GameRandom.stream('enemies')): EnemyType[] {
     const weights = {...this.getSpawnWeights(levelNumber)} // Clone weights to modify
     const maxEnemies = this.getMaxEnemiesPerFloor(levelNumber)
     const baseBluMaxPerFloor = this.getBaseBluMaxPerFloor(levelNumber)
@@ -331,7 +334,7 @@ export class EnemySpawningSystem {
     // If both Rex and Jumper have weights > 0, choose one for this floor
     if (weights[EnemyType.REX] > 0 && weights[EnemyType.JUMPER] > 0) {
       // Randomly choose which bouncing enemy this floor gets
-      if (Math.random() < 0.5) {
+      if (rng.next() < 0.5) {
         weights[EnemyType.JUMPER] = 0  // No Jumper on Rex floors
       } else {
         weights[EnemyType.REX] = 0      // No Rex on Jumper floors
@@ -349,7 +352,7 @@ export class EnemySpawningSystem {
     } else {
       // Randomly determine actual enemy count (e.g., 2 max becomes 1-2 random)
       const minEnemies = Math.max(1, maxEnemies - 1)
-      actualEnemyCount = Math.floor(Math.random() * 2) + minEnemies
+      actualEnemyCount = Math.floor(rng.next() * 2) + minEnemies
     }
     
     // Keep selecting enemies up to the count
@@ -380,7 +383,7 @@ export class EnemySpawningSystem {
       if (availableTypes.length === 0) break
       
       // Select enemy based on weights
-      const rand = Math.random() * totalWeight
+      const rand = rng.next() * totalWeight
       let cumulativeWeight = 0
       let selectedType: EnemyType | null = null
       
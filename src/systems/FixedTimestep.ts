@@ -0,0 +1,132 @@
+/**
+ * Fixed Timestep for Bizarre Underground
+ * Gameplay advances in fixed-size steps so identical inputs give identical results
+ * on a 30 Hz phone and a 120 Hz desktop. Rendering is interpolated between steps.
+ */
+
+import GameSettings from '../config/GameSettingsLoader'
+
+export class FixedTimestep {
+  readonly stepMs: number
+  private readonly maxStepsPerFrame: number
+  private accumulator: number = 0
+
+  constructor(
+    stepRate: number = GameSettings.simulation.stepRate,
+    maxStepsPerFrame: number = GameSettings.simulation.maxStepsPerFrame
+  ) {
+    this.stepMs = 1000 / stepRate
+    this.maxStepsPerFrame = maxStepsPerFrame
+  }
+
+  /**
+   * Add a frame's elapsed time and return how many steps to simulate this frame
+   */
+  advance(frameDelta: number): number {
+    this.accumulator += frameDelta
+
+    let steps = Math.floor(this.accumulator / this.stepMs)
+    if (steps > this.maxStepsPerFrame) {
+      // Too far behind (tab was hidden, long GC pause) - drop the backlog
+      steps = this.maxStepsPerFrame
+      this.accumulator = 0
+    } else {
+      this.accumulator -= steps * this.stepMs
+    }
+    return steps
+  }
+
+  /**
+   * How far we are between the last step and the next one (0-1), used for render interpolation
+   */
+  getAlpha(): number {
+    return Math.min(1, this.accumulator / this.stepMs)
+  }
+
+  reset(): void {
+    this.accumulator = 0
+  }
+}
+
+type InterpolatedObject = Phaser.GameObjects.GameObject & { x: number, y: number }
+
+interface InterpolationState {
+  prevX: number
+  prevY: number
+  simX: number
+  simY: number
+  renderX: number
+  renderY: number
+}
+
+/**
+ * Draws moving objects between their last two simulated positions
+ * Objects are moved back to their simulated position before each batch of steps,
+ * so physics and gameplay code never see the interpolated values
+ */
+export class RenderInterpolator {
+  private states: Map<InterpolatedObject, InterpolationState> = new Map()
+  private readonly SNAP_DISTANCE = 48 // Larger jumps are teleports (respawn, ladder snap) - don't smear them
+
+  /**
+   * Put tracked objects back at their simulated positions - call before stepping
+   */
+  restore(): void {
+    this.states.forEach((state, obj) => {
+      if (!obj.active || !obj.scene) {
+        this.states.delete(obj)
+        return
+      }
+      // If something else moved the object since we drew it (tween, respawn), keep that position
+      if (obj.x === state.renderX && obj.y === state.renderY) {
+        obj.x = state.simX
+        obj.y = state.simY
+      }
+    })
+  }
+
+  /**
+   * Remember where objects are at the start of a step
+   */
+  beginStep(objects: InterpolatedObject[]): void {
+    objects.forEach(obj => {
+      const state = this.states.get(obj)
+      if (state) {
+        state.prevX = obj.x
+        state.prevY = obj.y
+      } else {
+        this.states.set(obj, {
+          prevX: obj.x, prevY: obj.y,
+          simX: obj.x, simY: obj.y,
+          renderX: obj.x, renderY: obj.y
+        })
+      }
+    })
+  }
+
+  /**
+   * Move objects to their interpolated render position - call after stepping
+   */
+  apply(alpha: number): void {
+    this.states.forEach((state, obj) => {
+      if (!obj.active || !obj.scene) return
+
+      state.simX = obj.x
+      state.simY = obj.y
+
+      const isTeleport = Math.abs(state.simX - state.prevX) > this.SNAP_DISTANCE ||
+        Math.abs(state.simY - state.prevY) > this.SNAP_DISTANCE
+      if (!isTeleport) {
+        obj.x = state.prevX + (state.simX - state.prevX) * alpha
+        obj.y = state.prevY + (state.simY - state.prevY) * alpha
+      }
+
+      state.renderX = obj.x
+      state.renderY = obj.y
+    })
+  }
+
+  clear(): void {
+    this.states.clear()
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * Gem Shop for Bizarre Underground
+ * What the between-level shop sells and what it costs in each chapter
+ * Gems are spent from the run's gem count (coin 1, blue gem 5, diamond 10 - the same count that earns extra lives);
+ * GameScene keeps a separate total of gems spent, so spending never takes back an extra life already earned
+ */
+
+import { ChestLoot, LootChapter } from './ChestLoot'
+import type { PowerUpId } from './PowerUpManager'
+
+export type ShopItemId = 'extraLife' | 'startingPowerUp' | 'chestReroll'
+
+export type ShopPrices = Record<ShopItemId, number>
+
+export class GemShop {
+  static readonly ITEMS: ShopItemId[] = ['extraLife', 'startingPowerUp', 'chestReroll']
+
+  // The crystal ball and pendant only come from pickups, so a replay can always check the kills made with them
+  static readonly STARTING_POWER_UPS: PowerUpId[] = ['magnet', 'shield', 'doubleJump', 'timeFreeze']
+  static readonly POWER_UP_NAMES: Partial<Record<PowerUpId, string>> = {
+    magnet: 'Magnet',
+    shield: 'Shield',
+    doubleJump: 'Double Jump',
+    timeFreeze: 'Time Freeze'
+  }
+
+  static readonly MAX_CHEST_REROLLS = 3 // Rerolls held at once
+
+  // Prices in gems, by the chapter of the level just completed - Beast Mode uses the Galactic prices
+  static readonly PRICES: Record<LootChapter, ShopPrices> = {
+    crystal_cavern:   { extraLife: 120, startingPowerUp: 40, chestReroll: 30 },
+    volcanic_crystal: { extraLife: 150, startingPowerUp: 50, chestReroll: 40 },
+    steampunk:        { extraLife: 180, startingPowerUp: 60, chestReroll: 50 },
+    storm:            { extraLife: 220, startingPowerUp: 75, chestReroll: 60 },
+    galactic:         { extraLife: 260, startingPowerUp: 90, chestReroll: 75 },
+    bonus:            { extraLife: 100, startingPowerUp: 35, chestReroll: 25 }
+  }
+
+  static getPrices(level: number, isBonusLevel: boolean = false): ShopPrices {
+    return this.PRICES[ChestLoot.getChapter(level, isBonusLevel)]
+  }
+
+  /**
+   * The starting power-up on sale for a level - it rotates so each visit offers something different
+   */
+  static getStartingPowerUpOffer(nextLevel: number): PowerUpId {
+    const count = this.STARTING_POWER_UPS.length
+    return this.STARTING_POWER_UPS[((nextLevel - 1) % count + count) % count]
+  }
+
+  static getBalance(gemCount: number, gemsSpent: number): number {
+    return Math.max(0, gemCount - gemsSpent)
+  }
+}
+
+export default GemShop
@@ -0,0 +1,300 @@
+/**
+ * Input Map for Bizarre Underground
+ * Action-based bindings for keyboard keys and gamepad buttons, so the player can rebind them
+ * Player, GamepadControls, MenuOverlay and TestScene ask for an action instead of a key
+ * Saved in the player's profile (ProfileStore 'inputSettings'), next to the audio settings
+ */
+
+import { ProfileStore } from './ProfileStore'
+
+export type InputAction = 'moveLeft' | 'moveRight' | 'climbUp' | 'climbDown' | 'jump' | 'fire' | 'pause' | 'mute'
+
+export interface ActionBinding {
+  keys: string[]     // Phaser KeyCodes names ('W', 'SPACE', 'LEFT'), at most KEY_SLOTS
+  buttons: number[]  // Standard mapping gamepad button indices
+}
+
+export type InputBindings = Record<InputAction, ActionBinding>
+
+interface StoredInputSettings {
+  version: number
+  bindings: InputBindings
+}
+
+export class InputMap {
+  static readonly VERSION = 1
+  static readonly KEY_SLOTS = 3
+
+  static readonly ACTIONS: InputAction[] = ['moveLeft', 'moveRight', 'climbUp', 'climbDown', 'jump', 'fire', 'pause', 'mute']
+
+  static readonly ACTION_LABELS: Record<InputAction, string> = {
+    moveLeft: 'LEFT',
+    moveRight: 'RIGHT',
+    climbUp: 'UP',
+    climbDown: 'DOWN',
+    jump: 'JUMP',
+    fire: 'THROW',
+    pause: 'MENU',
+    mute: 'MUTE'
+  }
+
+  // The controls the game has always shipped with (Q/V/M fire, so mute goes on N)
+  static readonly DEFAULTS: InputBindings = {
+    moveLeft: { keys: ['LEFT', 'A'], buttons: [14] },
+    moveRight: { keys: ['RIGHT', 'D'], buttons: [15] },
+    climbUp: { keys: ['UP', 'W'], buttons: [12] },
+    climbDown: { keys: ['DOWN', 'S'], buttons: [13] },
+    jump: { keys: ['SPACE', 'E'], buttons: [0] },
+    fire: { keys: ['Q', 'V', 'M'], buttons: [1, 2] },
+    pause: { keys: ['ESC'], buttons: [9] },
+    mute: { keys: ['N'], buttons: [8] }
+  }
+
+  private static bindings: InputBindings | null = null
+
+  static getBindings(): InputBindings {
+    if (!this.bindings) {
+      this.bindings = this.load()
+    }
+    return this.bindings
+  }
+
+  static getKeys(action: InputAction): string[] {
+    return this.getBindings()[action].keys
+  }
+
+  static getButtons(action: InputAction): number[] {
+    return this.getBindings()[action].buttons
+  }
+
+  /**
+   * The scene's Key objects for an action - addKey hands back the existing key after the first call
+   */
+  static getKeyObjects(keyboard: Phaser.Input.Keyboard.KeyboardPlugin, action: InputAction): Phaser.Input.Keyboard.Key[] {
+    return this.getKeys(action)
+      .filter(name => name in Phaser.Input.Keyboard.KeyCodes)
+      .map(name => keyboard.addKey(name))
+  }
+
+  /**
+   * Any key for the action is held
+   */
+  static isDown(keyboard: Phaser.Input.Keyboard.KeyboardPlugin, action: InputAction): boolean {
+    return this.getKeyObjects(keyboard, action).some(key => key.isDown)
+  }
+
+  /**
+   * Any key for the action went down since the last check - consumes JustDown on every key
+   */
+  static isJustDown(keyboard: Phaser.Input.Keyboard.KeyboardPlugin, action: InputAction): boolean {
+    return this.getKeyObjects(keyboard, action)
+      .map(key => Phaser.Input.Keyboard.JustDown(key))
+      .some(Boolean)
+  }
+
+  /**
+   * Whether a keydown event's key is bound to the action (for event-driven actions like pause and mute)
+   */
+  static matchesKeyCode(action: InputAction, keyCode: number): boolean {
+    return this.getKeys(action).some(name => this.getKeyCode(name) === keyCode)
+  }
+
+  /**
+   * The action a key is bound to, if any - lets debug shortcuts stay out of the way of rebound keys
+   */
+  static getActionForKeyCode(keyCode: number): InputAction | null {
+    return this.ACTIONS.find(action => this.matchesKeyCode(action, keyCode)) || null
+  }
+
+  static getKeyCode(name: string): number | undefined {
+    return (Phaser.Input.Keyboard.KeyCodes as Record<string, number>)[name]
+  }
+
+  /**
+   * KeyCodes name for a key code, or null for keys Phaser doesn't name
+   */
+  static getKeyName(keyCode: number): string | null {
+    const codes = Phaser.Input.Keyboard.KeyCodes as Record<string, number>
+    return Object.keys(codes).find(name => codes[name] === keyCode) || null
+  }
+
+  /**
+   * Short label for a key name that fits a binding slot
+   */
+  static formatKey(name: string): string {
+    const short = name
+      .replace('NUMPAD_', 'NUM')
+      .replace('BACKTICK', '`')
+      .replace('PAGE_', 'PG')
+      .replace('_', '')
+    return short.length > 6 ? short.slice(0, 6) : short
+  }
+
+  /**
+   * 'SPACE or E', 'Q, V or M' - for instruction text
+   */
+  static describeKeys(action: InputAction): string {
+    const names = this.getKeys(action).map(name => this.formatKey(name))
+    if (names.length === 0) return 'unbound'
+    if (names.length === 1) return names[0]
+    return `${names.slice(0, -1).join(', ')} or ${names[names.length - 1]}`
+  }
+
+  /**
+   * Put a key in an action's slot (null clears it). A key used by another action is swapped with
+   * whatever was in this slot, so no key ends up on two actions
+   * Returns a note for the player when another binding changed, otherwise null
+   */
+  static bindKey(action: InputAction, slot: number, name: string | null): string | null {
+    const bindings = this.cloneBindings(this.getBindings())
+    const keys = bindings[action].keys
+    const previous = keys[slot] || null
+    let note: string | null = null
+
+    if (name) {
+      const owner = this.ACTIONS.find(other => bindings[other].keys.includes(name))
+      if (owner) {
+        const ownerKeys = bindings[owner].keys
+        const ownerSlot = ownerKeys.indexOf(name)
+        if (owner === action && ownerSlot === slot) return null
+
+        if (previous) {
+          ownerKeys[ownerSlot] = previous
+        } else {
+          ownerKeys.splice(ownerSlot, 1)
+        }
+
+        if (owner !== action) {
+          note = ownerKeys.length === 0 && bindings[owner].buttons.length === 0
+            ? `${this.ACTION_LABELS[owner]} has no binding now`
+            : `${this.formatKey(name)} ${previous ? 'swapped with' : 'moved from'} ${this.ACTION_LABELS[owner]}`
+        }
+      }
+    }
+
+    if (!name) {
+      if (previous) keys.splice(slot, 1)
+    } else if (slot < keys.length) {
+      keys[slot] = name
+    } else {
+      keys.push(name)
+    }
+    bindings[action].keys = keys.slice(0, this.KEY_SLOTS)
+
+    this.setBindings(bindings)
+    return note
+  }
+
+  /**
+   * Bind a single gamepad button to an action (null clears it), taking it off any other action
+   */
+  static bindButton(action: InputAction, button: number | null): string | null {
+    const bindings = this.cloneBindings(this.getBindings())
+    let note: string | null = null
+
+    if (button !== null) {
+      const owner = this.ACTIONS.find(other => other !== action && bindings[other].buttons.includes(button))
+      if (owner) {
+        bindings[owner].buttons = bindings[owner].buttons.filter(other => other !== button)
+        note = bindings[owner].buttons.length === 0 && bindings[owner].keys.length === 0
+          ? `${this.ACTION_LABELS[owner]} has no binding now`
+          : `Button moved from ${this.ACTION_LABELS[owner]}`
+      }
+    }
+
+    bindings[action].buttons = button === null ? [] : [button]
+    this.setBindings(bindings)
+    return note
+  }
+
+  static reset(): void {
+    this.setBindings(this.cloneBindings(this.DEFAULTS))
+    console.log('🎮 Controls reset to defaults')
+  }
+
+  /**
+   * Keys or buttons bound to more than one action - a valid map has none
+   */
+  static findConflicts(bindings: InputBindings): string[] {
+    const conflicts: string[] = []
+    const keyOwners = new Map<string, InputAction>()
+    const buttonOwners = new Map<number, InputAction>()
+
+    this.ACTIONS.forEach(action => {
+      bindings[action].keys.forEach(name => {
+        const owner = keyOwners.get(name)
+        if (owner && owner !== action) conflicts.push(`${name} is bound to ${owner} and ${action}`)
+        keyOwners.set(name, action)
+      })
+      bindings[action].buttons.forEach(button => {
+        const owner = buttonOwners.get(button)
+        if (owner !== undefined && owner !== action) conflicts.push(`Button ${button} is bound to ${owner} and ${action}`)
+        buttonOwners.set(button, action)
+      })
+    })
+
+    return conflicts
+  }
+
+  private static setBindings(bindings: InputBindings): void {
+    this.bindings = bindings
+    this.save()
+  }
+
+  private static load(): InputBindings {
+    try {
+      const saved = ProfileStore.getItem('inputSettings')
+      if (!saved) return this.cloneBindings(this.DEFAULTS)
+
+      const settings = JSON.parse(saved) as StoredInputSettings
+      if (settings.version !== this.VERSION || !settings.bindings) {
+        console.warn(`🎮 Unknown input settings version ${settings.version}, using default controls`)
+        return this.cloneBindings(this.DEFAULTS)
+      }
+
+      // Actions added since the map was saved get their defaults
+      const bindings = this.cloneBindings(this.DEFAULTS)
+      this.ACTIONS.forEach(action => {
+        const binding = settings.bindings[action]
+        if (binding && Array.isArray(binding.keys) && Array.isArray(binding.buttons)) {
+          bindings[action] = {
+            keys: binding.keys.filter(name => this.getKeyCode(name) !== undefined).slice(0, this.KEY_SLOTS),
+            buttons: binding.buttons.filter(button => Number.isInteger(button))
+          }
+        }
+      })
+
+      const conflicts = this.findConflicts(bindings)
+      if (conflicts.length > 0) {
+        console.warn('🎮 Saved controls conflict, using default controls:', conflicts)
+        return this.cloneBindings(this.DEFAULTS)
+      }
+      return bindings
+    } catch (e) {
+      console.warn('🎮 Could not load input settings:', e)
+      return this.cloneBindings(this.DEFAULTS)
+    }
+  }
+
+  private static save(): void {
+    const settings: StoredInputSettings = {
+      version: this.VERSION,
+      bindings: this.getBindings()
+    }
+    try {
+      ProfileStore.setItem('inputSettings', JSON.stringify(settings))
+    } catch (e) {
+      console.warn('🎮 Could not save input settings:', e)
+    }
+  }
+
+  private static cloneBindings(bindings: InputBindings): InputBindings {
+    const clone = {} as InputBindings
+    this.ACTIONS.forEach(action => {
+      clone[action] = { keys: bindings[action].keys.slice(), buttons: bindings[action].buttons.slice() }
+    })
+    return clone
+  }
+}
+
+export default InputMap
@@ -0,0 +1,287 @@
+/**
+ * Leaderboards for Bizarre Underground
+ * Pluggable score boards - one per mode (normal, beast mode) plus one per daily challenge day
+ * LocalLeaderboardProvider keeps scores on this device, HttpLeaderboardProvider talks to a shared
+ * server (scripts/leaderboard-server.js is the reference implementation for development)
+ */
+
+import GameSettings from '../config/GameSettingsLoader'
+import type { ScoreAttestation } from './ScoreAttestation'
+import { ProfileStore } from './ProfileStore'
+
+export type LeaderboardMode = 'normal' | 'beast' | 'daily'
+
+export interface LeaderboardBoard {
+  mode: LeaderboardMode
+  dailyChallengeDate?: string // Daily boards are per day
+}
+
+export interface LeaderboardSubmission {
+  playerId: string
+  name: string
+  score: number
+  level: number
+  enemies: number
+  gems: number
+  practiceStart?: number         // Level a practice run started on - full runs leave it out
+  attestation?: ScoreAttestation // Wallet-signed run summary, when the player has a wallet connected
+}
+
+export interface LeaderboardEntry extends Omit<LeaderboardSubmission, 'attestation'> {
+  rank: number      // 1-based
+  timestamp: number
+  verified?: boolean // The server checked a signed run summary for this score
+}
+
+export interface LeaderboardProvider {
+  readonly name: string
+
+  /**
+   * Record a finished run - resolves to the run's place on the board, or null if it couldn't be saved
+   */
+  submit(board: LeaderboardBoard, submission: LeaderboardSubmission): Promise<LeaderboardEntry | null>
+
+  getTop(board: LeaderboardBoard, limit: number): Promise<LeaderboardEntry[]>
+
+  /**
+   * The player's best entry with up to `range` entries either side of it - empty if they aren't on the board
+   */
+  getAroundPlayer(board: LeaderboardBoard, playerId: string, range: number): Promise<LeaderboardEntry[]>
+}
+
+// Entries as stored in 'bz_walletScores' - older saves have no mode and count as the normal board
+interface StoredScore {
+  address?: string
+  playerId?: string
+  name?: string
+  board?: string
+  score: number
+  timestamp: number
+  level: number
+  enemies: number
+  gems: number
+  practiceStart?: number
+  attestation?: ScoreAttestation
+}
+
+/**
+ * Scores saved in the player's profile under 'bz_walletScores' - the format Web3Manager has always written
+ * Every run counts, so one player can hold several places
+ */
+export class LocalLeaderboardProvider implements LeaderboardProvider {
+  readonly name = 'local'
+
+  private static readonly SCORES_PER_PLAYER = 10 // Per board
+
+  async submit(board: LeaderboardBoard, submission: LeaderboardSubmission): Promise<LeaderboardEntry | null> {
+    const boardKey = Leaderboards.getBoardKey(board)
+    const scores = this.loadScores()
+    const timestamp = Date.now()
+
+    // Keep each player's best runs per board
+    const own = (scores[submission.playerId] || []).concat({ ...submission, board: boardKey, timestamp })
+    const onBoard = own.filter(score => this.getBoardOf(score) === boardKey)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, LocalLeaderboardProvider.SCORES_PER_PLAYER)
+    scores[submission.playerId] = own.filter(score => this.getBoardOf(score) !== boardKey).concat(onBoard)
+
+    try {
+      ProfileStore.setItem('walletScores', JSON.stringify(scores))
+    } catch (e) {
+      console.warn('🏆 Could not save leaderboard score:', e)
+      return null
+    }
+
+    return this.getRanked(scores, boardKey)
+      .find(entry => entry.playerId === submission.playerId && entry.timestamp === timestamp) || null
+  }
+
+  async getTop(board: LeaderboardBoard, limit: number): Promise<LeaderboardEntry[]> {
+    return this.getRanked(this.loadScores(), Leaderboards.getBoardKey(board)).slice(0, limit)
+  }
+
+  async getAroundPlayer(board: LeaderboardBoard, playerId: string, range: number): Promise<LeaderboardEntry[]> {
+    return Leaderboards.sliceAround(this.getRanked(this.loadScores(), Leaderboards.getBoardKey(board)), playerId, range)
+  }
+
+  private loadScores(): { [playerId: string]: StoredScore[] } {
+    try {
+      return JSON.parse(ProfileStore.getItem('walletScores') || '{}')
+    } catch (e) {
+      console.warn('🏆 Could not load leaderboard scores:', e)
+      return {}
+    }
+  }
+
+  private getBoardOf(score: StoredScore): string {
+    return score.board || 'normal'
+  }
+
+  private getRanked(scores: { [playerId: string]: StoredScore[] }, boardKey: string): LeaderboardEntry[] {
+    const entries: Omit<LeaderboardEntry, 'rank'>[] = []
+    Object.entries(scores).forEach(([playerId, playerScores]) => {
+      playerScores.filter(score => this.getBoardOf(score) === boardKey).forEach(score => {
+        entries.push({
+          playerId,
+          name: score.name || Leaderboards.getDefaultName(playerId),
+          score: score.score,
+          level: score.level,
+          enemies: score.enemies,
+          gems: score.gems,
+          practiceStart: score.practiceStart,
+          timestamp: score.timestamp
+        })
+      })
+    })
+    return Leaderboards.rank(entries)
+  }
+}
+
+/**
+ * Scores kept by a leaderboard server - see scripts/leaderboard-server.js for the API
+ */
+export class HttpLeaderboardProvider implements LeaderboardProvider {
+  readonly name = 'http'
+
+  private static readonly TIMEOUT = 5000
+
+  constructor(private baseUrl: string) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '')
+  }
+
+  async submit(board: LeaderboardBoard, submission: LeaderboardSubmission): Promise<LeaderboardEntry | null> {
+    return this.request<LeaderboardEntry>(`${this.getBoardUrl(board)}/scores`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(submission)
+    })
+  }
+
+  async getTop(board: LeaderboardBoard, limit: number): Promise<LeaderboardEntry[]> {
+    return await this.request<LeaderboardEntry[]>(`${this.getBoardUrl(board)}/top?limit=${limit}`) || []
+  }
+
+  async getAroundPlayer(board: LeaderboardBoard, playerId: string, range: number): Promise<LeaderboardEntry[]> {
+    const url = `${this.getBoardUrl(board)}/around/${encodeURIComponent(playerId)}?range=${range}`
+    return await this.request<LeaderboardEntry[]>(url) || []
+  }
+
+  private getBoardUrl(board: LeaderboardBoard): string {
+    return `${this.baseUrl}/boards/${encodeURIComponent(Leaderboards.getBoardKey(board))}`
+  }
+
+  private async request<T>(url: string, init: RequestInit = {}): Promise<T | null> {
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), HttpLeaderboardProvider.TIMEOUT)
+
+    try {
+      const response = await fetch(url, { ...init, signal: controller.signal })
+      if (!response.ok) {
+        console.warn(`🏆 Leaderboard server returned ${response.status} for ${url}`)
+        return null
+      }
+      return await response.json() as T
+    } catch (e) {
+      console.warn('🏆 Leaderboard server unavailable:', e)
+      return null
+    } finally {
+      clearTimeout(timeout)
+    }
+  }
+}
+
+/**
+ * Access point for the active provider, board naming and the local player's identity
+ */
+export class Leaderboards {
+  private static provider: LeaderboardProvider | null = null
+
+  /**
+   * The configured provider - a server when GameSettings.leaderboard.url or ?leaderboard=<url> is set,
+   * otherwise scores stay on this device
+   */
+  static getProvider(): LeaderboardProvider {
+    if (!this.provider) {
+      const url = this.getUrlOverride() || GameSettings.leaderboard.url
+      this.provider = url ? new HttpLeaderboardProvider(url) : new LocalLeaderboardProvider()
+      console.log(`🏆 Leaderboard provider: ${this.provider.name}${url ? ` (${url})` : ''}`)
+    }
+    return this.provider
+  }
+
+  static setProvider(provider: LeaderboardProvider): void {
+    this.provider = provider
+  }
+
+  /**
+   * Board a run belongs to - daily challenges get their own board per day, levels past 50 are beast mode
+   */
+  static getBoardForRun(level: number, dailyChallengeDate?: string | null): LeaderboardBoard {
+    if (dailyChallengeDate) {
+      return { mode: 'daily', dailyChallengeDate }
+    }
+    return { mode: level >= 51 ? 'beast' : 'normal' }
+  }
+
+  static getBoardKey(board: LeaderboardBoard): string {
+    return board.mode === 'daily' ? `daily-${board.dailyChallengeDate}` : board.mode
+  }
+
+  static getBoardTitle(board: LeaderboardBoard): string {
+    switch (board.mode) {
+      case 'beast': return 'BEAST MODE'
+      case 'daily': return `DAILY ${board.dailyChallengeDate}`
+      default: return 'TOP SCORES'
+    }
+  }
+
+  /**
+   * Wallet address when one is connected, otherwise an anonymous id kept on this device
+   */
+  static getPlayerId(walletAddress?: string | null): string {
+    if (walletAddress) return walletAddress
+
+    let playerId = ProfileStore.getItem('playerId')
+    if (!playerId) {
+      playerId = `p_${Math.random().toString(36).slice(2, 10)}`
+      ProfileStore.setItem('playerId', playerId)
+    }
+    return playerId
+  }
+
+  static getDefaultName(playerId: string): string {
+    if (playerId.startsWith('0x')) {
+      return `${playerId.slice(0, 6)}...${playerId.slice(-4)}`
+    }
+    return `PLAYER-${playerId.slice(-4).toUpperCase()}`
+  }
+
+  /**
+   * Sort by score (earlier runs win ties) and number the places
+   */
+  static rank(entries: Omit<LeaderboardEntry, 'rank'>[]): LeaderboardEntry[] {
+    return entries
+      .slice()
+      .sort((a, b) => b.score - a.score || a.timestamp - b.timestamp)
+      .map((entry, index) => ({ ...entry, rank: index + 1 }))
+  }
+
+  /**
+   * The player's best place on a ranked board with `range` entries either side
+   */
+  static sliceAround(ranked: LeaderboardEntry[], playerId: string, range: number): LeaderboardEntry[] {
+    const index = ranked.findIndex(entry => entry.playerId === playerId)
+    if (index < 0) return []
+    return ranked.slice(Math.max(0, index - range), index + range + 1)
+  }
+
+  private static getUrlOverride(): string | null {
+    try {
+      return new URLSearchParams(window.location.search).get('leaderboard')
+    } catch (e) {
+      return null
+    }
+  }
+}
+
+export default Leaderboards
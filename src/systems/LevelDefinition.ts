@@ -0,0 +1,254 @@
+/**
+ * Level Definitions for Bizarre Underground
+ * JSON format for hand-authored levels (tutorials, chapter finales) and the registry LevelManager reads them from
+ * An authored level replaces the procedural layout, enemies, ceiling spikes, collectibles and door for its level number
+ *
+ * All positions are tile columns (0 to GameSettings.game.floorWidth - 1), floors count up from 0 (ground floor)
+ * and the door always sits on the last floor. Example:
+ *
+ * {
+ *   "version": 1,
+ *   "levelNumber": 1,
+ *   "name": "First Steps",
+ *   "door": { "x": 10 },
+ *   "floors": [
+ *     { "ladders": [4, 18] },
+ *     { "gap": { "start": 8, "size": 2 }, "ladders": [15], "collectibles": [{ "type": "coin", "x": 3 }] },
+ *     { "ceilingSpikes": [6], "enemies": [{ "type": "chomper", "x": 12 }], "chests": [9] },
+ *     {}
+ *   ]
+ * }
+ */
+
+import GameSettings from '../config/GameSettingsLoader'
+import { EnemyType } from './EnemySpawningSystem'
+import { BUNDLED_LEVELS } from '../levels'
+import { downloadJson, pickJsonFile } from '../utils/JsonFiles'
+
+export const LEVEL_DEFINITION_VERSION = 1
+
+/**
+ * Collectibles that can be placed directly (treasure chests have their own list)
+ */
+export type CollectibleType =
+  'coin' | 'blueCoin' | 'diamond' | 'freeLife' | 'invincibilityPendant' |
+  'crystalBall' | 'cursedOrb' | 'cursedTealOrb' |
+  'magnet' | 'shield' | 'doubleJump' | 'timeFreeze'
+
+export const COLLECTIBLE_TYPES: CollectibleType[] = [
+  'coin', 'blueCoin', 'diamond', 'freeLife', 'invincibilityPendant',
+  'crystalBall', 'cursedOrb', 'cursedTealOrb',
+  'magnet', 'shield', 'doubleJump', 'timeFreeze'
+]
+
+export interface EnemyPlacement {
+  type: EnemyType                          // EnemySpawningSystem type id, e.g. "chomper", "baseblu", "rex"
+  x: number                                // Spawn column
+  patrol?: { left: number, right: number } // Patrol bounds in columns (defaults to the full floor)
+}
+
+export interface CollectiblePlacement {
+  type: CollectibleType
+  x: number
+}
+
+export interface FloorDefinition {
+  gap?: { start: number, size: number, spikes?: boolean } // One gap per floor, filled with spikes unless spikes is false
+  ladders?: number[]             // Ladders from this floor up to the next one
+  ceilingSpikes?: number[]       // Spikes hanging from the underside of the floor above
+  enemies?: EnemyPlacement[]
+  collectibles?: CollectiblePlacement[]
+  chests?: number[]              // Treasure chest columns
+}
+
+export interface LevelDefinition {
+  version: number
+  levelNumber: number            // Level slot this definition replaces (1-50)
+  name?: string
+  floors: FloorDefinition[]      // Index 0 is the ground floor, the last floor holds the door
+  door: { x: number }            // Leftmost column of the 3-tile door on the last floor
+}
+
+export class LevelDefinitions {
+  private static readonly MAX_LEVEL = 50
+  private static readonly DOOR_WIDTH = 3
+  private static levels: Map<number, LevelDefinition> | null = null
+
+  /**
+   * Register an authored level - replaces any definition already registered for that level number
+   * Returns the problems found; invalid definitions are not registered
+   */
+  static register(definition: LevelDefinition): string[] {
+    const errors = this.validate(definition)
+    if (errors.length > 0) {
+      console.warn(`📐 Level definition for level ${definition?.levelNumber} rejected:`, errors)
+      return errors
+    }
+    this.getLevels().set(definition.levelNumber, definition)
+    console.log(`📐 Registered authored level ${definition.levelNumber}${definition.name ? ` "${definition.name}"` : ''}`)
+    return []
+  }
+
+  static unregister(levelNumber: number): void {
+    this.getLevels().delete(levelNumber)
+  }
+
+  /**
+   * Get the authored level for a level number, if there is one
+   */
+  static get(levelNumber: number): LevelDefinition | null {
+    return this.getLevels().get(levelNumber) || null
+  }
+
+  static getAll(): LevelDefinition[] {
+    return Array.from(this.getLevels().values()).sort((a, b) => a.levelNumber - b.levelNumber)
+  }
+
+  /**
+   * Parse and validate a level definition from JSON
+   */
+  static parse(json: string): LevelDefinition | null {
+    try {
+      const definition = JSON.parse(json) as LevelDefinition
+      const errors = this.validate(definition)
+      if (errors.length > 0) {
+        console.warn('📐 Invalid level definition:', errors)
+        return null
+      }
+      return definition
+    } catch (e) {
+      console.warn('📐 Could not read level definition:', e)
+      return null
+    }
+  }
+
+  /**
+   * Serialize a definition the same way authored level files are stored
+   */
+  static stringify(definition: LevelDefinition): string {
+    return JSON.stringify(definition, null, 2)
+  }
+
+  /**
+   * Download a definition as a JSON level file
+   */
+  static exportLevel(definition: LevelDefinition): void {
+    downloadJson(`bizarre-underground-level-${definition.levelNumber}.json`, this.stringify(definition))
+  }
+
+  /**
+   * Let the user pick a level file to load
+   */
+  static promptImport(): Promise<LevelDefinition | null> {
+    return pickJsonFile()
+      .then(json => json === null ? null : this.parse(json))
+      .catch(e => {
+        console.warn('📐 Could not read level file:', e)
+        return null
+      })
+  }
+
+  /**
+   * Check a definition against the schema and the layout rules GameScene relies on
+   * Returns a list of human-readable problems (empty if the definition is valid)
+   */
+  static validate(definition: LevelDefinition, floorWidth: number = GameSettings.game.floorWidth): string[] {
+    const errors: string[] = []
+    if (!definition || typeof definition !== 'object') {
+      return ['Definition must be an object']
+    }
+    if (definition.version !== LEVEL_DEFINITION_VERSION) {
+      errors.push(`Unsupported version ${definition.version} (expected ${LEVEL_DEFINITION_VERSION})`)
+    }
+    if (!Number.isInteger(definition.levelNumber) || definition.levelNumber < 1 || definition.levelNumber > this.MAX_LEVEL) {
+      errors.push(`levelNumber must be between 1 and ${this.MAX_LEVEL}`)
+    }
+    if (!Array.isArray(definition.floors) || definition.floors.length < 2) {
+      errors.push('floors must list at least 2 floors')
+      return errors
+    }
+
+    const isColumn = (x: any) => Number.isInteger(x) && x >= 0 && x < floorWidth
+    const enemyTypes = Object.values(EnemyType) as string[]
+    const topFloor = definition.floors.length - 1
+
+    definition.floors.forEach((floor, index) => {
+      const where = `floors[${index}]`
+      const gap = floor.gap
+      if (gap) {
+        if (index === 0) {
+          errors.push(`${where}: the ground floor cannot have a gap`)
+        } else if (!isColumn(gap.start) || !Number.isInteger(gap.size) || gap.size < 1 || gap.start + gap.size > floorWidth) {
+          errors.push(`${where}: gap must fit inside the floor`)
+        }
+      }
+      const isSolid = (f: FloorDefinition | undefined, x: number) =>
+        !f?.gap || x < f.gap.start || x >= f.gap.start + f.gap.size
+
+      ;(floor.ladders || []).forEach(x => {
+        if (!isColumn(x)) {
+          errors.push(`${where}: ladder column ${x} is off the floor`)
+        } else if (index === topFloor) {
+          errors.push(`${where}: ladders cannot lead past the door floor`)
+        } else if (!isSolid(floor, x) || !isSolid(definition.floors[index + 1], x)) {
+          errors.push(`${where}: ladder at column ${x} needs solid ground on both floors`)
+        }
+      })
+
+      ;(floor.ceilingSpikes || []).forEach(x => {
+        if (!isColumn(x)) errors.push(`${where}: ceiling spike column ${x} is off the floor`)
+        if (index === topFloor) errors.push(`${where}: the door floor has no ceiling above it`)
+      })
+
+      ;(floor.enemies || []).forEach((enemy, i) => {
+        if (!enemy || !enemyTypes.includes(enemy.type)) {
+          errors.push(`${where}.enemies[${i}]: unknown enemy type "${enemy?.type}"`)
+        }
+        if (!isColumn(enemy?.x)) errors.push(`${where}.enemies[${i}]: column ${enemy?.x} is off the floor`)
+        if (enemy?.patrol && !(isColumn(enemy.patrol.left) && isColumn(enemy.patrol.right) && enemy.patrol.left < enemy.patrol.right)) {
+          errors.push(`${where}.enemies[${i}]: patrol bounds must be columns with left < right`)
+        }
+      })
+
+      ;(floor.collectibles || []).forEach((item, i) => {
+        if (!item || !COLLECTIBLE_TYPES.includes(item.type)) {
+          errors.push(`${where}.collectibles[${i}]: unknown collectible type "${item?.type}"`)
+        }
+        if (!isColumn(item?.x)) errors.push(`${where}.collectibles[${i}]: column ${item?.x} is off the floor`)
+      })
+
+      ;(floor.chests || []).forEach(x => {
+        if (!isColumn(x)) errors.push(`${where}: chest column ${x} is off the floor`)
+        else if (!isSolid(floor, x)) errors.push(`${where}: chest at column ${x} is over the gap`)
+      })
+    })
+
+    const door = definition.door
+    if (!door || !Number.isInteger(door.x) || door.x < 0 || door.x + this.DOOR_WIDTH > floorWidth) {
+      errors.push(`door.x must leave room for the ${this.DOOR_WIDTH}-tile door`)
+    } else {
+      const doorFloor = definition.floors[topFloor]
+      for (let x = door.x; x < door.x + this.DOOR_WIDTH; x++) {
+        if (doorFloor.gap && x >= doorFloor.gap.start && x < doorFloor.gap.start + doorFloor.gap.size) {
+          errors.push('door must stand on solid ground')
+          break
+        }
+      }
+    }
+
+    return errors
+  }
+
+  /**
+   * Registered levels, seeded with the levels bundled in src/levels on first use
+   */
+  private static getLevels(): Map<number, LevelDefinition> {
+    if (!this.levels) {
+      this.levels = new Map()
+      BUNDLED_LEVELS.forEach(definition => this.register(definition))
+    }
+    return this.levels
+  }
+}
+
+export default LevelDefinitions
@@ -0,0 +1,360 @@
+/**
+ * Level Generator for Bizarre Underground
+ * Plans a level's floors, gaps, ladders and door as plain data, without creating any game objects
+ * GameScene builds sprites from the plan; LevelValidator and the headless tools inspect it directly
+ */
+
+import { SeededRandom } from './SeededRandom'
+import { LevelDefinition } from './LevelDefinition'
+
+export interface FloorLayout {
+  gapStart: number // -1 when the floor has no gap
+  gapSize: number
+}
+
+export interface LevelLayout {
+  floorWidth: number
+  floors: FloorLayout[]
+  gapSpikes: boolean[]           // Per floor - spiked gaps kill, open gaps drop the player to the floor below
+  ladders: Map<number, number[]> // floor -> columns of ladders leading up to floor + 1
+  doorFloor: number              // -1 for endless levels
+}
+
+export interface LayoutOptions {
+  floorWidth: number
+  numFloors: number
+  doorFloor: number
+  isBonusLevel: boolean
+  isEndless: boolean
+}
+
+export class LevelGenerator {
+  static readonly DOOR_WIDTH = 3 // Door takes up about 3 tiles width
+
+  /**
+   * Plan floors, gaps and ladders for a procedural level
+   * Only draws from the rng passed in (the 'layout' stream), so enemies and collectibles never shift
+   */
+  static generateLayout(rng: SeededRandom, options: LayoutOptions): LevelLayout {
+    const { floorWidth, numFloors, doorFloor, isBonusLevel, isEndless } = options
+
+    // Track ladder positions and floor layouts for cat placement
+    const ladderPositions: number[] = []
+    const floorLayouts: FloorLayout[] = []
+
+    // First plan all platforms with random gaps
+    this.planFloors(rng, floorWidth, isBonusLevel, floorLayouts, ladderPositions, 0, numFloors)
+
+    const ladders = new Map<number, number[]>()
+    const layout: LevelLayout = {
+      floorWidth,
+      floors: floorLayouts,
+      gapSpikes: floorLayouts.map(() => !isBonusLevel),
+      ladders,
+      doorFloor: isEndless ? -1 : doorFloor
+    }
+
+    // Plan ladders ensuring solid ground above and below, clear of spike gaps
+    // Allow ladders TO the door floor, but not FROM or past it
+    this.planLadders(layout, rng, 0, numFloors - 1, true)
+
+    return layout
+  }
+
+  /**
+   * Plan more floors for an endless level, above the top floor already built
+   * The chunk's floor 0 is a copy of that top floor and its ladders lead up to the first new floor -
+   * validate the chunk with the player starting where they arrive on that floor, then build floors 1 and up
+   */
+  static generateChunk(rng: SeededRandom, topFloor: FloorLayout, topFloorSpikes: boolean, floorWidth: number, numFloors: number): LevelLayout {
+    const floorLayouts: FloorLayout[] = [{ ...topFloor }]
+    const ladderPositions: number[] = [-1]
+    this.planFloors(rng, floorWidth, false, floorLayouts, ladderPositions, 1, numFloors + 1)
+
+    const layout: LevelLayout = {
+      floorWidth,
+      floors: floorLayouts,
+      gapSpikes: floorLayouts.map((_, floor) => floor === 0 ? topFloorSpikes : true),
+      ladders: new Map<number, number[]>(),
+      doorFloor: -1
+    }
+    this.planLadders(layout, rng, 0, numFloors, false)
+    return layout
+  }
+
+  /**
+   * Pick each floor's gap (and a preferred ladder column) from fromFloor up to, not including, toFloor
+   */
+  private static planFloors(
+    rng: SeededRandom,
+    floorWidth: number,
+    isBonusLevel: boolean,
+    floorLayouts: FloorLayout[],
+    ladderPositions: number[],
+    fromFloor: number,
+    toFloor: number
+  ): void {
+    for (let floor = fromFloor; floor < toFloor; floor++) {
+      if (floor === 0) {
+        // Ground floor - complete platform
+        // Ground floor can have ladders at multiple positions
+        ladderPositions[floor] = -1 // Special marker for ground floor
+        floorLayouts[floor] = { gapStart: -1, gapSize: 0 } // No gap
+      } else {
+        // Upper floors - create platforms with random gaps (except bonus levels)
+        const hasGap = !isBonusLevel && rng.next() > 0.3 // 70% chance of having a gap (never for bonus levels)
+
+        if (hasGap) {
+          // Random gap position (avoiding edges)
+          const gapStart = Math.floor(rng.next() * (floorWidth - 5)) + 2
+          const gapSize = Math.floor(rng.next() * 2) + 2 // Gap of 2-3 tiles
+
+          // Store gap info for cat placement
+          floorLayouts[floor] = { gapStart, gapSize }
+
+          // Store safe ladder positions (not in or next to gaps)
+          const leftSafe = gapStart > 3 ? Math.floor(rng.next() * (gapStart - 1)) + 1 : -1
+          const rightSafe = gapStart + gapSize < floorWidth - 2 ?
+            Math.floor(rng.next() * (floorWidth - gapStart - gapSize - 2)) + gapStart + gapSize + 1 : -1
+
+          // Better distribution - divide floor into thirds and alternate sections
+          const floorThird = floorWidth / 3
+          const prevPos = floor > 1 ? ladderPositions[floor - 1] : -1
+
+          let targetSection = Math.floor(rng.next() * 3) // 0=left, 1=middle, 2=right
+
+          // If previous ladder exists, prefer different section
+          if (prevPos !== -1) {
+            const prevSection = Math.floor(prevPos / floorThird)
+            const otherSections = [0, 1, 2].filter(s => s !== prevSection)
+            targetSection = otherSections[Math.floor(rng.next() * otherSections.length)]
+          }
+
+          // Find safe positions in target section
+          const sectionStart = Math.floor(targetSection * floorThird)
+          const sectionEnd = Math.floor((targetSection + 1) * floorThird)
+          const sectionSafe = []
+
+          if (leftSafe !== -1 && leftSafe >= sectionStart && leftSafe < sectionEnd) sectionSafe.push(leftSafe)
+          if (rightSafe !== -1 && rightSafe >= sectionStart && rightSafe < sectionEnd) sectionSafe.push(rightSafe)
+
+          // Use section position if available, otherwise use any safe position
+          ladderPositions[floor] = sectionSafe.length > 0 ?
+            sectionSafe[Math.floor(rng.next() * sectionSafe.length)] :
+            (rightSafe !== -1 ? rightSafe : leftSafe)
+        } else {
+          // No gap - complete floor
+          floorLayouts[floor] = { gapStart: -1, gapSize: 0 }
+
+          // Better distribution for complete floors - use thirds system
+          const floorThird = floorWidth / 3
+          const prevPos = floor > 1 ? ladderPositions[floor - 1] : -1
+
+          let targetSection = Math.floor(rng.next() * 3)
+          if (prevPos !== -1) {
+            const prevSection = Math.floor(prevPos / floorThird)
+            const otherSections = [0, 1, 2].filter(s => s !== prevSection)
+            targetSection = otherSections[Math.floor(rng.next() * otherSections.length)]
+          }
+
+          const sectionStart = Math.max(2, Math.floor(targetSection * floorThird))
+          const sectionEnd = Math.min(floorWidth - 2, Math.floor((targetSection + 1) * floorThird))
+          ladderPositions[floor] = Math.floor(rng.next() * (sectionEnd - sectionStart)) + sectionStart
+        }
+      }
+    }
+  }
+
+  /**
+   * Place the ladders leading up from fromFloor to the floor below toFloor - the ground floor gets two
+   */
+  private static planLadders(layout: LevelLayout, rng: SeededRandom, fromFloor: number, toFloor: number, hasGroundFloor: boolean): void {
+    const floorWidth = layout.floorWidth
+    for (let floor = fromFloor; floor < toFloor; floor++) {
+      // Skip creating ladder if it would lead PAST the door floor
+      // We WANT ladders leading TO the door floor, just not beyond it
+      if (layout.doorFloor >= 0 && (floor + 1) > layout.doorFloor) {
+        continue // Don't create ladders leading past the door floor
+      }
+
+      // Find valid ladder positions that have solid ground on both floors and don't land beside spikes
+      const validPositions: number[] = []
+
+      for (let x = 1; x < floorWidth - 1; x++) {
+        if (!this.getLadderProblem(layout, floor, x)) {
+          validPositions.push(x)
+        }
+      }
+
+      if (validPositions.length > 0) {
+        const laddersPlaced: number[] = []
+
+        if (floor === 0 && hasGroundFloor) {
+          // GROUND FLOOR ONLY: Place 2 ladders with good spacing
+          // Randomize positions for challenge, not predictable zones
+
+          if (validPositions.length >= 2) {
+            // Place first ladder randomly
+            const firstLadder = validPositions[Math.floor(rng.next() * validPositions.length)]
+            laddersPlaced.push(firstLadder)
+
+            // Place second ladder with at least 6 tile separation
+            const minSeparation = 6
+            const secondLadderPositions = validPositions.filter(pos =>
+              Math.abs(pos - firstLadder) >= minSeparation
+            )
+
+            if (secondLadderPositions.length > 0) {
+              // Pick from valid separated positions
+              const secondLadder = secondLadderPositions[Math.floor(rng.next() * secondLadderPositions.length)]
+              laddersPlaced.push(secondLadder)
+            } else {
+              // If no good separation, find the furthest position
+              let maxDistance = 0
+              let bestSecondLadder = -1
+
+              for (const pos of validPositions) {
+                const distance = Math.abs(pos - firstLadder)
+                if (distance > maxDistance && pos !== firstLadder) {
+                  maxDistance = distance
+                  bestSecondLadder = pos
+                }
+              }
+
+              if (bestSecondLadder !== -1 && maxDistance >= 3) {
+                laddersPlaced.push(bestSecondLadder)
+              }
+              // If still can't place second ladder, that's ok - at least we have one
+            }
+          } else {
+            // Only one valid position on ground floor - place it
+            laddersPlaced.push(validPositions[0])
+          }
+
+        } else {
+          // ALL UPPER FLOORS: Only 1 ladder for challenge
+          // Smart placement to avoid vertical stacking
+
+          const prevFloorLadders = layout.ladders.get(floor - 1) || []
+
+          // Prefer positions NOT directly above/below previous ladders
+          const antiStackPositions = validPositions.filter(pos =>
+            !prevFloorLadders.some(prevPos => Math.abs(pos - prevPos) < 3)
+          )
+
+          // Use anti-stack positions if available, otherwise use any valid position
+          const positionsToUse = antiStackPositions.length > 0 ? antiStackPositions : validPositions
+
+          // Randomize within the valid positions for variety
+          laddersPlaced.push(positionsToUse[Math.floor(rng.next() * positionsToUse.length)])
+        }
+
+        layout.ladders.set(floor, laddersPlaced)
+      }
+      // If no valid positions, skip this connection (LevelValidator repairs it)
+    }
+  }
+
+  /**
+   * Convert an authored level definition into a layout
+   */
+  static fromDefinition(definition: LevelDefinition, floorWidth: number): LevelLayout {
+    const ladders = new Map<number, number[]>()
+    definition.floors.forEach((floorDef, floor) => {
+      if (floorDef.ladders && floorDef.ladders.length > 0) {
+        ladders.set(floor, [...floorDef.ladders])
+      }
+    })
+    return {
+      floorWidth,
+      floors: definition.floors.map(floorDef => floorDef.gap
+        ? { gapStart: floorDef.gap.start, gapSize: floorDef.gap.size }
+        : { gapStart: -1, gapSize: 0 }),
+      gapSpikes: definition.floors.map(floorDef => floorDef.gap?.spikes !== false),
+      ladders,
+      doorFloor: definition.floors.length - 1
+    }
+  }
+
+  static hasPlatformAt(floorLayout: FloorLayout, x: number): boolean {
+    if (floorLayout.gapStart === -1) {
+      // No gap - platform exists everywhere
+      return true
+    }
+
+    // Check if position is in the gap
+    return x < floorLayout.gapStart || x >= floorLayout.gapStart + floorLayout.gapSize
+  }
+
+  /**
+   * Check a ladder from a floor up to the next one - it needs solid ground at both ends
+   * and must not stand right beside a spiked gap
+   */
+  static getLadderProblem(layout: LevelLayout, floor: number, x: number): 'inGap' | 'nextToSpikes' | null {
+    for (const f of [floor, floor + 1]) {
+      const floorLayout = layout.floors[f]
+      if (!floorLayout) continue
+      if (!this.hasPlatformAt(floorLayout, x)) return 'inGap'
+      if (floorLayout.gapStart !== -1 && layout.gapSpikes[f] &&
+          (x === floorLayout.gapStart - 1 || x === floorLayout.gapStart + floorLayout.gapSize)) {
+        return 'nextToSpikes'
+      }
+    }
+    return null
+  }
+
+  /**
+   * Pick the door's leftmost column on a floor - solid ground, clear of ladders, as close to the center as possible
+   */
+  static findSafeDoorPosition(layout: LevelLayout, floor: number): number {
+    const floorWidth = layout.floorWidth
+    const doorFloorLayout = layout.floors[floor]
+    const doorWidth = this.DOOR_WIDTH
+
+    // Get ladder positions on this floor to avoid conflicts
+    const ladderPositions = layout.ladders.get(floor) || []
+
+    // Find safe positions (not over gaps, not conflicting with ladders)
+    const safePositions: number[] = []
+
+    for (let x = 2; x < floorWidth - 2 - doorWidth; x++) {
+      let isSafe = true
+
+      // Check if this position and surrounding area are over solid ground
+      for (let dx = 0; dx < doorWidth; dx++) {
+        if (!this.hasPlatformAt(doorFloorLayout, x + dx)) {
+          isSafe = false
+          break
+        }
+      }
+
+      // Check for ladder conflicts (door needs clearance from ladders)
+      if (isSafe) {
+        for (const ladderX of ladderPositions) {
+          if (Math.abs(x - ladderX) < 4) { // Need at least 4 tiles clearance from ladders
+            isSafe = false
+            break
+          }
+        }
+      }
+
+      if (isSafe) {
+        safePositions.push(x)
+      }
+    }
+
+    // Choose position - prefer center, but avoid conflicts
+    if (safePositions.length > 0) {
+      // Find position closest to center
+      const centerTile = Math.floor(floorWidth / 2)
+      return safePositions.reduce((closest, pos) =>
+        Math.abs(pos - centerTile) < Math.abs(closest - centerTile) ? pos : closest
+      )
+    }
+
+    // Fallback - use center and hope for the best
+    return Math.floor(floorWidth / 2) - Math.floor(doorWidth / 2)
+  }
+}
+
+export default LevelGenerator
@@ -4,6 +4,9 @@
  */
 
 import { EnemySpawningSystem, EnemyType } from './EnemySpawningSystem'
+import { SeededRandom } from './SeededRandom'
+import { LevelDefinition, LevelDefinitions } from './LevelDefinition'
+import { ProfileStore } from './ProfileStore'
 
 export interface LevelConfig {
   levelNumber: number
@@ -15,6 +18,8 @@ export interface LevelConfig {
   // New properties for difficulty-based spawning
   difficultyBudgetPerFloor: number
   enemySpawnWeights: { [key: string]: number }
+  // Hand-authored layout that replaces procedural generation for this level
+  authored?: LevelDefinition
 }
 
 export class LevelManager {
@@ -22,6 +27,11 @@ export class LevelManager {
   private isInBonusLevel: boolean = false
   private readonly BEAST_MODE_LEVEL = 51
   private readonly MAX_PROGRESSION_LEVEL = 50
+  private dailyChallengeLevels: number[] | null = null // Fixed level list when playing a Daily Challenge
+  
+  // Daily Challenge: one level drawn from each band, never a bonus-trigger level
+  private static readonly DAILY_LEVEL_BANDS: Array<[number, number]> = [[1, 9], [11, 29], [31, 49]]
+  
   constructor() {
     // Always start from Level 1 - we'll track furthest level reached separately
     this.currentLevel = 1
@@ -43,6 +53,13 @@ export class LevelManager {
     return this.isInBonusLevel
   }
 
+  /**
+   * Enter or leave the bonus level directly (resuming a saved run)
+   */
+  setBonusLevel(isBonus: boolean): void {
+    this.isInBonusLevel = isBonus
+  }
+
   /**
    * Get configuration for a specific level
    */
@@ -67,6 +84,22 @@ export class LevelManager {
     const configLevel = Math.min(levelNumber, this.MAX_PROGRESSION_LEVEL)
     const weights = EnemySpawningSystem.getSpawnWeights(configLevel)
     
+    // Authored levels define their own floors, so the floor count comes from the definition
+    const authored = isBeastMode ? null : LevelDefinitions.get(levelNumber)
+    if (authored) {
+      return {
+        levelNumber,
+        floorCount: authored.floors.length,
+        enemyTypes: this.getEnemyTypes(configLevel),
+        collectibleTypes: this.getCollectibleTypes(configLevel),
+        worldWidth: this.getWorldWidth(configLevel),
+        isEndless: false,
+        difficultyBudgetPerFloor: 0,
+        enemySpawnWeights: weights,
+        authored
+      }
+    }
+    
     return {
       levelNumber,
       floorCount: this.calculateFloorCount(levelNumber),
@@ -88,7 +121,7 @@ export class LevelManager {
    * Levels 41-50: Master phase (25-30 floors)
    * Levels 51+: BEAST MODE (infinite floors, using level 50's floor count for display)
    */
-  private calculateFloorCount(levelNumber: number): number {
+  calculateFloorCount(levelNumber: number): number {
     if (levelNumber >= this.BEAST_MODE_LEVEL) {
       return -1 // Infinite floors for BEAST MODE
     }
@@ -181,10 +214,76 @@ export class LevelManager {
     return currentFloor >= config.floorCount
   }
   
+  /**
+   * Build the fixed set of levels for a Daily Challenge seed
+   */
+  static getDailyChallengeLevels(seed: number): number[] {
+    const rng = new SeededRandom(SeededRandom.hashSeed(seed, 'dailyLevels'))
+    return LevelManager.DAILY_LEVEL_BANDS.map(([min, max]) => {
+      const candidates: number[] = []
+      for (let level = min; level <= max; level++) {
+        if (level % 10 !== 0) candidates.push(level)
+      }
+      return rng.pick(candidates)
+    })
+  }
+  
+  /**
+   * Start a Daily Challenge run through a fixed list of levels
+   */
+  startDailyChallenge(levels: number[]): void {
+    this.dailyChallengeLevels = [...levels]
+    this.isInBonusLevel = false
+    this.currentLevel = levels[0]
+  }
+  
+  /**
+   * Leave Daily Challenge mode (back to normal progression)
+   */
+  endDailyChallenge(): void {
+    this.dailyChallengeLevels = null
+  }
+  
+  /**
+   * Check if a Daily Challenge run is active
+   */
+  isDailyChallenge(): boolean {
+    return this.dailyChallengeLevels !== null
+  }
+  
+  /**
+   * Get the fixed level list for the active Daily Challenge
+   */
+  getDailyChallengeLevelList(): number[] {
+    return this.dailyChallengeLevels ? [...this.dailyChallengeLevels] : []
+  }
+  
+  /**
+   * Get the 0-based position of the current level within the Daily Challenge
+   */
+  getDailyChallengeIndex(): number {
+    return this.dailyChallengeLevels ? this.dailyChallengeLevels.indexOf(this.currentLevel) : -1
+  }
+  
+  /**
+   * Check if the current level is the last one of the Daily Challenge
+   */
+  isFinalDailyChallengeLevel(): boolean {
+    return this.dailyChallengeLevels !== null &&
+      this.getDailyChallengeIndex() === this.dailyChallengeLevels.length - 1
+  }
+  
   /**
    * Advance to the next level
    */
   nextLevel(): number {
+    // Daily Challenge follows its fixed level list - no bonus levels, no saved progress
+    if (this.dailyChallengeLevels) {
+      const nextIndex = Math.min(this.getDailyChallengeIndex() + 1, this.dailyChallengeLevels.length - 1)
+      this.currentLevel = this.dailyChallengeLevels[nextIndex]
+      return this.currentLevel
+    }
+    
     // If we're in a bonus level, exit it and go to the next regular level
     if (this.isInBonusLevel) {
       this.isInBonusLevel = false
@@ -225,7 +324,10 @@ export class LevelManager {
    */
   setCurrentLevel(level: number): void {
     this.currentLevel = level
-    this.saveProgress()
+    // Daily Challenge levels don't count towards furthest level reached
+    if (!this.dailyChallengeLevels) {
+      this.saveProgress()
+    }
   }
   
   /**
@@ -235,9 +337,9 @@ export class LevelManager {
     try {
       // Only track furthest level reached, don't save current level
       // (we always want to restart from Level 1)
-      const furthestLevel = parseInt(localStorage.getItem('treasureQuest_furthestLevel') || '1')
+      const furthestLevel = parseInt(ProfileStore.getItem('furthestLevel') || '1')
       if (this.currentLevel > furthestLevel) {
-        localStorage.setItem('treasureQuest_furthestLevel', this.currentLevel.toString())
+        ProfileStore.setItem('furthestLevel', this.currentLevel.toString())
       }
     } catch (e) {
       console.warn('Could not save progress to localStorage:', e)
@@ -258,7 +360,7 @@ export class LevelManager {
    */
   getFurthestLevel(): number {
     try {
-      return parseInt(localStorage.getItem('treasureQuest_furthestLevel') || '1')
+      return parseInt(ProfileStore.getItem('furthestLevel') || '1')
     } catch (e) {
       return 1
     }
@@ -0,0 +1,76 @@
+/**
+ * Level Records for Bizarre Underground
+ * The best score and star rating made on each level, kept across runs for the level select
+ * Saved in the player's profile (ProfileStore 'levelRecords')
+ */
+
+import { ProfileStore } from './ProfileStore'
+import { LevelStars } from './LevelStars'
+
+export interface LevelRecord {
+  score: number       // Best score made on the level itself (not the run total)
+  stars?: number      // Best LevelStars rating - records saved before ratings have none
+  completedAt: number // When either best was last improved
+}
+
+export class LevelRecords {
+  /**
+   * Note a finished level - the score and the stars are bests on their own, so a slow high score
+   * doesn't wipe out an earlier three-star finish. Returns true if either improved
+   */
+  static recordCompletion(level: number, score: number, stars: number = 0): boolean {
+    const records = this.load()
+    const previous = records[level]
+    const isNewScore = !previous || score > previous.score
+    const isNewStars = stars > (previous?.stars || 0)
+    if (!isNewScore && !isNewStars) return false
+
+    records[level] = {
+      score: isNewScore || !previous ? score : previous.score,
+      stars: Math.max(stars, previous?.stars || 0),
+      completedAt: Date.now()
+    }
+    this.save(records)
+    if (isNewScore) console.log(`📈 New best on level ${level}: ${score}`)
+    if (isNewStars) console.log(`⭐ New best rating on level ${level}: ${stars}/${LevelStars.MAX_STARS}`)
+    return true
+  }
+
+  static getBest(level: number): LevelRecord | null {
+    return this.load()[level] || null
+  }
+
+  static getAll(): { [level: number]: LevelRecord } {
+    return this.load()
+  }
+
+  /**
+   * Stars earned across a chapter's levels, as a share of all the stars it offers
+   */
+  static getChapterCompletion(firstLevel: number, lastLevel: number): { stars: number, maxStars: number, percent: number } {
+    const stars: { [level: number]: number } = {}
+    Object.entries(this.load()).forEach(([level, record]) => {
+      stars[Number(level)] = record.stars || 0
+    })
+    return LevelStars.getCompletion(stars, firstLevel, lastLevel)
+  }
+
+  private static load(): { [level: number]: LevelRecord } {
+    try {
+      return JSON.parse(ProfileStore.getItem('levelRecords') || '{}')
+    } catch (e) {
+      console.warn('📈 Could not load level records:', e)
+      return {}
+    }
+  }
+
+  private static save(records: { [level: number]: LevelRecord }): void {
+    try {
+      ProfileStore.setItem('levelRecords', JSON.stringify(records))
+    } catch (e) {
+      console.warn('📈 Could not save level records:', e)
+    }
+  }
+}
+
+export default LevelRecords
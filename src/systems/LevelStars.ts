@@ -0,0 +1,86 @@
+/**
+ * Level Stars for Bizarre Underground
+ * Three-star rating for each of the discrete levels (1-50), worked out when a level is completed
+ * One star each for losing no lives on the level, opening every treasure chest (on a level that placed any), and a
+ * fast or high-scoring finish
+ * Bonus levels and Beast Mode aren't rated - LevelRecords keeps the best rating per level
+ */
+
+export type StarCriterionId = 'flawless' | 'chests' | 'pace'
+
+export interface LevelResult {
+  level: number
+  floorCount: number
+  livesLost: number      // Lives lost on this level, counting every attempt
+  chests: number         // Treasure chests the level placed
+  chestsLeft: number     // Treasure chests still closed when the door was reached
+  timeMs: number         // Time played on the attempt that finished the level, from before a save it resumed from too
+  score: number          // Points made on the level itself
+}
+
+export interface StarCriterion {
+  id: StarCriterionId
+  label: string // Short enough to sit under its star on the level complete screen
+  met: boolean
+}
+
+export class LevelStars {
+  static readonly MAX_STARS = 3
+  static readonly LAST_RATED_LEVEL = 50 // Beast Mode (51+) is endless
+
+  // Pace star - finish inside par time or above the score target, both scaled by the level's floors
+  static readonly PAR_MS_PER_FLOOR = 8000
+  static readonly SCORE_PER_FLOOR = 1500
+
+  static isRated(level: number, isBonusLevel: boolean): boolean {
+    return !isBonusLevel && level >= 1 && level <= this.LAST_RATED_LEVEL
+  }
+
+  static getParTime(floorCount: number): number {
+    return floorCount * this.PAR_MS_PER_FLOOR
+  }
+
+  static getScoreTarget(floorCount: number): number {
+    return floorCount * this.SCORE_PER_FLOOR
+  }
+
+  /**
+   * Check the finished level against each criterion, in the order the stars are shown
+   */
+  static rate(result: LevelResult): StarCriterion[] {
+    const parTime = this.getParTime(result.floorCount)
+    const scoreTarget = this.getScoreTarget(result.floorCount)
+    return [
+      { id: 'flawless', label: 'FLAWLESS', met: result.livesLost === 0 },
+      { id: 'chests', label: 'ALL CHESTS', met: result.chests > 0 && result.chestsLeft === 0 },
+      { id: 'pace', label: 'PACE', met: result.timeMs <= parTime || result.score >= scoreTarget }
+    ]
+  }
+
+  static countStars(criteria: StarCriterion[]): number {
+    return criteria.filter(criterion => criterion.met).length
+  }
+
+  /**
+   * Stars earned out of the stars on offer, for a run of levels - an endless range is cut off at LAST_RATED_LEVEL
+   */
+  static getCompletion(
+    stars: { [level: number]: number },
+    firstLevel: number,
+    lastLevel: number
+  ): { stars: number, maxStars: number, percent: number } {
+    const last = Math.min(lastLevel, this.LAST_RATED_LEVEL)
+    let earned = 0
+    for (let level = firstLevel; level <= last; level++) {
+      earned += Math.min(stars[level] || 0, this.MAX_STARS)
+    }
+    const maxStars = Math.max(0, last - firstLevel + 1) * this.MAX_STARS
+    return {
+      stars: earned,
+      maxStars,
+      percent: maxStars > 0 ? Math.floor(earned / maxStars * 100) : 0
+    }
+  }
+}
+
+export default LevelStars
@@ -0,0 +1,304 @@
+/**
+ * Level Validator for Bizarre Underground
+ * Builds a reachability graph over a planned level (floor segments joined by jumps, drops and ladders)
+ * to prove the door can be reached from the spawn point, and repairs procedural layouts that fail
+ */
+
+import { SeededRandom } from './SeededRandom'
+import { LevelGenerator, LevelLayout } from './LevelGenerator'
+
+/**
+ * Stretch of solid platform on one floor, split by that floor's gap
+ */
+interface FloorSegment {
+  floor: number
+  start: number // First solid column
+  end: number   // Last solid column
+}
+
+export interface LadderProblem {
+  floor: number  // Floor the ladder leads up from
+  x: number
+  reason: NonNullable<ReturnType<typeof LevelGenerator.getLadderProblem>>
+}
+
+export interface LevelValidationResult {
+  solvable: boolean            // The door (or the top floor, for endless levels) can be reached from spawn
+  doorTileX: number            // Door column returned by LevelGenerator.findSafeDoorPosition (-1 for endless)
+  reachableFloors: number[]
+  unreachableFloors: number[]
+  ladderProblems: LadderProblem[]
+  failingFloors: number[]      // Floors whose ladder connection upward needs repairing
+  issues: string[]
+}
+
+export interface ValidatorOptions {
+  maxJumpTiles: number // Widest gap the player can clear
+  spawnX: number       // Player spawn column on the ground floor
+}
+
+export class LevelValidator {
+  private static readonly MAX_REPAIR_PASSES = 3
+
+  /**
+   * Widest gap (in tiles) a running jump clears, leaving room for the player's own width
+   */
+  static getMaxJumpTiles(settings: { tileSize: number, gravity: number, playerSpeed: number, jumpVelocity: number }): number {
+    const airTime = (2 * Math.abs(settings.jumpVelocity)) / settings.gravity
+    const jumpDistance = settings.playerSpeed * airTime
+    const playerWidth = settings.tileSize * 0.75
+    return Math.max(0, Math.floor((jumpDistance - playerWidth) / settings.tileSize))
+  }
+
+  /**
+   * Check a layout - see LevelValidationResult for what is reported
+   */
+  static validate(layout: LevelLayout, options: ValidatorOptions): LevelValidationResult {
+    const issues: string[] = []
+    const topFloor = layout.doorFloor >= 0 ? layout.doorFloor : layout.floors.length - 1
+
+    // Ladders must land on solid ground on both floors, and not beside a spiked gap
+    const ladderProblems: LadderProblem[] = []
+    layout.ladders.forEach((columns, floor) => {
+      columns.forEach(x => {
+        const reason = LevelGenerator.getLadderProblem(layout, floor, x)
+        if (reason) {
+          ladderProblems.push({ floor, x, reason })
+          issues.push(reason === 'inGap'
+            ? `Ladder at column ${x} on floor ${floor} lands in a gap`
+            : `Ladder at column ${x} on floor ${floor} is next to a spike gap`)
+        }
+      })
+    })
+
+    const visited = this.getReachableSegments(layout, options, ladderProblems)
+
+    const reachableFloors: number[] = []
+    const unreachableFloors: number[] = []
+    for (let floor = 0; floor <= topFloor; floor++) {
+      const reached = this.getSegments(layout, floor).some(segment => visited.has(this.getSegmentKey(segment)))
+      ;(reached ? reachableFloors : unreachableFloors).push(floor)
+    }
+    unreachableFloors.forEach(floor => issues.push(`Floor ${floor} cannot be reached from spawn`))
+
+    // The door needs all of its tiles on one reachable segment
+    let doorTileX = -1
+    let solvable = unreachableFloors.length === 0
+    if (layout.doorFloor >= 0) {
+      doorTileX = LevelGenerator.findSafeDoorPosition(layout, layout.doorFloor)
+      const doorSegment = this.getSegmentAt(layout, layout.doorFloor, doorTileX)
+      const doorFits = !!doorSegment && doorTileX + LevelGenerator.DOOR_WIDTH - 1 <= doorSegment.end
+      if (!doorFits) {
+        issues.push(`Door at column ${doorTileX} is not on solid ground`)
+        solvable = false
+      } else if (!visited.has(this.getSegmentKey(doorSegment!))) {
+        issues.push(`Door at column ${doorTileX} on floor ${layout.doorFloor} cannot be reached`)
+        solvable = false
+      }
+    }
+
+    // A floor fails when the ladder connection leading up from it is missing or broken
+    const failingFloors = new Set<number>()
+    ladderProblems.forEach(problem => failingFloors.add(problem.floor))
+    unreachableFloors.forEach(floor => {
+      if (floor > 0 && reachableFloors.includes(floor - 1)) failingFloors.add(floor - 1)
+    })
+
+    return {
+      solvable,
+      doorTileX,
+      reachableFloors,
+      unreachableFloors,
+      ladderProblems,
+      failingFloors: Array.from(failingFloors).sort((a, b) => a - b),
+      issues
+    }
+  }
+
+  /**
+   * Validate a procedural layout and fix it in place: broken ladders are moved, missing
+   * connections get a new ladder, and a floor with nowhere safe for one loses its gap
+   * Returns the final validation result and how many fixes were applied
+   */
+  static validateAndRepair(
+    layout: LevelLayout,
+    options: ValidatorOptions,
+    rng: SeededRandom
+  ): { result: LevelValidationResult, repairs: number } {
+    let result = this.validate(layout, options)
+    let repairs = 0
+
+    for (let pass = 0; pass < this.MAX_REPAIR_PASSES && (result.failingFloors.length > 0 || !result.solvable); pass++) {
+      // Drop ladders that land in or beside a gap
+      result.ladderProblems.forEach(problem => {
+        const columns = (layout.ladders.get(problem.floor) || []).filter(x => x !== problem.x)
+        layout.ladders.set(problem.floor, columns)
+        repairs++
+      })
+
+      // Work upward so each new ladder starts somewhere the previous repairs made reachable
+      result.failingFloors.forEach(floor => {
+        if ((layout.ladders.get(floor) || []).length > 0 && !result.unreachableFloors.includes(floor + 1)) return
+        const visited = this.getReachableSegments(layout, options, [])
+        const isReachable = (x: number) => {
+          const segment = this.getSegmentAt(layout, floor, x)
+          return !!segment && visited.has(this.getSegmentKey(segment))
+        }
+        if (this.repairConnection(layout, floor, rng, isReachable)) repairs++
+      })
+
+      // A door that doesn't fit, or sits on the far side of a gap nobody can cross, loses the door floor's gap
+      const doorFloorReached = result.reachableFloors.includes(layout.doorFloor)
+      if (layout.doorFloor >= 0 && result.issues.some(issue =>
+        issue.includes('not on solid ground') || (doorFloorReached && issue.startsWith('Door')))) {
+        layout.floors[layout.doorFloor] = { gapStart: -1, gapSize: 0 }
+        repairs++
+      }
+
+      result = this.validate(layout, options)
+    }
+
+    return { result, repairs }
+  }
+
+  /**
+   * Place a ladder from a reachable part of a floor up to the next one, removing the upper floor's gap
+   * if nothing fits, then the floor's own gap (which joins both sides into one reachable platform)
+   */
+  private static repairConnection(
+    layout: LevelLayout,
+    floor: number,
+    rng: SeededRandom,
+    isReachable: (x: number) => boolean
+  ): boolean {
+    if (floor + 1 >= layout.floors.length) return false
+
+    let candidates = this.getSafeLadderColumns(layout, floor).filter(isReachable)
+    if (candidates.length === 0) {
+      layout.floors[floor + 1] = { gapStart: -1, gapSize: 0 }
+      candidates = this.getSafeLadderColumns(layout, floor).filter(isReachable)
+    }
+    if (candidates.length === 0 && floor > 0) {
+      layout.floors[floor] = { gapStart: -1, gapSize: 0 }
+      candidates = this.getSafeLadderColumns(layout, floor)
+    }
+    if (candidates.length === 0) return false
+
+    // Keep clear of ladders on the floor below, same as the generator's anti-stacking rule
+    const below = layout.ladders.get(floor - 1) || []
+    const unstacked = candidates.filter(x => !below.some(prev => Math.abs(x - prev) < 3))
+    const pool = unstacked.length > 0 ? unstacked : candidates
+    const x = pool[Math.floor(rng.next() * pool.length)]
+
+    layout.ladders.set(floor, [...(layout.ladders.get(floor) || []), x])
+    return true
+  }
+
+  /**
+   * Flood the graph from the spawn segment, returning the keys of every segment the player can reach
+   */
+  private static getReachableSegments(
+    layout: LevelLayout,
+    options: ValidatorOptions,
+    ladderProblems: LadderProblem[]
+  ): Set<string> {
+    const spawnSegment = this.getSegmentAt(layout, 0, options.spawnX)
+    const visited = new Set<string>()
+    const queue: FloorSegment[] = spawnSegment ? [spawnSegment] : []
+    if (spawnSegment) visited.add(this.getSegmentKey(spawnSegment))
+
+    while (queue.length > 0) {
+      const segment = queue.shift()!
+      this.getNeighbours(layout, segment, options.maxJumpTiles, ladderProblems).forEach(next => {
+        const key = this.getSegmentKey(next)
+        if (!visited.has(key)) {
+          visited.add(key)
+          queue.push(next)
+        }
+      })
+    }
+
+    return visited
+  }
+
+  private static getSafeLadderColumns(layout: LevelLayout, floor: number): number[] {
+    const columns: number[] = []
+    for (let x = 1; x < layout.floorWidth - 1; x++) {
+      if (!LevelGenerator.getLadderProblem(layout, floor, x)) columns.push(x)
+    }
+    return columns
+  }
+
+  private static getSegments(layout: LevelLayout, floor: number): FloorSegment[] {
+    const floorLayout = layout.floors[floor]
+    if (!floorLayout) return []
+    if (floorLayout.gapStart === -1) {
+      return [{ floor, start: 0, end: layout.floorWidth - 1 }]
+    }
+    const segments: FloorSegment[] = []
+    if (floorLayout.gapStart > 0) {
+      segments.push({ floor, start: 0, end: floorLayout.gapStart - 1 })
+    }
+    const gapEnd = floorLayout.gapStart + floorLayout.gapSize
+    if (gapEnd < layout.floorWidth) {
+      segments.push({ floor, start: gapEnd, end: layout.floorWidth - 1 })
+    }
+    return segments
+  }
+
+  private static getSegmentAt(layout: LevelLayout, floor: number, x: number): FloorSegment | null {
+    return this.getSegments(layout, floor).find(segment => x >= segment.start && x <= segment.end) || null
+  }
+
+  private static getSegmentKey(segment: FloorSegment): string {
+    return `${segment.floor}:${segment.start}`
+  }
+
+  /**
+   * Segments reachable in one move: jumping the gap, dropping through an open gap, or climbing a ladder
+   */
+  private static getNeighbours(
+    layout: LevelLayout,
+    segment: FloorSegment,
+    maxJumpTiles: number,
+    ladderProblems: LadderProblem[]
+  ): FloorSegment[] {
+    const neighbours: FloorSegment[] = []
+    const floorLayout = layout.floors[segment.floor]
+
+    if (floorLayout.gapStart !== -1) {
+      // Jump across the gap
+      if (floorLayout.gapSize <= maxJumpTiles) {
+        neighbours.push(...this.getSegments(layout, segment.floor).filter(other => other.start !== segment.start))
+      }
+
+      // Open gaps (no spikes) drop the player to whatever is below
+      if (!layout.gapSpikes[segment.floor]) {
+        for (let below = segment.floor - 1; below >= 0; below--) {
+          const landing = this.getSegmentAt(layout, below, floorLayout.gapStart)
+          if (landing) {
+            neighbours.push(landing)
+            break
+          }
+        }
+      }
+    }
+
+    // Ladders work in both directions
+    const isBroken = (floor: number, x: number) => ladderProblems.some(p => p.floor === floor && p.x === x && p.reason === 'inGap')
+    ;(layout.ladders.get(segment.floor) || []).forEach(x => {
+      if (x < segment.start || x > segment.end || isBroken(segment.floor, x)) return
+      const above = this.getSegmentAt(layout, segment.floor + 1, x)
+      if (above) neighbours.push(above)
+    })
+    ;(layout.ladders.get(segment.floor - 1) || []).forEach(x => {
+      if (x < segment.start || x > segment.end || isBroken(segment.floor - 1, x)) return
+      const below = this.getSegmentAt(layout, segment.floor - 1, x)
+      if (below) neighbours.push(below)
+    })
+
+    return neighbours
+  }
+}
+
+export default LevelValidator
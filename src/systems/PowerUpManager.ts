@@ -0,0 +1,315 @@
+/**
+ * Power-Up Manager for Bizarre Underground
+ * Every timed effect (pendant, crystal ball, magnet, shield, curses...) is a PowerUpDefinition: how long it lasts, what it does
+ * when it starts, every step and when it runs out, its HUD timer and what picking up another one does
+ * GameScene registers the definitions and ticks the manager on the simulation clock; Player asks it what's active
+ */
+
+import { PowerUpAura, PowerUpAuraStyle } from '../objects/PowerUpAura'
+
+export type PowerUpId =
+  'invincibility' | 'crystalBall' | 'cursedOrb' | 'cursedTealOrb' |
+  'magnet' | 'shield' | 'doubleJump' | 'timeFreeze'
+
+/**
+ * What collecting a power-up that's already running does
+ * refresh - back to the full duration, extend - add another full duration (up to maxDuration),
+ * ignore - the running one carries on untouched
+ */
+export type StackingPolicy = 'refresh' | 'extend' | 'ignore'
+
+export interface PowerUpHudIcon {
+  texture: string
+  fallbackTexture?: string  // Used until the timer art has loaded
+  color: number             // Countdown sweep colour
+  alpha: number
+  sparkleColor?: number     // Sparkles around the icon while active (the pendant's golden twinkle)
+}
+
+export interface PowerUpDefinition {
+  id: PowerUpId
+  duration: number              // Simulation ms
+  stacking: StackingPolicy
+  maxDuration?: number          // Cap for 'extend' (defaults to twice the duration)
+  conflicts?: PowerUpId[]       // Running power-ups this one ends when it starts
+  warningTime?: number          // HUD icon flashes for the last this-many ms (default 2000)
+  hud: PowerUpHudIcon
+  aura?: PowerUpAuraStyle       // Particles around the player while active
+  onActivate?: () => void       // Only when it starts - not when a pickup refreshes or extends it
+  onTick?: (remaining: number, delta: number) => void
+  onExpire?: () => void         // Runs out, is ended early or is pushed out by a conflicting power-up
+}
+
+interface ActivePowerUp {
+  remaining: number
+  aura: PowerUpAura | null
+}
+
+interface PowerUpHudSlot {
+  image: Phaser.GameObjects.Image
+  sweep: Phaser.GameObjects.Graphics
+  sparkleTimer: Phaser.Time.TimerEvent | null
+}
+
+export class PowerUpManager {
+  // How long each power-up lasts in simulation ms - GameScene.registerPowerUps reads these
+  static readonly DURATIONS: Record<PowerUpId, number> = {
+    invincibility: 10000,
+    crystalBall: 20000,
+    cursedOrb: 10000,
+    cursedTealOrb: 10000,
+    magnet: 12000,
+    shield: 30000,
+    doubleJump: 15000,
+    timeFreeze: 5000
+  }
+
+  static readonly DEFAULT_WARNING_TIME = 2000
+  static readonly HUD_SPACING = 45
+  static readonly HUD_ICON_SIZE = 36
+
+  private scene: Phaser.Scene
+  private player: { x: number, y: number }
+  private definitions = new Map<PowerUpId, PowerUpDefinition>()
+  private active = new Map<PowerUpId, ActivePowerUp>()
+  private hud = new Map<PowerUpId, PowerUpHudSlot>()
+
+  constructor(scene: Phaser.Scene, player: { x: number, y: number }) {
+    this.scene = scene
+    this.player = player
+    scene.events.once('shutdown', () => this.destroy())
+  }
+
+  register(definition: PowerUpDefinition): void {
+    if (this.definitions.has(definition.id)) {
+      console.warn(`⚡ Power-up ${definition.id} registered twice - keeping the first`)
+      return
+    }
+    this.definitions.set(definition.id, definition)
+  }
+
+  getDefinition(id: PowerUpId): PowerUpDefinition | undefined {
+    return this.definitions.get(id)
+  }
+
+  /**
+   * Timer icons for every registered power-up, centred as a row in registration order
+   */
+  createHud(centerX: number, y: number): void {
+    const ids = Array.from(this.definitions.keys())
+    const startX = centerX - PowerUpManager.HUD_SPACING * (ids.length - 1) / 2
+
+    ids.forEach((id, index) => {
+      const icon = this.definitions.get(id)!.hud
+      const texture = this.scene.textures.exists(icon.texture) ? icon.texture : (icon.fallbackTexture || icon.texture)
+
+      const image = this.scene.add.image(startX + index * PowerUpManager.HUD_SPACING, y, texture)
+      image.setDisplaySize(PowerUpManager.HUD_ICON_SIZE, PowerUpManager.HUD_ICON_SIZE)
+      image.setDepth(101)
+      image.setScrollFactor(0)
+
+      // Countdown sweep drawn over the icon
+      const sweep = this.scene.add.graphics()
+      sweep.setDepth(102)
+      sweep.setScrollFactor(0)
+      sweep.setPosition(image.x, image.y)
+
+      this.hud.set(id, { image, sweep, sparkleTimer: null })
+      this.drawHud(id)
+    })
+  }
+
+  /**
+   * Start a power-up, or apply its stacking policy if it's already running
+   * duration overrides the definition's (a resumed run carries on with the time it had left)
+   * Returns false when the pickup had no effect
+   */
+  activate(id: PowerUpId, duration?: number): boolean {
+    const definition = this.definitions.get(id)
+    if (!definition) {
+      console.warn(`⚡ Unknown power-up ${id}`)
+      return false
+    }
+
+    const time = duration ?? definition.duration
+    const running = this.active.get(id)
+    if (running) {
+      switch (definition.stacking) {
+        case 'ignore':
+          return false
+        case 'extend':
+          running.remaining = Math.min(running.remaining + time, definition.maxDuration ?? definition.duration * 2)
+          break
+        case 'refresh':
+          running.remaining = Math.max(running.remaining, time)
+          break
+      }
+      console.log(`⚡ ${id} ${definition.stacking}ed - ${Math.round(running.remaining)}ms left`)
+      this.drawHud(id)
+      return true
+    }
+
+    definition.conflicts?.forEach(other => this.deactivate(other))
+
+    this.active.set(id, {
+      remaining: time,
+      aura: definition.aura ? new PowerUpAura(this.scene, this.player, definition.aura) : null
+    })
+    console.log(`⚡ ${id} active for ${Math.round(time)}ms`)
+
+    definition.onActivate?.()
+    this.startHudSparkles(id)
+    this.drawHud(id)
+    return true
+  }
+
+  /**
+   * End a power-up early - onExpire runs as if it had run out
+   */
+  deactivate(id: PowerUpId): void {
+    const running = this.active.get(id)
+    if (!running) return
+
+    this.active.delete(id)
+    running.aura?.destroy()
+    this.stopHudSparkles(id)
+    this.drawHud(id)
+    this.definitions.get(id)?.onExpire?.()
+    console.log(`⚡ ${id} ended`)
+  }
+
+  isActive(id: PowerUpId): boolean {
+    return this.active.has(id)
+  }
+
+  getRemaining(id: PowerUpId): number {
+    return this.active.get(id)?.remaining ?? 0
+  }
+
+  /**
+   * Time left on every registered power-up (0 when inactive) - saved with the run
+   */
+  getRemainingTimes(): Record<string, number> {
+    const times: Record<string, number> = {}
+    this.definitions.forEach((_definition, id) => {
+      times[id] = Math.round(this.getRemaining(id))
+    })
+    return times
+  }
+
+  /**
+   * Count every running power-up down by one simulation step
+   */
+  update(delta: number): void {
+    this.active.forEach((running, id) => {
+      const definition = this.definitions.get(id)!
+      running.remaining -= delta
+
+      if (running.remaining <= 0) {
+        this.deactivate(id)
+        return
+      }
+
+      running.aura?.follow()
+      definition.onTick?.(running.remaining, delta)
+      this.drawHud(id)
+    })
+  }
+
+  destroy(): void {
+    this.active.forEach(running => running.aura?.destroy())
+    this.active.clear()
+    this.hud.forEach(slot => slot.sparkleTimer?.destroy())
+    this.hud.clear()
+  }
+
+  private drawHud(id: PowerUpId): void {
+    const slot = this.hud.get(id)
+    const definition = this.definitions.get(id)
+    if (!slot || !definition) return
+
+    slot.sweep.clear()
+    const remaining = this.getRemaining(id)
+    if (remaining <= 0) {
+      slot.image.setAlpha(1)
+      return
+    }
+
+    // Sweep shrinks clockwise from 12 o'clock as time runs out
+    const progress = Math.min(1, remaining / definition.duration)
+    slot.sweep.fillStyle(definition.hud.color, definition.hud.alpha)
+    slot.sweep.beginPath()
+    slot.sweep.moveTo(0, 0)
+    slot.sweep.arc(0, 0, PowerUpManager.HUD_ICON_SIZE / 2, -Math.PI / 2, -Math.PI / 2 + (2 * Math.PI * (1 - progress)), false)
+    slot.sweep.lineTo(0, 0)
+    slot.sweep.closePath()
+    slot.sweep.fillPath()
+
+    // Flash in the last couple of seconds
+    if (remaining <= (definition.warningTime ?? PowerUpManager.DEFAULT_WARNING_TIME)) {
+      const flashAlpha = Math.sin(Date.now() / 100) * 0.5 + 0.5
+      slot.image.setAlpha(0.5 + flashAlpha * 0.5)
+    } else {
+      slot.image.setAlpha(1)
+    }
+  }
+
+  private startHudSparkles(id: PowerUpId): void {
+    const slot = this.hud.get(id)
+    const color = this.definitions.get(id)?.hud.sparkleColor
+    if (!slot || color === undefined) return
+
+    slot.sparkleTimer?.destroy()
+    slot.sparkleTimer = this.scene.time.addEvent({
+      delay: 300 + Math.random() * 200,
+      callback: () => this.createHudSparkle(slot.image.x, slot.image.y, color),
+      loop: true
+    })
+  }
+
+  private stopHudSparkles(id: PowerUpId): void {
+    const slot = this.hud.get(id)
+    if (!slot) return
+    slot.sparkleTimer?.destroy()
+    slot.sparkleTimer = null
+  }
+
+  private createHudSparkle(timerX: number, timerY: number, color: number): void {
+    // Random position around the timer (within 25px)
+    const sparkleX = timerX + (Math.random() - 0.5) * 50
+    const sparkleY = timerY + (Math.random() - 0.5) * 50
+
+    // Eight-point star
+    const sparkle = this.scene.add.graphics()
+    sparkle.fillStyle(color, 0.9)
+    sparkle.beginPath()
+    for (let i = 0; i < 8; i++) {
+      const angle = (i / 8) * Math.PI * 2
+      const radius = i % 2 === 0 ? 3 : 1.5
+      const x = Math.cos(angle) * radius
+      const y = Math.sin(angle) * radius
+      if (i === 0) sparkle.moveTo(x, y)
+      else sparkle.lineTo(x, y)
+    }
+    sparkle.closePath()
+    sparkle.fillPath()
+
+    const sparkleContainer = this.scene.add.container(sparkleX, sparkleY)
+    sparkleContainer.add(sparkle)
+    sparkleContainer.setDepth(103) // Above HUD timer (101) and sweep (102)
+    sparkleContainer.setScrollFactor(0)
+
+    this.scene.tweens.add({
+      targets: sparkleContainer,
+      scaleX: 2,
+      scaleY: 2,
+      alpha: 0,
+      rotation: Math.PI,
+      duration: 600,
+      ease: 'Power2',
+      onComplete: () => sparkleContainer.destroy()
+    })
+  }
+}
+
+export default PowerUpManager
@@ -0,0 +1,458 @@
+/**
+ * Profile Store for Bizarre Underground
+ * One place for everything a player keeps between sessions - progress, scores, achievements, run history, replays and settings
+ * Each section still lives in its own localStorage key (the keys the game has always used), and the profile as a whole
+ * carries a schema version in 'treasureQuest_profileVersion' so older data is migrated before it's read
+ * Profiles export to a JSON file and import from one, merged into this device's profile or replacing it,
+ * so progress can move between a phone and a dgen1
+ */
+
+export type ProfileSection =
+  | 'furthestLevel' | 'highScore' | 'scores' | 'platformStats' | 'walletScores' | 'playerId'
+  | 'dailyChallenge' | 'achievements' | 'runHistory' | 'levelRecords' | 'lastReplay' | 'bestReplay'
+  | 'audioSettings' | 'audioMuted' | 'inputSettings' | 'gamepadSettings' | 'touchLayouts'
+
+// Raw stored values by section, as localStorage holds them
+export type ProfileData = Partial<Record<ProfileSection, string>>
+
+export interface ProfileFile {
+  game: string
+  version: number
+  exportedAt: number
+  data: ProfileData
+}
+
+export type ProfileImportMode = 'merge' | 'replace'
+
+export interface ProfileImportResult {
+  success: boolean
+  message: string
+  sections: ProfileSection[] // Sections written
+}
+
+type SectionFormat = 'integer' | 'boolean' | 'text' | 'json'
+
+interface ProfileMigration {
+  toVersion: number
+  description: string
+  migrate: (data: ProfileData) => void
+}
+
+export class ProfileStore {
+  static readonly VERSION = 1
+  static readonly GAME_ID = 'bizarre-underground'
+
+  private static readonly VERSION_KEY = 'treasureQuest_profileVersion'
+
+  static readonly SECTIONS: Record<ProfileSection, { key: string, format: SectionFormat }> = {
+    furthestLevel:   { key: 'treasureQuest_furthestLevel', format: 'integer' },
+    highScore:       { key: 'bz_highScore', format: 'integer' },
+    scores:          { key: 'bz_scores', format: 'json' },
+    platformStats:   { key: 'bz_stats', format: 'json' },
+    walletScores:    { key: 'bz_walletScores', format: 'json' },
+    playerId:        { key: 'bz_playerId', format: 'text' },
+    dailyChallenge:  { key: 'treasureQuest_dailyChallenge', format: 'json' },
+    achievements:    { key: 'treasureQuest_achievements', format: 'json' },
+    runHistory:      { key: 'treasureQuest_runHistory', format: 'json' },
+    levelRecords:    { key: 'treasureQuest_levelRecords', format: 'json' },
+    lastReplay:      { key: 'treasureQuest_lastReplay', format: 'json' },
+    bestReplay:      { key: 'treasureQuest_bestReplay', format: 'json' },
+    audioSettings:   { key: 'audioSettings', format: 'json' },
+    audioMuted:      { key: 'bz_audioMuted', format: 'boolean' },
+    inputSettings:   { key: 'inputSettings', format: 'json' },
+    gamepadSettings: { key: 'gamepadSettings', format: 'json' },
+    touchLayouts:    { key: 'touchLayouts', format: 'json' }
+  }
+
+  // Each step brings data saved by an older game up to toVersion - run on this device's storage
+  // and on imported files alike. Version 0 is the loose keys written before the profile was versioned
+  private static readonly MIGRATIONS: ProfileMigration[] = [
+    {
+      toVersion: 1,
+      description: 'Tidy up loose keys and rebuild the high score from the score list',
+      migrate: (data) => {
+        const furthestLevel = parseInt(data.furthestLevel || '', 10)
+        if (data.furthestLevel !== undefined && !(furthestLevel >= 1)) delete data.furthestLevel
+
+        if (data.audioMuted !== undefined) data.audioMuted = data.audioMuted === 'true' ? 'true' : 'false'
+
+        const scores = ProfileStore.parseJson<Array<{ score: number }>>(data.scores)
+        const bestListed = Array.isArray(scores) ? Math.max(0, ...scores.map(entry => entry.score || 0)) : 0
+        const highScore = Math.max(parseInt(data.highScore || '0', 10) || 0, bestListed)
+        if (highScore > 0 || data.highScore !== undefined) data.highScore = highScore.toString()
+      }
+    }
+  ]
+
+  // What each JSON section has to look like for the game (and mergeSection) to read it - a file that
+  // parses but holds something else is turned away rather than written over good data
+  private static readonly SHAPES: Partial<Record<ProfileSection, (value: unknown) => boolean>> = {
+    scores: value => Array.isArray(value) && value.every(ProfileStore.isRecord),
+    platformStats: value => ProfileStore.isRecord(value),
+    walletScores: value => ProfileStore.isRecordOf(value, scores => Array.isArray(scores) && scores.every(ProfileStore.isRecord)),
+    dailyChallenge: value => ProfileStore.isRecordOf(value, ProfileStore.isRecord),
+    achievements: value => ProfileStore.isRecord(value) && ProfileStore.isRecord(value.counters) && ProfileStore.isRecord(value.unlocked),
+    runHistory: value => ProfileStore.isRecord(value) && Array.isArray(value.runs) && value.runs.every(ProfileStore.isRecord) &&
+      ProfileStore.isRecord(value.totals) && ProfileStore.isRecordOf(value.bests, ProfileStore.isRecord),
+    levelRecords: value => ProfileStore.isRecordOf(value, record => ProfileStore.isRecord(record) && typeof record.score === 'number'),
+    lastReplay: value => ProfileStore.isReplay(value),
+    bestReplay: value => ProfileStore.isReplay(value),
+    audioSettings: value => ProfileStore.isRecord(value),
+    inputSettings: value => ProfileStore.isRecord(value),
+    gamepadSettings: value => ProfileStore.isRecord(value),
+    touchLayouts: value => ProfileStore.isRecord(value)
+  }
+
+  private static migrated = false
+
+  /**
+   * Stored value of a section - throws like localStorage does when storage is unavailable
+   */
+  static getItem(section: ProfileSection): string | null {
+    this.migrateStorage()
+    return localStorage.getItem(this.SECTIONS[section].key)
+  }
+
+  static setItem(section: ProfileSection, value: string): void {
+    this.migrateStorage()
+    localStorage.setItem(this.SECTIONS[section].key, value)
+  }
+
+  static removeItem(section: ProfileSection): void {
+    localStorage.removeItem(this.SECTIONS[section].key)
+  }
+
+  /**
+   * The whole profile as a file - only the sections this device has saved
+   */
+  static exportProfile(): ProfileFile {
+    return {
+      game: this.GAME_ID,
+      version: this.VERSION,
+      exportedAt: Date.now(),
+      data: this.readAll()
+    }
+  }
+
+  /**
+   * Load a profile file - merged section by section into this device's profile, or replacing it
+   * The new profile is worked out in full before anything is written, and if saving it fails part way
+   * (storage full) the profile is put back the way it was
+   */
+  static importProfile(json: string, mode: ProfileImportMode): ProfileImportResult {
+    const file = this.parseJson<ProfileFile>(json)
+    const error = this.validate(file)
+    if (error || !file) {
+      console.warn(`👤 Profile import rejected: ${error}`)
+      return { success: false, message: error || 'Not a profile file', sections: [] }
+    }
+
+    const current = this.readAll()
+    try {
+      const imported = this.migrate({ ...file.data }, file.version)
+      const result = mode === 'replace' ? imported : this.mergeProfiles(current, imported)
+      const sections = Object.keys(result) as ProfileSection[]
+      this.writeAll(result)
+      localStorage.setItem(this.VERSION_KEY, this.VERSION.toString())
+
+      console.log(`👤 Profile ${mode === 'replace' ? 'replaced' : 'merged'} - ${sections.length} sections`)
+      return {
+        success: true,
+        message: mode === 'replace' ? 'Profile replaced' : 'Profile merged',
+        sections
+      }
+    } catch (e) {
+      console.warn('👤 Could not save imported profile:', e)
+      this.restore(current)
+      return { success: false, message: 'Could not save the profile on this device', sections: [] }
+    }
+  }
+
+  /**
+   * Why a file can't be imported, or null when it can
+   */
+  static validate(file: unknown): string | null {
+    if (!file || typeof file !== 'object') return 'Not a profile file'
+
+    const profile = file as Partial<ProfileFile>
+    if (profile.game !== this.GAME_ID) return 'Not a Bizarre Underground profile'
+    if (typeof profile.version !== 'number' || !Number.isInteger(profile.version) || profile.version < 0) {
+      return 'Profile version is missing'
+    }
+    if (profile.version > this.VERSION) return 'Profile is from a newer version of the game'
+    if (!profile.data || typeof profile.data !== 'object') return 'Profile has no data'
+
+    for (const [section, value] of Object.entries(profile.data)) {
+      if (!Object.prototype.hasOwnProperty.call(this.SECTIONS, section)) return `Unknown profile section: ${section}`
+      const definition = this.SECTIONS[section as ProfileSection]
+      if (typeof value !== 'string') return `Bad value for ${section}`
+      if (definition.format === 'integer' && !/^-?\d+$/.test(value)) return `Bad value for ${section}`
+      if (definition.format === 'boolean' && value !== 'true' && value !== 'false') return `Bad value for ${section}`
+      if (definition.format === 'json') {
+        const parsed = this.parseJson<unknown>(value)
+        const shape = this.SHAPES[section as ProfileSection]
+        if (parsed === null || (shape && !shape(parsed))) return `Bad value for ${section}`
+      }
+    }
+    return null
+  }
+
+  /**
+   * Bring this device's storage up to VERSION, once per session
+   */
+  private static migrateStorage(): void {
+    if (this.migrated) return
+    this.migrated = true
+
+    try {
+      const stored = parseInt(localStorage.getItem(this.VERSION_KEY) || '0', 10) || 0
+      if (stored > this.VERSION) {
+        console.warn(`👤 Profile version ${stored} is newer than this game (${this.VERSION}) - leaving it as it is`)
+        return
+      }
+      if (stored === this.VERSION) return
+
+      const before = this.readAll()
+      const after = this.migrate({ ...before }, stored)
+      ;(Object.keys(this.SECTIONS) as ProfileSection[]).forEach(section => {
+        if (after[section] === before[section]) return
+        if (after[section] === undefined) {
+          this.removeItem(section)
+        } else {
+          localStorage.setItem(this.SECTIONS[section].key, after[section]!)
+        }
+      })
+      localStorage.setItem(this.VERSION_KEY, this.VERSION.toString())
+    } catch (e) {
+      console.warn('👤 Could not migrate profile:', e)
+    }
+  }
+
+  private static migrate(data: ProfileData, fromVersion: number): ProfileData {
+    this.MIGRATIONS.filter(migration => migration.toVersion > fromVersion).forEach(migration => {
+      migration.migrate(data)
+      console.log(`👤 Profile migrated to v${migration.toVersion}: ${migration.description}`)
+    })
+    return data
+  }
+
+  private static readAll(): ProfileData {
+    const data: ProfileData = {}
+    try {
+      (Object.keys(this.SECTIONS) as ProfileSection[]).forEach(section => {
+        const value = localStorage.getItem(this.SECTIONS[section].key)
+        if (value !== null) data[section] = value
+      })
+    } catch (e) {
+      console.warn('👤 Could not read profile:', e)
+    }
+    return data
+  }
+
+  /**
+   * Make storage hold exactly these sections - new values go in before missing sections are removed,
+   * so a write that fails hasn't deleted anything yet
+   */
+  private static writeAll(data: ProfileData): void {
+    const sections = Object.keys(this.SECTIONS) as ProfileSection[]
+    sections.forEach(section => {
+      if (data[section] !== undefined) localStorage.setItem(this.SECTIONS[section].key, data[section]!)
+    })
+    sections.forEach(section => {
+      if (data[section] === undefined) this.removeItem(section)
+    })
+  }
+
+  /**
+   * Put back a profile read before a failed import - cleared first so the old values fit again
+   */
+  private static restore(data: ProfileData): void {
+    try {
+      (Object.keys(this.SECTIONS) as ProfileSection[]).forEach(section => this.removeItem(section))
+      this.writeAll(data)
+    } catch (e) {
+      console.warn('👤 Could not restore profile after a failed import:', e)
+    }
+  }
+
+  /**
+   * Combine two profiles - progress and records keep the best of both, settings stay as this device has them
+   */
+  private static mergeProfiles(current: ProfileData, imported: ProfileData): ProfileData {
+    const merged: ProfileData = { ...current }
+    ;(Object.keys(imported) as ProfileSection[]).forEach(section => {
+      const theirs = imported[section]!
+      const ours = current[section]
+      merged[section] = ours === undefined ? theirs : this.mergeSection(section, ours, theirs)
+    })
+    return merged
+  }
+
+  private static mergeSection(section: ProfileSection, ours: string, theirs: string): string {
+    switch (section) {
+      case 'furthestLevel':
+      case 'highScore':
+        return Math.max(parseInt(ours, 10) || 0, parseInt(theirs, 10) || 0).toString()
+
+      case 'scores': {
+        // The dgen1 top ten
+        const scores = this.mergeLists<{ score: number, date: number }>(ours, theirs, entry => `${entry.date}:${entry.score}`)
+        return JSON.stringify(scores.sort((a, b) => b.score - a.score).slice(0, 10))
+      }
+
+      case 'platformStats': {
+        const a = this.parseJson<Record<string, number>>(ours) || {}
+        const b = this.parseJson<Record<string, number>>(theirs) || {}
+        return JSON.stringify(this.mergeMax(a, b))
+      }
+
+      case 'walletScores': {
+        const a = this.parseJson<Record<string, Array<{ timestamp: number, board?: string }>>>(ours) || {}
+        const b = this.parseJson<Record<string, Array<{ timestamp: number, board?: string }>>>(theirs) || {}
+        Object.entries(b).forEach(([playerId, scores]) => {
+          const seen = new Set((a[playerId] || []).map(score => `${score.board}:${score.timestamp}`))
+          a[playerId] = (a[playerId] || []).concat(scores.filter(score => !seen.has(`${score.board}:${score.timestamp}`)))
+        })
+        return JSON.stringify(a)
+      }
+
+      case 'dailyChallenge': {
+        // Best result for each day, counting the attempts made on either device
+        type DailyResult = { score: number, timeMs: number, attempts: number }
+        const a = this.parseJson<Record<string, DailyResult>>(ours) || {}
+        const b = this.parseJson<Record<string, DailyResult>>(theirs) || {}
+        Object.entries(b).forEach(([dateKey, result]) => {
+          const previous = a[dateKey]
+          if (!previous) {
+            a[dateKey] = result
+            return
+          }
+          const better = result.score > previous.score || (result.score === previous.score && result.timeMs < previous.timeMs)
+          a[dateKey] = { ...(better ? result : previous), attempts: Math.max(previous.attempts || 0, result.attempts || 0) }
+        })
+        return JSON.stringify(a)
+      }
+
+      case 'achievements': {
+        // Counters can't be told apart once added up, so each keeps the higher of the two
+        type StoredAchievements = { version: number, counters: Record<string, number>, unlocked: Record<string, number> }
+        const a = this.parseJson<StoredAchievements>(ours)
+        const b = this.parseJson<StoredAchievements>(theirs)
+        if (!a || !b || a.version !== b.version) return b && !a ? theirs : ours
+        Object.entries(b.unlocked || {}).forEach(([id, unlockedAt]) => {
+          a.unlocked[id] = Math.min(a.unlocked[id] ?? unlockedAt, unlockedAt)
+        })
+        a.counters = this.mergeMax(a.counters || {}, b.counters || {})
+        return JSON.stringify(a)
+      }
+
+      case 'runHistory': {
+        type StoredRunHistory = {
+          version: number
+          runs: Array<{ date: number, score: number }>
+          totals: Record<string, number | Record<string, number>>
+          bests: Record<string, { score: number }>
+        }
+        const a = this.parseJson<StoredRunHistory>(ours)
+        const b = this.parseJson<StoredRunHistory>(theirs)
+        if (!a || !b || a.version !== b.version) return b && !a ? theirs : ours
+
+        const seen = new Set(a.runs.map(run => `${run.date}:${run.score}`))
+        a.runs = a.runs.concat(b.runs.filter(run => !seen.has(`${run.date}:${run.score}`)))
+          .sort((x, y) => y.date - x.date)
+        Object.entries(b.totals).forEach(([field, value]) => {
+          const own = a.totals[field]
+          a.totals[field] = typeof value === 'number'
+            ? Math.max(typeof own === 'number' ? own : 0, value)
+            : this.mergeMax(typeof own === 'object' ? own : {}, value)
+        })
+        Object.entries(b.bests).forEach(([chapter, best]) => {
+          if (!a.bests[chapter] || best.score > a.bests[chapter].score) a.bests[chapter] = best
+        })
+        return JSON.stringify(a)
+      }
+
+      case 'levelRecords': {
+        // Best score and best star rating on each level, taken separately
+        type LevelRecord = { score: number, stars?: number, completedAt: number }
+        const a = this.parseJson<Record<string, LevelRecord>>(ours) || {}
+        const b = this.parseJson<Record<string, LevelRecord>>(theirs) || {}
+        Object.entries(b).forEach(([level, record]) => {
+          const local = a[level]
+          if (!local) {
+            a[level] = record
+            return
+          }
+          a[level] = {
+            score: Math.max(local.score, record.score),
+            stars: Math.max(local.stars || 0, record.stars || 0),
+            completedAt: Math.max(local.completedAt || 0, record.completedAt || 0)
+          }
+        })
+        return JSON.stringify(a)
+      }
+
+      case 'lastReplay':
+      case 'bestReplay': {
+        // The newer last run, and the higher-scoring best run
+        type StoredReplay = { recordedAt: number, finalScore: number }
+        const a = this.parseJson<StoredReplay>(ours)
+        const b = this.parseJson<StoredReplay>(theirs)
+        if (!a || !b) return b && !a ? theirs : ours
+        const theirsWins = section === 'lastReplay' ? b.recordedAt > a.recordedAt : b.finalScore > a.finalScore
+        return theirsWins ? theirs : ours
+      }
+
+      case 'touchLayouts': {
+        // Layouts are per screen size - add the ones this device hasn't made
+        const a = this.parseJson<Record<string, unknown>>(ours) || {}
+        const b = this.parseJson<Record<string, unknown>>(theirs) || {}
+        return JSON.stringify({ ...b, ...a })
+      }
+
+      default:
+        // Settings and the player id belong to this device
+        return ours
+    }
+  }
+
+  private static mergeLists<T>(ours: string, theirs: string, getId: (entry: T) => string): T[] {
+    const a = this.parseJson<T[]>(ours)
+    const b = this.parseJson<T[]>(theirs)
+    const list = Array.isArray(a) ? a : []
+    const seen = new Set(list.map(getId))
+    return list.concat((Array.isArray(b) ? b : []).filter(entry => !seen.has(getId(entry))))
+  }
+
+  private static mergeMax(a: Record<string, number>, b: Record<string, number>): Record<string, number> {
+    const merged = { ...a }
+    Object.entries(b).forEach(([key, value]) => {
+      if (typeof value === 'number') merged[key] = Math.max(merged[key] || 0, value)
+    })
+    return merged
+  }
+
+  private static isRecord(value: unknown): value is Record<string, any> {
+    return !!value && typeof value === 'object' && !Array.isArray(value)
+  }
+
+  private static isReplay(value: unknown): boolean {
+    return ProfileStore.isRecord(value) && typeof value.seed === 'number' && typeof value.finalScore === 'number' &&
+      Array.isArray(value.segments)
+  }
+
+  private static isRecordOf(value: unknown, check: (entry: any) => boolean): boolean {
+    return ProfileStore.isRecord(value) && Object.values(value).every(check)
+  }
+
+  private static parseJson<T>(json: string | undefined): T | null {
+    if (json === undefined) return null
+    try {
+      return JSON.parse(json) as T
+    } catch (e) {
+      return null
+    }
+  }
+}
+
+export default ProfileStore
@@ -0,0 +1,404 @@
+/**
+ * Replay System for Bizarre Underground
+ * Records the resolved player input for every frame so a run can be played back exactly
+ * Used to reproduce "I died for no reason" reports and to let players watch their best runs
+ */
+
+import GameSettings from '../config/GameSettingsLoader'
+import type { ScoreEvent } from './ScoringSystem'
+import type { ShopItemId } from './GemShop'
+import { downloadJson, pickJsonFile } from '../utils/JsonFiles'
+import { ProfileStore } from './ProfileStore'
+
+/**
+ * Resolved input for a single frame (keyboard + touch controls combined, before control reversal)
+ */
+export interface PlayerInputFrame {
+  left: boolean
+  right: boolean
+  up: boolean
+  down: boolean
+  jumpHeld: boolean
+  jumpJustPressed: boolean
+  fireJustPressed: boolean
+}
+
+/**
+ * A scoring event as it happened - shows where a run's points came from when a replay is attached to a report
+ */
+export interface ReplayScoreEvent extends ScoreEvent {
+  frame: number  // Frames recorded in the segment when it scored
+  floor: number  // Floor the player was on
+  points: number // Points the game awarded
+}
+
+/**
+ * One level attempt - a new segment starts every time GameScene (re)starts
+ */
+export interface ReplaySegment {
+  level: number
+  isBonusLevel: boolean
+  frames: string // Run-length encoded "<mask>.<deltaMs>[*count]" tokens, comma separated
+  events?: ReplayScoreEvent[]       // Missing in replays recorded before score events
+  floors?: Array<[number, number]>  // [frame, floor] each time the player reached a new highest floor
+  outcome?: 'completed' | 'died'    // How the attempt ended - missing if the run stopped mid-level
+  purchases?: ShopItemId[]          // Gem shop buys on the level complete screen, in order
+}
+
+export interface ReplayData {
+  version: number
+  seed: number
+  gameMode: string               // 'normal', 'daily' or 'practice'
+  dailyChallengeDate?: string
+  profile: {                     // GameSettings the run was recorded with
+    buildType: string
+    canvasWidth: number
+    canvasHeight: number
+    stepRate: number
+  }
+  recordedAt: number
+  finalScore: number
+  segments: ReplaySegment[]
+}
+
+export interface ReplayPlaybackState {
+  replay: ReplayData
+  segmentIndex: number
+}
+
+// Bit flags for encoding a PlayerInputFrame
+const INPUT_BITS: Array<keyof PlayerInputFrame> = [
+  'left', 'right', 'up', 'down', 'jumpHeld', 'jumpJustPressed', 'fireJustPressed'
+]
+
+export const EMPTY_INPUT: PlayerInputFrame = {
+  left: false,
+  right: false,
+  up: false,
+  down: false,
+  jumpHeld: false,
+  jumpJustPressed: false,
+  fireJustPressed: false
+}
+
+/**
+ * Collects frames for the current segment
+ */
+export class InputRecorder {
+  private tokens: string[] = []
+  private lastToken: string = ''
+  private runLength: number = 0
+  private frameCount: number = 0
+  private events: ReplayScoreEvent[] = []
+  private floors: Array<[number, number]> = []
+  private highestFloor: number = 0
+  private outcome: ReplaySegment['outcome']
+  private purchases: ShopItemId[] = []
+
+  constructor(private level: number, private isBonusLevel: boolean) {}
+
+  /**
+   * Record the input and step size for one frame
+   */
+  record(input: PlayerInputFrame, delta: number): void {
+    const token = `${ReplayManager.encodeInput(input).toString(36)}.${Math.round(delta)}`
+    if (token === this.lastToken) {
+      this.runLength++
+    } else {
+      this.flushRun()
+      this.lastToken = token
+      this.runLength = 1
+    }
+    this.frameCount++
+  }
+
+  getFrameCount(): number {
+    return this.frameCount
+  }
+
+  /**
+   * Note points awarded during the current frame
+   */
+  recordScore(event: ScoreEvent, points: number, floor: number): void {
+    this.events.push({ ...event, frame: this.frameCount, floor, points })
+  }
+
+  /**
+   * Note the floor the player is on - only new highest floors are kept
+   */
+  recordFloor(floor: number): void {
+    if (floor <= this.highestFloor) return
+    this.highestFloor = floor
+    this.floors.push([this.frameCount, floor])
+  }
+
+  setOutcome(outcome: 'completed' | 'died'): void {
+    this.outcome = outcome
+  }
+
+  /**
+   * Note a gem shop purchase made after the level - playback makes the same ones
+   */
+  recordPurchase(item: ShopItemId): void {
+    this.purchases.push(item)
+  }
+
+  /**
+   * Get the segment recorded so far
+   */
+  getSegment(): ReplaySegment {
+    const pending = this.runLength > 0
+      ? [this.runLength > 1 ? `${this.lastToken}*${this.runLength}` : this.lastToken]
+      : []
+    return {
+      level: this.level,
+      isBonusLevel: this.isBonusLevel,
+      frames: [...this.tokens, ...pending].join(','),
+      events: [...this.events],
+      floors: [...this.floors],
+      outcome: this.outcome,
+      purchases: this.purchases.length > 0 ? [...this.purchases] : undefined
+    }
+  }
+
+  private flushRun(): void {
+    if (this.runLength === 0) return
+    this.tokens.push(this.runLength > 1 ? `${this.lastToken}*${this.runLength}` : this.lastToken)
+  }
+}
+
+/**
+ * Feeds a recorded segment back into the player one frame at a time
+ */
+export class InputPlayback {
+  private frames: Array<{ input: PlayerInputFrame, delta: number, count: number }> = []
+  private runIndex: number = 0
+  private runPosition: number = 0
+
+  constructor(encodedFrames: string) {
+    if (!encodedFrames) return
+    encodedFrames.split(',').forEach(token => {
+      const [frame, count] = token.split('*')
+      const [mask, delta] = frame.split('.')
+      this.frames.push({
+        input: ReplayManager.decodeInput(parseInt(mask, 36)),
+        delta: Number(delta),
+        count: count ? Number(count) : 1
+      })
+    })
+  }
+
+  /**
+   * Get the next recorded frame, or null once the segment has ended
+   */
+  next(): { input: PlayerInputFrame, delta: number } | null {
+    const run = this.frames[this.runIndex]
+    if (!run) return null
+
+    this.runPosition++
+    if (this.runPosition >= run.count) {
+      this.runIndex++
+      this.runPosition = 0
+    }
+    return { input: run.input, delta: run.delta }
+  }
+
+  isFinished(): boolean {
+    return this.runIndex >= this.frames.length
+  }
+}
+
+/**
+ * Replay storage, registry bookkeeping and import/export
+ */
+export class ReplayManager {
+  static readonly VERSION = 1
+
+  static encodeInput(input: PlayerInputFrame): number {
+    return INPUT_BITS.reduce((mask, key, bit) => input[key] ? mask | (1 << bit) : mask, 0)
+  }
+
+  static decodeInput(mask: number): PlayerInputFrame {
+    const input = { ...EMPTY_INPUT }
+    INPUT_BITS.forEach((key, bit) => {
+      input[key] = (mask & (1 << bit)) !== 0
+    })
+    return input
+  }
+
+  /**
+   * Start recording a new run - call when a new game begins
+   */
+  static beginRun(registry: Phaser.Data.DataManager): void {
+    const replay: ReplayData = {
+      version: this.VERSION,
+      seed: registry.get('runSeed'),
+      gameMode: registry.get('gameMode') || 'normal',
+      dailyChallengeDate: registry.get('dailyChallengeDate'),
+      profile: this.getProfile(),
+      recordedAt: Date.now(),
+      finalScore: 0,
+      segments: []
+    }
+    registry.set('runReplay', replay)
+  }
+
+  /**
+   * Append a finished level attempt to the run being recorded
+   */
+  static appendSegment(registry: Phaser.Data.DataManager, segment: ReplaySegment): void {
+    const replay: ReplayData | undefined = registry.get('runReplay')
+    if (!replay) return
+    replay.segments.push(segment)
+  }
+
+  /**
+   * Finish the recorded run - always kept as the last replay, and as the best replay if it beats it
+   * Returns true if this run became the new best replay
+   */
+  static finishRun(registry: Phaser.Data.DataManager, finalScore: number): boolean {
+    const replay: ReplayData | undefined = registry.get('runReplay')
+    registry.remove('runReplay')
+    if (!replay || replay.segments.length === 0) return false
+
+    replay.finalScore = finalScore
+    this.store('lastReplay', replay)
+
+    const best = this.getBestReplay()
+    if (!best || finalScore > best.finalScore) {
+      this.store('bestReplay', replay)
+      console.log(`🎬 New best replay saved (${finalScore} points)`)
+      return true
+    }
+    return false
+  }
+
+  static getLastReplay(): ReplayData | null {
+    return this.load('lastReplay')
+  }
+
+  static getBestReplay(): ReplayData | null {
+    return this.load('bestReplay')
+  }
+
+  /**
+   * Set up the registry so the next GameScene start plays back a replay
+   */
+  static startPlayback(registry: Phaser.Data.DataManager, replay: ReplayData): void {
+    const profile = replay.profile
+    const current = this.getProfile()
+    if (profile.buildType !== current.buildType ||
+        profile.canvasWidth !== current.canvasWidth ||
+        profile.canvasHeight !== current.canvasHeight ||
+        profile.stepRate !== current.stepRate) {
+      console.warn('🎬 Replay was recorded with a different GameSettings profile - playback may desync', profile)
+    }
+
+    registry.set('replayPlayback', { replay, segmentIndex: 0 } as ReplayPlaybackState)
+    registry.set('gameMode', replay.gameMode)
+    if (replay.dailyChallengeDate) {
+      registry.set('dailyChallengeDate', replay.dailyChallengeDate)
+    } else {
+      registry.remove('dailyChallengeDate')
+    }
+    registry.set('currentLevel', replay.segments[0]?.level || 1)
+    registry.set('isReplay', false)
+    registry.set('isDeathRetry', false)
+    registry.set('levelProgression', false)
+    registry.remove('playerLives')
+    registry.remove('runSeed')
+    registry.remove('runReplay')
+  }
+
+  /**
+   * Get the active playback state, if a replay is being watched
+   */
+  static getPlayback(registry: Phaser.Data.DataManager): ReplayPlaybackState | null {
+    return registry.get('replayPlayback') || null
+  }
+
+  /**
+   * Leave playback mode and reset the registry for normal play
+   */
+  static stopPlayback(registry: Phaser.Data.DataManager): void {
+    registry.remove('replayPlayback')
+    registry.set('gameMode', 'normal')
+    registry.remove('dailyChallengeDate')
+    registry.remove('practiceStartLevel')
+    registry.set('currentLevel', 1)
+    registry.set('levelProgression', false)
+    registry.set('isDeathRetry', false)
+    registry.set('isReplay', false)
+    registry.remove('playerLives')
+    registry.remove('runSeed')
+  }
+
+  /**
+   * Download a replay as a JSON file (attach to bug reports)
+   */
+  static exportReplay(replay: ReplayData): void {
+    downloadJson(`bizarre-underground-replay-${replay.seed}.json`, JSON.stringify(replay))
+  }
+
+  /**
+   * Parse and validate a replay file
+   */
+  static importReplay(json: string): ReplayData | null {
+    try {
+      const replay = JSON.parse(json) as ReplayData
+      if (replay.version !== this.VERSION || typeof replay.seed !== 'number' || !Array.isArray(replay.segments)) {
+        console.warn('🎬 Unsupported replay file')
+        return null
+      }
+      return replay
+    } catch (e) {
+      console.warn('🎬 Could not read replay file:', e)
+      return null
+    }
+  }
+
+  /**
+   * Let the user pick a replay file to load
+   */
+  static promptImport(): Promise<ReplayData | null> {
+    return pickJsonFile()
+      .then(json => json === null ? null : this.importReplay(json))
+      .catch(e => {
+        console.warn('🎬 Could not read replay file:', e)
+        return null
+      })
+  }
+
+  /**
+   * Describe the GameSettings profile this build is running with
+   */
+  static getProfile(): ReplayData['profile'] {
+    return {
+      buildType: (GameSettings as any).buildType || 'remix',
+      canvasWidth: GameSettings.canvas.width,
+      canvasHeight: GameSettings.canvas.height,
+      stepRate: GameSettings.simulation.stepRate
+    }
+  }
+
+  // Saved in the player's profile, so exporting it takes the replays along
+  private static store(section: 'lastReplay' | 'bestReplay', replay: ReplayData): void {
+    try {
+      ProfileStore.setItem(section, JSON.stringify(replay))
+    } catch (e) {
+      console.warn('Could not save replay:', e)
+    }
+  }
+
+  private static load(section: 'lastReplay' | 'bestReplay'): ReplayData | null {
+    try {
+      const stored = ProfileStore.getItem(section)
+      return stored ? this.importReplay(stored) : null
+    } catch (e) {
+      console.warn('Could not load replay:', e)
+      return null
+    }
+  }
+}
+
+export default ReplayManager
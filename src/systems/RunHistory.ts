@@ -0,0 +1,186 @@
+/**
+ * Run History for Bizarre Underground
+ * Keeps a record of every finished run and the lifetime totals and per-chapter bests built from them
+ * The recent runs are trimmed to MAX_RUNS, the totals and bests count every run ever recorded
+ * Saved in the player's profile (ProfileStore 'runHistory')
+ */
+
+import { ProfileStore } from './ProfileStore'
+
+// Where a run ended - BackgroundManager's chapter ids, with Beast Mode apart from Galactic
+export type RunChapter = 'crystal_cavern' | 'volcanic_crystal' | 'steampunk' | 'storm' | 'galactic' | 'beast_mode'
+
+export interface RunRecord {
+  date: number                   // When the run ended
+  mode: 'normal' | 'daily' | 'practice'
+  score: number
+  level: number                  // Level reached
+  floor: number                  // Highest floor reached on that level
+  kills: Record<string, number>  // GameScene's gameStats.enemyKills
+  enemiesDefeated: number
+  gems: number                   // Coins, blue gems and diamonds picked up
+  chests: number
+  livesLost: number
+  durationMs: number
+  causeOfDeath: string | null    // EnemyType or 'spikes' - null when a Daily Challenge was cleared
+}
+
+export interface RunTotals {
+  runs: number
+  score: number
+  enemiesDefeated: number
+  gems: number
+  chests: number
+  livesLost: number
+  durationMs: number
+  kills: Record<string, number>
+  deaths: Record<string, number> // Runs ended by each cause
+}
+
+export interface ChapterBest {
+  score: number
+  level: number
+  floor: number
+  date: number
+}
+
+interface StoredRunHistory {
+  version: number
+  runs: RunRecord[] // Newest first
+  totals: RunTotals
+  bests: Partial<Record<RunChapter, ChapterBest>>
+}
+
+export class RunHistory {
+  static readonly VERSION = 1
+  static readonly MAX_RUNS = 50
+
+  static readonly CHAPTERS: Array<{ id: RunChapter, name: string, fromLevel: number }> = [
+    { id: 'crystal_cavern', name: 'Crystal Cavern', fromLevel: 1 },
+    { id: 'volcanic_crystal', name: 'Volcanic', fromLevel: 11 },
+    { id: 'steampunk', name: 'Steampunk', fromLevel: 21 },
+    { id: 'storm', name: 'Electrified', fromLevel: 31 },
+    { id: 'galactic', name: 'Galactic', fromLevel: 41 },
+    { id: 'beast_mode', name: 'Beast Mode', fromLevel: 51 }
+  ]
+
+  static readonly CAUSE_NAMES: Record<string, string> = {
+    baseblu: 'BaseBlu',
+    beetle: 'Rollz',
+    caterpillar: 'Caterpillar',
+    blue_caterpillar: 'Blue Caterpillar',
+    chomper: 'Chomper',
+    snail: 'Snail',
+    jumper: 'Bouncer',
+    stalker: 'Stalker',
+    rex: 'Rex',
+    spikes: 'Spikes'
+  }
+
+  static getChapter(level: number): RunChapter {
+    return [...this.CHAPTERS].reverse().find(chapter => level >= chapter.fromLevel)?.id || 'crystal_cavern'
+  }
+
+  /**
+   * Add a finished run - returns true if it set a new best for its chapter
+   */
+  static record(run: RunRecord): boolean {
+    const history = this.load()
+    history.runs.unshift(run)
+    history.runs.splice(this.MAX_RUNS)
+
+    const totals = history.totals
+    totals.runs++
+    totals.score += run.score
+    totals.enemiesDefeated += run.enemiesDefeated
+    totals.gems += run.gems
+    totals.chests += run.chests
+    totals.livesLost += run.livesLost
+    totals.durationMs += run.durationMs
+    Object.entries(run.kills).forEach(([enemy, count]) => {
+      totals.kills[enemy] = (totals.kills[enemy] || 0) + count
+    })
+    if (run.causeOfDeath) {
+      totals.deaths[run.causeOfDeath] = (totals.deaths[run.causeOfDeath] || 0) + 1
+    }
+
+    // Daily Challenge and practice runs start from their own levels, so they don't count towards the chapter bests
+    let isNewBest = false
+    if (run.mode === 'normal') {
+      const chapter = this.getChapter(run.level)
+      const best = history.bests[chapter]
+      if (!best || run.score > best.score) {
+        history.bests[chapter] = { score: run.score, level: run.level, floor: run.floor, date: run.date }
+        isNewBest = true
+      }
+    }
+
+    this.save(history)
+    console.log(`📊 Run recorded - Score: ${run.score}, Level: ${run.level}, Cause: ${run.causeOfDeath || 'cleared'}${isNewBest ? ' (chapter best)' : ''}`)
+    return isNewBest
+  }
+
+  /**
+   * Recent runs, newest first
+   */
+  static getRuns(): RunRecord[] {
+    return this.load().runs
+  }
+
+  static getTotals(): RunTotals {
+    return this.load().totals
+  }
+
+  static getChapterBests(): Partial<Record<RunChapter, ChapterBest>> {
+    return this.load().bests
+  }
+
+  /**
+   * The cause that has ended the most runs
+   */
+  static getMostCommonDeath(): string | null {
+    const deaths = Object.entries(this.getTotals().deaths).sort((a, b) => b[1] - a[1])
+    return deaths.length > 0 ? deaths[0][0] : null
+  }
+
+  static getCauseName(cause: string | null): string {
+    if (!cause) return 'Cleared'
+    return this.CAUSE_NAMES[cause] || cause
+  }
+
+  private static createEmpty(): StoredRunHistory {
+    return {
+      version: this.VERSION,
+      runs: [],
+      totals: { runs: 0, score: 0, enemiesDefeated: 0, gems: 0, chests: 0, livesLost: 0, durationMs: 0, kills: {}, deaths: {} },
+      bests: {}
+    }
+  }
+
+  private static load(): StoredRunHistory {
+    try {
+      const saved = ProfileStore.getItem('runHistory')
+      if (!saved) return this.createEmpty()
+
+      const stored = JSON.parse(saved) as StoredRunHistory
+      if (stored.version !== this.VERSION || !Array.isArray(stored.runs) || typeof stored.totals !== 'object') {
+        console.warn(`📊 Unknown run history version ${stored.version}, starting over`)
+        return this.createEmpty()
+      }
+      return stored
+    } catch (e) {
+      console.warn('📊 Could not load run history:', e)
+      return this.createEmpty()
+    }
+  }
+
+  private static save(history: StoredRunHistory): void {
+    try {
+      ProfileStore.setItem('runHistory', JSON.stringify(history))
+    } catch (e) {
+      console.warn('📊 Could not save run history:', e)
+    }
+  }
+}
+
+export default RunHistory
@@ -0,0 +1,178 @@
+/**
+ * Run State for Bizarre Underground
+ * Versioned snapshot of a run in progress, so closing the game mid-level picks up where the player left off
+ * GameScene writes it (autosave, tab hidden, page hide) and restores it; storage goes through the GamePlatform
+ */
+
+import { GamePlatform, RemixPlatform } from '../utils/GamePlatform'
+
+export interface RunState {
+  version: number
+  savedAt: number
+
+  // Run identity - the seed rebuilds the same level layout, enemies and collectibles
+  seed: number
+  gameMode: string
+  dailyChallengeDate?: string
+  practiceStartLevel?: number // Level a practice run started on
+  runStartTime: number
+
+  // Where the player was
+  level: number
+  isBonusLevel: boolean
+  floor: number
+  playerTileX: number
+
+  // Scoring and counters
+  score: number              // Current level score
+  accumulatedScore: number   // Score from completed levels
+  lives: number
+  livesEarned: number
+  // Epic chest pity timer when the level started (chest tiers are rolled from it) and now - missing from older saves
+  chestsSinceEpic?: { levelStart: number, current: number }
+  shop?: { gemsSpent: number, chestRerolls: number } // Gem shop spending and rerolls held - missing from older saves
+  levelProgress?: { timeMs: number, livesLost: number } // Time played and lives lost on the level, for its star rating - missing from older saves
+  gems: {
+    totalCoins: number
+    totalGems: number
+    totalBlueGems: number
+    totalDiamonds: number
+    accumulatedDiamonds: number
+  }
+
+  // Remaining time (ms) on each power-up, keyed by PowerUpId - 0 when inactive
+  powerUps: { [powerUp: string]: number }
+
+  collectedPickups: string[] // Level pickups already taken - see RunStateManager.getPickupKey
+  gameStats: {
+    treasureChestsOpened: number
+    enemyKills: { [enemy: string]: number }
+    totalEnemiesDefeated: number
+    highestFloor: number
+    livesLost: number
+  }
+
+  // Layout the level was generated with - if the generator has changed since, the player restarts the level
+  layout: {
+    floorWidth: number
+    floors: { gapStart: number, gapSize: number }[]
+    ladders: Array<[number, number[]]>
+  }
+}
+
+export class RunStateManager {
+  static readonly VERSION = 1
+
+  private static fallbackPlatform: GamePlatform | null = null
+
+  /**
+   * Platform that stores the save - dgen1 registers one at startup, the Remix build falls back to RemixPlatform
+   */
+  static getPlatform(registry: Phaser.Data.DataManager): GamePlatform {
+    const platform = registry.get('platform') || (window as any).platform || (window as any).gamePlatform
+    if (platform) return platform
+
+    if (!this.fallbackPlatform) {
+      this.fallbackPlatform = new RemixPlatform()
+    }
+    return this.fallbackPlatform
+  }
+
+  static async save(registry: Phaser.Data.DataManager, state: RunState): Promise<void> {
+    const platform = this.getPlatform(registry)
+    if (!platform.saveGameState) return
+
+    try {
+      await platform.saveGameState(state)
+    } catch (e) {
+      console.warn('💾 Could not save run state:', e)
+    }
+  }
+
+  /**
+   * Load the saved run, or null if there is none or it was written by an incompatible version
+   */
+  static async load(registry: Phaser.Data.DataManager): Promise<RunState | null> {
+    const platform = this.getPlatform(registry)
+    if (!platform.loadGameState) return null
+
+    try {
+      const state = await platform.loadGameState()
+      if (!state) return null
+
+      if (state.version !== this.VERSION) {
+        console.warn(`💾 Discarding run save from version ${state.version} (current ${this.VERSION})`)
+        await this.clear(registry)
+        return null
+      }
+      return state as RunState
+    } catch (e) {
+      console.warn('💾 Could not load run state:', e)
+      return null
+    }
+  }
+
+  static async clear(registry: Phaser.Data.DataManager): Promise<void> {
+    const platform = this.getPlatform(registry)
+    if (!platform.clearGameState) return
+
+    try {
+      await platform.clearGameState()
+    } catch (e) {
+      console.warn('💾 Could not clear run state:', e)
+    }
+  }
+
+  /**
+   * Set up the game registry so the next GameScene start continues the saved run
+   * GameScene treats it like a continue after a lost life, then reads 'resumeRunState' for the rest
+   */
+  static prepareResume(registry: Phaser.Data.DataManager, state: RunState): void {
+    registry.set('gameMode', state.gameMode)
+    if (state.dailyChallengeDate) {
+      registry.set('dailyChallengeDate', state.dailyChallengeDate)
+    } else {
+      registry.remove('dailyChallengeDate')
+    }
+    if (state.practiceStartLevel) {
+      registry.set('practiceStartLevel', state.practiceStartLevel)
+    } else {
+      registry.remove('practiceStartLevel')
+    }
+    registry.set('currentLevel', state.level)
+    registry.set('runSeed', state.seed)
+    registry.set('runStartTime', state.runStartTime)
+
+    registry.set('playerLives', state.lives)
+    registry.set('accumulatedScore', state.accumulatedScore)
+    registry.set('totalCoins', state.gems.totalCoins)
+    registry.set('totalGems', state.gems.totalGems)
+    registry.set('totalBlueGems', state.gems.totalBlueGems)
+    registry.set('totalDiamonds', state.gems.totalDiamonds)
+    registry.set('accumulatedDiamonds', state.gems.accumulatedDiamonds)
+    registry.set('livesEarned', state.livesEarned)
+    registry.set('chestsSinceEpic', state.chestsSinceEpic?.current || 0)
+    registry.set('gemsSpent', state.shop?.gemsSpent || 0)
+    registry.set('chestRerolls', state.shop?.chestRerolls || 0)
+    registry.set('levelLivesLost', state.levelProgress?.livesLost || 0)
+    registry.remove('shopStartingPowerUp')
+
+    registry.set('isReplay', false)
+    registry.set('isDeathRetry', false)
+    registry.set('levelProgression', false)
+    registry.remove('replayPlayback')
+    registry.remove('runReplay')
+
+    registry.set('resumeRunState', state)
+    registry.set('resumedRun', true) // A replay can't reproduce the part of the run played before the save
+  }
+
+  /**
+   * Stable key for a level pickup - levels rebuild from the seed, so type and position identify it
+   */
+  static getPickupKey(type: string, x: number, floor: number): string {
+    return `${type}@${floor}:${Math.round(x)}`
+  }
+}
+
+export default RunStateManager
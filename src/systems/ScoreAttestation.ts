@@ -0,0 +1,135 @@
+/**
+ * Score Attestation for Bizarre Underground
+ * EIP-712 typed-data summary of a finished run, signed by the player's wallet before the score leaves the client
+ * Web3Manager signs it; leaderboard backends use ScoreAttestationManager.verify to recover the signer
+ * and reject payloads that don't match what was signed
+ */
+
+import { ethers } from 'ethers'
+
+export interface RunSummary {
+  player: string      // Wallet address that signs the summary
+  board: string       // Leaderboard board key - a signature for one board can't be reused on another
+  score: number
+  level: number
+  floor: number
+  seed: number
+  durationMs: number
+  finishedAt: number  // ms timestamp, so a backend can refuse stale or repeated attestations
+  gameStats: {
+    treasureChestsOpened: number
+    totalEnemiesDefeated: number
+    highestFloor: number
+    livesLost: number
+    enemyKills: { [enemy: string]: number }
+  }
+}
+
+export interface ScoreAttestation {
+  summary: RunSummary
+  signature: string
+}
+
+export interface AttestationCheck {
+  valid: boolean
+  signer: string | null  // Recovered address, null when the signature couldn't be read
+  reason?: string
+}
+
+export class ScoreAttestationManager {
+  static readonly DOMAIN: ethers.TypedDataDomain = {
+    name: 'Bizarre Underground',
+    version: '1'
+  }
+
+  static readonly TYPES: Record<string, ethers.TypedDataField[]> = {
+    EnemyKill: [
+      { name: 'enemy', type: 'string' },
+      { name: 'count', type: 'uint32' }
+    ],
+    RunSummary: [
+      { name: 'player', type: 'address' },
+      { name: 'board', type: 'string' },
+      { name: 'score', type: 'uint256' },
+      { name: 'level', type: 'uint32' },
+      { name: 'floor', type: 'uint32' },
+      { name: 'seed', type: 'uint32' },
+      { name: 'durationMs', type: 'uint64' },
+      { name: 'finishedAt', type: 'uint64' },
+      { name: 'treasureChestsOpened', type: 'uint32' },
+      { name: 'totalEnemiesDefeated', type: 'uint32' },
+      { name: 'highestFloor', type: 'uint32' },
+      { name: 'livesLost', type: 'uint32' },
+      { name: 'enemyKills', type: 'EnemyKill[]' }
+    ]
+  }
+
+  /**
+   * Have the wallet sign the run summary
+   */
+  static async sign(signer: ethers.Signer, summary: RunSummary): Promise<ScoreAttestation> {
+    const signature = await signer.signTypedData(this.DOMAIN, this.TYPES, this.toTypedValue(summary))
+    return { summary, signature }
+  }
+
+  /**
+   * Recover the signer and check it is the summary's player, and that the submitted values
+   * (player, board, score, level) are the ones that were signed
+   */
+  static verify(
+    attestation: ScoreAttestation,
+    expected: Partial<Pick<RunSummary, 'player' | 'board' | 'score' | 'level'>> = {}
+  ): AttestationCheck {
+    const summary = attestation?.summary
+    if (!summary || typeof attestation.signature !== 'string') {
+      return { valid: false, signer: null, reason: 'Missing summary or signature' }
+    }
+
+    let signer: string
+    try {
+      signer = ethers.verifyTypedData(this.DOMAIN, this.TYPES, this.toTypedValue(summary), attestation.signature)
+    } catch (e) {
+      return { valid: false, signer: null, reason: 'Unreadable summary or signature' }
+    }
+
+    if (!this.sameAddress(signer, summary.player)) {
+      return { valid: false, signer, reason: 'Signed by a different wallet' }
+    }
+    if (expected.player !== undefined && !this.sameAddress(expected.player, summary.player)) {
+      return { valid: false, signer, reason: 'Player does not match the signed summary' }
+    }
+
+    const mismatched = (['board', 'score', 'level'] as const).find(field =>
+      expected[field] !== undefined && expected[field] !== summary[field]
+    )
+    if (mismatched) {
+      return { valid: false, signer, reason: `Posted ${mismatched} does not match the signed summary` }
+    }
+
+    return { valid: true, signer }
+  }
+
+  /**
+   * The summary in the typed-data shape - enemy kills become a list sorted by name so the hash is stable
+   */
+  static toTypedValue(summary: RunSummary): Record<string, unknown> {
+    const { gameStats, ...run } = summary
+    return {
+      ...run,
+      treasureChestsOpened: gameStats.treasureChestsOpened,
+      totalEnemiesDefeated: gameStats.totalEnemiesDefeated,
+      highestFloor: gameStats.highestFloor,
+      livesLost: gameStats.livesLost,
+      enemyKills: Object.keys(gameStats.enemyKills).sort().map(enemy => ({
+        enemy,
+        count: gameStats.enemyKills[enemy]
+      }))
+    }
+  }
+
+  private static sameAddress(a: string, b: string): boolean {
+    return typeof a === 'string' && typeof b === 'string' && a.toLowerCase() === b.toLowerCase()
+  }
+}
+
+export default ScoreAttestationManager
@@ -0,0 +1,91 @@
+/**
+ * Scoring System for Bizarre Underground
+ * Points for every way a run scores - pickups, chests and enemy kills - in one place,
+ * so GameScene and the score events recorded in replays can't drift apart
+ */
+
+import { EnemySpawningSystem, EnemyType } from './EnemySpawningSystem'
+import { CollectibleSpawningSystem, SpawnableCollectible } from './CollectibleSpawningSystem'
+
+/**
+ * How an enemy was defeated
+ * stomp - landed on it (combo multiplier applies), climbing - landed on it from a ladder (no combo),
+ * invincible - ran into it with the pendant active, projectile - hit by a crystal ball shot
+ */
+export type KillMethod = 'stomp' | 'climbing' | 'invincible' | 'projectile'
+
+export type ScoreEventKind = 'collect' | 'chest' | 'kill'
+
+export interface ScoreEvent {
+  kind: ScoreEventKind
+  subject: string   // SpawnableCollectible for pickups and chests, EnemyType for kills
+  method?: KillMethod
+  combo?: number    // Stomp kills: the combo multiplier the kill was scored with
+}
+
+export class ScoringSystem {
+  static readonly COMBO_WINDOW = 1000            // Simulation ms to land the next stomp and keep the combo
+  static readonly INVINCIBLE_MULTIPLIER = 3
+  static readonly INVINCIBLE_DEFAULT_POINTS = 200 // Base for enemies the pendant kill doesn't look up (Rex)
+  static readonly PROJECTILE_POINTS = 100          // Crystal ball shots pay the same for every enemy
+
+  /**
+   * Points for a scoring event, or 0 if it doesn't describe anything that scores
+   */
+  static getPoints(event: ScoreEvent): number {
+    switch (event.kind) {
+      case 'collect':
+        return CollectibleSpawningSystem.POINT_VALUES[event.subject as SpawnableCollectible] || 0
+      case 'chest':
+        return CollectibleSpawningSystem.POINT_VALUES.treasureChest
+      case 'kill':
+        if (!this.isEnemyType(event.subject) || !event.method) return 0
+        return this.getKillPoints(event.subject, event.method, event.combo)
+      default:
+        return 0
+    }
+  }
+
+  static getKillPoints(type: EnemyType, method: KillMethod, combo: number = 1): number {
+    const base = EnemySpawningSystem.getPointValue(type)
+    switch (method) {
+      case 'stomp':
+        return base * Math.max(1, combo)
+      case 'climbing':
+        return base
+      case 'invincible':
+        // BaseBlu can only die this way and pays its full value once
+        if (type === EnemyType.BASEBLU) return base
+        if (type === EnemyType.REX) return this.INVINCIBLE_DEFAULT_POINTS * this.INVINCIBLE_MULTIPLIER
+        return base * this.INVINCIBLE_MULTIPLIER
+      case 'projectile':
+        return this.PROJECTILE_POINTS
+    }
+  }
+
+  /**
+   * The gameStats.enemyKills entry a kill counts toward, or null for kills the stats don't track
+   * (climbing, pendant and crystal ball kills, and stalkers)
+   */
+  static getKillStat(type: EnemyType, method: KillMethod): string | null {
+    if (type === EnemyType.BASEBLU) return method === 'invincible' ? 'blu' : null
+    if (method !== 'stomp') return null
+
+    switch (type) {
+      case EnemyType.CATERPILLAR:
+      case EnemyType.BLUE_CATERPILLAR: return 'caterpillar'
+      case EnemyType.CHOMPER: return 'chomper'
+      case EnemyType.SNAIL: return 'snail'
+      case EnemyType.JUMPER: return 'bouncer'
+      case EnemyType.BEETLE: return 'rollz'
+      case EnemyType.REX: return 'rex'
+      default: return null
+    }
+  }
+
+  static isEnemyType(value: string): value is EnemyType {
+    return (Object.values(EnemyType) as string[]).includes(value)
+  }
+}
+
+export default ScoringSystem
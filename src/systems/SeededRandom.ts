@@ -0,0 +1,167 @@
+/**
+ * Seeded Random for Bizarre Underground
+ * Deterministic RNG so a given (seed, level) pair always builds the same level
+ */
+
+/**
+ * Independent random streams used during level generation.
+ * Each stream is reseeded per level so that, for example, an extra enemy roll
+ * never shifts where the ladders or treasure chests end up.
+ * 'behaviour' is drawn while the level is played (enemy turns, bounces, bites) - one draw
+ * per fixed step at most, so the same inputs replay the same enemies
+ */
+export type RandomStream = 'layout' | 'enemies' | 'collectibles' | 'chests' | 'powerUps' | 'behaviour'
+
+export class SeededRandom {
+  private state: number
+
+  constructor(seed: number) {
+    this.state = seed >>> 0
+  }
+
+  /**
+   * Next float in [0, 1) - drop-in replacement for Math.random()
+   * Uses mulberry32: tiny, fast and good enough for level generation
+   */
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0
+    let t = this.state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  /**
+   * Random integer in [min, max] (inclusive)
+   */
+  between(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min
+  }
+
+  /**
+   * Returns true with the given probability (0-1)
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability
+  }
+
+  /**
+   * Pick a random element from an array
+   */
+  pick<T>(items: T[]): T {
+    return items[Math.floor(this.next() * items.length)]
+  }
+
+  /**
+   * Return a shuffled copy of an array (Fisher-Yates)
+   */
+  shuffle<T>(items: T[]): T[] {
+    const result = [...items]
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1))
+      const temp = result[i]
+      result[i] = result[j]
+      result[j] = temp
+    }
+    return result
+  }
+
+  /**
+   * Hash any mix of strings and numbers into a 32-bit seed (FNV-1a)
+   */
+  static hashSeed(...parts: Array<string | number>): number {
+    let hash = 0x811C9DC5
+    const input = parts.join('|')
+    for (let i = 0; i < input.length; i++) {
+      hash ^= input.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+  }
+
+  /**
+   * Create a fresh non-deterministic seed for a new run
+   */
+  static createSeed(): number {
+    return Math.floor(Math.random() * 0xFFFFFFFF) >>> 0
+  }
+}
+
+/**
+ * Game-wide RNG service
+ * All level layout, enemy selection, collectible placement and chest tier
+ * decisions draw from these streams instead of Math.random()
+ */
+export class GameRandom {
+  private static runSeed: number = SeededRandom.createSeed()
+  private static streams: Map<RandomStream, SeededRandom> = new Map()
+
+  /**
+   * Set the seed for the current run (e.g. from a bug report or shared challenge)
+   */
+  static setRunSeed(seed: number): void {
+    this.runSeed = seed >>> 0
+    this.streams.clear()
+  }
+
+  /**
+   * Get the seed for the current run
+   */
+  static getRunSeed(): number {
+    return this.runSeed
+  }
+
+  /**
+   * Start a new run with a random seed
+   */
+  static newRunSeed(): number {
+    this.setRunSeed(SeededRandom.createSeed())
+    return this.runSeed
+  }
+
+  /**
+   * Reseed every stream for a level - call before generating the level
+   */
+  static beginLevel(levelNumber: number, isBonusLevel: boolean = false): void {
+    this.streams.clear()
+    const streamNames: RandomStream[] = ['layout', 'enemies', 'collectibles', 'chests', 'powerUps', 'behaviour']
+    streamNames.forEach(name => {
+      this.streams.set(name, new SeededRandom(this.getLevelSeed(levelNumber, isBonusLevel, name)))
+    })
+  }
+
+  /**
+   * Derive the seed used by a single stream for a level
+   */
+  static getLevelSeed(levelNumber: number, isBonusLevel: boolean, stream: RandomStream): number {
+    return SeededRandom.hashSeed(this.runSeed, levelNumber, isBonusLevel ? 'bonus' : 'level', stream)
+  }
+
+  /**
+   * Get a stream (created from the run seed if beginLevel hasn't been called yet)
+   */
+  static stream(name: RandomStream): SeededRandom {
+    let rng = this.streams.get(name)
+    if (!rng) {
+      rng = new SeededRandom(SeededRandom.hashSeed(this.runSeed, name))
+      this.streams.set(name, rng)
+    }
+    return rng
+  }
+
+  /**
+   * Read a seed override from the URL (?seed=12345) for reproducing reports
+   */
+  static getSeedFromUrl(): number | null {
+    try {
+      const param = new URLSearchParams(window.location.search).get('seed')
+      if (param === null || param === '') return null
+      const parsed = Number(param)
+      return Number.isFinite(parsed) ? parsed >>> 0 : SeededRandom.hashSeed(param)
+    } catch (e) {
+      return null
+    }
+  }
+}
+
+export default GameRandom
@@ -0,0 +1,134 @@
+/**
+ * Touch Layout for Bizarre Underground
+ * Where the touch D-pad, jump and action buttons sit, how big they are and how see-through
+ * Defaults come from GameSettings.touchControls; players' own layouts are saved per device profile
+ * (canvas size plus phone/tablet), so one layout doesn't follow the player onto a different screen
+ */
+
+import GameSettings from '../config/GameSettingsLoader'
+import { ProfileStore } from './ProfileStore'
+
+export type TouchControlId = 'dpad' | 'jump' | 'action'
+
+export interface TouchControlLayout {
+  x: number        // Centre, canvas pixels
+  y: number
+  scale: number    // 1 = the shipped size
+  opacity: number  // 0-1
+}
+
+export interface TouchLayout {
+  version: number
+  leftHanded: boolean
+  controls: Record<TouchControlId, TouchControlLayout>
+}
+
+export class TouchLayoutManager {
+  static readonly VERSION = 1
+  static readonly CONTROLS: TouchControlId[] = ['dpad', 'jump', 'action']
+
+  static readonly MIN_SCALE = 0.6
+  static readonly MAX_SCALE = 1.6
+  static readonly MIN_OPACITY = 0.2
+  static readonly MAX_OPACITY = 1
+
+  static readonly CONTROL_LABELS: Record<TouchControlId, string> = {
+    dpad: 'D-PAD',
+    jump: 'JUMP',
+    action: 'THROW'
+  }
+
+  /**
+   * Device profile a layout is saved under, e.g. '720x720-phone'
+   */
+  static getProfile(width: number, height: number): string {
+    const shortestSide = Math.min(window.screen?.width || width, window.screen?.height || height)
+    return `${width}x${height}-${shortestSide < 600 ? 'phone' : 'tablet'}`
+  }
+
+  static getDefault(): TouchLayout {
+    const positions = GameSettings.touchControls
+    const controls = {} as Record<TouchControlId, TouchControlLayout>
+    this.CONTROLS.forEach(id => {
+      controls[id] = { x: positions[id].x, y: positions[id].y, scale: 1, opacity: 1 }
+    })
+    return { version: this.VERSION, leftHanded: false, controls }
+  }
+
+  /**
+   * The default layout flipped left to right - D-pad under the right thumb, buttons under the left
+   */
+  static getLeftHanded(width: number): TouchLayout {
+    return { ...this.mirror(this.getDefault(), width), leftHanded: true }
+  }
+
+  static mirror(layout: TouchLayout, width: number): TouchLayout {
+    const controls = {} as Record<TouchControlId, TouchControlLayout>
+    this.CONTROLS.forEach(id => {
+      controls[id] = { ...layout.controls[id], x: width - layout.controls[id].x }
+    })
+    return { version: this.VERSION, leftHanded: !layout.leftHanded, controls }
+  }
+
+  /**
+   * The saved layout for this device profile, or the default
+   */
+  static load(width: number, height: number): TouchLayout {
+    const profile = this.getProfile(width, height)
+    const saved = this.loadAll()[profile]
+    if (!saved) return this.getDefault()
+
+    if (saved.version !== this.VERSION || !saved.controls) {
+      console.warn(`📱 Unknown touch layout version ${saved.version} for ${profile}, using the default layout`)
+      return this.getDefault()
+    }
+
+    // Controls missing from an older save keep their default placement
+    const layout = this.getDefault()
+    layout.leftHanded = !!saved.leftHanded
+    this.CONTROLS.forEach(id => {
+      if (saved.controls[id]) {
+        layout.controls[id] = this.clamp(saved.controls[id], width, height)
+      }
+    })
+    return layout
+  }
+
+  static save(width: number, height: number, layout: TouchLayout): boolean {
+    const layouts = this.loadAll()
+    const profile = this.getProfile(width, height)
+    layouts[profile] = layout
+    try {
+      ProfileStore.setItem('touchLayouts', JSON.stringify(layouts))
+      console.log(`📱 Touch layout saved for ${profile}`)
+      return true
+    } catch (e) {
+      console.warn('📱 Could not save touch layout:', e)
+      return false
+    }
+  }
+
+  /**
+   * Keep a control on screen and within the size and opacity limits
+   */
+  static clamp(control: TouchControlLayout, width: number, height: number): TouchControlLayout {
+    const valid = (value: number, fallback: number) => Number.isFinite(value) ? value : fallback
+    return {
+      x: Phaser.Math.Clamp(valid(control.x, width / 2), 0, width),
+      y: Phaser.Math.Clamp(valid(control.y, height / 2), 0, height),
+      scale: Phaser.Math.Clamp(valid(control.scale, 1), this.MIN_SCALE, this.MAX_SCALE),
+      opacity: Phaser.Math.Clamp(valid(control.opacity, 1), this.MIN_OPACITY, this.MAX_OPACITY)
+    }
+  }
+
+  private static loadAll(): { [profile: string]: TouchLayout } {
+    try {
+      return JSON.parse(ProfileStore.getItem('touchLayouts') || '{}')
+    } catch (e) {
+      console.warn('📱 Could not load touch layouts:', e)
+      return {}
+    }
+  }
+}
+
+export default TouchLayoutManager
@@ -0,0 +1,83 @@
+import type { AchievementDefinition } from '../systems/Achievements'
+
+/**
+ * "Achievement unlocked" banners that slide in at the top of the screen during play
+ * Unlocks that arrive together are queued and shown one after another
+ */
+export class AchievementToasts {
+  private scene: Phaser.Scene
+  private queue: AchievementDefinition[] = []
+  private current: Phaser.GameObjects.Container | null = null
+
+  private static readonly SHOW_TIME = 2500
+  private static readonly SLIDE_TIME = 300
+  private static readonly FONT = '"Press Start 2P", system-ui'
+
+  constructor(scene: Phaser.Scene) {
+    this.scene = scene
+    scene.events.once('shutdown', this.destroy, this)
+  }
+
+  show(achievement: AchievementDefinition): void {
+    this.queue.push(achievement)
+    if (!this.current) this.showNext()
+  }
+
+  private showNext(): void {
+    const achievement = this.queue.shift()
+    if (!achievement) return
+
+    const width = this.scene.game.config.width as number
+    const toastWidth = Math.min(340, width - 20)
+    const toastHeight = 56
+    const restY = 130 // Below the HUD
+
+    const background = this.scene.add.graphics()
+    background.fillStyle(0x4a148c, 0.95)
+    background.lineStyle(2, 0xffd700, 1)
+    background.fillRoundedRect(-toastWidth / 2, -toastHeight / 2, toastWidth, toastHeight, 10)
+    background.strokeRoundedRect(-toastWidth / 2, -toastHeight / 2, toastWidth, toastHeight, 10)
+
+    const heading = this.scene.add.text(0, -12, '🏆 ACHIEVEMENT UNLOCKED', {
+      fontSize: '8px',
+      fontFamily: AchievementToasts.FONT,
+      color: '#9acf07'
+    }).setOrigin(0.5)
+    const name = this.scene.add.text(0, 8, achievement.name, {
+      fontSize: '12px',
+      fontFamily: AchievementToasts.FONT,
+      color: '#ffd700',
+      stroke: '#000000',
+      strokeThickness: 2
+    }).setOrigin(0.5)
+
+    const toast = this.scene.add.container(width / 2, -toastHeight, [background, heading, name])
+    toast.setScrollFactor(0).setDepth(4000)
+    this.current = toast
+
+    // Slide down, hold, slide back up
+    this.scene.tweens.add({
+      targets: toast,
+      y: restY,
+      duration: AchievementToasts.SLIDE_TIME,
+      ease: 'Back.easeOut'
+    })
+    this.scene.tweens.add({
+      targets: toast,
+      y: -toastHeight,
+      delay: AchievementToasts.SHOW_TIME,
+      duration: AchievementToasts.SLIDE_TIME,
+      ease: 'Power2.easeIn',
+      onComplete: () => {
+        toast.destroy()
+        this.current = null
+        this.showNext()
+      }
+    })
+  }
+
+  private destroy(): void {
+    this.queue = []
+    this.current = null
+  }
+}
@@ -0,0 +1,168 @@
+import type { ShopItemId } from '../systems/GemShop'
+
+export interface GemShopOffer {
+  id: ShopItemId
+  name: string
+  description: string
+  price: number
+  unavailable?: string // Why it can't be bought right now
+}
+
+export interface GemShopPanelOptions {
+  title: string
+  getBalance: () => number
+  getOffers: () => GemShopOffer[]
+  onBuy: (id: ShopItemId) => void
+  onClose?: () => void
+}
+
+/**
+ * Between-level gem shop, opened from the level complete screen
+ * Lists what's on sale at this chapter's prices; GameScene applies each purchase and the panel redraws
+ * with the new balance. DONE goes back to the level complete screen
+ */
+export class GemShopPanel {
+  private scene: Phaser.Scene
+  private options: GemShopPanelOptions
+
+  private backdrop: Phaser.GameObjects.Rectangle
+  private panel: Phaser.GameObjects.Container
+  private rows: Phaser.GameObjects.Container
+  private balanceText: Phaser.GameObjects.Text
+  private messageText: Phaser.GameObjects.Text
+
+  private static readonly WIDTH = 360
+  private static readonly ROW_HEIGHT = 72
+  private static readonly FONT = '"Press Start 2P", system-ui'
+
+  constructor(scene: Phaser.Scene, options: GemShopPanelOptions) {
+    this.scene = scene
+    this.options = options
+
+    const width = scene.game.config.width as number
+    const height = scene.game.config.height as number
+    const panelWidth = Math.min(GemShopPanel.WIDTH, width - 20)
+    const panelHeight = 150 + GemShopPanel.ROW_HEIGHT * options.getOffers().length
+
+    // Swallows clicks so the level complete buttons underneath can't be pressed
+    this.backdrop = scene.add.rectangle(0, 0, width, height, 0x000000, 0.6)
+      .setOrigin(0).setScrollFactor(0).setDepth(400).setInteractive()
+
+    this.panel = scene.add.container(width / 2, height / 2).setScrollFactor(0).setDepth(401)
+
+    const background = scene.add.graphics()
+    background.fillStyle(0x4a148c, 1)
+    background.lineStyle(2, 0x7b1fa2, 1)
+    background.fillRoundedRect(-panelWidth / 2, -panelHeight / 2, panelWidth, panelHeight, 12)
+    background.strokeRoundedRect(-panelWidth / 2, -panelHeight / 2, panelWidth, panelHeight, 12)
+
+    const title = scene.add.text(0, -panelHeight / 2 + 24, options.title, {
+      fontSize: '16px',
+      fontFamily: GemShopPanel.FONT,
+      color: '#9acf07',
+      stroke: '#000000',
+      strokeThickness: 2
+    }).setOrigin(0.5)
+
+    this.balanceText = scene.add.text(0, -panelHeight / 2 + 52, '', {
+      fontSize: '11px',
+      fontFamily: GemShopPanel.FONT,
+      color: '#ffd700'
+    }).setOrigin(0.5)
+
+    this.rows = scene.add.container(0, -panelHeight / 2 + 80)
+
+    this.messageText = scene.add.text(0, panelHeight / 2 - 62, '', {
+      fontSize: '8px',
+      fontFamily: GemShopPanel.FONT,
+      color: '#ff69b4',
+      align: 'center'
+    }).setOrigin(0.5)
+
+    const doneButton = scene.add.rectangle(0, panelHeight / 2 - 30, 140, 36, 0x20b2aa)
+      .setStrokeStyle(2, 0x188a82)
+      .setInteractive({ useHandCursor: true })
+    const doneText = scene.add.text(0, panelHeight / 2 - 30, 'DONE', {
+      fontSize: '14px',
+      fontFamily: GemShopPanel.FONT,
+      color: '#ffd700',
+      stroke: '#4a148c',
+      strokeThickness: 1
+    }).setOrigin(0.5)
+    doneButton.on('pointerdown', () => this.close())
+
+    this.panel.add([background, title, this.balanceText, this.rows, this.messageText, doneButton, doneText])
+    scene.events.once('shutdown', this.destroy, this)
+
+    this.refresh()
+    console.log('💎 Gem shop opened')
+  }
+
+  private refresh(): void {
+    this.balanceText.setText(`GEMS: ${this.options.getBalance()}`)
+    this.rows.removeAll(true)
+
+    const panelWidth = Math.min(GemShopPanel.WIDTH, (this.scene.game.config.width as number) - 20)
+    const left = -panelWidth / 2 + 16
+    const balance = this.options.getBalance()
+
+    this.options.getOffers().forEach((offer, index) => {
+      const y = index * GemShopPanel.ROW_HEIGHT
+      const affordable = balance >= offer.price
+      const enabled = affordable && !offer.unavailable
+
+      const divider = this.scene.add.rectangle(0, y - 6, panelWidth - 24, 1, 0x7b1fa2)
+      const name = this.scene.add.text(left, y + 6, offer.name, {
+        fontSize: '10px',
+        fontFamily: GemShopPanel.FONT,
+        color: '#ffffff'
+      })
+      const description = this.scene.add.text(left, y + 24, offer.unavailable || offer.description, {
+        fontSize: '8px',
+        fontFamily: GemShopPanel.FONT,
+        color: offer.unavailable ? '#aaaaaa' : '#cccccc',
+        wordWrap: { width: panelWidth - 130 },
+        lineSpacing: 4
+      })
+
+      const buttonX = panelWidth / 2 - 58
+      const button = this.scene.add.rectangle(buttonX, y + 24, 90, 34, enabled ? 0x32cd32 : 0x555555)
+        .setStrokeStyle(2, enabled ? 0x228b22 : 0x444444)
+        .setInteractive({ useHandCursor: enabled })
+      const price = this.scene.add.text(buttonX, y + 24, `${offer.price}`, {
+        fontSize: '11px',
+        fontFamily: GemShopPanel.FONT,
+        color: enabled ? '#ffd700' : '#999999'
+      }).setOrigin(0.5)
+
+      button.on('pointerdown', () => {
+        if (offer.unavailable) {
+          this.showMessage(offer.unavailable)
+        } else if (!affordable) {
+          this.showMessage(`Need ${offer.price - balance} more gems`)
+        } else {
+          this.options.onBuy(offer.id)
+          this.showMessage(`Bought: ${offer.name}`)
+          this.refresh()
+        }
+      })
+
+      this.rows.add([divider, name, description, button, price])
+    })
+  }
+
+  private showMessage(message: string): void {
+    this.messageText.setText(message)
+  }
+
+  private close(): void {
+    this.destroy()
+    this.options.onClose?.()
+  }
+
+  private destroy(): void {
+    this.scene.events.off('shutdown', this.destroy, this)
+    this.panel.destroy()
+    this.backdrop.destroy()
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Input Glyphs for Bizarre Underground
+ * Tracks the device the player last used so on-screen prompts name the right keys,
+ * touch buttons or controller buttons, and draws controller button icons
+ * Keyboard and controller labels follow the player's bindings in InputMap
+ */
+
+import { InputMap, InputAction } from '../systems/InputMap'
+
+export type InputDevice = 'keyboard' | 'touch' | 'gamepad'
+
+export type GlyphAction = 'move' | 'climb' | 'jump' | 'fire' | 'menu' | 'enterDoor'
+
+// Standard mapping buttons (Xbox names)
+export type PadButton = 'A' | 'B' | 'X' | 'Y' | 'LB' | 'RB' | 'LT' | 'RT' | 'BACK' | 'START' | 'LS' | 'RS' |
+  'UP' | 'DOWN' | 'LEFT' | 'RIGHT' | 'HOME'
+
+export class InputGlyphs {
+  private static activeDevice: InputDevice = 'keyboard'
+
+  // Indexed by standard mapping button index
+  static readonly PAD_BUTTONS: PadButton[] = [
+    'A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'BACK', 'START', 'LS', 'RS', 'UP', 'DOWN', 'LEFT', 'RIGHT', 'HOME'
+  ]
+
+  // Xbox face button colours so the icons read at a glance - everything else is grey
+  static readonly BUTTON_COLORS: Partial<Record<PadButton, number>> = {
+    A: 0x32CD32,
+    B: 0xFF4444,
+    X: 0x3B82F6,
+    Y: 0xFFD700
+  }
+
+  private static readonly TOUCH_LABELS: Record<GlyphAction, string> = {
+    move: 'Pink crystal D-pad',
+    climb: 'D-pad Up/Down on ladders',
+    jump: 'Pink crystal button',
+    fire: 'Yellow crystal button',
+    menu: 'the ☰ button',
+    enterDoor: 'UP'
+  }
+
+  static getActiveDevice(): InputDevice {
+    return this.activeDevice
+  }
+
+  static setActiveDevice(device: InputDevice): void {
+    if (device === this.activeDevice) return
+    this.activeDevice = device
+    console.log(`🎮 Active input device: ${device}`)
+  }
+
+  /**
+   * What to press for an action on the given device (the last used one by default)
+   */
+  static getLabel(action: GlyphAction, device: InputDevice = this.activeDevice): string {
+    if (device === 'touch') return this.TOUCH_LABELS[action]
+
+    const describe = (inputAction: InputAction) => device === 'gamepad'
+      ? this.describeButtons(inputAction)
+      : InputMap.describeKeys(inputAction)
+
+    switch (action) {
+      case 'move':
+        return device === 'gamepad'
+          ? `Left stick or ${describe('moveLeft')} / ${describe('moveRight')}`
+          : `${describe('moveLeft')} / ${describe('moveRight')}`
+      case 'climb':
+        return device === 'gamepad'
+          ? 'Stick Up/Down on ladders'
+          : `${describe('climbUp')} / ${describe('climbDown')} on ladders`
+      case 'jump': return describe('jump')
+      case 'fire': return describe('fire')
+      case 'menu': return describe('pause')
+      case 'enterDoor': return device === 'gamepad' ? 'STICK UP' : describe('climbUp')
+    }
+  }
+
+  /**
+   * 'A', 'B or X' - the controller buttons bound to an action
+   */
+  static describeButtons(action: InputAction): string {
+    const names = InputMap.getButtons(action).map(index => this.getPadButton(index))
+    if (names.length === 0) return 'unbound'
+    return names.join(' or ')
+  }
+
+  static getPadButton(index: number): PadButton | string {
+    return this.PAD_BUTTONS[index] || `B${index}`
+  }
+
+  /**
+   * A controller button icon - coloured circle for face buttons, grey pill for the rest
+   */
+  static createButtonGlyph(
+    scene: Phaser.Scene,
+    x: number,
+    y: number,
+    button: PadButton | string,
+    radius: number = 14
+  ): Phaser.GameObjects.Container {
+    const glyph = scene.add.container(x, y)
+    const isFaceButton = button === 'A' || button === 'B' || button === 'X' || button === 'Y'
+    const color = this.BUTTON_COLORS[button as PadButton] ?? 0x666666
+
+    const background = scene.add.graphics()
+    background.fillStyle(color, 1)
+    background.lineStyle(2, 0xFFFFFF, 0.9)
+    if (isFaceButton) {
+      background.fillCircle(0, 0, radius)
+      background.strokeCircle(0, 0, radius)
+    } else {
+      const width = Math.max(radius * 2, button.length * radius * 0.6 + radius)
+      background.fillRoundedRect(-width / 2, -radius * 0.7, width, radius * 1.4, radius * 0.7)
+      background.strokeRoundedRect(-width / 2, -radius * 0.7, width, radius * 1.4, radius * 0.7)
+    }
+
+    const label = scene.add.text(0, 1, button, {
+      fontSize: isFaceButton ? `${Math.round(radius)}px` : `${Math.round(radius * 0.5)}px`,
+      fontFamily: '"Press Start 2P", system-ui',
+      color: '#FFFFFF'
+    }).setOrigin(0.5)
+
+    glyph.add([background, label])
+    return glyph
+  }
+}
+
+export default InputGlyphs
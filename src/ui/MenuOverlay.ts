@@ -1,6 +1,23 @@
 import { GameScene } from '../scenes/GameScene'
 import GameSettings from '../config/GameSettingsLoader'
 import { addWalletUI, WalletUI } from './WalletUI'
+import { InputGlyphs } from './InputGlyphs'
+import { GamepadControls } from '../objects/GamepadControls'
+import { InputMap, InputAction } from '../systems/InputMap'
+import { TouchLayoutEditor } from './TouchLayoutEditor'
+import { Achievements } from '../systems/Achievements'
+import { RunHistory } from '../systems/RunHistory'
+import { ProfileStore, ProfileImportMode } from '../systems/ProfileStore'
+import { downloadJson, pickJsonFile } from '../utils/JsonFiles'
+
+// Clickable area of a menu sub-page, relative to the menu centre
+interface MenuHitZone {
+  x: number
+  y: number
+  halfWidth: number
+  halfHeight: number
+  onClick: () => void
+}
 
 export class MenuOverlay {
   private scene: GameScene
@@ -19,6 +36,17 @@ export class MenuOverlay {
   private instructionsOverlay: Phaser.GameObjects.Container | null = null
   private walletUI: WalletUI | null = null
   
+  // Sub-page shown over the menu (controls) - hit-tested manually like the menu buttons
+  private activePage: Phaser.GameObjects.Container | null = null
+  private pageHitZones: MenuHitZone[] = []
+  private pageRefreshTimer: Phaser.Time.TimerEvent | null = null
+  
+  // Binding slot waiting for a key or controller button on the controls page
+  private capture: { action: InputAction, slot: number | 'pad', cancel: () => void } | null = null
+  
+  // Touch layout editor - the menu hides while it's open
+  private touchLayoutEditor: TouchLayoutEditor | null = null
+  
   constructor(scene: GameScene) {
     this.scene = scene
     // Constructor - menu overlay initialized
@@ -62,17 +90,46 @@ export class MenuOverlay {
     })
     title.setOrigin(0.5)
     
-    // Instructions button (moved up slightly)
+    // Instructions and controls buttons share the top row
     const instructionsBtn = this.createButton(
-      0, -180, 
-      'VIEW INSTRUCTIONS',
+      -87, -200, 
+      'HOW TO PLAY',
       () => this.openInstructionsScene(),
-      0x4a148c // Purple
+      0x4a148c, // Purple
+      166
     )
     instructionsBtn.setName('instructionsButton')
     
+    const controlsBtn = this.createButton(
+      87, -200,
+      'CONTROLS',
+      () => this.showControlsPage(),
+      0x4a148c,
+      166
+    )
+    controlsBtn.setName('controlsButton')
+    
+    // Achievements and stats share the second row
+    const achievementsBtn = this.createButton(
+      -87, -145,
+      'ACHIEVEMENTS',
+      () => this.showAchievementsPage(),
+      0x4a148c,
+      166
+    )
+    achievementsBtn.setName('achievementsButton')
+    
+    const statsBtn = this.createButton(
+      87, -145,
+      'STATS',
+      () => this.showStatsPage(),
+      0x4a148c,
+      166
+    )
+    statsBtn.setName('statsButton')
+    
     // Divider line
-    const divider1 = this.createDivider(-130)
+    const divider1 = this.createDivider(-107)
     
     // Sound and music toggles - RE-ENABLED
     this.soundToggle = this.createToggleSwitch(
@@ -127,7 +184,8 @@ export class MenuOverlay {
     console.log('📌 Created Resume button at Y=240')
     
     console.log('📍 FINAL Button Positions:', {
-      instructions: -180,
+      instructions: -200,
+      achievements: -145,
       soundToggle: -80,
       musicToggle: -30,
       wallet: 70,
@@ -143,6 +201,9 @@ export class MenuOverlay {
       this.menuPanel,          // Panel on top of background
       title,                   // Then all UI elements on top
       instructionsBtn,
+      controlsBtn,
+      achievementsBtn,
+      statsBtn,
       divider1,
       this.soundToggle,  // RE-ENABLED
       this.musicToggle,  // RE-ENABLED
@@ -219,14 +280,12 @@ export class MenuOverlay {
     y: number, 
     text: string, 
     onClick: () => void,
-    color: number = 0x4a148c
+    color: number = 0x4a148c,
+    buttonWidth: number = 340 // DGEN1 ONLY - Button width for 720x720 square mode
   ): Phaser.GameObjects.Container {
     const container = this.scene.add.container(x, y)
     
     // Use a rectangle game object instead of graphics for better hit detection
-    // DGEN1 ONLY - Button width for 720x720 square mode
-    const cameraWidth = this.scene.cameras.main.width;
-    const buttonWidth = 340
     const buttonHeight = 50
     
     // Create visual background rectangle
@@ -237,7 +296,7 @@ export class MenuOverlay {
     
     // Button text
     const btnText = this.scene.add.text(0, 0, text, {
-      fontSize: '14px',
+      fontSize: buttonWidth < 340 ? '12px' : '14px', // Half-width buttons need smaller text
       fontFamily: '"Press Start 2P", system-ui',
       color: '#FFD700' // Yellow text
     })
@@ -267,6 +326,9 @@ export class MenuOverlay {
     // })
     
     bgRect.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+      // Menu buttons sit under an open sub-page - manualHitTest routes those clicks
+      if (this.activePage) return
+      
       // For resume button, validate the click is actually within expected bounds
       if (text === "RESUME GAME") {
         const bounds = bgRect.getBounds()
@@ -351,6 +413,7 @@ export class MenuOverlay {
     
     // Use the rectangle hit area for interaction
     trackHitArea.on('pointerdown', (pointer: Phaser.Input.Pointer) => {
+      if (this.activePage) return
       if (pointer && pointer.event) {
         pointer.event.stopPropagation()
       }
@@ -557,7 +620,7 @@ export class MenuOverlay {
   }
   
   private loadSettings(): void {
-    const saved = localStorage.getItem('audioSettings')
+    const saved = ProfileStore.getItem('audioSettings')
     if (saved) {
       const settings = JSON.parse(saved)
       this.soundEffectsEnabled = settings.soundEffectsEnabled !== false
@@ -574,7 +637,7 @@ export class MenuOverlay {
       soundEffectsEnabled: this.soundEffectsEnabled,
       musicEnabled: this.musicEnabled
     }
-    localStorage.setItem('audioSettings', JSON.stringify(settings))
+    ProfileStore.setItem('audioSettings', JSON.stringify(settings))
   }
   
   open(): void {
@@ -846,6 +909,23 @@ export class MenuOverlay {
     const relativeX = screenX - containerX
     const relativeY = screenY - containerY
     
+    // The touch layout editor handles its own toolbar
+    if (this.touchLayoutEditor) return
+    
+    // A sub-page covers the menu - only its own buttons respond
+    if (this.activePage) {
+      const zone = this.pageHitZones.find(zone =>
+        Math.abs(relativeX - zone.x) < zone.halfWidth && Math.abs(relativeY - zone.y) < zone.halfHeight
+      )
+      if (this.capture && !zone) {
+        this.cancelCapture()
+        this.refreshControlsPage()
+        return
+      }
+      zone?.onClick()
+      return
+    }
+    
     // Enhanced debugging for regular version
     if (isRegularVersion) {
       console.log('🎯 Regular Menu Hit Test:', {
@@ -870,7 +950,7 @@ export class MenuOverlay {
     // Log what we're checking for hits
     if (isRegularVersion) {
       console.log('🎮 HIT TEST ZONES:', {
-        instructionsZone: `Y: ${-180-25} to ${-180+25}`,
+        instructionsZone: `Y: ${-200-25} to ${-200+25}`,
         soundToggleZone: `Y: ${-80-15} to ${-80+15}, X: ${80-30} to ${80+30}`,
         musicToggleZone: `Y: ${-30-15} to ${-30+15}, X: ${80-30} to ${80+30}`,
         resumeZone: `Y: ${180-25} to ${180+25}`,
@@ -942,10 +1022,10 @@ export class MenuOverlay {
       return
     }
     
-    // Check instructions button manually - use relative positions
-    const instrBtnX = 0  // Relative to container center
-    const instrBtnY = -180  // Relative to container center
-    const instrHit = Math.abs(relativeX - instrBtnX) < buttonHalfWidth && Math.abs(relativeY - instrBtnY) < 25
+    // Check instructions button manually - use relative positions (left half of the top row)
+    const instrBtnX = -87  // Relative to container center
+    const instrBtnY = -200  // Relative to container center
+    const instrHit = Math.abs(relativeX - instrBtnX) < 83 && Math.abs(relativeY - instrBtnY) < 25
     
     if (isRegularVersion && instrHit) {
       console.log('📍 Instructions Button HIT at:', {
@@ -960,6 +1040,25 @@ export class MenuOverlay {
       return
     }
     
+    // Check controls button (right half of the top row)
+    if (Math.abs(relativeX - 87) < 83 && Math.abs(relativeY - instrBtnY) < 25) {
+      console.log('✅ Controls button hit!')
+      this.showControlsPage()
+      return
+    }
+    
+    // Check achievements and stats buttons (second row)
+    if (Math.abs(relativeX - (-87)) < 83 && Math.abs(relativeY - (-145)) < 25) {
+      console.log('✅ Achievements button hit!')
+      this.showAchievementsPage()
+      return
+    }
+    if (Math.abs(relativeX - 87) < 83 && Math.abs(relativeY - (-145)) < 25) {
+      console.log('✅ Stats button hit!')
+      this.showStatsPage()
+      return
+    }
+    
     // Check wallet button for dgen1
     if (isDgen1) {
       const walletBtnX = 0  // Relative to container center
@@ -1150,6 +1249,8 @@ export class MenuOverlay {
     
     // Set flag immediately
     this.isOpen = false
+    this.touchLayoutEditor?.cancel()
+    this.closePage()
     
     // Remove pointer listener if it exists
     const pointerListener = this.container.getData('pointerListener')
@@ -1173,6 +1274,9 @@ export class MenuOverlay {
     if (this.scene.touchControls) {
       this.scene.touchControls.disable()
     }
+    if (this.scene.gamepadControls) {
+      this.scene.gamepadControls.disable()
+    }
     
     // Pause physics
     this.scene.physics.pause()
@@ -1213,6 +1317,529 @@ export class MenuOverlay {
     if (this.scene.touchControls) {
       this.scene.touchControls.enable()
     }
+    if (this.scene.gamepadControls) {
+      this.scene.gamepadControls.enable()
+    }
+  }
+  
+  private showControlsPage(message: string = ''): void {
+    // The button's own handler and the manual hit test can both fire for one click
+    if (this.activePage) return
+    
+    const page = this.createPage('CONTROLS')
+    const gamepad = this.scene.gamepadControls
+    const smallText = (x: number, y: number, text: string, color: string = '#FFFFFF') => {
+      const label = this.scene.add.text(x, y, text, {
+        fontSize: '8px',
+        fontFamily: '"Press Start 2P", system-ui',
+        color
+      })
+      page.add(label)
+      return label
+    }
+    
+    // Connection status - refreshed while the page is open so plugging a controller in shows up
+    const status = smallText(0, -212, '').setOrigin(0.5)
+    const updateStatus = () => {
+      const name = gamepad?.getPadName()
+      status.setText(name
+        ? `🎮 ${name.length > 36 ? `${name.slice(0, 35)}...` : name}`
+        : 'No controller - press a button on it to connect')
+      status.setColor(name ? '#32CD32' : '#FFFFFF')
+    }
+    updateStatus()
+    this.pageRefreshTimer = this.scene.time.addEvent({ delay: 500, loop: true, callback: updateStatus })
+    
+    // Stick dead zone stepper
+    smallText(-185, -180, 'STICK DEAD ZONE', '#FFD700').setOrigin(0, 0.5)
+    const deadZone = gamepad ? gamepad.getDeadZone() : GamepadControls.loadSettings().deadZone
+    smallText(105, -180, `${Math.round(deadZone * 100)}%`).setOrigin(0.5)
+    const changeDeadZone = (step: number) => {
+      if (!gamepad) return
+      gamepad.setDeadZone(gamepad.getDeadZone() + step)
+      this.refreshControlsPage()
+    }
+    this.addPageButton(page, 55, -180, 36, '-', () => changeDeadZone(-0.05), 0x4a148c, 30)
+    this.addPageButton(page, 155, -180, 36, '+', () => changeDeadZone(0.05), 0x4a148c, 30)
+    
+    page.add(this.createDivider(-155))
+    smallText(5, -138, 'KEYS', '#AAAAAA').setOrigin(0.5)
+    smallText(150, -138, 'PAD', '#AAAAAA').setOrigin(0.5)
+    
+    // One row per action: up to three keys and the controller button(s)
+    InputMap.ACTIONS.forEach((action, index) => {
+      const y = -110 + index * 34
+      smallText(-185, y, InputMap.ACTION_LABELS[action], '#FFD700').setOrigin(0, 0.5)
+      
+      const keys = InputMap.getKeys(action)
+      for (let slot = 0; slot < InputMap.KEY_SLOTS; slot++) {
+        const capturing = this.capture?.action === action && this.capture.slot === slot
+        const label = capturing ? '...' : keys[slot] ? InputMap.formatKey(keys[slot]) : '-'
+        this.addPageButton(page, -55 + slot * 60, y, 56, label, () => this.startKeyCapture(action, slot),
+          capturing ? 0x32CD32 : 0x2a0a5c, 28, '8px')
+      }
+      
+      const capturingPad = this.capture?.action === action && this.capture.slot === 'pad'
+      this.addPageButton(page, 150, y, 60, capturingPad ? '...' : '', () => this.startButtonCapture(action),
+        capturingPad ? 0x32CD32 : 0x2a0a5c, 28, '8px')
+      if (!capturingPad) {
+        const buttons = InputMap.getButtons(action)
+        if (buttons.length === 0) {
+          smallText(150, y, '-').setOrigin(0.5)
+        }
+        buttons.slice(0, 2).forEach((button, buttonIndex) => {
+          const x = buttons.length > 1 ? 135 + buttonIndex * 30 : 150
+          page.add(InputGlyphs.createButtonGlyph(this.scene, x, y, InputGlyphs.getPadButton(button), 10))
+        })
+      }
+    })
+    
+    // Capture prompts, conflict notes and warnings
+    smallText(0, 168, message, '#FFFFFF').setOrigin(0.5).setAlign('center').setWordWrapWidth(360)
+    
+    this.addPageButton(page, -118, 230, 110, 'DEFAULTS', () => {
+      this.cancelCapture()
+      InputMap.reset()
+      this.refreshControlsPage('Controls reset to defaults')
+    }, 0x4a148c, 40, '10px')
+    this.addPageButton(page, 0, 230, 110, 'TOUCH', () => this.showTouchLayoutEditor(), 0x4a148c, 40, '10px')
+    this.addPageButton(page, 118, 230, 110, 'BACK', () => this.closePage(), 0xFF6B6B, 40, '10px')
+  }
+  
+  /**
+   * Swap the menu for the touch layout editor, and come back to the controls page when it closes
+   */
+  private showTouchLayoutEditor(): void {
+    const touchControls = this.scene.touchControls
+    if (!touchControls) {
+      this.refreshControlsPage('Touch controls aren\'t available here')
+      return
+    }
+    
+    this.closePage()
+    this.container.setVisible(false)
+    this.touchLayoutEditor = new TouchLayoutEditor(this.scene, touchControls, (message: string) => {
+      this.touchLayoutEditor = null
+      if (!this.isOpen) return
+      this.container.setVisible(true)
+      this.showControlsPage(message)
+    })
+  }
+  
+  private refreshControlsPage(message: string = ''): void {
+    this.closePage(false)
+    this.showControlsPage(message)
+  }
+  
+  /**
+   * Wait for the next key press and bind it to the slot (Backspace/Delete clears the slot)
+   */
+  private startKeyCapture(action: InputAction, slot: number): void {
+    // Clicking the waiting slot again cancels
+    if (this.capture?.action === action && this.capture.slot === slot) {
+      this.cancelCapture()
+      this.refreshControlsPage()
+      return
+    }
+    this.cancelCapture()
+    
+    const onKey = (event: KeyboardEvent) => {
+      this.cancelCapture()
+      if (event.keyCode === Phaser.Input.Keyboard.KeyCodes.BACKSPACE || event.keyCode === Phaser.Input.Keyboard.KeyCodes.DELETE) {
+        InputMap.bindKey(action, slot, null)
+        this.refreshControlsPage(this.getUnboundWarning(action) || `${InputMap.ACTION_LABELS[action]} key cleared`)
+        return
+      }
+      
+      const name = InputMap.getKeyName(event.keyCode)
+      if (!name) {
+        this.refreshControlsPage('That key can\'t be bound')
+        return
+      }
+      const note = InputMap.bindKey(action, slot, name)
+      this.refreshControlsPage(note || `${InputMap.formatKey(name)} bound to ${InputMap.ACTION_LABELS[action]}`)
+    }
+    
+    this.capture = { action, slot, cancel: () => this.scene.input.keyboard?.off('keydown', onKey) }
+    this.scene.input.keyboard?.once('keydown', onKey)
+    this.refreshControlsPage(`Press a key for ${InputMap.ACTION_LABELS[action]}\n(Backspace clears, click to cancel)`)
+  }
+  
+  /**
+   * Wait for the next controller button and make it the action's only button
+   */
+  private startButtonCapture(action: InputAction): void {
+    if (this.capture?.action === action && this.capture.slot === 'pad') {
+      this.cancelCapture()
+      this.refreshControlsPage()
+      return
+    }
+    this.cancelCapture()
+    
+    const plugin = this.scene.input.gamepad
+    if (!plugin || !this.scene.gamepadControls?.isConnected()) {
+      this.refreshControlsPage('Connect a controller to bind its buttons')
+      return
+    }
+    
+    const onButton = (_pad: Phaser.Input.Gamepad.Gamepad, button: Phaser.Input.Gamepad.Button) => {
+      this.cancelCapture()
+      const note = InputMap.bindButton(action, button.index)
+      this.refreshControlsPage(note || `${InputGlyphs.getPadButton(button.index)} bound to ${InputMap.ACTION_LABELS[action]}`)
+    }
+    
+    this.capture = { action, slot: 'pad', cancel: () => plugin.off('down', onButton) }
+    plugin.once('down', onButton)
+    this.refreshControlsPage(`Press a controller button for ${InputMap.ACTION_LABELS[action]}\n(click to cancel)`)
+  }
+  
+  private cancelCapture(): void {
+    this.capture?.cancel()
+    this.capture = null
+  }
+  
+  private getUnboundWarning(action: InputAction): string | null {
+    const binding = InputMap.getBindings()[action]
+    return binding.keys.length === 0 && binding.buttons.length === 0
+      ? `${InputMap.ACTION_LABELS[action]} has no binding now`
+      : null
+  }
+  
+  /**
+   * A key or controller button is being bound, or the touch layout is being edited -
+   * GameScene ignores pause/mute presses meanwhile
+   */
+  isCapturingInput(): boolean {
+    return this.capture !== null || this.touchLayoutEditor !== null
+  }
+  
+  /**
+   * Mute key/button - silences sound effects and music together, or brings both back
+   */
+  toggleMute(): void {
+    const mute = this.soundEffectsEnabled || this.musicEnabled
+    this.setSoundEffects(!mute)
+    this.setMusic(!mute)
+  }
+  
+  /**
+   * Full-menu-sized panel shown over the menu, fixed to the camera like the menu itself
+   */
+  /**
+   * Achievements with progress towards each, a page at a time
+   */
+  private showAchievementsPage(pageIndex: number = 0): void {
+    if (this.activePage) return
+    
+    const perPage = 8
+    const progress = Achievements.getProgress()
+    const pageCount = Math.ceil(progress.length / perPage)
+    pageIndex = Phaser.Math.Clamp(pageIndex, 0, pageCount - 1)
+    
+    const page = this.createPage('ACHIEVEMENTS')
+    const smallText = (x: number, y: number, text: string, color: string = '#FFFFFF') => {
+      const label = this.scene.add.text(x, y, text, {
+        fontSize: '8px',
+        fontFamily: '"Press Start 2P", system-ui',
+        color
+      })
+      page.add(label)
+      return label
+    }
+    
+    smallText(0, -215, `${Achievements.getUnlockedCount()}/${progress.length} UNLOCKED  -  PAGE ${pageIndex + 1}/${pageCount}`, '#32CD32').setOrigin(0.5)
+    page.add(this.createDivider(-195))
+    
+    progress.slice(pageIndex * perPage, (pageIndex + 1) * perPage).forEach((entry, index) => {
+      const y = -170 + index * 46
+      const unlocked = entry.unlockedAt !== null
+      smallText(-185, y - 8, `${unlocked ? '🏆' : '🔒'} ${entry.definition.name}`, unlocked ? '#FFD700' : '#AAAAAA').setOrigin(0, 0.5)
+      smallText(-185, y + 10, entry.definition.description, unlocked ? '#FFFFFF' : '#888888').setOrigin(0, 0.5)
+      smallText(185, y - 8, unlocked ? '✓' : `${entry.value}/${entry.definition.target}`, unlocked ? '#32CD32' : '#FFFFFF').setOrigin(1, 0.5)
+    })
+    
+    const changePage = (step: number) => {
+      this.closePage()
+      this.showAchievementsPage(pageIndex + step)
+    }
+    if (pageIndex > 0) {
+      this.addPageButton(page, -118, 230, 110, 'PREV', () => changePage(-1), 0x4a148c, 40, '10px')
+    }
+    this.addPageButton(page, 0, 230, 110, 'BACK', () => this.closePage(), 0xFF6B6B, 40, '10px')
+    if (pageIndex < pageCount - 1) {
+      this.addPageButton(page, 118, 230, 110, 'NEXT', () => changePage(1), 0x4a148c, 40, '10px')
+    }
+  }
+  
+  /**
+   * Lifetime totals, best score per chapter and a chart of recent scores - RUNS lists the recent runs themselves
+   */
+  private showStatsPage(): void {
+    if (this.activePage) return
+    
+    const page = this.createPage('STATS')
+    const smallText = (x: number, y: number, text: string, color: string = '#FFFFFF') => {
+      const label = this.scene.add.text(x, y, text, {
+        fontSize: '8px',
+        fontFamily: '"Press Start 2P", system-ui',
+        color
+      })
+      page.add(label)
+      return label
+    }
+    
+    // Lifetime totals, two columns
+    const totals = RunHistory.getTotals()
+    const minutes = Math.floor(totals.durationMs / 60000)
+    const nemesis = RunHistory.getMostCommonDeath()
+    const totalRows: Array<[string, string]> = [
+      ['RUNS', `${totals.runs}`],
+      ['PLAYED', `${Math.floor(minutes / 60)}h ${minutes % 60}m`],
+      ['ENEMIES', `${totals.enemiesDefeated}`],
+      ['GEMS', `${totals.gems}`],
+      ['CHESTS', `${totals.chests}`],
+      ['LIVES LOST', `${totals.livesLost}`]
+    ]
+    smallText(0, -215, 'LIFETIME', '#32CD32').setOrigin(0.5)
+    totalRows.forEach(([label, value], index) => {
+      const x = index % 2 === 0 ? -185 : 10
+      const y = -195 + Math.floor(index / 2) * 16
+      smallText(x, y, label, '#FFD700').setOrigin(0, 0.5)
+      smallText(x + 175, y, value).setOrigin(1, 0.5)
+    })
+    smallText(-185, -147, 'AVERAGE SCORE', '#FFD700').setOrigin(0, 0.5)
+    smallText(185, -147, `${totals.runs > 0 ? Math.round(totals.score / totals.runs) : 0}`).setOrigin(1, 0.5)
+    smallText(-185, -131, 'MOST RUNS ENDED BY', '#FFD700').setOrigin(0, 0.5)
+    smallText(185, -131, nemesis ? RunHistory.getCauseName(nemesis) : '-').setOrigin(1, 0.5)
+    
+    // Best score per chapter
+    page.add(this.createDivider(-113))
+    smallText(0, -95, 'CHAPTER BESTS', '#32CD32').setOrigin(0.5)
+    const bests = RunHistory.getChapterBests()
+    RunHistory.CHAPTERS.forEach((chapter, index) => {
+      const y = -75 + index * 18
+      const best = bests[chapter.id]
+      smallText(-185, y, chapter.name, best ? '#FFD700' : '#888888').setOrigin(0, 0.5)
+      smallText(60, y, best ? `LV ${best.level}` : '-', best ? '#FFFFFF' : '#888888').setOrigin(0.5)
+      smallText(185, y, best ? `${best.score}` : '-', best ? '#FFFFFF' : '#888888').setOrigin(1, 0.5)
+    })
+    
+    // Bar chart of the recent scores, oldest on the left
+    page.add(this.createDivider(38))
+    const recent = RunHistory.getRuns().slice(0, 20).reverse()
+    smallText(0, 55, `LAST ${recent.length} SCORES`, '#32CD32').setOrigin(0.5)
+    const chartLeft = -180
+    const chartWidth = 360
+    const chartBottom = 190
+    const chartHeight = 110
+    const chart = this.scene.add.graphics()
+    chart.lineStyle(1, 0x7b1fa2, 1)
+    chart.lineBetween(chartLeft, chartBottom, chartLeft + chartWidth, chartBottom)
+    page.add(chart)
+    if (recent.length === 0) {
+      smallText(0, chartBottom - chartHeight / 2, 'No finished runs yet', '#AAAAAA').setOrigin(0.5)
+    } else {
+      const topScore = Math.max(1, ...recent.map(run => run.score))
+      const slot = chartWidth / 20
+      recent.forEach((run, index) => {
+        const barHeight = Math.max(2, (run.score / topScore) * chartHeight)
+        chart.fillStyle(run.mode === 'daily' ? 0x20B2AA : 0xFFD700, 1)
+        chart.fillRect(chartLeft + index * slot + 2, chartBottom - barHeight, slot - 4, barHeight)
+      })
+      smallText(chartLeft, chartBottom - chartHeight - 10, `${topScore}`, '#AAAAAA').setOrigin(0, 0.5)
+    }
+    
+    this.addPageButton(page, -118, 230, 110, 'RUNS', () => {
+      this.closePage()
+      this.showRunHistoryPage()
+    }, 0x4a148c, 40, '10px')
+    this.addPageButton(page, 0, 230, 110, 'PROFILE', () => {
+      this.closePage()
+      this.showProfilePage()
+    }, 0x4a148c, 40, '10px')
+    this.addPageButton(page, 118, 230, 110, 'BACK', () => this.closePage(), 0xFF6B6B, 40, '10px')
+  }
+  
+  /**
+   * The most recent runs, newest first
+   */
+  private showRunHistoryPage(): void {
+    if (this.activePage) return
+    
+    const page = this.createPage('RECENT RUNS')
+    const smallText = (x: number, y: number, text: string, color: string = '#FFFFFF') => {
+      const label = this.scene.add.text(x, y, text, {
+        fontSize: '8px',
+        fontFamily: '"Press Start 2P", system-ui',
+        color
+      })
+      page.add(label)
+      return label
+    }
+    
+    const runs = RunHistory.getRuns().slice(0, 10)
+    if (runs.length === 0) {
+      smallText(0, 0, 'No finished runs yet', '#AAAAAA').setOrigin(0.5)
+    }
+    runs.forEach((run, index) => {
+      const y = -205 + index * 40
+      const date = new Date(run.date)
+      const minutes = Math.floor(run.durationMs / 60000)
+      const seconds = Math.floor(run.durationMs / 1000) % 60
+      smallText(-185, y, `${date.getMonth() + 1}/${date.getDate()}${run.mode === 'daily' ? ' DAILY' : run.mode === 'practice' ? ' PRAC' : ''}`, '#AAAAAA').setOrigin(0, 0.5)
+      smallText(-75, y, `LV ${run.level} F${run.floor}`, '#FFD700').setOrigin(0, 0.5)
+      smallText(185, y, `${run.score}`).setOrigin(1, 0.5)
+      smallText(-185, y + 16, `${RunHistory.getCauseName(run.causeOfDeath)}  ${minutes}:${seconds.toString().padStart(2, '0')}  ${run.enemiesDefeated} KO  ${run.gems} GEMS`, '#CCCCCC').setOrigin(0, 0.5)
+    })
+    
+    this.addPageButton(page, 0, 230, 140, 'BACK', () => {
+      this.closePage()
+      this.showStatsPage()
+    }, 0xFF6B6B, 40, '10px')
+  }
+  
+  /**
+   * Export the profile to a file, or import one - REPLACE has to be pressed twice
+   */
+  private showProfilePage(message: string = '', confirmReplace: boolean = false): void {
+    if (this.activePage) return
+    
+    const page = this.createPage('PROFILE')
+    const smallText = (x: number, y: number, text: string, color: string = '#FFFFFF') => {
+      const label = this.scene.add.text(x, y, text, {
+        fontSize: '8px',
+        fontFamily: '"Press Start 2P", system-ui',
+        color,
+        align: 'center',
+        lineSpacing: 6
+      })
+      page.add(label)
+      return label
+    }
+    const refresh = (nextMessage: string, nextConfirm: boolean = false) => {
+      this.closePage()
+      this.showProfilePage(nextMessage, nextConfirm)
+    }
+    
+    smallText(0, -190, 'Take your progress, scores, achievements\nand settings to another device', '#AAAAAA').setOrigin(0.5)
+    
+    const totals = RunHistory.getTotals()
+    smallText(0, -135, [
+      `FURTHEST LEVEL: ${Math.max(1, Achievements.getCounter('highestLevel'))}`,
+      `ACHIEVEMENTS: ${Achievements.getUnlockedCount()}/${Achievements.DEFINITIONS.length}`,
+      `RUNS PLAYED: ${totals.runs}`
+    ].join('\n'), '#FFD700').setOrigin(0.5)
+    page.add(this.createDivider(-90))
+    
+    this.addPageButton(page, 0, -50, 300, 'EXPORT TO FILE', () => {
+      refresh(this.downloadProfile() ? 'Profile saved to your downloads' : 'Could not export the profile')
+    }, 0x4a148c, 44, '12px')
+    this.addPageButton(page, 0, 10, 300, 'IMPORT + MERGE', () => {
+      this.pickProfileFile('merge', refresh)
+    }, 0x4a148c, 44, '12px')
+    smallText(0, 42, 'Keeps the best of both profiles', '#AAAAAA').setOrigin(0.5)
+    this.addPageButton(page, 0, 85, 300, confirmReplace ? 'PRESS AGAIN TO REPLACE' : 'IMPORT + REPLACE', () => {
+      if (!confirmReplace) {
+        refresh('Replacing erases this device\'s profile', true)
+        return
+      }
+      this.pickProfileFile('replace', refresh)
+    }, confirmReplace ? 0xFF6B6B : 0x4a148c, 44, confirmReplace ? '10px' : '12px')
+    smallText(0, 117, 'Overwrites everything on this device', '#AAAAAA').setOrigin(0.5)
+    
+    smallText(0, 165, message).setOrigin(0.5).setWordWrapWidth(360)
+    
+    this.addPageButton(page, 0, 230, 140, 'BACK', () => {
+      this.closePage()
+      this.showStatsPage()
+    }, 0xFF6B6B, 40, '10px')
+  }
+  
+  private downloadProfile(): boolean {
+    try {
+      const json = JSON.stringify(ProfileStore.exportProfile(), null, 2)
+      downloadJson(`bizarre-underground-profile-${new Date().toISOString().slice(0, 10)}.json`, json)
+      console.log('👤 Profile exported')
+      return true
+    } catch (e) {
+      console.warn('👤 Could not export profile:', e)
+      return false
+    }
+  }
+  
+  /**
+   * Ask for a profile file and import it - the game reloads afterwards so every system picks up the new profile
+   */
+  private pickProfileFile(mode: ProfileImportMode, refresh: (message: string) => void): void {
+    pickJsonFile().then(json => {
+      if (json === null) return
+      const result = ProfileStore.importProfile(json, mode)
+      if (!result.success) {
+        refresh(result.message)
+        return
+      }
+      refresh(`${result.message} - restarting...`)
+      setTimeout(() => window.location.reload(), 1500)
+    }).catch(e => {
+      console.warn('👤 Could not read profile file:', e)
+      refresh('Could not read that file')
+    })
+  }
+  
+  private createPage(title: string): Phaser.GameObjects.Container {
+    const camera = this.scene.cameras.main
+    const page = this.scene.add.container(camera.width / 2, camera.height / 2)
+    page.setDepth(5001) // Just above the menu
+    page.setScrollFactor(0, 0)
+    
+    const titleText = this.scene.add.text(0, -250, title, {
+      fontSize: '18px',
+      fontFamily: '"Press Start 2P", system-ui',
+      color: '#FFD700',
+      align: 'center'
+    }).setOrigin(0.5)
+    
+    page.add([this.createMenuPanel(), titleText])
+    
+    this.activePage = page
+    this.pageHitZones = []
+    return page
+  }
+  
+  /**
+   * Page button - drawn only, clicks arrive through manualHitTest so camera scroll can't offset them
+   */
+  private addPageButton(
+    page: Phaser.GameObjects.Container,
+    x: number,
+    y: number,
+    width: number,
+    text: string,
+    onClick: () => void,
+    color: number = 0x4a148c,
+    height: number = 40,
+    fontSize: string = '14px'
+  ): void {
+    const bgRect = this.scene.add.rectangle(x, y, width, height, color, 0.8)
+    bgRect.setStrokeStyle(2, 0xFFD700)
+    
+    const btnText = this.scene.add.text(x, y, text, {
+      fontSize,
+      fontFamily: '"Press Start 2P", system-ui',
+      color: '#FFD700'
+    }).setOrigin(0.5)
+    
+    page.add([bgRect, btnText])
+    this.pageHitZones.push({ x, y, halfWidth: width / 2, halfHeight: height / 2, onClick })
+  }
+  
+  private closePage(cancelCapture: boolean = true): void {
+    if (cancelCapture) this.cancelCapture()
+    this.pageRefreshTimer?.remove()
+    this.pageRefreshTimer = null
+    this.activePage?.destroy()
+    this.activePage = null
+    this.pageHitZones = []
   }
   
   private showInstructions(): void {
@@ -1268,10 +1895,10 @@ export class MenuOverlay {
     const instructions = [
       'CONTROLS:',
       '',
-      'Move: WASD or Arrow Keys',
-      'Jump: Space or E',
-      'Climb: Up/Down on ladders',
-      'Throw: Q, V, or M',
+      `Move: ${InputGlyphs.getLabel('move', 'keyboard')}`,
+      `Jump: ${InputGlyphs.getLabel('jump', 'keyboard')}`,
+      `Climb: ${InputGlyphs.getLabel('climb', 'keyboard')}`,
+      `Throw: ${InputGlyphs.getLabel('fire', 'keyboard')}`,
       '',
       'OBJECTIVE:',
       '',
@@ -1279,7 +1906,7 @@ export class MenuOverlay {
       'Avoid or defeat enemies',
       'Reach the door to advance',
       '',
-      'Press ESC to open this menu'
+      `Press ${InputGlyphs.getLabel('menu', 'keyboard')} to open this menu`
     ]
     
     const content = this.scene.add.text(0, -100, instructions.join('\n'), {
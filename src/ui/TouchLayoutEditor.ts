@@ -0,0 +1,219 @@
+import { TouchControls } from '../objects/TouchControls'
+import { TouchLayoutManager, TouchLayout, TouchControlId } from '../systems/TouchLayout'
+
+// Toolbar button in screen coordinates
+interface EditorButton {
+  x: number
+  y: number
+  halfWidth: number
+  halfHeight: number
+  onClick: () => void
+}
+
+/**
+ * Touch layout editor, opened from Menu -> Controls -> TOUCH
+ * Shows the touch controls over a dimmed screen: drag one to move it, then use the toolbar
+ * to resize or fade it. SAVE stores the layout for this device profile, CANCEL puts the old one back
+ */
+export class TouchLayoutEditor {
+  private scene: Phaser.Scene
+  private touchControls: TouchControls
+  private onClose: (message: string) => void
+
+  private width: number
+  private height: number
+  private original: TouchLayout
+  private layout: TouchLayout
+  private selected: TouchControlId = 'dpad'
+  private drag: { pointerId: number, offsetX: number, offsetY: number } | null = null
+
+  private backdrop: Phaser.GameObjects.Rectangle
+  private selection: Phaser.GameObjects.Graphics
+  private toolbar: Phaser.GameObjects.Container | null = null
+  private buttons: EditorButton[] = []
+
+  private static readonly SCALE_STEP = 0.1
+  private static readonly OPACITY_STEP = 0.1
+
+  constructor(scene: Phaser.Scene, touchControls: TouchControls, onClose: (message: string) => void) {
+    this.scene = scene
+    this.touchControls = touchControls
+    this.onClose = onClose
+    this.width = scene.game.config.width as number
+    this.height = scene.game.config.height as number
+    this.original = touchControls.getLayout()
+    this.layout = touchControls.getLayout()
+
+    // Dim the game behind the controls (they sit at depth 1000)
+    this.backdrop = scene.add.rectangle(0, 0, this.width, this.height, 0x000000, 0.6)
+      .setOrigin(0).setScrollFactor(0).setDepth(999)
+    this.selection = scene.add.graphics().setScrollFactor(0).setDepth(1001)
+
+    touchControls.setLayoutPreview(true)
+
+    scene.input.on('pointerdown', this.handlePointerDown, this)
+    scene.input.on('pointermove', this.handlePointerMove, this)
+    scene.input.on('pointerup', this.handlePointerUp, this)
+    scene.events.once('shutdown', this.destroy, this)
+
+    this.refresh()
+    console.log('📱 Touch layout editor opened')
+  }
+
+  /**
+   * Put the layout back the way it was and close
+   */
+  cancel(): void {
+    this.touchControls.applyLayout(this.original)
+    this.close('Touch layout unchanged')
+  }
+
+  private save(): void {
+    const saved = TouchLayoutManager.save(this.width, this.height, this.layout)
+    this.close(saved ? 'Touch layout saved' : 'Could not save the touch layout')
+  }
+
+  private close(message: string): void {
+    this.destroy()
+    this.touchControls.setLayoutPreview(false)
+    this.onClose(message)
+  }
+
+  private apply(): void {
+    this.touchControls.applyLayout(this.layout)
+    this.refresh()
+  }
+
+  private changeSelected(changes: Partial<{ scale: number, opacity: number }>): void {
+    const control = this.layout.controls[this.selected]
+    this.layout.controls[this.selected] = TouchLayoutManager.clamp({ ...control, ...changes }, this.width, this.height)
+    this.apply()
+  }
+
+  private handlePointerDown(pointer: Phaser.Input.Pointer): void {
+    const button = this.buttons.find(button =>
+      Math.abs(pointer.x - button.x) < button.halfWidth && Math.abs(pointer.y - button.y) < button.halfHeight
+    )
+    if (button) {
+      button.onClick()
+      return
+    }
+
+    const control = this.touchControls.getControlAt(pointer.x, pointer.y)
+    if (!control) return
+
+    const position = this.layout.controls[control]
+    this.selected = control
+    this.drag = { pointerId: pointer.id, offsetX: pointer.x - position.x, offsetY: pointer.y - position.y }
+    this.refresh()
+  }
+
+  private handlePointerMove(pointer: Phaser.Input.Pointer): void {
+    if (!this.drag || pointer.id !== this.drag.pointerId) return
+
+    const control = this.layout.controls[this.selected]
+    this.layout.controls[this.selected] = TouchLayoutManager.clamp({
+      ...control,
+      x: Math.round(pointer.x - this.drag.offsetX),
+      y: Math.round(pointer.y - this.drag.offsetY)
+    }, this.width, this.height)
+    this.touchControls.applyLayout(this.layout)
+    this.drawSelection()
+  }
+
+  private handlePointerUp(pointer: Phaser.Input.Pointer): void {
+    if (this.drag?.pointerId === pointer.id) {
+      this.drag = null
+    }
+  }
+
+  /**
+   * Rebuild the toolbar and the selection ring after a change
+   */
+  private refresh(): void {
+    this.drawSelection()
+
+    this.toolbar?.destroy()
+    this.buttons = []
+    const toolbar = this.scene.add.container(0, 0).setScrollFactor(0).setDepth(6000)
+    this.toolbar = toolbar
+
+    const centerX = this.width / 2
+    const control = this.layout.controls[this.selected]
+    const text = (x: number, y: number, value: string, fontSize: string, color: string = '#FFFFFF') => {
+      toolbar.add(this.scene.add.text(x, y, value, {
+        fontSize,
+        fontFamily: '"Press Start 2P", system-ui',
+        color,
+        align: 'center'
+      }).setOrigin(0.5))
+    }
+
+    text(centerX, 50, 'TOUCH LAYOUT', '16px', '#FFD700')
+    text(centerX, 78, `Drag a control to move it\nSelected: ${TouchLayoutManager.CONTROL_LABELS[this.selected]}`, '8px')
+
+    // Size and fade steppers for the selected control
+    text(centerX - 115, 110, 'SIZE', '8px', '#FFD700')
+    text(centerX - 115, 130, `${Math.round(control.scale * 100)}%`, '10px')
+    this.addButton(centerX - 180, 120, 36, '-', () => this.changeSelected({ scale: control.scale - TouchLayoutEditor.SCALE_STEP }))
+    this.addButton(centerX - 50, 120, 36, '+', () => this.changeSelected({ scale: control.scale + TouchLayoutEditor.SCALE_STEP }))
+
+    text(centerX + 115, 110, 'FADE', '8px', '#FFD700')
+    text(centerX + 115, 130, `${Math.round(control.opacity * 100)}%`, '10px')
+    this.addButton(centerX + 50, 120, 36, '-', () => this.changeSelected({ opacity: control.opacity - TouchLayoutEditor.OPACITY_STEP }))
+    this.addButton(centerX + 180, 120, 36, '+', () => this.changeSelected({ opacity: control.opacity + TouchLayoutEditor.OPACITY_STEP }))
+
+    this.addButton(centerX - 100, 170, 190, this.layout.leftHanded ? 'RIGHT-HANDED' : 'LEFT-HANDED', () => {
+      this.layout = this.layout.leftHanded ? TouchLayoutManager.getDefault() : TouchLayoutManager.getLeftHanded(this.width)
+      this.apply()
+    })
+    this.addButton(centerX + 100, 170, 190, 'RESET', () => {
+      this.layout = TouchLayoutManager.getDefault()
+      this.apply()
+    })
+    this.addButton(centerX - 100, 215, 190, 'SAVE', () => this.save(), 0x32CD32)
+    this.addButton(centerX + 100, 215, 190, 'CANCEL', () => this.cancel(), 0xFF6B6B)
+  }
+
+  private addButton(x: number, y: number, width: number, label: string, onClick: () => void, color: number = 0x4a148c): void {
+    const height = 34
+    const background = this.scene.add.rectangle(x, y, width, height, color, 0.9)
+    background.setStrokeStyle(2, 0xFFD700)
+    const text = this.scene.add.text(x, y, label, {
+      fontSize: '10px',
+      fontFamily: '"Press Start 2P", system-ui',
+      color: '#FFD700'
+    }).setOrigin(0.5)
+
+    this.toolbar?.add([background, text])
+    this.buttons.push({ x, y, halfWidth: width / 2, halfHeight: height / 2, onClick })
+  }
+
+  /**
+   * Ring around the selected control, sized to its hit area
+   */
+  private drawSelection(): void {
+    const control = this.layout.controls[this.selected]
+    this.selection.clear()
+    this.selection.lineStyle(3, 0xFFD700, 0.9)
+    if (this.selected === 'dpad') {
+      this.selection.strokeCircle(control.x, control.y, 110 * control.scale)
+    } else {
+      this.selection.strokeRoundedRect(control.x - 50 * control.scale, control.y - 50 * control.scale, 100 * control.scale, 100 * control.scale, 12)
+    }
+  }
+
+  private destroy(): void {
+    this.scene.input.off('pointerdown', this.handlePointerDown, this)
+    this.scene.input.off('pointermove', this.handlePointerMove, this)
+    this.scene.input.off('pointerup', this.handlePointerUp, this)
+    this.scene.events.off('shutdown', this.destroy, this)
+    this.toolbar?.destroy()
+    this.toolbar = null
+    this.buttons = []
+    this.selection.destroy()
+    this.backdrop.destroy()
+  }
+}
+
+export default TouchLayoutEditor
@@ -3,7 +3,7 @@
  * Handles wallet connection button and status display
  */
 
-import { Web3Manager } from '../utils/Web3Utils';
+import type { ScoreSubmissionEvent } from '../utils/Web3Utils';
 
 export class WalletUI {
   private scene: Phaser.Scene;
@@ -13,6 +13,8 @@ export class WalletUI {
   private background: Phaser.GameObjects.Rectangle;
   private isConnected: boolean = false;
   private address: string | null = null;
+  private onWalletChanged = (event: any) => this.updateConnectionStatus(event.detail.address);
+  private onScoreSubmission = (event: any) => this.showScoreSubmission(event.detail);
 
   constructor(scene: Phaser.Scene) {
     this.scene = scene;
@@ -76,10 +78,17 @@ export class WalletUI {
    * Setup event listeners for wallet changes
    */
   private setupEventListeners(): void {
-    // Listen for wallet changes
-    window.addEventListener('walletChanged', (event: any) => {
-      this.updateConnectionStatus(event.detail.address);
-    });
+    // Listen for wallet changes and on-chain score submissions
+    window.addEventListener('walletChanged', this.onWalletChanged);
+    window.addEventListener('scoreSubmission', this.onScoreSubmission);
+
+    // Window listeners outlive the scene
+    this.scene.events.once('shutdown', () => this.removeEventListeners());
+  }
+
+  private removeEventListeners(): void {
+    window.removeEventListener('walletChanged', this.onWalletChanged);
+    window.removeEventListener('scoreSubmission', this.onScoreSubmission);
   }
 
   /**
@@ -167,6 +176,29 @@ export class WalletUI {
     }
   }
 
+  /**
+   * Show progress of an on-chain score submission
+   */
+  private showScoreSubmission(submission: ScoreSubmissionEvent): void {
+    if (!this.walletButton.active) return;
+
+    if (submission.status === 'submitting') {
+      this.walletText.setText('Saving...');
+      this.walletIcon.setText('⏳');
+      return;
+    }
+
+    this.updateConnectionStatus(this.address);
+    const colors: { [status: string]: number } = {
+      confirmed: 0x4ade80,
+      rejected: 0xff4444,
+      failed: 0xff4444,
+      queued: 0xf59e0b
+    };
+    const pending = submission.pending > 0 ? ` (${submission.pending} queued)` : '';
+    this.showConnectionFeedback(`${submission.message}${pending}`, colors[submission.status]);
+  }
+
   /**
    * Show connection feedback
    */
@@ -214,7 +246,7 @@ export class WalletUI {
    * Destroy the wallet UI
    */
   public destroy(): void {
-    window.removeEventListener('walletChanged', this.checkConnectionStatus);
+    this.removeEventListeners();
     this.walletButton.destroy();
   }
 }
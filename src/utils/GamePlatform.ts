@@ -3,6 +3,12 @@
  * Allows game to run on both Remix and dgen1 platforms
  */
 
+import { Leaderboards } from '../systems/Leaderboard';
+import type { ScoreData } from './Web3Utils';
+import type { RunSummary, ScoreAttestation } from '../systems/ScoreAttestation';
+import type { AchievementDefinition } from '../systems/Achievements';
+import { ProfileStore } from '../systems/ProfileStore';
+
 export interface GamePlatform {
   ready(): void;
   gameOver(score: number): void;
@@ -13,11 +19,16 @@ export interface GamePlatform {
   getHighScore(): Promise<number>;
   saveGameState?(state: any): Promise<void>;
   loadGameState?(): Promise<any>;
+  clearGameState?(): Promise<void>;
   connectWallet?(): Promise<string | null>;  // Optional - only for dgen1
+  getWalletAddress?(): string | null;  // Optional - connected wallet, used as the leaderboard identity
+  saveScoreOnChain?(scoreData: Omit<ScoreData, 'address' | 'timestamp'>): Promise<string | null>;  // Optional - only for dgen1
+  signRunSummary?(summary: Omit<RunSummary, 'player'>): Promise<ScoreAttestation | null>;  // Optional - only for dgen1
   disconnectWallet?(): Promise<void>;  // Optional - only for dgen1
   showWalletAccount?(): Promise<void>;  // Optional - only for dgen1
   showWalletButton?(): void;  // Optional - show wallet button after splash
   hideWalletButton?(): void;  // Optional - hide wallet button during splash
+  unlockAchievement?(achievement: AchievementDefinition): void;  // Optional - tell the host about an unlock
 }
 
 /**
@@ -61,8 +72,31 @@ export class RemixPlatform implements GamePlatform {
   }
 
   async getHighScore() {
-    // Remix doesn't provide high score API
-    return 0;
+    // Remix doesn't provide high score API - use this player's best leaderboard run
+    const [best] = await Leaderboards.getProvider().getAroundPlayer({ mode: 'normal' }, Leaderboards.getPlayerId(), 0);
+    return best ? best.score : 0;
+  }
+  
+  // Run saves stay on this device - Remix has no cloud save API
+  async saveGameState(state: any) {
+    localStorage.setItem('treasureQuest_runState', JSON.stringify(state));
+  }
+
+  async loadGameState() {
+    const saved = localStorage.getItem('treasureQuest_runState');
+    return saved ? JSON.parse(saved) : null;
+  }
+
+  async clearGameState() {
+    localStorage.removeItem('treasureQuest_runState');
+  }
+  
+  // Farcade has no achievements API yet - let the embedding page know and give a buzz
+  unlockAchievement(achievement: AchievementDefinition) {
+    this.haptic('success');
+    if (typeof window !== 'undefined' && window.parent !== window) {
+      window.parent.postMessage({ type: 'bizarre-underground:achievement', achievement }, '*');
+    }
   }
   
   // Wallet methods not available on Remix platform
@@ -114,7 +148,7 @@ export class Dgen1Platform implements GamePlatform {
     console.log('🎮 Game ready on dgen1 platform');
     
     // Load saved settings
-    const audioMuted = localStorage.getItem('bz_audioMuted') === 'true';
+    const audioMuted = ProfileStore.getItem('audioMuted') === 'true';
     if (audioMuted && (window as any).game) {
       (window as any).game.sound.mute = true;
     }
@@ -143,19 +177,19 @@ export class Dgen1Platform implements GamePlatform {
     if ((window as any).game) {
       (window as any).game.sound.mute = true;
     }
-    localStorage.setItem('bz_audioMuted', 'true');
+    ProfileStore.setItem('audioMuted', 'true');
   }
 
   unmute() {
     if ((window as any).game) {
       (window as any).game.sound.mute = false;
     }
-    localStorage.setItem('bz_audioMuted', 'false');
+    ProfileStore.setItem('audioMuted', 'false');
   }
 
   async saveScore(score: number) {
     // Save to localStorage
-    const scores = JSON.parse(localStorage.getItem('bz_scores') || '[]');
+    const scores = JSON.parse(ProfileStore.getItem('scores') || '[]');
     scores.push({
       score,
       date: Date.now(),
@@ -166,12 +200,12 @@ export class Dgen1Platform implements GamePlatform {
     scores.sort((a: any, b: any) => b.score - a.score);
     scores.splice(10);
     
-    localStorage.setItem('bz_scores', JSON.stringify(scores));
-    localStorage.setItem('bz_highScore', scores[0]?.score.toString() || '0');
+    ProfileStore.setItem('scores', JSON.stringify(scores));
+    ProfileStore.setItem('highScore', scores[0]?.score.toString() || '0');
   }
 
   async getHighScore() {
-    const highScore = localStorage.getItem('bz_highScore');
+    const highScore = ProfileStore.getItem('highScore');
     return highScore ? parseInt(highScore) : 0;
   }
 
@@ -198,16 +232,25 @@ export class Dgen1Platform implements GamePlatform {
     return state;
   }
 
+  async clearGameState() {
+    localStorage.removeItem('bz_saveState');
+  }
+
+  unlockAchievement(achievement: AchievementDefinition) {
+    this.haptic('heavy');
+    window.dispatchEvent(new CustomEvent('achievementunlocked', { detail: achievement }));
+  }
+
   private saveToLocalStorage(score: number) {
     this.saveScore(score);
     
     // Update statistics
-    const stats = JSON.parse(localStorage.getItem('bz_stats') || '{}');
+    const stats = JSON.parse(ProfileStore.getItem('platformStats') || '{}');
     stats.gamesPlayed = (stats.gamesPlayed || 0) + 1;
     stats.totalScore = (stats.totalScore || 0) + score;
     stats.bestScore = Math.max(stats.bestScore || 0, score);
     stats.lastPlayed = Date.now();
-    localStorage.setItem('bz_stats', JSON.stringify(stats));
+    ProfileStore.setItem('platformStats', JSON.stringify(stats));
   }
 
   /**
@@ -230,6 +273,31 @@ export class Dgen1Platform implements GamePlatform {
     return null;
   }
 
+  getWalletAddress(): string | null {
+    return this.walletConnected ? this.walletAddress : null;
+  }
+
+  /**
+   * Sign a finished run's summary with the connected wallet
+   */
+  async signRunSummary(summary: Omit<RunSummary, 'player'>): Promise<ScoreAttestation | null> {
+    if (!this.web3Manager || !this.walletConnected) return null;
+    return this.web3Manager.signRunSummary(summary);
+  }
+
+  /**
+   * Submit a finished run to the score registry - progress is reported to WalletUI
+   */
+  async saveScoreOnChain(scoreData: Omit<ScoreData, 'address' | 'timestamp'>): Promise<string | null> {
+    if (!this.web3Manager || !this.walletConnected || !this.walletAddress) return null;
+
+    return this.web3Manager.saveScoreOnChain({
+      ...scoreData,
+      address: this.walletAddress,
+      timestamp: Date.now()
+    });
+  }
+
   /**
    * Disconnect wallet
    */
@@ -0,0 +1,38 @@
+/**
+ * JSON file transfer for Bizarre Underground
+ * Saving to and loading from the player's files - used for profiles, replays and authored levels
+ */
+
+/**
+ * Download text as a JSON file - the object URL is revoked once the browser has had time to start
+ * the download (revoking it straight away cancels the download in some browsers)
+ */
+export function downloadJson(filename: string, json: string): void {
+  const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+/**
+ * Let the player pick a JSON file and read it - resolves null if nothing was picked,
+ * rejects if the file couldn't be read
+ */
+export function pickJsonFile(): Promise<string | null> {
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = 'application/json,.json'
+    input.onchange = () => {
+      const file = input.files?.[0]
+      if (!file) {
+        resolve(null)
+        return
+      }
+      file.text().then(resolve, reject)
+    }
+    input.click()
+  })
+}
@@ -65,6 +65,8 @@ export function initializeFarcadeSDK(game: Phaser.Game): void {
     game.registry.set('isDeathRetry', false)
     game.registry.set('isLevelProgression', false)
     game.registry.set('currentLevel', 1)
+    game.registry.set('gameMode', 'normal')
+    game.registry.remove('practiceStartLevel')
     game.registry.set('playerLives', 3)  // Set to 3 lives for new game
     game.registry.set('totalCoins', 0)
     game.registry.set('totalGems', 0)
@@ -73,6 +75,7 @@ export function initializeFarcadeSDK(game: Phaser.Game): void {
     game.registry.set('accumulatedScore', 0)
     game.registry.set('currentScore', 0)
     game.registry.set('accumulatedDiamonds', 0)
+    game.registry.remove('runSeed') // New run gets a new seed
     
     // Clear all chapter splash shown flags for new game
     const chapterLevels = [1, 11, 21, 31, 41, 51]
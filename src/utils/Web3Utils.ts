@@ -4,9 +4,12 @@
  */
 
 import { createAppKit } from '@reown/appkit';
-import { mainnet, polygon, arbitrum, base } from '@reown/appkit/networks';
+import { mainnet, polygon, arbitrum, base, defineChain } from '@reown/appkit/networks';
 import { EthersAdapter } from '@reown/appkit-adapter-ethers';
 import { ethers } from 'ethers';
+import { Leaderboards, LeaderboardBoard, LocalLeaderboardProvider } from '../systems/Leaderboard';
+import { ScoreAttestation, ScoreAttestationManager, RunSummary } from '../systems/ScoreAttestation';
+import GameSettingsDgen1 from '../config/GameSettings.dgen1';
 
 // Types
 export interface Web3Config {
@@ -25,6 +28,97 @@ export interface ScoreData {
   gems: number;
 }
 
+export interface ScoreRegistryConfig {
+  contractAddress: string;  // Empty - wallet scores stay on this device
+  rpcUrl: string;           // Used to read the registry and wait for confirmations
+  chainId: number;
+  confirmations: number;
+}
+
+export type ScoreSubmissionStatus = 'submitting' | 'confirmed' | 'rejected' | 'failed' | 'queued';
+
+// Detail of the 'scoreSubmission' window event - WalletUI shows these
+export interface ScoreSubmissionEvent {
+  status: ScoreSubmissionStatus;
+  message: string;
+  txHash?: string;
+  pending: number;  // Scores still waiting in the retry queue
+}
+
+/**
+ * Score registry contract - one ScoreSubmitted event per run, best score kept per player
+ */
+export const SCORE_REGISTRY_ABI = [
+  'function submitScore(uint256 score, uint32 level, uint32 enemies, uint32 gems) returns (uint256 scoreId)',
+  'function bestScore(address player) view returns (uint256)',
+  'event ScoreSubmitted(address indexed player, uint256 indexed scoreId, uint256 score, uint32 level, uint32 enemies, uint32 gems)'
+];
+
+interface ScoreRegistryContract {
+  submitScore(score: bigint, level: number, enemies: number, gems: number): Promise<ethers.ContractTransactionResponse>;
+  bestScore(player: string): Promise<bigint>;
+}
+
+/**
+ * Typed client for the score registry contract
+ */
+export class ScoreRegistryClient {
+  private readProvider: ethers.JsonRpcProvider;
+
+  constructor(readonly config: ScoreRegistryConfig) {
+    this.readProvider = new ethers.JsonRpcProvider(config.rpcUrl, config.chainId);
+  }
+
+  /**
+   * Registry settings from the dgen1 GameSettings - ?scoreContract=, ?rpc= and ?chainId= override them
+   * so development builds can point at a local EVM node
+   */
+  static getConfig(): ScoreRegistryConfig {
+    const config = { ...GameSettingsDgen1.web3.scoreRegistry };
+    try {
+      const params = new URLSearchParams(window.location.search);
+      config.contractAddress = params.get('scoreContract') || config.contractAddress;
+      config.rpcUrl = params.get('rpc') || config.rpcUrl;
+      config.chainId = Number(params.get('chainId')) || config.chainId;
+    } catch (error) {
+      // No URL to read - keep the settings
+    }
+    return config;
+  }
+
+  isConfigured(): boolean {
+    return ethers.isAddress(this.config.contractAddress) && !!this.config.rpcUrl;
+  }
+
+  /**
+   * Send the score and wait for it to be confirmed - resolves to the transaction hash
+   * Throws the wallet/provider error when the transaction is rejected, reverts or can't be sent
+   */
+  async submitScore(signer: ethers.Signer, scoreData: ScoreData): Promise<string> {
+    const tx = await this.getContract(signer).submitScore(
+      BigInt(scoreData.score),
+      scoreData.level,
+      scoreData.enemies,
+      scoreData.gems
+    );
+    console.log(`⛓️ Score transaction sent: ${tx.hash}`);
+
+    const receipt = await this.readProvider.waitForTransaction(tx.hash, this.config.confirmations);
+    if (!receipt || receipt.status !== 1) {
+      throw new Error(`Score transaction ${tx.hash} reverted`);
+    }
+    return tx.hash;
+  }
+
+  async getBestScore(address: string): Promise<number> {
+    return Number(await this.getContract(this.readProvider).bestScore(address));
+  }
+
+  private getContract(runner: ethers.ContractRunner): ScoreRegistryContract {
+    return new ethers.Contract(this.config.contractAddress, SCORE_REGISTRY_ABI, runner) as unknown as ScoreRegistryContract;
+  }
+}
+
 /**
  * Web3Manager - Handles all Web3 interactions for dgen1
  */
@@ -36,6 +130,11 @@ export class Web3Manager {
   private currentAddress: string | null = null;
   private signer: ethers.Signer | null = null;
   private provider: ethers.Provider | null = null;
+  private scoreRegistry = new ScoreRegistryClient(ScoreRegistryClient.getConfig());
+  private isRetryingScores: boolean = false;
+
+  private static readonly PENDING_SCORES_KEY = 'bz_pendingScores';
+  private static readonly MAX_PENDING_SCORES = 20;
 
   constructor(projectId: string) {
     this.projectId = projectId;
@@ -54,7 +153,7 @@ export class Web3Manager {
       // Create the AppKit instance
       this.appKit = createAppKit({
         adapters: [this.ethersAdapter],
-        networks: [mainnet, polygon, arbitrum, base],
+        networks: this.getNetworks(),
         projectId: this.projectId,
         metadata: {
           name: 'Bizarre Underground',
@@ -323,6 +422,32 @@ export class Web3Manager {
     window.dispatchEvent(new CustomEvent('walletChanged', { 
       detail: { address } 
     }));
+
+    // Send anything that failed last time
+    if (address) {
+      this.retryPendingScores();
+    }
+  }
+
+  /**
+   * Networks offered in the wallet modal - the score registry's chain is added when it isn't one of them
+   * (a local EVM node during development)
+   */
+  private getNetworks(): any[] {
+    const networks: any[] = [mainnet, polygon, arbitrum, base];
+    const { chainId, rpcUrl } = this.scoreRegistry.config;
+
+    if (!networks.some(network => network.id === chainId)) {
+      networks.push(defineChain({
+        id: chainId,
+        caipNetworkId: `eip155:${chainId}`,
+        chainNamespace: 'eip155',
+        name: `Score Registry (${chainId})`,
+        nativeCurrency: { decimals: 18, name: 'Ether', symbol: 'ETH' },
+        rpcUrls: { default: { http: [rpcUrl] } }
+      }));
+    }
+    return networks;
   }
 
   /**
@@ -439,78 +564,194 @@ export class Web3Manager {
   }
 
   /**
-   * Save score on-chain (placeholder for smart contract integration)
+   * Have the connected wallet sign a summary of the finished run, so the score can be checked
+   * wherever it is sent - null if no wallet is connected or the player declines
+   */
+  async signRunSummary(summary: Omit<RunSummary, 'player'>): Promise<ScoreAttestation | null> {
+    const signer = await this.getSigner();
+    if (!signer || !this.currentAddress) return null;
+
+    try {
+      const attestation = await ScoreAttestationManager.sign(signer, { ...summary, player: this.currentAddress });
+      console.log(`✍️ Run summary signed by ${Web3Manager.formatAddress(this.currentAddress)}`);
+      return attestation;
+    } catch (error) {
+      if (ethers.isError(error, 'ACTION_REJECTED')) {
+        console.log('✍️ Run summary signature declined');
+        this.emitScoreSubmission('rejected', 'Not signed');
+      } else {
+        console.error('Failed to sign run summary:', error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Save score on-chain through the score registry contract and wait for confirmation
+   * Falls back to the device leaderboard when no registry is configured; scores that can't be sent
+   * are queued and retried on the next connect or submission
    */
   async saveScoreOnChain(scoreData: ScoreData): Promise<string | null> {
     if (!this.isConnected()) {
-      console.log('L Cannot save score: wallet not connected');
+      console.log('⛓️ Cannot save score: wallet not connected');
       return null;
     }
 
+    if (!this.scoreRegistry.isConfigured()) {
+      return this.saveScoreLocally(scoreData);
+    }
+
+    const txHash = await this.sendScore(scoreData);
+    if (txHash) {
+      this.retryPendingScores();
+    }
+    return txHash;
+  }
+
+  /**
+   * Send the connected wallet's queued scores in order - stops at the first one that still can't be sent
+   * Each score leaves the queue only once it's confirmed (or the registry refuses it), so closing the page
+   * or declining the wallet prompt mid-retry keeps it. Scores queued by another wallet stay queued until
+   * that wallet connects again
+   */
+  async retryPendingScores(): Promise<void> {
+    if (this.isRetryingScores || !this.isConnected() || !this.scoreRegistry.isConfigured()) return;
+
+    this.isRetryingScores = true;
     try {
-      const signer = await this.getSigner();
-      if (!signer) return null;
+      let pending = this.loadPendingScores();
+      let next = pending.find(score => this.isCurrentWallet(score.address));
+      while (next) {
+        if (!await this.sendScore(next, true)) break;
+        pending = this.loadPendingScores();
+        next = pending.find(score => this.isCurrentWallet(score.address));
+      }
+    } finally {
+      this.isRetryingScores = false;
+    }
+  }
 
-      // TODO: Replace with actual smart contract address and ABI
-      const CONTRACT_ADDRESS = '0x...'; // Your contract address
-      const CONTRACT_ABI = []; // Your contract ABI
+  getPendingScoreCount(): number {
+    return this.loadPendingScores().filter(score => this.isCurrentWallet(score.address)).length;
+  }
 
-      console.log('=� Would save score on-chain:', scoreData);
-      
-      // Example contract interaction (uncomment when contract is deployed):
-      /*
-      const contract = new ethers.Contract(CONTRACT_ADDRESS, CONTRACT_ABI, signer);
-      const tx = await contract.submitScore(
-        scoreData.score,
-        scoreData.level,
-        scoreData.enemies,
-        scoreData.gems
-      );
-      await tx.wait();
-      return tx.hash;
-      */
-
-      // For now, just save to localStorage with wallet address
-      const walletScores = JSON.parse(
-        localStorage.getItem('bz_walletScores') || '{}'
-      );
-      
-      if (!walletScores[this.currentAddress!]) {
-        walletScores[this.currentAddress!] = [];
+  private isCurrentWallet(address: string): boolean {
+    return !!this.currentAddress && address.toLowerCase() === this.currentAddress.toLowerCase();
+  }
+
+  /**
+   * Submit one score, reporting progress to WalletUI - returns the transaction hash or null
+   * `queued` is set when the score is already in the retry queue and should come out of it once settled
+   */
+  private async sendScore(scoreData: ScoreData, queued: boolean = false): Promise<string | null> {
+    this.emitScoreSubmission('submitting', 'Saving score...');
+
+    try {
+      let signer = await this.getSigner();
+      if (signer && await this.switchToScoreRegistryNetwork(signer)) {
+        signer = await this.getSigner();
       }
-      
-      walletScores[this.currentAddress!].push(scoreData);
-      walletScores[this.currentAddress!].sort((a: ScoreData, b: ScoreData) => b.score - a.score);
-      walletScores[this.currentAddress!] = walletScores[this.currentAddress!].slice(0, 10);
-      
-      localStorage.setItem('bz_walletScores', JSON.stringify(walletScores));
-      
-      return 'local_save_' + Date.now();
+      if (!signer) {
+        throw new Error('No signer available');
+      }
+
+      const txHash = await this.scoreRegistry.submitScore(signer, scoreData);
+      if (queued) this.removePendingScore(scoreData);
+      console.log(`⛓️ Score ${scoreData.score} confirmed on-chain: ${txHash}`);
+      this.emitScoreSubmission('confirmed', 'Score saved!', txHash);
+      return txHash;
     } catch (error) {
-      console.error('Failed to save score on-chain:', error);
+      // A new score the player rejects isn't queued, but a queued one stays for the next retry
+      // A reverted transaction would fail the same way again, so it leaves the queue and the player is told
+      if (ethers.isError(error, 'ACTION_REJECTED')) {
+        console.log('⛓️ Score transaction rejected in wallet');
+        this.emitScoreSubmission('rejected', queued ? 'Rejected - kept for later' : 'Rejected');
+      } else if (ethers.isError(error, 'CALL_EXCEPTION')) {
+        console.error('Score transaction reverted:', error);
+        if (queued) this.removePendingScore(scoreData);
+        this.emitScoreSubmission('failed', queued ? 'Score refused - discarded' : 'Score refused');
+      } else {
+        console.error('Failed to save score on-chain:', error);
+        if (!queued) this.queuePendingScore(scoreData);
+        this.emitScoreSubmission('queued', 'Failed - will retry');
+      }
       return null;
     }
   }
 
   /**
-   * Get leaderboard data
+   * Ask the wallet to switch to the registry's chain if it's on another one - true if it switched
    */
-  async getLeaderboard(limit: number = 10): Promise<ScoreData[]> {
-    // TODO: Fetch from smart contract or backend
-    
-    // For now, return local leaderboard
-    const walletScores = JSON.parse(
-      localStorage.getItem('bz_walletScores') || '{}'
-    );
-    
-    const allScores: ScoreData[] = [];
-    for (const wallet in walletScores) {
-      allScores.push(...walletScores[wallet]);
+  private async switchToScoreRegistryNetwork(signer: ethers.Signer): Promise<boolean> {
+    const network = await signer.provider?.getNetwork();
+    const { chainId } = this.scoreRegistry.config;
+    if (!network || Number(network.chainId) === chainId) return false;
+
+    const target = this.getNetworks().find(candidate => candidate.id === chainId);
+    await this.appKit.switchNetwork(target);
+    return true;
+  }
+
+  private saveScoreLocally(scoreData: ScoreData): Promise<string | null> {
+    return new LocalLeaderboardProvider().submit(
+      Leaderboards.getBoardForRun(scoreData.level),
+      {
+        playerId: Leaderboards.getPlayerId(scoreData.address),
+        name: Web3Manager.formatAddress(scoreData.address),
+        score: scoreData.score,
+        level: scoreData.level,
+        enemies: scoreData.enemies,
+        gems: scoreData.gems
+      }
+    ).then(saved => saved ? 'local_save_' + Date.now() : null);
+  }
+
+  // The queue stays in localStorage rather than the ProfileStore on purpose - it holds transactions this
+  // device failed to send, and an exported profile imported elsewhere would send them a second time
+  private loadPendingScores(): ScoreData[] {
+    try {
+      return JSON.parse(localStorage.getItem(Web3Manager.PENDING_SCORES_KEY) || '[]');
+    } catch (error) {
+      console.warn('Could not load pending scores:', error);
+      return [];
     }
-    
-    return allScores
-      .sort((a, b) => b.score - a.score)
-      .slice(0, limit);
+  }
+
+  private savePendingScores(scores: ScoreData[]): void {
+    localStorage.setItem(Web3Manager.PENDING_SCORES_KEY, JSON.stringify(scores));
+  }
+
+  private queuePendingScore(scoreData: ScoreData): void {
+    const pending = this.loadPendingScores();
+    pending.push(scoreData);
+    this.savePendingScores(pending.slice(-Web3Manager.MAX_PENDING_SCORES));
+  }
+
+  // Matched by value - the queue is reloaded from localStorage between sends
+  private removePendingScore(scoreData: ScoreData): void {
+    this.savePendingScores(this.loadPendingScores().filter(score =>
+      !(score.address === scoreData.address && score.timestamp === scoreData.timestamp && score.score === scoreData.score)
+    ));
+  }
+
+  private emitScoreSubmission(status: ScoreSubmissionStatus, message: string, txHash?: string): void {
+    const detail: ScoreSubmissionEvent = { status, message, txHash, pending: this.getPendingScoreCount() };
+    window.dispatchEvent(new CustomEvent('scoreSubmission', { detail }));
+  }
+
+  /**
+   * Get leaderboard data from the configured leaderboard provider
+   */
+  async getLeaderboard(limit: number = 10, board: LeaderboardBoard = { mode: 'normal' }): Promise<ScoreData[]> {
+    const entries = await Leaderboards.getProvider().getTop(board, limit);
+    return entries.map(entry => ({
+      address: entry.playerId,
+      score: entry.score,
+      timestamp: entry.timestamp,
+      level: entry.level,
+      enemies: entry.enemies,
+      gems: entry.gems
+    }));
   }
 
   /**
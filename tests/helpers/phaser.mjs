@@ -0,0 +1,75 @@
+import { createRequire } from "module"
+
+/**
+ * Just enough of Phaser's global for game objects to be built and stepped in Node -
+ * Sprite keeps position and data like Phaser does, every other call is accepted and ignored
+ * Key codes are Phaser's own table, so InputMap sees the same key names as in the game
+ */
+const require = createRequire(import.meta.url)
+const KeyCodes = require("phaser/src/input/keyboard/keys/KeyCodes")
+
+class Body {
+  constructor() {
+    this.moves = true
+    this.velocity = { x: 0, y: 0 }
+  }
+}
+
+const ignored = receiver => () => receiver
+
+class Sprite {
+  constructor(scene, x, y, texture) {
+    this.scene = scene
+    this.x = x
+    this.y = y
+    this.active = true
+    this.texture = { key: texture }
+    this.data = new Map()
+    return new Proxy(this, {
+      get: (target, key, receiver) => key in target ? Reflect.get(target, key, receiver) : ignored(receiver)
+    })
+  }
+
+  getData(key) {
+    return this.data.get(key)
+  }
+
+  setData(key, value) {
+    this.data.set(key, value)
+    return this
+  }
+}
+
+globalThis.Phaser = {
+  Physics: { Arcade: { Sprite, Body } },
+  Input: { Keyboard: { KeyCodes } },
+  Math: {
+    Clamp: (value, min, max) => Math.max(min, Math.min(max, value)),
+    Between: (min, max) => Math.floor(Math.random() * (max - min + 1)) + min
+  }
+}
+
+/**
+ * A scene that gives each object added to physics a Body
+ */
+export function createScene() {
+  const body = new Proxy(new Body(), {
+    get: (target, key, receiver) => key in target ? Reflect.get(target, key, receiver) : ignored(receiver)
+  })
+  return {
+    add: { existing: () => {} },
+    physics: { add: { existing: sprite => { sprite.body = body } } }
+  }
+}
+
+/**
+ * The game registry's get/set/remove, backed by a Map
+ */
+export function createRegistry(values = {}) {
+  const data = new Map(Object.entries(values))
+  return {
+    get: key => data.get(key),
+    set: (key, value) => data.set(key, value),
+    remove: key => data.delete(key)
+  }
+}
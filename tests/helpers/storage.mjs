@@ -0,0 +1,15 @@
+/**
+ * localStorage for Node - the profile, run saves and input settings all live in it
+ * Tests call clearStorage() so each starts from a fresh device
+ */
+const items = new Map()
+
+globalThis.localStorage = {
+  getItem: key => items.has(key) ? items.get(key) : null,
+  setItem: (key, value) => items.set(key, String(value)),
+  removeItem: key => items.delete(key)
+}
+
+export function clearStorage() {
+  items.clear()
+}
@@ -0,0 +1,78 @@
+import { test, beforeEach } from "node:test"
+import assert from "node:assert/strict"
+import "./helpers/phaser.mjs"
+import { clearStorage } from "./helpers/storage.mjs"
+import { loadModules } from "../scripts/headless.js"
+
+// Bundled per test so the cached bindings start unloaded, the way a fresh page load would
+const loadInputMap = async () => (await loadModules(`export { InputMap } from "./systems/InputMap"`)).InputMap
+const SETTINGS_KEY = "inputSettings"
+
+beforeEach(() => clearStorage())
+
+test("the default controls have no conflicts and every key is one Phaser knows", async () => {
+  const InputMap = await loadInputMap()
+  assert.deepEqual(InputMap.findConflicts(InputMap.DEFAULTS), [])
+  InputMap.ACTIONS.forEach(action => {
+    InputMap.DEFAULTS[action].keys.forEach(name => assert.notEqual(InputMap.getKeyCode(name), undefined, name))
+  })
+  assert.deepEqual(InputMap.getBindings(), InputMap.DEFAULTS)
+})
+
+test("binding a key that another action uses swaps them", async () => {
+  const InputMap = await loadInputMap()
+  const note = InputMap.bindKey("jump", 0, "W")
+
+  assert.equal(note, "W swapped with UP")
+  assert.deepEqual(InputMap.getKeys("jump"), ["W", "E"])
+  assert.deepEqual(InputMap.getKeys("climbUp"), ["UP", "SPACE"])
+  assert.deepEqual(InputMap.findConflicts(InputMap.getBindings()), [])
+})
+
+test("binding a key into an empty slot moves it there", async () => {
+  const InputMap = await loadInputMap()
+  const note = InputMap.bindKey("jump", 2, "N")
+
+  assert.equal(note, "N moved from MUTE")
+  assert.deepEqual(InputMap.getKeys("jump"), ["SPACE", "E", "N"])
+  assert.deepEqual(InputMap.getKeys("mute"), [])
+  assert.equal(InputMap.getActionForKeyCode(InputMap.getKeyCode("N")), "jump")
+})
+
+test("a gamepad button belongs to one action at a time", async () => {
+  const InputMap = await loadInputMap()
+  const note = InputMap.bindButton("jump", 1)
+
+  assert.equal(note, "Button moved from THROW")
+  assert.deepEqual(InputMap.getButtons("jump"), [1])
+  assert.deepEqual(InputMap.getButtons("fire"), [2])
+})
+
+test("rebound controls are saved and loaded back", async () => {
+  const first = await loadInputMap()
+  first.bindKey("fire", 0, "F")
+  first.bindButton("pause", 16)
+  const saved = first.getBindings()
+
+  const second = await loadInputMap()
+  assert.deepEqual(second.getBindings(), saved)
+  assert.deepEqual(second.getKeys("fire"), ["F", "V", "M"])
+})
+
+test("saved controls that conflict fall back to the defaults", async () => {
+  const bindings = JSON.parse(JSON.stringify((await loadInputMap()).DEFAULTS))
+  bindings.jump.keys = ["LEFT"]
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({ version: 1, bindings }))
+
+  const InputMap = await loadInputMap()
+  assert.deepEqual(InputMap.getBindings(), InputMap.DEFAULTS)
+})
+
+test("unknown keys in saved controls are dropped and missing actions get their defaults", async () => {
+  const bindings = { jump: { keys: ["SPACE", "NOT_A_KEY"], buttons: [0] } }
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({ version: 1, bindings }))
+
+  const InputMap = await loadInputMap()
+  assert.deepEqual(InputMap.getKeys("jump"), ["SPACE"])
+  assert.deepEqual(InputMap.getBindings().fire, InputMap.DEFAULTS.fire)
+})
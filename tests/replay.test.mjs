@@ -0,0 +1,88 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import "./helpers/storage.mjs"
+import { loadModules } from "../scripts/headless.js"
+
+const { ReplayManager, InputRecorder, InputPlayback, EMPTY_INPUT } = await loadModules(`
+  export { ReplayManager, InputRecorder, InputPlayback, EMPTY_INPUT } from "./systems/ReplaySystem"
+`)
+
+const STEP_MS = 1000 / 60
+const INPUT_KEYS = Object.keys(EMPTY_INPUT)
+
+// Every combination of the input flags
+const ALL_INPUTS = Array.from({ length: 1 << INPUT_KEYS.length }, (_, mask) =>
+  Object.fromEntries(INPUT_KEYS.map((key, bit) => [key, (mask & (1 << bit)) !== 0]))
+)
+
+function playAll(frames) {
+  const playback = new InputPlayback(frames)
+  const played = []
+  let frame
+  while ((frame = playback.next())) played.push(frame)
+  assert.ok(playback.isFinished())
+  return played
+}
+
+test("every input frame survives encode and decode", () => {
+  const masks = new Set()
+  ALL_INPUTS.forEach(input => {
+    const mask = ReplayManager.encodeInput(input)
+    masks.add(mask)
+    assert.deepEqual(ReplayManager.decodeInput(mask), input)
+  })
+  assert.equal(masks.size, ALL_INPUTS.length)
+  assert.equal(ReplayManager.encodeInput(EMPTY_INPUT), 0)
+})
+
+test("repeated frames are run-length encoded", () => {
+  const recorder = new InputRecorder(1, false)
+  const walking = { ...EMPTY_INPUT, right: true }
+  for (let i = 0; i < 120; i++) recorder.record(EMPTY_INPUT, STEP_MS)
+  recorder.record({ ...walking, jumpHeld: true, jumpJustPressed: true }, STEP_MS)
+  for (let i = 0; i < 30; i++) recorder.record(walking, STEP_MS)
+
+  assert.equal(recorder.getSegment().frames, "0.17*120,1e.17,2.17*30")
+  assert.equal(recorder.getFrameCount(), 151)
+})
+
+test("playback gives back every recorded frame in order", () => {
+  const recorder = new InputRecorder(3, true)
+  const recorded = []
+  for (let i = 0; i < 500; i++) {
+    // Runs of varying length, with the odd long step
+    const input = ALL_INPUTS[Math.floor(i / 7) % ALL_INPUTS.length]
+    const delta = i % 97 === 0 ? 33 : Math.round(STEP_MS)
+    recorder.record(input, delta)
+    recorded.push({ input, delta })
+  }
+
+  const segment = recorder.getSegment()
+  assert.equal(segment.level, 3)
+  assert.equal(segment.isBonusLevel, true)
+  assert.deepEqual(playAll(segment.frames), recorded)
+})
+
+test("an empty segment plays back nothing", () => {
+  const segment = new InputRecorder(1, false).getSegment()
+  assert.equal(segment.frames, "")
+  assert.deepEqual(playAll(segment.frames), [])
+})
+
+test("a replay file survives export and import", () => {
+  const recorder = new InputRecorder(1, false)
+  for (let i = 0; i < 10; i++) recorder.record({ ...EMPTY_INPUT, left: i % 2 === 0 }, STEP_MS)
+  const replay = {
+    version: ReplayManager.VERSION,
+    seed: 4242,
+    gameMode: "normal",
+    profile: ReplayManager.getProfile(),
+    recordedAt: 1700000000000,
+    finalScore: 1250,
+    segments: [recorder.getSegment()]
+  }
+
+  assert.deepEqual(ReplayManager.importReplay(JSON.stringify(replay)), JSON.parse(JSON.stringify(replay)))
+  assert.equal(ReplayManager.importReplay(JSON.stringify({ ...replay, version: 99 })), null)
+  assert.equal(ReplayManager.importReplay("not json"), null)
+})
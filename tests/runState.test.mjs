@@ -0,0 +1,107 @@
+import { test, beforeEach } from "node:test"
+import assert from "node:assert/strict"
+import { createRegistry } from "./helpers/phaser.mjs"
+import { clearStorage } from "./helpers/storage.mjs"
+import { loadModules } from "../scripts/headless.js"
+
+const { RunStateManager, RemixPlatform } = await loadModules(`
+  export { RunStateManager } from "./systems/RunState"
+  export { RemixPlatform } from "./utils/GamePlatform"
+`)
+
+function createState(overrides = {}) {
+  return {
+    version: RunStateManager.VERSION,
+    savedAt: 1700000000000,
+    seed: 123456789,
+    gameMode: "practice",
+    practiceStartLevel: 6,
+    runStartTime: 1699999000000,
+    level: 8,
+    isBonusLevel: false,
+    floor: 3,
+    playerTileX: 14,
+    score: 420,
+    accumulatedScore: 9800,
+    lives: 2,
+    livesEarned: 1,
+    chestsSinceEpic: { levelStart: 4, current: 5 },
+    shop: { gemsSpent: 30, chestRerolls: 1 },
+    levelProgress: { timeMs: 41250, livesLost: 1 },
+    gems: { totalCoins: 12, totalGems: 40, totalBlueGems: 3, totalDiamonds: 1, accumulatedDiamonds: 2 },
+    powerUps: { crystalBall: 0, cursedOrb: 3200, invincibility: 0 },
+    collectedPickups: [RunStateManager.getPickupKey("coin", 112.4, 2), RunStateManager.getPickupKey("gem", 480, 0)],
+    gameStats: {
+      treasureChestsOpened: 4,
+      enemyKills: { cat: 6, beetle: 2 },
+      totalEnemiesDefeated: 8,
+      highestFloor: 5,
+      livesLost: 2
+    },
+    layout: {
+      floorWidth: 24,
+      floors: [{ gapStart: -1, gapSize: 0 }, { gapStart: 9, gapSize: 3 }],
+      ladders: [[1, [4, 18]], [2, [11]]]
+    },
+    ...overrides
+  }
+}
+
+beforeEach(() => clearStorage())
+
+test("a saved run loads back unchanged", async () => {
+  const registry = createRegistry({ platform: new RemixPlatform() })
+  const state = createState()
+
+  await RunStateManager.save(registry, state)
+  assert.deepEqual(await RunStateManager.load(registry), state)
+})
+
+test("a cleared run doesn't load", async () => {
+  const registry = createRegistry({ platform: new RemixPlatform() })
+  await RunStateManager.save(registry, createState())
+  await RunStateManager.clear(registry)
+
+  assert.equal(await RunStateManager.load(registry), null)
+})
+
+test("a save from another version is discarded", async () => {
+  const registry = createRegistry({ platform: new RemixPlatform() })
+  await RunStateManager.save(registry, createState({ version: RunStateManager.VERSION + 1 }))
+
+  assert.equal(await RunStateManager.load(registry), null)
+  await RunStateManager.save(registry, createState({ version: RunStateManager.VERSION }))
+  assert.notEqual(await RunStateManager.load(registry), null)
+})
+
+test("resuming puts the run back in the registry", () => {
+  const state = createState()
+  const registry = createRegistry({ replayPlayback: {}, dailyChallengeDate: "2026-01-01" })
+  RunStateManager.prepareResume(registry, state)
+
+  assert.equal(registry.get("gameMode"), "practice")
+  assert.equal(registry.get("practiceStartLevel"), 6)
+  assert.equal(registry.get("dailyChallengeDate"), undefined)
+  assert.equal(registry.get("currentLevel"), 8)
+  assert.equal(registry.get("runSeed"), state.seed)
+  assert.equal(registry.get("playerLives"), 2)
+  assert.equal(registry.get("accumulatedScore"), 9800)
+  assert.equal(registry.get("totalGems"), 40)
+  assert.equal(registry.get("chestsSinceEpic"), 5)
+  assert.equal(registry.get("gemsSpent"), 30)
+  assert.equal(registry.get("levelLivesLost"), 1)
+  assert.equal(registry.get("replayPlayback"), undefined)
+  assert.equal(registry.get("resumeRunState"), state)
+  assert.equal(registry.get("resumedRun"), true)
+})
+
+test("saves from before the shop and star ratings resume with nothing spent", () => {
+  const state = createState({ chestsSinceEpic: undefined, shop: undefined, levelProgress: undefined })
+  const registry = createRegistry()
+  RunStateManager.prepareResume(registry, state)
+
+  assert.equal(registry.get("chestsSinceEpic"), 0)
+  assert.equal(registry.get("gemsSpent"), 0)
+  assert.equal(registry.get("chestRerolls"), 0)
+  assert.equal(registry.get("levelLivesLost"), 0)
+})
@@ -0,0 +1,86 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { loadModules } from "../scripts/headless.js"
+
+// ethers comes from the same bundle, so the wallet and the verifier share one copy
+const { ScoreAttestationManager, Wallet } = await loadModules(`
+  export { ScoreAttestationManager } from "./systems/ScoreAttestation"
+  export { Wallet } from "ethers"
+`)
+
+// Fixed keys so a failure reproduces with the same signatures
+const wallet = new Wallet("0x" + "11".repeat(32))
+const otherWallet = new Wallet("0x" + "22".repeat(32))
+
+function createSummary(overrides = {}) {
+  return {
+    player: wallet.address,
+    board: "normal",
+    score: 15400,
+    level: 12,
+    floor: 4,
+    seed: 987654321,
+    durationMs: 612000,
+    finishedAt: 1700000000000,
+    gameStats: {
+      treasureChestsOpened: 7,
+      totalEnemiesDefeated: 31,
+      highestFloor: 9,
+      livesLost: 2,
+      enemyKills: { cat: 20, beetle: 8, rex: 3 }
+    },
+    ...overrides
+  }
+}
+
+test("a signed summary verifies and recovers the player's wallet", async () => {
+  const attestation = await ScoreAttestationManager.sign(wallet, createSummary())
+  const check = ScoreAttestationManager.verify(attestation, { player: wallet.address.toLowerCase(), board: "normal", score: 15400, level: 12 })
+
+  assert.equal(check.valid, true)
+  assert.equal(check.signer, wallet.address)
+})
+
+test("the signature doesn't depend on the order enemy kills were counted in", async () => {
+  const first = await ScoreAttestationManager.sign(wallet, createSummary())
+  const reordered = createSummary({
+    gameStats: { ...createSummary().gameStats, enemyKills: { rex: 3, cat: 20, beetle: 8 } }
+  })
+
+  assert.equal(ScoreAttestationManager.verify({ summary: reordered, signature: first.signature }).valid, true)
+})
+
+test("posted values that weren't signed are rejected", async () => {
+  const attestation = await ScoreAttestationManager.sign(wallet, createSummary())
+
+  assert.equal(ScoreAttestationManager.verify(attestation, { score: 15401 }).reason, "Posted score does not match the signed summary")
+  assert.equal(ScoreAttestationManager.verify(attestation, { board: "beast" }).reason, "Posted board does not match the signed summary")
+  assert.equal(ScoreAttestationManager.verify(attestation, { player: otherWallet.address }).reason, "Player does not match the signed summary")
+})
+
+test("editing the signed summary breaks the signature", async () => {
+  const attestation = await ScoreAttestationManager.sign(wallet, createSummary())
+  const edited = { ...attestation, summary: { ...attestation.summary, score: 99999 } }
+  const editedKills = {
+    ...attestation,
+    summary: { ...attestation.summary, gameStats: { ...attestation.summary.gameStats, enemyKills: { cat: 21, beetle: 8, rex: 3 } } }
+  }
+
+  assert.equal(ScoreAttestationManager.verify(edited).reason, "Signed by a different wallet")
+  assert.equal(ScoreAttestationManager.verify(editedKills).valid, false)
+})
+
+test("a summary signed by another wallet is rejected", async () => {
+  const attestation = await ScoreAttestationManager.sign(otherWallet, createSummary())
+  const check = ScoreAttestationManager.verify(attestation)
+
+  assert.equal(check.valid, false)
+  assert.equal(check.signer, otherWallet.address)
+  assert.equal(check.reason, "Signed by a different wallet")
+})
+
+test("malformed attestations are rejected without throwing", () => {
+  assert.equal(ScoreAttestationManager.verify(null).reason, "Missing summary or signature")
+  assert.equal(ScoreAttestationManager.verify({ summary: createSummary() }).reason, "Missing summary or signature")
+  assert.equal(ScoreAttestationManager.verify({ summary: createSummary(), signature: "0x1234" }).reason, "Unreadable summary or signature")
+})
@@ -0,0 +1,67 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { loadGameSystems } from "../scripts/headless.js"
+
+const { GameRandom, SeededRandom } = await loadGameSystems()
+
+function draw(rng, count = 20) {
+  return Array.from({ length: count }, () => rng.next())
+}
+
+test("the same seed gives the same numbers", () => {
+  assert.deepEqual(draw(new SeededRandom(1234)), draw(new SeededRandom(1234)))
+  assert.notDeepEqual(draw(new SeededRandom(1234)), draw(new SeededRandom(1235)))
+})
+
+test("draws stay in range", () => {
+  const rng = new SeededRandom(99)
+  for (let i = 0; i < 1000; i++) {
+    const value = rng.next()
+    assert.ok(value >= 0 && value < 1)
+    const roll = rng.between(3, 7)
+    assert.ok(Number.isInteger(roll) && roll >= 3 && roll <= 7)
+  }
+})
+
+test("shuffle keeps every item and leaves the original alone", () => {
+  const items = [1, 2, 3, 4, 5, 6, 7, 8]
+  const shuffled = new SeededRandom(5).shuffle(items)
+  assert.deepEqual([...shuffled].sort((a, b) => a - b), items)
+  assert.deepEqual(items, [1, 2, 3, 4, 5, 6, 7, 8])
+  assert.deepEqual(shuffled, new SeededRandom(5).shuffle(items))
+})
+
+test("a level's streams repeat for the same run seed and level", () => {
+  GameRandom.setRunSeed(777)
+  GameRandom.beginLevel(4)
+  const first = { layout: draw(GameRandom.stream("layout")), behaviour: draw(GameRandom.stream("behaviour")) }
+
+  GameRandom.setRunSeed(777)
+  GameRandom.beginLevel(4)
+  const second = { layout: draw(GameRandom.stream("layout")), behaviour: draw(GameRandom.stream("behaviour")) }
+
+  assert.deepEqual(first, second)
+})
+
+test("drawing from one stream doesn't move another", () => {
+  GameRandom.setRunSeed(777)
+  GameRandom.beginLevel(4)
+  const untouched = draw(GameRandom.stream("chests"))
+
+  GameRandom.setRunSeed(777)
+  GameRandom.beginLevel(4)
+  draw(GameRandom.stream("behaviour"), 500)
+  draw(GameRandom.stream("enemies"), 500)
+  assert.deepEqual(draw(GameRandom.stream("chests")), untouched)
+})
+
+test("levels, bonus levels and run seeds each get their own streams", () => {
+  GameRandom.setRunSeed(777)
+  const levelSeed = GameRandom.getLevelSeed(4, false, "layout")
+  assert.notEqual(GameRandom.getLevelSeed(5, false, "layout"), levelSeed)
+  assert.notEqual(GameRandom.getLevelSeed(4, true, "layout"), levelSeed)
+  assert.notEqual(GameRandom.getLevelSeed(4, false, "enemies"), levelSeed)
+
+  GameRandom.setRunSeed(778)
+  assert.notEqual(GameRandom.getLevelSeed(4, false, "layout"), levelSeed)
+})
@@ -0,0 +1,34 @@
+import { test } from "node:test"
+import assert from "node:assert/strict"
+import { createScene } from "./helpers/phaser.mjs"
+import { loadModules } from "../scripts/headless.js"
+
+const { BaseBlu, GameRandom } = await loadModules(`
+  export { BaseBlu } from "./objects/BaseBlu"
+  export { GameRandom } from "./systems/SeededRandom"
+`)
+
+const STEP_MS = 1000 / 60
+
+function createBaseBlu() {
+  GameRandom.setRunSeed(42)
+  GameRandom.beginLevel(3)
+  const baseBlu = new BaseBlu(createScene(), 200, 400)
+  baseBlu.setPlatformBounds(0, 450)
+  return baseBlu
+}
+
+test("BaseBlu walks when time isn't frozen", () => {
+  const baseBlu = createBaseBlu()
+  const startX = baseBlu.x
+  for (let step = 0; step < 60; step++) baseBlu.update(step * STEP_MS, STEP_MS)
+  assert.notEqual(baseBlu.x, startX)
+})
+
+test("a frozen BaseBlu stays where it is", () => {
+  const baseBlu = createBaseBlu()
+  baseBlu.setData("frozen", true)
+  const startX = baseBlu.x
+  for (let step = 0; step < 300; step++) baseBlu.update(step * STEP_MS, STEP_MS)
+  assert.equal(baseBlu.x, startX)
+})